@@ -154,10 +154,11 @@ async function build() {
     -sMODULARIZE=1 \
     -sEXPORT_ES6=1 \
     -sALLOW_MEMORY_GROWTH=1 \
+    -sALLOW_TABLE_GROWTH=1 \
     -sWASM_BIGINT=1 \
     -sSINGLE_FILE=0 \
-    -sEXPORTED_RUNTIME_METHODS=ccall,cwrap,getValue,setValue,UTF8ToString,stringToUTF8,lengthBytesUTF8,writeArrayToMemory \
-    -sEXPORTED_FUNCTIONS=_sqlite3_open,_sqlite3_close,_sqlite3_exec,_sqlite3_prepare_v2,_sqlite3_step,_sqlite3_finalize,_sqlite3_column_count,_sqlite3_column_name,_sqlite3_column_type,_sqlite3_column_text,_sqlite3_column_int,_sqlite3_column_double,_sqlite3_column_blob,_sqlite3_column_bytes,_sqlite3_bind_text,_sqlite3_bind_int,_sqlite3_bind_double,_sqlite3_bind_blob,_sqlite3_bind_null,_sqlite3_errmsg,_sqlite3_libversion,_sqlite3_vec_init_manual,_sqlite3_serialize,_sqlite3_deserialize,_malloc,_free \
+    -sEXPORTED_RUNTIME_METHODS=ccall,cwrap,getValue,setValue,UTF8ToString,stringToUTF8,lengthBytesUTF8,writeArrayToMemory,addFunction,HEAPU8 \
+    -sEXPORTED_FUNCTIONS=_sqlite3_open,_sqlite3_open_v2,_sqlite3_vfs_find,_sqlite3_vfs_register,_sqlite3_close,_sqlite3_exec,_sqlite3_prepare_v2,_sqlite3_step,_sqlite3_finalize,_sqlite3_column_count,_sqlite3_column_name,_sqlite3_column_type,_sqlite3_column_text,_sqlite3_column_int,_sqlite3_column_double,_sqlite3_column_blob,_sqlite3_column_bytes,_sqlite3_bind_text,_sqlite3_bind_int,_sqlite3_bind_double,_sqlite3_bind_blob,_sqlite3_bind_null,_sqlite3_errmsg,_sqlite3_libversion,_sqlite3_vec_init_manual,_sqlite3_serialize,_sqlite3_deserialize,_malloc,_free \
     -sEXPORT_NAME=sqlite3InitModule \
     -sSTACK_SIZE=512KB \
     -sINITIAL_MEMORY=16MB \
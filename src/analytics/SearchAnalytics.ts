@@ -340,6 +340,8 @@ export class SearchAnalytics {
   // Подписчики на события
   private eventListeners = new Map<string, Array<(event: AnalyticsEvent) => void>>();
 
+  private aggregationTimer?: ReturnType<typeof setInterval>;
+
   constructor(config: Partial<SearchAnalyticsConfig> = {}) {
     this.config = {
       enabled: true,
@@ -736,6 +738,17 @@ export class SearchAnalytics {
     }
   }
 
+  /**
+   * Остановка таймера агрегации; после вызова экземпляр больше не нужен
+   */
+  dispose(): void {
+    if (this.aggregationTimer !== undefined) {
+      clearInterval(this.aggregationTimer);
+      this.aggregationTimer = undefined;
+    }
+    this.eventListeners.clear();
+  }
+
   /**
    * Очистка старых данных
    */
@@ -1001,6 +1014,20 @@ export class SearchAnalytics {
     console.warn(`Analytics Alert [${alertType}]:`, data);
   }
 
+  /**
+   * Запрос в том виде, в каком его можно сохранять (privacy.hashQueries)
+   */
+  storableQuery(query: string): string {
+    return this.config.privacy.hashQueries ? this.hashQuery(query) : query;
+  }
+
+  /**
+   * Идентификатор сессии в том виде, в каком его можно сохранять (privacy.anonymizeSessions)
+   */
+  storableSessionId(sessionId: string): string {
+    return this.anonymizeSession(sessionId);
+  }
+
   /**
    * Анонимизация сессии
    */
@@ -1418,7 +1445,7 @@ export class SearchAnalytics {
    * Запуск таймера агрегации
    */
   private startAggregationTimer(): void {
-    setInterval(() => {
+    this.aggregationTimer = setInterval(() => {
       this.aggregateMetrics();
       this.cleanupOldData();
       this.realtimeStats.recentErrors = Math.max(0, this.realtimeStats.recentErrors - 1);
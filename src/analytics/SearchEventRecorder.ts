@@ -0,0 +1,205 @@
+/**
+ * Запись событий поиска для Database
+ *
+ * Оборачивает каждый вызов search* в Database: измеряет задержку, передает
+ * результаты, производительность и ошибки в SearchAnalytics и отправляет
+ * события в таблицу search_events через воркер. Запись в SQLite не блокирует
+ * поиск: ошибки сохранения только логируются. Запрос и идентификатор сессии
+ * сохраняются с учетом настроек privacy из SearchAnalytics.
+ */
+
+import type { SearchAnalytics, UserInteractionEvent } from './SearchAnalytics.js';
+import type { SearchEventMethod, SearchEventRecord } from '../types/worker.js';
+import type { SearchResponse, SearchStrategy } from '../types/search.js';
+
+/**
+ * Приемник событий (в Database - RPC recordSearchEvents)
+ */
+export type SearchEventSink = (events: SearchEventRecord[]) => Promise<void>;
+
+/**
+ * Минимальная форма ответа любого метода search*
+ */
+export interface TrackedSearchResponse {
+  results: Array<{ score: number }>;
+  totalResults?: number;
+  searchTime?: number;
+  strategy?: string;
+  fusion?: string;
+  queryId?: string;
+  debugInfo?: any;
+}
+
+/**
+ * Что известно о вызове до его выполнения
+ */
+export interface TrackedSearchCall {
+  method: SearchEventMethod;
+  query?: string;
+  collection?: string;
+}
+
+/**
+ * Детали взаимодействия с результатом
+ */
+export interface InteractionDetails {
+  targetId?: string;
+  targetRank?: number;
+  dwellTime?: number;  // мс
+  metadata?: Record<string, any>;
+}
+
+// Методы без собственной стратегии в ответе
+const DEFAULT_STRATEGIES: Record<SearchEventMethod, string> = {
+  search: 'hybrid',
+  searchText: 'hybrid',
+  searchAdvanced: 'hybrid',
+  searchGlobal: 'hybrid',
+  searchSemantic: 'semantic',
+  searchWithLLM: 'hybrid'
+};
+
+export class SearchEventRecorder {
+  readonly sessionId: string;
+  private pending = new Set<Promise<void>>();
+
+  constructor(
+    private analytics: SearchAnalytics,
+    private sink: SearchEventSink,
+    sessionId?: string
+  ) {
+    this.sessionId = sessionId ?? createId('session');
+  }
+
+  /**
+   * Выполнить поиск и записать событие о нем
+   *
+   * Ответ получает queryId для последующих trackInteraction; ошибка
+   * записывается и пробрасывается дальше без изменений.
+   */
+  async track<T extends TrackedSearchResponse>(call: TrackedSearchCall, run: () => Promise<T>): Promise<T> {
+    const queryId = createId('query');
+    const startTime = performance.now();
+
+    let response: T;
+    try {
+      response = await run();
+    } catch (error) {
+      const latencyMs = performance.now() - startTime;
+      const message = error instanceof Error ? error.message : String(error);
+
+      this.analytics.trackError(
+        'search_execution',
+        (error as any)?.code ?? 'SEARCH_FAILED',
+        message,
+        { method: call.method, collection: call.collection },
+        this.sessionId,
+        queryId
+      );
+      this.persist({ ...this.baseEvent(call, queryId), latencyMs, error: message });
+      throw error;
+    }
+
+    const latencyMs = performance.now() - startTime;
+    const resultCount = response.results.length;
+    const strategy = response.strategy ?? DEFAULT_STRATEGIES[call.method];
+
+    this.analytics.trackResults(queryId, this.sessionId, {
+      results: response.results,
+      totalResults: response.totalResults ?? resultCount,
+      searchTime: response.searchTime ?? latencyMs,
+      strategy: strategy as SearchStrategy,
+      fusion: response.fusion
+    } as SearchResponse);
+    this.analytics.trackPerformance(queryId, this.sessionId, {
+      queryProcessingTime: 0,
+      analysisTime: response.debugInfo?.timings?.analysis ?? 0,
+      searchExecutionTime: response.searchTime ?? latencyMs,
+      resultProcessingTime: response.debugInfo?.timings?.processing ?? 0,
+      totalTime: latencyMs,
+      indexUsage: indexUsage(response, strategy)
+    });
+
+    this.persist({
+      ...this.baseEvent(call, queryId),
+      strategy,
+      latencyMs,
+      resultCount,
+      zeroResults: resultCount === 0
+    });
+
+    response.queryId = queryId;
+    return response;
+  }
+
+  /**
+   * Записать взаимодействие пользователя с результатами запроса queryId
+   *
+   * В отличие от событий поиска, дожидается сохранения.
+   */
+  async trackInteraction(
+    queryId: string,
+    action: UserInteractionEvent['action'],
+    details: InteractionDetails = {}
+  ): Promise<void> {
+    this.analytics.trackInteraction(queryId, this.sessionId, action, {
+      targetId: details.targetId,
+      targetRank: details.targetRank,
+      dwell_time: details.dwellTime,
+      metadata: details.metadata
+    });
+
+    await this.sink([{
+      type: 'interaction',
+      queryId,
+      sessionId: this.analytics.storableSessionId(this.sessionId),
+      timestamp: Date.now(),
+      action,
+      ...details
+    }]);
+  }
+
+  /**
+   * Дождаться сохранения уже записанных событий поиска
+   */
+  async flush(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+
+  private baseEvent(call: TrackedSearchCall, queryId: string): SearchEventRecord {
+    return {
+      type: 'search',
+      queryId,
+      sessionId: this.analytics.storableSessionId(this.sessionId),
+      timestamp: Date.now(),
+      method: call.method,
+      query: call.query === undefined ? undefined : this.analytics.storableQuery(call.query),
+      collection: call.collection
+    };
+  }
+
+  private persist(event: SearchEventRecord): void {
+    const write = this.sink([event])
+      .catch(error => console.warn('Failed to persist search event:', error))
+      .finally(() => this.pending.delete(write));
+    this.pending.add(write);
+  }
+}
+
+/**
+ * Какие индексы использовал поиск, по debugInfo ответа
+ */
+function indexUsage(response: TrackedSearchResponse, strategy: string): { fts: boolean; vector: boolean; metadata: boolean } {
+  const debug = response.debugInfo;
+  if (debug?.indexUsage) {
+    return { fts: !!debug.indexUsage.ftsIndex, vector: !!debug.indexUsage.vectorIndex, metadata: false };
+  }
+  if (debug && typeof debug.ftsCount === 'number') {
+    return { fts: debug.ftsCount > 0, vector: debug.vectorCount > 0, metadata: false };
+  }
+  return { fts: strategy !== 'semantic', vector: strategy !== 'keyword', metadata: false };
+}
+
+function createId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+}
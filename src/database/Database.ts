@@ -8,12 +8,20 @@
  */
 
 import { WorkerRPC, createWorkerRPC } from '../utils/rpc.js';
+import { PushIterator } from '../utils/pushIterator.js';
+import { readChunks, resolveChunkSize, sourceSize, concatChunks, type ChunkSource } from '../utils/chunkedTransfer.js';
+import { TabCoordinator } from '../utils/tabCoordinator.js';
 import { Statement } from './Statement.js';
+import { SearchAnalytics } from '../analytics/SearchAnalytics.js';
+import { SearchEventRecorder, type InteractionDetails, type TrackedSearchCall } from '../analytics/SearchEventRecorder.js';
+import type { UserInteractionEvent } from '../analytics/SearchAnalytics.js';
 import type {
   DatabaseAPI,
   StatementAPI,
   DatabaseConfig,
   DatabaseState,
+  DatabaseEventMap,
+  SearchAnalyticsOptions,
   StatementResult,
   ExecOptions,
   SQLParams,
@@ -37,10 +45,36 @@ import type {
   QueryEmbeddingResult,
   BatchQueryEmbeddingResult,
   PipelinePerformanceStats,
-  ModelStatusResult
+  ModelStatusResult,
+  UpdateDocumentParams,
+  UpdateDocumentResult,
+  DeleteDocumentParams,
+  DeleteDocumentsParams,
+  DeleteDocumentsResult,
+  CollectionInfo,
+  RenameCollectionParams,
+  SetEmbeddingApiKeyParams,
+  SearchEventFilter,
+  SearchEventRecord,
+  ZeroResultQueriesParams,
+  ZeroResultQuery,
+  EmbeddingSchedulerConfig,
+  WorkerEvent,
+  InsertDocumentOptions,
+  InsertDocumentResult,
+  InsertChunkedDocumentParams,
+  InsertChunkedDocumentResult,
+  CallLLMResult,
+  CallLLMStreamChunk,
+  StorageBackendPreference,
+  ExportCollectionParams,
+  ImportCollectionParams,
+  ImportCollectionResult,
+  DatabaseTransferOptions
 } from '../types/worker.js';
 import type {
-  TextSearchOptions
+  TextSearchOptions,
+  GlobalSearchOptions
 } from '../types/search.js';
 import { 
   DatabaseError, 
@@ -64,6 +98,16 @@ import {
   validateSQL as validateSQLQuery
 } from '../types/sql.js';
 
+// Matches the SearchAnalytics default
+const DEFAULT_ANALYTICS_RETENTION_DAYS = 30;
+
+// Worker event types re-emitted by Database, with their public names
+const WORKER_EVENT_NAMES: Record<string, keyof DatabaseEventMap> = {
+  embedding_progress: 'embeddingProgress',
+  embedding_completed: 'embeddingCompleted',
+  database_changed: 'change'
+};
+
 export class Database implements SQLDatabase {
   private state: DatabaseState;
   private workerRPC: WorkerRPC | null = null;
@@ -71,9 +115,27 @@ export class Database implements SQLDatabase {
   private compatConfig: SQLCompatConfig;
   private rowsModified = 0;
   private activeStatements = new Set<Statement>();
+  private analyticsOptions?: SearchAnalyticsOptions;
+  private searchAnalytics: SearchAnalytics | null = null;
+  private searchEvents: SearchEventRecorder | null = null;
+  private schedulerConfig?: EmbeddingSchedulerConfig;
+  private eventListeners = new Map<keyof DatabaseEventMap, Set<(data: any) => void>>();
+  private llmStreamCounter = 0;
+  private transferCounter = 0;
+  private vfs: DatabaseConfig['vfs'];
+  private storagePreference?: StorageBackendPreference;
 
   constructor(config: DatabaseConfig = {}) {
     const finalConfig = { ...DEFAULT_DATABASE_CONFIG, ...config };
+    this.vfs = finalConfig.vfs;
+    this.storagePreference = config.storage;
+
+    if (config.analytics) {
+      this.analyticsOptions = config.analytics === true ? {} : config.analytics;
+    }
+    if (config.embeddingScheduler) {
+      this.schedulerConfig = config.embeddingScheduler === true ? {} : config.embeddingScheduler;
+    }
     
     this.state = {
       isOpen: false,
@@ -268,8 +330,18 @@ export class Database implements SQLDatabase {
 
   /**
    * Export database as binary data asynchronously (enhanced API)
+   *
+   * The image is sent from the worker in chunks, so large databases don't
+   * need one huge message and the call only times out if the worker goes quiet.
+   *
+   * @example
+   * ```typescript
+   * const data = await db.exportAsync({
+   *   onProgress: p => console.log(`${p.bytesProcessed}/${p.totalBytes}`)
+   * });
+   * ```
    */
-  async exportAsync(): Promise<Uint8Array> {
+  async exportAsync(options: DatabaseTransferOptions = {}): Promise<Uint8Array> {
     if (!this.state.isOpen) {
       throw new SQLDatabaseError('Database is not open');
     }
@@ -278,12 +350,93 @@ export class Database implements SQLDatabase {
       throw new SQLDatabaseError('Worker not available');
     }
 
+    const chunks: Uint8Array[] = [];
     try {
-      return await this.workerRPC.export();
+      await this._runExportStream(options, chunk => chunks.push(chunk)).done;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new SQLDatabaseError(`Database export failed: ${message}`);
     }
+    return concatChunks(chunks);
+  }
+
+  /**
+   * Export the database as a stream of chunks
+   *
+   * Chunks are buffered as the worker sends them. Cancelling the stream or
+   * aborting the signal stops the export in the worker.
+   *
+   * @example
+   * ```typescript
+   * // Straight into an OPFS file
+   * const root = await navigator.storage.getDirectory();
+   * const file = await root.getFileHandle('backup.db', { create: true });
+   * await db.exportStream().pipeTo(await file.createWritable());
+   * ```
+   */
+  exportStream(options: DatabaseTransferOptions = {}): ReadableStream<Uint8Array> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    let run: ReturnType<Database['_runExportStream']> | null = null;
+    let cancelled = false;
+    return new ReadableStream<Uint8Array>({
+      start: controller => {
+        run = this._runExportStream(options, chunk => controller.enqueue(chunk));
+        run.done.then(
+          () => {
+            if (!cancelled) {
+              controller.close();
+            }
+          },
+          error => {
+            const message = error instanceof Error ? error.message : String(error);
+            controller.error(new DatabaseError(`Database export failed: ${message}`));
+          }
+        );
+      },
+      cancel: () => {
+        cancelled = true;
+        run?.cancel();
+      }
+    });
+  }
+
+  /**
+   * Replace the database with an image from a buffer, Blob or stream
+   *
+   * The image is sent to the worker in chunks. The database is only replaced
+   * once the last chunk has arrived, so aborting before that leaves it unchanged.
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * await db.importAsync(file, {
+   *   signal: controller.signal,
+   *   onProgress: p => progressBar.set(p.bytesProcessed / p.totalBytes)
+   * });
+   * ```
+   */
+  async importAsync(source: ChunkSource, options: DatabaseTransferOptions = {}): Promise<void> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      await this._runImportStream(source, options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Database import failed: ${message}`);
+    }
   }
 
   /**
@@ -299,6 +452,7 @@ export class Database implements SQLDatabase {
       }
     }
     this.activeStatements.clear();
+    this.disableAnalytics();
 
     if (this.workerRPC) {
       try {
@@ -335,6 +489,10 @@ export class Database implements SQLDatabase {
     }
     this.activeStatements.clear();
 
+    // Let pending search events reach the worker before it closes
+    await this.searchEvents?.flush();
+    this.disableAnalytics();
+
     if (this.workerRPC) {
       try {
         await this.workerRPC.close();
@@ -438,7 +596,11 @@ export class Database implements SQLDatabase {
     }
 
     try {
-      return await this.workerRPC.search(request);
+      const workerRPC = this.workerRPC;
+      return await this._trackSearch(
+        { method: 'search', query: request.query.text, collection: request.collection },
+        () => workerRPC.search(request)
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new DatabaseError(`Search failed: ${message}`);
@@ -460,16 +622,23 @@ export class Database implements SQLDatabase {
       throw new DatabaseError('Worker not available');
     }
 
-    try {
-      return await this.workerRPC.searchText({ query, options });
-    } catch (error) {
-      // Enhanced error handling with graceful degradation
-      return this._handleSearchError(error, query, options);
-    }
+    const workerRPC = this.workerRPC;
+    return this._trackSearch({ method: 'searchText', query, collection: options?.collection }, async () => {
+      try {
+        return await workerRPC.searchText({ query, options });
+      } catch (error) {
+        // Enhanced error handling with graceful degradation
+        return this._handleSearchError(error, query, options);
+      }
+    });
   }
 
   /**
    * Advanced search with explicit strategy control (Task 6.1)
+   *
+   * Across several collections, scores are min-max normalized per collection
+   * before merging, as in searchGlobal, and each result carries its `collection`.
+   *
    * @param params - Advanced search parameters
    * @returns Promise<EnhancedSearchResponse>
    */
@@ -483,7 +652,11 @@ export class Database implements SQLDatabase {
     }
 
     try {
-      return await this.workerRPC.searchAdvanced(params);
+      const workerRPC = this.workerRPC;
+      return await this._trackSearch(
+        { method: 'searchAdvanced', query: params.query, collection: params.collections?.length === 1 ? params.collections[0] : undefined },
+        () => workerRPC.searchAdvanced(params)
+      );
     } catch (error) {
       return this._handleAdvancedSearchError(error, params);
     }
@@ -491,11 +664,30 @@ export class Database implements SQLDatabase {
 
   /**
    * Global search across all collections (Task 6.1)
+   *
+   * Scores are min-max normalized per collection before merging, so
+   * `crossCollectionBoosts` multiply comparable values. A query `vector`
+   * makes the search hybrid in collections of matching dimensions; the others
+   * are searched by text only. Diversification supports the round_robin
+   * algorithm with `maxPerCollection` and rejects other settings.
+   *
    * @param query - Search query string
    * @param options - Global search options
    * @returns Promise<GlobalSearchResponse>
+   *
+   * @example
+   * ```typescript
+   * const response = await db.searchGlobal('vector index', {
+   *   mergeStrategy: 'interleave',
+   *   crossCollectionBoosts: { manuals: 1.5 },
+   *   collectionFilter: name => !name.startsWith('tmp_'),
+   *   vector: queryEmbedding,
+   *   fusionMethod: 'rrf',
+   *   diversification: { enabled: true, maxPerCollection: 3 }
+   * });
+   * ```
    */
-  async searchGlobal(query: string, options?: any): Promise<GlobalSearchResponse> {
+  async searchGlobal(query: string, options?: GlobalSearchOptions): Promise<GlobalSearchResponse> {
     if (!this.state.isOpen) {
       throw new DatabaseError('Database is not open');
     }
@@ -505,7 +697,16 @@ export class Database implements SQLDatabase {
     }
 
     try {
-      return await this.workerRPC.searchGlobal({ query, options });
+      const workerRPC = this.workerRPC;
+      return await this._trackSearch({ method: 'searchGlobal', query }, async () => {
+        // Functions cannot be posted to the worker; resolve the filter here
+        const { collectionFilter, ...workerOptions } = options ?? {};
+        const collections = collectionFilter
+          ? (await workerRPC.listCollections()).map(info => info.name).filter(collectionFilter)
+          : undefined;
+
+        return await workerRPC.searchGlobal({ query, collections, options: workerOptions });
+      });
     } catch (error) {
       return this._handleGlobalSearchError(error, query, options);
     }
@@ -635,6 +836,18 @@ export class Database implements SQLDatabase {
    * console.log(smartSearch.results);        // Search results
    * console.log(smartSearch.summary);        // AI-generated summary
    * ```
+   *
+   * @example
+   * ```typescript
+   * // Show the summary while it is generated; the signal cancels the LLM calls
+   * const controller = new AbortController();
+   * const smartSearch = await db.searchWithLLM('AI docs', {
+   *   summarizeResults: true,
+   *   llmOptions: { provider: 'openai', model: 'gpt-4o-mini', apiKey: 'sk-...' },
+   *   onSummaryDelta: delta => output.append(delta),  // Raw JSON text of the summary
+   *   signal: controller.signal
+   * });
+   * ```
    */
   async searchWithLLM(
     query: string,
@@ -643,12 +856,14 @@ export class Database implements SQLDatabase {
       summarizeResults?: boolean;
       searchOptions?: import('../types/search.js').TextSearchOptions;
       llmOptions?: {
-        provider?: string;
+        provider?: 'openai' | 'anthropic' | 'openrouter' | 'custom';
         model?: string;
         apiKey?: string;
         endpoint?: string;
         temperature?: number;
       };
+      onSummaryDelta?: (delta: string) => void;
+      signal?: AbortSignal;
     }
   ): Promise<import('../types/worker.js').LLMSearchResponseResult> {
     if (!this.state.isOpen) {
@@ -659,11 +874,31 @@ export class Database implements SQLDatabase {
       throw new DatabaseError('Worker not available');
     }
 
+    const { onSummaryDelta, signal, ...searchOptions } = options ?? {};
+    if (signal?.aborted) {
+      throw new DatabaseError('LLM search aborted');
+    }
+
+    const workerRPC = this.workerRPC;
+    const streamId = onSummaryDelta || signal ? this.nextLLMStreamId() : undefined;
+    const cancel = () => {
+      workerRPC.cancelLLMStream({ streamId: streamId! }).catch(() => undefined);
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
     try {
-      return await this.workerRPC.searchWithLLM({ query, options });
+      return await this._trackSearch(
+        { method: 'searchWithLLM', query, collection: searchOptions.searchOptions?.collection },
+        () => workerRPC.searchWithLLM(
+          { query, streamId, options: options ? searchOptions : undefined },
+          onSummaryDelta && (progress => onSummaryDelta(progress.delta))
+        )
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new DatabaseError(`LLM search failed: ${message}`);
+    } finally {
+      signal?.removeEventListener('abort', cancel);
     }
   }
 
@@ -734,6 +969,105 @@ export class Database implements SQLDatabase {
     }
   }
 
+  /**
+   * Streamed LLM call
+   *
+   * Yields text deltas as the provider generates them, then a final `done`
+   * chunk with the same result `callLLM` returns. Aborting the signal or
+   * leaving the loop early cancels the request in the worker.
+   *
+   * @param prompt - The prompt to send to the LLM
+   * @param options - LLM provider configuration; `timeout` limits silence between deltas
+   * @returns AsyncIterableIterator<CallLLMStreamChunk>
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * for await (const chunk of db.callLLMStream('Explain vector search', {
+   *   provider: 'anthropic',
+   *   model: 'claude-3-5-haiku-latest',
+   *   apiKey: 'sk-ant-...',
+   *   signal: controller.signal
+   * })) {
+   *   if (chunk.type === 'delta') {
+   *     output.append(chunk.text);
+   *   } else {
+   *     console.log(chunk.result.usage);
+   *   }
+   * }
+   * ```
+   */
+  callLLMStream(
+    prompt: string,
+    options?: {
+      provider?: 'openai' | 'anthropic' | 'openrouter' | 'custom';
+      model?: string;
+      apiKey?: string;
+      endpoint?: string;
+      temperature?: number;
+      maxTokens?: number;
+      timeout?: number;
+      systemPrompt?: string;
+      signal?: AbortSignal;
+    }
+  ): AsyncIterableIterator<CallLLMStreamChunk> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    const workerRPC = this.workerRPC;
+    const { signal, ...llmOptions } = options ?? {};
+    const streamId = this.nextLLMStreamId();
+    let settled = false;
+
+    const cancel = () => {
+      if (!settled) {
+        settled = true;
+        workerRPC.cancelLLMStream({ streamId }).catch(() => undefined);
+      }
+    };
+
+    const stream = new PushIterator<CallLLMStreamChunk>(cancel);
+    const abort = () => {
+      stream.fail(new DatabaseError('LLM stream aborted'));
+      cancel();
+    };
+
+    if (signal?.aborted) {
+      stream.fail(new DatabaseError('LLM stream aborted'));
+      return stream;
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+
+    workerRPC.callLLMStream(
+      { prompt, streamId, options: options ? llmOptions : undefined },
+      progress => stream.push({ type: 'delta', text: progress.delta })
+    ).then(
+      (result: CallLLMResult) => {
+        settled = true;
+        stream.push({ type: 'done', result });
+        stream.end();
+      },
+      error => {
+        settled = true;
+        const message = error instanceof Error ? error.message : String(error);
+        stream.fail(new DatabaseError(`LLM stream failed: ${message}`));
+      }
+    ).finally(() => {
+      signal?.removeEventListener('abort', abort);
+    });
+
+    return stream;
+  }
+
+  private nextLLMStreamId(): string {
+    return `llm_stream_${++this.llmStreamCounter}_${Date.now()}`;
+  }
+
   // Task 6.2: Internal Embedding Pipeline API
   // ============================================================================================
 
@@ -941,9 +1275,18 @@ export class Database implements SQLDatabase {
   }
 
   /**
-   * Get embedding status for a collection
+   * Supply the API key for a collection's embedding provider
+   *
+   * API keys are never stored in the database, so after a reload inserts into
+   * API-backed collections are queued until the key is set again.
+   *
+   * @example
+   * ```typescript
+   * const db = await initLocalRetrieve('opfs:/myapp/search.db');
+   * await db.setEmbeddingApiKey({ collection: 'articles', apiKey: getKeyFromVault() });
+   * ```
    */
-  async getCollectionEmbeddingStatus(collection: string): Promise<import('../types/worker.js').CollectionEmbeddingStatusResult> {
+  async setEmbeddingApiKey(params: SetEmbeddingApiKeyParams): Promise<void> {
     if (!this.state.isOpen) {
       throw new DatabaseError('Database is not open');
     }
@@ -953,29 +1296,17 @@ export class Database implements SQLDatabase {
     }
 
     try {
-      return await this.workerRPC.getCollectionEmbeddingStatus(collection);
+      await this.workerRPC.setEmbeddingApiKey(params);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      throw new DatabaseError(`Failed to get collection embedding status: ${message}`);
+      throw new DatabaseError(`Setting embedding API key failed: ${message}`);
     }
   }
 
   /**
-   * Insert a document with automatic embedding generation
+   * Get document, embedding and storage statistics for a collection
    */
-  async insertDocumentWithEmbedding(params: {
-    collection: string;
-    document: {
-      id?: string;
-      title?: string;
-      content: string;
-      metadata?: Record<string, any>;
-    };
-    options?: {
-      generateEmbedding?: boolean;
-      embeddingOptions?: import('../embedding/types.js').EmbeddingRequestOptions;
-    };
-  }): Promise<{ id: string; embeddingGenerated: boolean }> {
+  async getCollectionInfo(name: string): Promise<CollectionInfo> {
     if (!this.state.isOpen) {
       throw new DatabaseError('Database is not open');
     }
@@ -985,52 +1316,24 @@ export class Database implements SQLDatabase {
     }
 
     try {
-      return await this.workerRPC.insertDocumentWithEmbedding(params);
+      return await this.workerRPC.getCollectionInfo(name);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      throw new DatabaseError(`Document insertion with embedding failed: ${message}`);
+      throw new DatabaseError(`Failed to get collection info: ${message}`);
     }
   }
 
   /**
-   * Batch insert multiple documents with automatic transaction management
-   *
-   * FIXED: Transaction now handled on worker side where inserts actually happen!
-   *
-   * Benefits:
-   * - Reliability: Prevents FTS5 lock contention errors
-   * - Performance: 10-100x faster than sequential inserts
-   * - Atomicity: All documents inserted or none (rollback on error)
-   * - Correctness: Transaction on same connection as inserts
+   * List all collections with their statistics
    *
    * @example
    * ```typescript
-   * const results = await db.batchInsertDocuments({
-   *   collection: 'chunks',
-   *   documents: [
-   *     { id: 'chunk1', content: 'First chunk...' },
-   *     { id: 'chunk2', content: 'Second chunk...' },
-   *     { id: 'chunk3', content: 'Third chunk...' }
-   *   ],
-   *   options: { generateEmbedding: false }
-   * });
-   *
-   * console.log(`Inserted ${results.length} documents`);
+   * for (const info of await db.listCollections()) {
+   *   console.log(info.name, info.documentCount, info.pendingEmbeddingCount);
+   * }
    * ```
    */
-  async batchInsertDocuments(params: {
-    collection: string;
-    documents: Array<{
-      id?: string;
-      title?: string;
-      content: string;
-      metadata?: Record<string, any>;
-    }>;
-    options?: {
-      generateEmbedding?: boolean;
-      embeddingOptions?: import('../embedding/types.js').EmbeddingRequestOptions;
-    };
-  }): Promise<Array<{ id: string; embeddingGenerated: boolean }>> {
+  async listCollections(): Promise<CollectionInfo[]> {
     if (!this.state.isOpen) {
       throw new DatabaseError('Database is not open');
     }
@@ -1039,30 +1342,25 @@ export class Database implements SQLDatabase {
       throw new DatabaseError('Worker not available');
     }
 
-    // Call worker's batchInsertDocuments which handles transaction on worker side
-    // CRITICAL: Worker has its own SQLite connection - transaction must be there!
     try {
-      return await this.workerRPC.batchInsertDocuments(params);
+      return await this.workerRPC.listCollections();
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      throw new DatabaseError(`Batch insert failed: ${message}`);
+      throw new DatabaseError(`Failed to list collections: ${message}`);
     }
   }
 
   /**
-   * Perform semantic search on a collection
+   * Drop a collection with its documents, FTS rows, vectors and queued embeddings
+   *
+   * The 'default' collection cannot be dropped.
+   *
+   * @example
+   * ```typescript
+   * await db.dropCollection('scratch');
+   * ```
    */
-  async searchSemantic(params: {
-    collection: string;
-    query: string;
-    options?: {
-      limit?: number;
-      similarityThreshold?: number;
-      includeEmbeddings?: boolean;
-      filters?: Record<string, any>;
-      generateQueryEmbedding?: boolean;
-    };
-  }): Promise<SearchResponse> {
+  async dropCollection(name: string): Promise<void> {
     if (!this.state.isOpen) {
       throw new DatabaseError('Database is not open');
     }
@@ -1072,23 +1370,22 @@ export class Database implements SQLDatabase {
     }
 
     try {
-      return await this.workerRPC.searchSemantic(params);
+      await this.workerRPC.dropCollection(name);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      throw new DatabaseError(`Semantic search failed: ${message}`);
+      throw new DatabaseError(`Collection drop failed: ${message}`);
     }
   }
 
-  // ====================================
-  // Phase 5: Embedding Queue Management
-  // ====================================
-
   /**
-   * Add documents to the embedding generation queue (Phase 5)
-   * @param params - Queue parameters including collection, documents, and priority
-   * @returns Promise<number> - Number of documents added to queue
+   * Rename a collection, keeping its documents, vectors and queued embeddings
+   *
+   * @example
+   * ```typescript
+   * await db.renameCollection({ from: 'drafts', to: 'articles' });
+   * ```
    */
-  async enqueueEmbedding(params: Parameters<import('../utils/rpc').WorkerRPC['enqueueEmbedding']>[0]): Promise<number> {
+  async renameCollection(params: RenameCollectionParams): Promise<void> {
     if (!this.state.isOpen) {
       throw new DatabaseError('Database is not open');
     }
@@ -1098,19 +1395,17 @@ export class Database implements SQLDatabase {
     }
 
     try {
-      return await this.workerRPC.enqueueEmbedding(params);
+      await this.workerRPC.renameCollection(params);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      throw new DatabaseError(`Embedding queue enqueue failed: ${message}`);
+      throw new DatabaseError(`Collection rename failed: ${message}`);
     }
   }
 
   /**
-   * Process pending embedding queue items (Phase 5)
-   * @param params - Optional processing parameters including collection filter and batch size
-   * @returns Promise<QueueProcessResult> - Processing results
+   * Get embedding status for a collection
    */
-  async processEmbeddingQueue(params?: Parameters<import('../utils/rpc').WorkerRPC['processEmbeddingQueue']>[0]) {
+  async getCollectionEmbeddingStatus(collection: string): Promise<import('../types/worker.js').CollectionEmbeddingStatusResult> {
     if (!this.state.isOpen) {
       throw new DatabaseError('Database is not open');
     }
@@ -1120,19 +1415,41 @@ export class Database implements SQLDatabase {
     }
 
     try {
-      return await this.workerRPC.processEmbeddingQueue(params);
+      return await this.workerRPC.getCollectionEmbeddingStatus(collection);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      throw new DatabaseError(`Embedding queue processing failed: ${message}`);
+      throw new DatabaseError(`Failed to get collection embedding status: ${message}`);
     }
   }
 
   /**
-   * Get embedding queue status and statistics (Phase 5)
-   * @param collection - Optional collection name to filter results
-   * @returns Promise<QueueStatusResult> - Current queue status
+   * Insert a document with automatic embedding generation
+   *
+   * Collections created with an `embeddingConfig` embed new documents through
+   * their provider. `embeddingMode: 'queue'` defers that to the embedding queue;
+   * `embeddingStatus` in the result reports which happened.
+   *
+   * @example
+   * ```typescript
+   * const result = await db.insertDocumentWithEmbedding({
+   *   collection: 'articles',
+   *   document: { id: 'a1', content: 'Vector search in the browser' },
+   *   options: { embeddingMode: 'queue' }
+   * });
+   * console.log(result.embeddingStatus); // 'queued'
+   * ```
    */
-  async getQueueStatus(collection?: string) {
+  async insertDocumentWithEmbedding(params: {
+    collection: string;
+    document: {
+      id?: string;
+      title?: string;
+      content: string;
+      metadata?: Record<string, any>;
+      vector?: Float32Array | number[];
+    };
+    options?: InsertDocumentOptions;
+  }): Promise<InsertDocumentResult> {
     if (!this.state.isOpen) {
       throw new DatabaseError('Database is not open');
     }
@@ -1142,23 +1459,628 @@ export class Database implements SQLDatabase {
     }
 
     try {
-      return await this.workerRPC.getQueueStatus(collection);
+      return await this.workerRPC.insertDocumentWithEmbedding(params);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      throw new DatabaseError(`Queue status retrieval failed: ${message}`);
+      throw new DatabaseError(`Document insertion with embedding failed: ${message}`);
     }
   }
 
   /**
-   * Clear embedding queue items (Phase 5)
-   * @param params - Optional parameters to filter which items to clear
-   * @returns Promise<number> - Number of items cleared
-   */
-  async clearEmbeddingQueue(params?: Parameters<import('../utils/rpc').WorkerRPC['clearEmbeddingQueue']>[0]): Promise<number> {
-    if (!this.state.isOpen) {
-      throw new DatabaseError('Database is not open');
-    }
-
+   * Batch insert multiple documents with automatic transaction management
+   *
+   * FIXED: Transaction now handled on worker side where inserts actually happen!
+   *
+   * Benefits:
+   * - Reliability: Prevents FTS5 lock contention errors
+   * - Performance: 10-100x faster than sequential inserts
+   * - Atomicity: All documents inserted or none (rollback on error)
+   * - Correctness: Transaction on same connection as inserts
+   *
+   * Embedding follows the same rules as insertDocumentWithEmbedding; in 'sync'
+   * mode each committed batch is embedded with one provider call per
+   * provider-sized chunk.
+   *
+   * @example
+   * ```typescript
+   * const results = await db.batchInsertDocuments({
+   *   collection: 'chunks',
+   *   documents: [
+   *     { id: 'chunk1', content: 'First chunk...' },
+   *     { id: 'chunk2', content: 'Second chunk...' },
+   *     { id: 'chunk3', content: 'Third chunk...' }
+   *   ],
+   *   options: { generateEmbedding: false }
+   * });
+   *
+   * console.log(`Inserted ${results.length} documents`);
+   * ```
+   */
+  async batchInsertDocuments(params: {
+    collection: string;
+    documents: Array<{
+      id?: string;
+      title?: string;
+      content: string;
+      metadata?: Record<string, any>;
+    }>;
+    options?: InsertDocumentOptions;
+  }): Promise<InsertDocumentResult[]> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    // Call worker's batchInsertDocuments which handles transaction on worker side
+    // CRITICAL: Worker has its own SQLite connection - transaction must be there!
+    try {
+      return await this.workerRPC.batchInsertDocuments(params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Batch insert failed: ${message}`);
+    }
+  }
+
+  /**
+   * Insert a long document as chunks linked to one parent id
+   *
+   * The content is split by `chunking` (fixed token windows, sentences,
+   * paragraphs or markdown sections, with optional overlap). Each chunk is
+   * stored and embedded as its own document `${parentId}#${index}`; inserting
+   * the same id again replaces all previous chunks. Search with
+   * `collapseChunks: true` to get one result per parent.
+   *
+   * @example
+   * ```typescript
+   * const { parentId, chunks } = await db.insertChunkedDocument({
+   *   collection: 'docs',
+   *   document: { id: 'handbook', title: 'Handbook', content: markdown },
+   *   chunking: { strategy: 'markdown', maxTokens: 256, overlapTokens: 32 }
+   * });
+   *
+   * const results = await db.searchText('vacation policy', { collection: 'docs', collapseChunks: true });
+   * console.log(results.results[0].id, results.results[0].chunkId); // 'handbook', 'handbook#4'
+   * ```
+   */
+  async insertChunkedDocument(params: InsertChunkedDocumentParams): Promise<InsertChunkedDocumentResult> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      return await this.workerRPC.insertChunkedDocument(params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Chunked document insert failed: ${message}`);
+    }
+  }
+
+  /**
+   * Update a document's title, content, metadata and/or vector
+   *
+   * Keeps the FTS5 index, vector table and pending embedding queue entries in sync.
+   * Changing title or content drops the stored vector unless a new one is given.
+   *
+   * @example
+   * ```typescript
+   * await db.updateDocument({
+   *   collection: 'default',
+   *   id: 'doc1',
+   *   updates: { metadata: { status: 'published' } },
+   *   options: { mergeMetadata: true }
+   * });
+   * ```
+   */
+  async updateDocument(params: UpdateDocumentParams): Promise<UpdateDocumentResult> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      return await this.workerRPC.updateDocument(params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Document update failed: ${message}`);
+    }
+  }
+
+  /**
+   * Delete a document together with its FTS5, vector and queue rows
+   *
+   * @returns false if the document did not exist
+   */
+  async deleteDocument(params: DeleteDocumentParams): Promise<boolean> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      return await this.workerRPC.deleteDocument(params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Document deletion failed: ${message}`);
+    }
+  }
+
+  /**
+   * Delete all documents in a collection matching ids and/or a filter, in one transaction
+   *
+   * Use this instead of raw `DELETE FROM docs_default`, which leaves orphaned
+   * FTS5 and vector rows behind.
+   *
+   * @example
+   * ```typescript
+   * const { deleted } = await db.deleteDocuments({
+   *   collection: 'default',
+   *   filter: { metadata: { source: 'old-import' } }
+   * });
+   * ```
+   */
+  async deleteDocuments(params: DeleteDocumentsParams): Promise<DeleteDocumentsResult> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      return await this.workerRPC.deleteDocuments(params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Bulk document deletion failed: ${message}`);
+    }
+  }
+
+  /**
+   * Export a collection as a portable NDJSON bundle
+   *
+   * The first line is a manifest with the collection config, embedding model
+   * and dimensions; every other line is a document with its metadata and, unless
+   * `includeVectors` is false, its vector as base64 float32.
+   *
+   * @example
+   * ```typescript
+   * const bundle = await db.exportCollection({
+   *   collection: 'docs',
+   *   onProgress: p => console.log(`${p.documentsProcessed}/${p.totalDocuments}`)
+   * });
+   * const blob = new Blob([bundle], { type: 'application/x-ndjson' });
+   * ```
+   */
+  async exportCollection(params: ExportCollectionParams): Promise<Uint8Array> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    const { onProgress, ...exportParams } = params;
+    try {
+      return await this.workerRPC.exportCollection(exportParams, onProgress);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Collection export failed: ${message}`);
+    }
+  }
+
+  /**
+   * Import a bundle written by `exportCollection`
+   *
+   * Creates the collection from the manifest if needed. Documents whose id
+   * already exists are skipped, replaced or merged per `onConflict`. With
+   * `reembed`, bundled vectors are ignored and documents are embedded by the
+   * target collection's provider instead.
+   *
+   * @example
+   * ```typescript
+   * const bundle = new Uint8Array(await file.arrayBuffer());
+   * const result = await db.importCollection({
+   *   data: bundle,
+   *   collection: 'docs_v2',
+   *   onConflict: 'merge',
+   *   onProgress: p => progressBar.set(p.bytesProcessed / p.totalBytes)
+   * });
+   * console.log(result.inserted, result.merged, result.warnings);
+   * ```
+   */
+  async importCollection(params: ImportCollectionParams): Promise<ImportCollectionResult> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    const { onProgress, ...importParams } = params;
+    try {
+      return await this.workerRPC.importCollection(importParams, onProgress);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Collection import failed: ${message}`);
+    }
+  }
+
+  /**
+   * Perform semantic search on a collection
+   */
+  async searchSemantic(params: {
+    collection: string;
+    query: string;
+    options?: {
+      limit?: number;
+      similarityThreshold?: number;
+      includeEmbeddings?: boolean;
+      filters?: Record<string, any>;
+      generateQueryEmbedding?: boolean;
+    };
+  }): Promise<SearchResponse> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      const workerRPC = this.workerRPC;
+      return await this._trackSearch(
+        { method: 'searchSemantic', query: params.query, collection: params.collection },
+        () => workerRPC.searchSemantic(params)
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Semantic search failed: ${message}`);
+    }
+  }
+
+  // ====================================
+  // Search Analytics
+  // ====================================
+
+  /**
+   * Start recording search analytics (also enabled by `analytics` in DatabaseConfig)
+   *
+   * Every search* call then records its query, strategy, latency and result
+   * count, in memory via SearchAnalytics and in the search_events table, and
+   * returns a `queryId` for trackInteraction. Recording never fails a search.
+   *
+   * @example
+   * ```typescript
+   * db.enableAnalytics({ sessionId: 'user-42' });
+   * const response = await db.searchText('offline sync');
+   * await db.trackInteraction(response.queryId!, 'click', { targetId: response.results[0].id, targetRank: 1 });
+   * ```
+   */
+  enableAnalytics(options: SearchAnalyticsOptions = this.analyticsOptions ?? {}): void {
+    if (this.searchEvents) {
+      return;
+    }
+
+    const { sessionId, ...config } = options;
+    this.analyticsOptions = options;
+    this.searchAnalytics = new SearchAnalytics(config);
+    this.searchEvents = new SearchEventRecorder(
+      this.searchAnalytics,
+      async events => {
+        if (!this.workerRPC) {
+          throw new DatabaseError('Worker not available');
+        }
+        await this.workerRPC.recordSearchEvents({ events });
+      },
+      sessionId
+    );
+  }
+
+  /**
+   * Stop recording search analytics; recorded events are kept
+   */
+  disableAnalytics(): void {
+    this.searchAnalytics?.dispose();
+    this.searchAnalytics = null;
+    this.searchEvents = null;
+  }
+
+  /**
+   * In-memory SearchAnalytics for the current session (null while analytics are disabled)
+   */
+  getSearchAnalytics(): SearchAnalytics | null {
+    return this.searchAnalytics;
+  }
+
+  /**
+   * Record what the user did with the results of a search
+   *
+   * @param queryId - `queryId` of the search response
+   * @param action - Interaction type, e.g. 'click' or 'view'
+   * @param details - Result id and rank, dwell time in milliseconds, custom metadata
+   *
+   * @example
+   * ```typescript
+   * await db.trackInteraction(response.queryId!, 'view', { targetId: 'doc-7', targetRank: 3, dwellTime: 42000 });
+   * ```
+   */
+  async trackInteraction(
+    queryId: string,
+    action: UserInteractionEvent['action'],
+    details?: InteractionDetails
+  ): Promise<void> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.searchEvents) {
+      throw new DatabaseError('Search analytics are not enabled');
+    }
+
+    try {
+      await this.searchEvents.trackInteraction(queryId, action, details);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Interaction tracking failed: ${message}`);
+    }
+  }
+
+  /**
+   * Read persisted search and interaction events, newest first
+   *
+   * @example
+   * ```typescript
+   * const failures = await db.getSearchEvents({ type: 'search', since: Date.now() - 86400000, limit: 500 });
+   * ```
+   */
+  async getSearchEvents(filter?: SearchEventFilter): Promise<SearchEventRecord[]> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      await this.searchEvents?.flush();
+      return await this.workerRPC.getSearchEvents(filter);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Failed to read search events: ${message}`);
+    }
+  }
+
+  /**
+   * Queries that returned no results, most frequent first
+   *
+   * @example
+   * ```typescript
+   * const gaps = await db.getZeroResultQueries({ since: Date.now() - 7 * 86400000 });
+   * // [{ query: 'pricing api', collection: 'docs', count: 12, lastSeen: 1760862000000 }, ...]
+   * ```
+   */
+  async getZeroResultQueries(params?: ZeroResultQueriesParams): Promise<ZeroResultQuery[]> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      await this.searchEvents?.flush();
+      return await this.workerRPC.getZeroResultQueries(params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Failed to read zero-result queries: ${message}`);
+    }
+  }
+
+  // ====================================
+  // Events
+  // ====================================
+
+  /**
+   * Subscribe to a database event
+   *
+   * - `embeddingProgress`: the background scheduler processed a batch of a collection's queue
+   * - `embeddingCompleted`: a collection's queue has been drained
+   * - `change`: another tab sharing this opfs:/ database wrote to it
+   *
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = db.on('embeddingProgress', progress => {
+   *   console.log(`${progress.collection}: ${progress.processedCount}/${progress.totalCount}`);
+   * });
+   * db.on('embeddingCompleted', ({ collection, errors }) => console.log(`${collection} done, ${errors} errors`));
+   * db.on('change', ({ method }) => refreshView(method));
+   * ```
+   */
+  on<K extends keyof DatabaseEventMap>(event: K, listener: (data: DatabaseEventMap[K]) => void): () => void {
+    let listeners = this.eventListeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  off<K extends keyof DatabaseEventMap>(event: K, listener: (data: DatabaseEventMap[K]) => void): void {
+    this.eventListeners.get(event)?.delete(listener);
+  }
+
+  private _dispatchWorkerEvent(event: WorkerEvent): void {
+    const name = WORKER_EVENT_NAMES[event.type];
+    if (!name) {
+      return;
+    }
+
+    for (const listener of this.eventListeners.get(name) ?? []) {
+      try {
+        listener(event.data);
+      } catch (error) {
+        console.error(`Error in ${name} listener:`, error);
+      }
+    }
+  }
+
+  // ====================================
+  // Phase 5: Embedding Queue Management
+  // ====================================
+
+  /**
+   * Start draining the embedding queue in the background
+   * (also enabled by `embeddingScheduler` in DatabaseConfig)
+   *
+   * The worker processes queued items while no other call is running, within
+   * the configured items-per-minute budget, and reports progress through
+   * `embeddingProgress` and `embeddingCompleted` events. Calling it again
+   * while running applies the new settings.
+   *
+   * @example
+   * ```typescript
+   * await db.startEmbeddingScheduler({ maxItemsPerMinute: 300, concurrency: 2 });
+   * ```
+   */
+  async startEmbeddingScheduler(config: EmbeddingSchedulerConfig = this.schedulerConfig ?? {}): Promise<void> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      await this.workerRPC.startEmbeddingScheduler(config);
+      this.schedulerConfig = config;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Embedding scheduler start failed: ${message}`);
+    }
+  }
+
+  /**
+   * Stop background queue processing; resolves once the current run has finished
+   */
+  async stopEmbeddingScheduler(): Promise<void> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      await this.workerRPC.stopEmbeddingScheduler();
+      this.schedulerConfig = undefined;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Embedding scheduler stop failed: ${message}`);
+    }
+  }
+
+  /**
+   * Add documents to the embedding generation queue (Phase 5)
+   * @param params - Queue parameters including collection, documents, and priority
+   * @returns Promise<number> - Number of documents added to queue
+   */
+  async enqueueEmbedding(params: Parameters<import('../utils/rpc').WorkerRPC['enqueueEmbedding']>[0]): Promise<number> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      return await this.workerRPC.enqueueEmbedding(params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Embedding queue enqueue failed: ${message}`);
+    }
+  }
+
+  /**
+   * Process pending embedding queue items (Phase 5)
+   * @param params - Optional processing parameters including collection filter and batch size
+   * @returns Promise<QueueProcessResult> - Processing results
+   */
+  async processEmbeddingQueue(params?: Parameters<import('../utils/rpc').WorkerRPC['processEmbeddingQueue']>[0]) {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      return await this.workerRPC.processEmbeddingQueue(params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Embedding queue processing failed: ${message}`);
+    }
+  }
+
+  /**
+   * Get embedding queue status and statistics (Phase 5)
+   * @param collection - Optional collection name to filter results
+   * @returns Promise<QueueStatusResult> - Current queue status
+   */
+  async getQueueStatus(collection?: string) {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
+    if (!this.workerRPC) {
+      throw new DatabaseError('Worker not available');
+    }
+
+    try {
+      return await this.workerRPC.getQueueStatus(collection);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseError(`Queue status retrieval failed: ${message}`);
+    }
+  }
+
+  /**
+   * Clear embedding queue items (Phase 5)
+   * @param params - Optional parameters to filter which items to clear
+   * @returns Promise<number> - Number of items cleared
+   */
+  async clearEmbeddingQueue(params?: Parameters<import('../utils/rpc').WorkerRPC['clearEmbeddingQueue']>[0]): Promise<number> {
+    if (!this.state.isOpen) {
+      throw new DatabaseError('Database is not open');
+    }
+
     if (!this.workerRPC) {
       throw new DatabaseError('Worker not available');
     }
@@ -1242,6 +2164,25 @@ export class Database implements SQLDatabase {
       const message = error instanceof Error ? error.message : String(error);
       throw new DatabaseError(`Schema initialization failed: ${message}`);
     }
+
+    // search_events exists from here on, so apply the analytics retention period
+    if (this.searchAnalytics) {
+      const retentionDays = this.analyticsOptions?.dataRetentionDays ?? DEFAULT_ANALYTICS_RETENTION_DAYS;
+      try {
+        await this.workerRPC.pruneSearchEvents({ before: Date.now() - retentionDays * 24 * 60 * 60 * 1000 });
+      } catch (error) {
+        console.warn('Failed to prune search events:', error);
+      }
+    }
+
+    // Likewise embedding_queue, which the scheduler drains
+    if (this.schedulerConfig) {
+      try {
+        await this.workerRPC.startEmbeddingScheduler(this.schedulerConfig);
+      } catch (error) {
+        console.warn('Failed to start embedding scheduler:', error);
+      }
+    }
   }
 
   /**
@@ -1267,7 +2208,8 @@ export class Database implements SQLDatabase {
       // Open database (vec extension is initialized automatically in handleOpen)
       await this.workerRPC.open({
         filename: this.state.filename,
-        vfs: 'opfs'
+        vfs: this.vfs,
+        storage: this.storagePreference
       });
 
       this.state.isOpen = true;
@@ -1276,6 +2218,10 @@ export class Database implements SQLDatabase {
       const message = error instanceof Error ? error.message : String(error);
       throw new DatabaseError(`Database initialization failed: ${message}`);
     }
+
+    if (this.analyticsOptions) {
+      this.enableAnalytics(this.analyticsOptions);
+    }
   }
 
   /**
@@ -1296,9 +2242,20 @@ export class Database implements SQLDatabase {
       
       console.log('[Database._initializeWorker] Attempting to load worker from:', workerUrl);
       
-      this.workerRPC = createWorkerRPC(workerUrl, config.workerConfig);
+      // Tabs sharing an OPFS database run a single worker in the leader tab
+      const filename = config.filename ?? '';
+      if (config.multiTab !== false && filename.startsWith('opfs:/') && TabCoordinator.isSupported()) {
+        const coordinator = new TabCoordinator({
+          name: filename,
+          createWorker: () => new Worker(workerUrl, { type: 'module' })
+        });
+        this.workerRPC = new WorkerRPC(coordinator, config.workerConfig);
+      } else {
+        this.workerRPC = createWorkerRPC(workerUrl, config.workerConfig);
+      }
       this.state.worker = (this.workerRPC as any).worker;
       this.state.workerRPC = this.workerRPC;
+      this.workerRPC.onEvent(event => this._dispatchWorkerEvent(event));
       
       console.log('[Database._initializeWorker] Worker RPC created successfully');
     } catch (error) {
@@ -1326,17 +2283,110 @@ export class Database implements SQLDatabase {
     }
 
     try {
-      await this.workerRPC.import({
-        data: buffer,
-        format: 'sqlite',
-        overwrite: true
-      });
+      await this._runImportStream(buffer, {});
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new DatabaseError(`Buffer import failed: ${message}`);
     }
   }
 
+  /**
+   * Drive a chunked export; chunks reach `onChunk` in order
+   */
+  private _runExportStream(
+    options: DatabaseTransferOptions,
+    onChunk: (chunk: Uint8Array) => void
+  ): { done: Promise<void>; cancel: () => void } {
+    const workerRPC = this.workerRPC!;
+    const { chunkSize, signal, onProgress } = options;
+    const transferId = this.nextTransferId();
+    let settled = false;
+
+    const cancel = () => {
+      if (!settled) {
+        settled = true;
+        workerRPC.cancelTransfer({ transferId }).catch(() => undefined);
+      }
+    };
+
+    const done = new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        settled = true;
+        reject(new Error('Export aborted'));
+        return;
+      }
+
+      const abort = () => {
+        reject(new Error('Export aborted'));
+        cancel();
+      };
+      signal?.addEventListener('abort', abort, { once: true });
+
+      workerRPC.exportStream({ transferId, chunkSize }, progress => {
+        if (settled) {
+          return;
+        }
+        const { transferId: _, chunk, ...rest } = progress;
+        if (chunk) {
+          onChunk(new Uint8Array(chunk));
+        }
+        onProgress?.(rest);
+      }).then(
+        () => {
+          settled = true;
+          resolve();
+        },
+        error => {
+          settled = true;
+          reject(error);
+        }
+      ).finally(() => {
+        signal?.removeEventListener('abort', abort);
+      });
+    });
+
+    return { done, cancel };
+  }
+
+  /**
+   * Send an image to the worker chunk by chunk and wait for it to replace the database
+   */
+  private async _runImportStream(source: ChunkSource, options: DatabaseTransferOptions): Promise<void> {
+    const workerRPC = this.workerRPC!;
+    const { chunkSize, signal, onProgress } = options;
+    const transferId = this.nextTransferId();
+    const throwIfAborted = () => {
+      if (signal?.aborted) {
+        throw new Error('Import aborted');
+      }
+    };
+
+    throwIfAborted();
+    const result = workerRPC.importStream({ transferId, totalBytes: sourceSize(source) }, onProgress);
+    // Awaited below; it may fail while chunks are still being sent
+    result.catch(() => undefined);
+
+    try {
+      for await (const chunk of readChunks(source, resolveChunkSize(chunkSize))) {
+        throwIfAborted();
+        await workerRPC.importChunk({ transferId, chunk });
+      }
+      throwIfAborted();
+    } catch (error) {
+      workerRPC.cancelTransfer({ transferId }).catch(() => undefined);
+      throw error;
+    }
+
+    // Past this point the import can no longer be cancelled
+    await workerRPC.importChunk({ transferId, done: true });
+    await result;
+  }
+
+  private nextTransferId(): string {
+    // Tabs sharing a leader's worker share its transfer ids too
+    return `transfer_${++this.transferCounter}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
   /**
    * Synchronous execution compatibility layer
    * Uses blocking async call with warnings about limitations
@@ -1528,6 +2578,16 @@ export class Database implements SQLDatabase {
     }
   }
 
+  /**
+   * Run a search RPC, recording it when analytics are enabled
+   */
+  private _trackSearch<T extends SearchResponse | import('../types/worker.js').LLMSearchResponseResult>(
+    call: TrackedSearchCall,
+    run: () => Promise<T>
+  ): Promise<T> {
+    return this.searchEvents ? this.searchEvents.track(call, run) : run();
+  }
+
   // Enhanced error handling with graceful degradation (Task 6.1)
   private async _handleSearchError(
     error: any,
@@ -1537,7 +2597,11 @@ export class Database implements SQLDatabase {
     // Attempt fallback to existing search method
     if (!options?.mode || options.mode !== 'VECTOR_ONLY' as any) {
       try {
-        const fallbackResult = await this.search({
+        // Bypass search() so the fallback is recorded as part of this searchText call
+        if (!this.workerRPC) {
+          throw new DatabaseError('Worker not available');
+        }
+        const fallbackResult = await this.workerRPC.search({
           query: { text: query },
           collection: options?.collection,
           limit: options?.limit || 10
@@ -1623,7 +2687,7 @@ export class Database implements SQLDatabase {
     throw new DatabaseError(`Advanced search failed: ${message}`);
   }
 
-  private async _handleGlobalSearchError(error: any, query: string, options?: any): Promise<GlobalSearchResponse> {
+  private async _handleGlobalSearchError(error: any, query: string, options?: GlobalSearchOptions): Promise<GlobalSearchResponse> {
     const message = error instanceof Error ? error.message : String(error);
     throw new DatabaseError(`Global search failed: ${message}`);
   }
@@ -0,0 +1,204 @@
+/**
+ * SearchEventStore
+ *
+ * Persists search analytics events in the search_events table, so query
+ * history, latency and zero-result queries survive page reloads.
+ * Events are produced on the main thread by Database when analytics are enabled.
+ */
+
+import type { SQLiteManager } from '../core/SQLiteManager.js';
+import type {
+  SearchEventRecord,
+  SearchEventFilter,
+  ZeroResultQueriesParams,
+  ZeroResultQuery
+} from '../../../types/worker.js';
+
+const DEFAULT_EVENT_LIMIT = 100;
+const DEFAULT_ZERO_RESULT_LIMIT = 20;
+
+/**
+ * search_events columns written for each event, in insert order
+ */
+const EVENT_COLUMNS = [
+  'type', 'query_id', 'session_id', 'timestamp', 'method', 'query', 'collection', 'strategy',
+  'latency_ms', 'result_count', 'zero_results', 'error', 'action', 'target_id', 'target_rank',
+  'dwell_time', 'metadata'
+] as const;
+
+export class SearchEventStore {
+  constructor(
+    private sqliteManager: SQLiteManager,
+    private logger?: { log: (level: string, message: string, data?: any) => void }
+  ) {}
+
+  /**
+   * Append events
+   */
+  async record(events: SearchEventRecord[]): Promise<void> {
+    const placeholders = EVENT_COLUMNS.map(() => '?').join(', ');
+    const sql = `INSERT INTO search_events (${EVENT_COLUMNS.join(', ')}) VALUES (${placeholders})`;
+
+    for (const event of events) {
+      await this.sqliteManager.exec(sql, [
+        event.type,
+        event.queryId,
+        event.sessionId ?? null,
+        event.timestamp,
+        event.method ?? null,
+        event.query ?? null,
+        event.collection ?? null,
+        event.strategy ?? null,
+        event.latencyMs ?? null,
+        event.resultCount ?? null,
+        event.zeroResults === undefined ? null : event.zeroResults ? 1 : 0,
+        event.error ?? null,
+        event.action ?? null,
+        event.targetId ?? null,
+        event.targetRank ?? null,
+        event.dwellTime ?? null,
+        event.metadata ? JSON.stringify(event.metadata) : null
+      ]);
+    }
+
+    this.log('debug', `Recorded ${events.length} search events`);
+  }
+
+  /**
+   * Events matching `filter`, newest first
+   */
+  async query(filter: SearchEventFilter = {}): Promise<SearchEventRecord[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.type) {
+      conditions.push('type = ?');
+      params.push(filter.type);
+    }
+    if (filter.queryId) {
+      conditions.push('query_id = ?');
+      params.push(filter.queryId);
+    }
+    if (filter.sessionId) {
+      conditions.push('session_id = ?');
+      params.push(filter.sessionId);
+    }
+    if (filter.collection) {
+      conditions.push('collection = ?');
+      params.push(filter.collection);
+    }
+    if (filter.zeroResults !== undefined) {
+      conditions.push('zero_results = ?');
+      params.push(filter.zeroResults ? 1 : 0);
+    }
+    if (filter.since !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(filter.since);
+    }
+    if (filter.until !== undefined) {
+      conditions.push('timestamp < ?');
+      params.push(filter.until);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(filter.limit ?? DEFAULT_EVENT_LIMIT);
+
+    const result = await this.sqliteManager.select(
+      `SELECT * FROM search_events ${where} ORDER BY timestamp DESC, id DESC LIMIT ?`,
+      params
+    );
+    return result.rows.map(row => this.toRecord(row));
+  }
+
+  /**
+   * Search queries that returned nothing, most frequent first
+   *
+   * Queries are grouped case-insensitively; the most recent spelling is reported.
+   * Failed searches are not counted: an error says nothing about the content.
+   */
+  async zeroResultQueries(params: ZeroResultQueriesParams = {}): Promise<ZeroResultQuery[]> {
+    const conditions = [`type = 'search'`, 'zero_results = 1', 'error IS NULL', 'query IS NOT NULL'];
+    const values: any[] = [];
+
+    if (params.collection) {
+      conditions.push('collection = ?');
+      values.push(params.collection);
+    }
+    if (params.since !== undefined) {
+      conditions.push('timestamp >= ?');
+      values.push(params.since);
+    }
+    values.push(params.limit ?? DEFAULT_ZERO_RESULT_LIMIT);
+
+    // Bare columns next to MAX() come from the row holding the maximum
+    const result = await this.sqliteManager.select(`
+      SELECT query, collection, COUNT(*) AS count, MAX(timestamp) AS last_seen
+      FROM search_events
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY lower(trim(query)), collection
+      ORDER BY count DESC, last_seen DESC
+      LIMIT ?
+    `, values);
+
+    return result.rows.map(row => ({
+      query: row.query,
+      collection: row.collection ?? undefined,
+      count: Number(row.count),
+      lastSeen: Number(row.last_seen)
+    }));
+  }
+
+  /**
+   * Delete events older than `before`, returning how many were removed
+   */
+  async prune(before: number): Promise<number> {
+    const count = await this.sqliteManager.select(
+      'SELECT COUNT(*) AS count FROM search_events WHERE timestamp < ?',
+      [before]
+    );
+    const removed = Number(count.rows[0]?.count ?? 0);
+
+    if (removed > 0) {
+      await this.sqliteManager.exec('DELETE FROM search_events WHERE timestamp < ?', [before]);
+      this.log('info', `Pruned ${removed} search events`);
+    }
+    return removed;
+  }
+
+  private toRecord(row: Record<string, any>): SearchEventRecord {
+    const record: SearchEventRecord = {
+      id: row.id,
+      type: row.type,
+      queryId: row.query_id,
+      timestamp: Number(row.timestamp)
+    };
+
+    const optional: Array<[keyof SearchEventRecord, any]> = [
+      ['sessionId', row.session_id],
+      ['method', row.method],
+      ['query', row.query],
+      ['collection', row.collection],
+      ['strategy', row.strategy],
+      ['latencyMs', row.latency_ms],
+      ['resultCount', row.result_count],
+      ['zeroResults', row.zero_results === null || row.zero_results === undefined ? null : row.zero_results === 1],
+      ['error', row.error],
+      ['action', row.action],
+      ['targetId', row.target_id],
+      ['targetRank', row.target_rank],
+      ['dwellTime', row.dwell_time],
+      ['metadata', row.metadata ? JSON.parse(row.metadata) : null]
+    ];
+    for (const [key, value] of optional) {
+      if (value !== null && value !== undefined) {
+        (record as any)[key] = value;
+      }
+    }
+
+    return record;
+  }
+
+  private log(level: string, message: string): void {
+    this.logger?.log(level, `[SearchEventStore] ${message}`);
+  }
+}
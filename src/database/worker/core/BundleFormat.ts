@@ -0,0 +1,168 @@
+/**
+ * BundleFormat
+ *
+ * NDJSON container for collection bundles: one JSON record per line, the
+ * manifest first and then one record per document. Vectors are stored as
+ * base64 of their little-endian float32 bytes, which is what the WASM heap
+ * and every supported platform use natively.
+ */
+
+import type { CollectionBundleManifest, CollectionBundleDocument } from '../../../types/worker.js';
+
+export const BUNDLE_FORMAT = 'localretrieve-collection';
+export const BUNDLE_VERSION = 1;
+
+const NEWLINE = 0x0a;
+
+// btoa/String.fromCharCode take arguments on the stack, so bytes go in slices
+const BASE64_SLICE = 0x8000;
+
+/**
+ * A parsed bundle line
+ */
+export interface BundleLine {
+  record: unknown;
+  line: number;        // 1-based
+  bytesRead: number;   // Offset just past this line
+}
+
+export function encodeVector(vector: Float32Array): string {
+  const bytes = new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_SLICE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_SLICE));
+  }
+  return btoa(binary);
+}
+
+export function decodeVector(encoded: string): Float32Array {
+  const binary = atob(encoded);
+  if (binary.length % Float32Array.BYTES_PER_ELEMENT !== 0) {
+    throw new Error(`Vector is ${binary.length} bytes, not a whole number of float32 values`);
+  }
+
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Float32Array(bytes.buffer);
+}
+
+/**
+ * Accumulates bundle records as UTF-8 lines
+ */
+export class BundleWriter {
+  private chunks: Uint8Array[] = [];
+  private encoder = new TextEncoder();
+  private size = 0;
+
+  get byteLength(): number {
+    return this.size;
+  }
+
+  write(record: CollectionBundleManifest | CollectionBundleDocument): void {
+    const line = this.encoder.encode(JSON.stringify(record) + '\n');
+    this.chunks.push(line);
+    this.size += line.length;
+  }
+
+  finish(): Uint8Array {
+    const bundle = new Uint8Array(this.size);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      bundle.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.chunks = [];
+    return bundle;
+  }
+}
+
+/**
+ * Parse a bundle line by line without decoding it as one string
+ *
+ * Blank lines are skipped; a line that is not valid JSON throws with its number.
+ */
+export function* readBundleLines(data: Uint8Array): Generator<BundleLine> {
+  const decoder = new TextDecoder();
+  let start = 0;
+  let line = 0;
+
+  while (start < data.length) {
+    let end = data.indexOf(NEWLINE, start);
+    if (end === -1) {
+      end = data.length;
+    }
+    line++;
+
+    const text = decoder.decode(data.subarray(start, end)).trim();
+    start = end + 1;
+    if (text.length === 0) {
+      continue;
+    }
+
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Bundle line ${line} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    yield { record, line, bytesRead: Math.min(start, data.length) };
+  }
+}
+
+/**
+ * Check that a record is a manifest this version can read
+ */
+export function parseManifest(record: unknown): CollectionBundleManifest {
+  const manifest = record as Partial<CollectionBundleManifest> | null;
+  if (!manifest || typeof manifest !== 'object' || manifest.type !== 'manifest' || manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a collection bundle: the first line must be its manifest');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported collection bundle version ${manifest.version}`);
+  }
+  if (typeof manifest.collection !== 'string' || manifest.collection.length === 0) {
+    throw new Error('Collection bundle manifest has no collection name');
+  }
+  if (!Number.isInteger(manifest.dimensions) || manifest.dimensions! < 1) {
+    throw new Error(`Collection bundle manifest has invalid dimensions: ${manifest.dimensions}`);
+  }
+
+  return {
+    ...manifest,
+    config: manifest.config && typeof manifest.config === 'object' ? manifest.config : {},
+    provider: manifest.provider ?? null,
+    model: manifest.model ?? null,
+    documentCount: manifest.documentCount ?? 0,
+    vectorCount: manifest.vectorCount ?? 0
+  } as CollectionBundleManifest;
+}
+
+/**
+ * Check a document record; `line` is used in the error message
+ */
+export function parseDocument(record: unknown, line: number): CollectionBundleDocument {
+  const document = record as Partial<CollectionBundleDocument> | null;
+  if (!document || typeof document !== 'object' || document.type !== 'document') {
+    throw new Error(`Bundle line ${line} is not a document record`);
+  }
+  if (typeof document.id !== 'string' || document.id.length === 0) {
+    throw new Error(`Bundle line ${line}: document has no id`);
+  }
+  if (typeof document.content !== 'string') {
+    throw new Error(`Bundle line ${line}: document '${document.id}' has no content`);
+  }
+  if (document.metadata !== undefined && (typeof document.metadata !== 'object' || document.metadata === null || Array.isArray(document.metadata))) {
+    throw new Error(`Bundle line ${line}: document '${document.id}' has invalid metadata`);
+  }
+  if (document.vector !== undefined && typeof document.vector !== 'string') {
+    throw new Error(`Bundle line ${line}: document '${document.id}' has an invalid vector`);
+  }
+
+  return {
+    ...document,
+    title: typeof document.title === 'string' ? document.title : '',
+    metadata: document.metadata ?? {}
+  } as CollectionBundleDocument;
+}
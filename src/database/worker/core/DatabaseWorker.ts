@@ -5,16 +5,70 @@
  * Manages all worker components and coordinates RPC operations.
  */
 
-import { WorkerRPCHandler } from '../../../utils/rpc.js';
+import { WorkerRPCHandler, type RPCCallContext } from '../../../utils/rpc.js';
+import { ChunkCollector, splitIntoChunks, resolveChunkSize } from '../../../utils/chunkedTransfer.js';
 import { SQLiteManager } from './SQLiteManager.js';
 import { OPFSManager } from './OPFSManager.js';
+import type { StorageBackend, StorageOpenTarget } from '../storage/StorageBackend.js';
+import { createStorageBackend, detectStorageEnvironment, selectStorageBackend } from '../storage/StorageBackendFactory.js';
 import { SchemaManager } from '../schema/SchemaManager.js';
-import { EmbeddingQueue } from '../embedding/EmbeddingQueue.js';
+import { EmbeddingQueue, type QueueEmbeddingGenerator } from '../embedding/EmbeddingQueue.js';
 import { ProviderManager } from '../embedding/ProviderManager.js';
+import { InsertEmbedder } from '../embedding/InsertEmbedder.js';
+import { QueueScheduler } from '../embedding/QueueScheduler.js';
 import { SearchHandler } from '../handlers/SearchHandler.js';
+import { DocumentHandler } from '../handlers/DocumentHandler.js';
+import { BundleHandler } from '../handlers/BundleHandler.js';
 import { LLMManager } from '../llm/LLMManager.js';
+import { LLM_PROVIDERS, isLLMProvider } from '../../../llm/LLMConfig.js';
+import { LLMConfigError } from '../../../llm/errors.js';
+import type { LLMProvider } from '../../../llm/types.js';
+import { SearchEventStore } from '../analytics/SearchEventStore.js';
 import { Logger } from '../utils/Logger.js';
 import { ErrorHandler } from '../utils/ErrorHandling.js';
+import { runInTransaction } from '../utils/Transaction.js';
+import { FilterCompiler, andFilter, type CompiledFilter } from '../search/FilterCompiler.js';
+import { mergeCollectionResults, resolveMaxPerCollection, type CollectionResultSet } from '../search/GlobalSearchMerger.js';
+import { buildFtsQuery } from '../search/FtsQueryBuilder.js';
+import { collapseByGroup } from '../search/ChunkCollapser.js';
+import { TextChunker } from '../../../embedding/TextChunker.js';
+import { EmbeddingError } from '../../../embedding/errors.js';
+import {
+  fuseCandidateLists,
+  rankSingleList,
+  resolveRequestFusion,
+  explainFusion,
+  type CandidateList,
+  type FusedCandidate
+} from '../search/FusionEngine.js';
+import {
+  buildSnippet,
+  highlightText,
+  queryTerms,
+  DEFAULT_CONTEXT_WINDOW,
+  DEFAULT_HIGHLIGHT_TAGS,
+  HIGHLIGHT_COLUMNS,
+  MAX_SNIPPET_TOKENS,
+  SNIPPET_ELLIPSIS,
+  type HighlightField
+} from '../search/SnippetBuilder.js';
+import {
+  fingerprintSearch,
+  encodeCursor,
+  decodeCursor,
+  candidatePoolSize,
+  resumeIndex
+} from '../search/SearchCursor.js';
+import { StrategyEngine } from '../../../search/StrategyEngine.js';
+import { ResultProcessor } from '../../../search/ResultProcessor.js';
+import { SearchMode, SearchStrategy, PaginationError } from '../../../types/search.js';
+import type {
+  SearchExecutionPlan,
+  SearchContext,
+  ResultProcessingOptions,
+  RawSearchResult,
+  QueryHistory
+} from '../../../types/search.js';
 
 import type {
   OpenDatabaseParams,
@@ -23,11 +77,24 @@ import type {
   BulkInsertParams,
   SearchRequest,
   SearchResponse,
+  SearchResult,
   CollectionInfo,
+  RenameCollectionParams,
   QueryResult,
   ExportParams,
   ImportParams,
+  ExportImportProgress,
+  ExportStreamParams,
+  ExportStreamProgress,
+  ExportStreamResult,
+  ImportStreamParams,
+  ImportChunkParams,
+  CancelTransferParams,
+  ExportCollectionParams,
+  ImportCollectionParams,
+  ImportCollectionResult,
   CreateCollectionParams,
+  SetEmbeddingApiKeyParams,
   InsertDocumentWithEmbeddingParams,
   SemanticSearchParams,
   CollectionEmbeddingStatusResult,
@@ -62,8 +129,30 @@ import type {
   SummarizeResultsParams,
   ResultSummaryResult,
   SearchWithLLMParams,
-  LLMSearchResponseResult
+  LLMSearchResponseResult,
+  CallLLMParams,
+  CallLLMResult,
+  CallLLMStreamParams,
+  CancelLLMStreamParams,
+  LLMStreamProgress,
+  UpdateDocumentParams,
+  UpdateDocumentResult,
+  DeleteDocumentParams,
+  DeleteDocumentsParams,
+  DeleteDocumentsResult,
+  RecordSearchEventsParams,
+  SearchEventFilter,
+  SearchEventRecord,
+  ZeroResultQueriesParams,
+  ZeroResultQuery,
+  PruneSearchEventsParams,
+  EmbeddingSchedulerConfig,
+  InsertDocumentOptions,
+  InsertDocumentResult,
+  InsertChunkedDocumentParams,
+  InsertChunkedDocumentResult
 } from '../../../types/worker.js';
+import { VectorError, DatabaseError } from '../../../types/worker.js';
 
 import {
   isOpenDatabaseParams,
@@ -72,10 +161,20 @@ import {
   isBulkInsertParams,
   isSearchRequest,
   isCreateCollectionParams,
+  isSetEmbeddingApiKeyParams,
   isInsertDocumentWithEmbeddingParams,
+  isInsertChunkedDocumentParams,
+  isUpdateDocumentParams,
+  isDeleteDocumentParams,
+  isDeleteDocumentsParams,
   isSemanticSearchParams,
   isExportParams,
   isImportParams,
+  isExportStreamParams,
+  isImportStreamParams,
+  isImportChunkParams,
+  isExportCollectionParams,
+  isImportCollectionParams,
   isGenerateEmbeddingRequest,
   isBatchEmbeddingRequest,
   isEnqueueEmbeddingParams,
@@ -93,6 +192,7 @@ import {
  * Architecture:
  * - SQLiteManager: Direct SQLite WASM operations
  * - OPFSManager: Persistence and file operations
+ * - StorageBackend: Where the database lives (memory + snapshots, OPFS VFS, Node fs)
  * - SchemaManager: Schema initialization and migrations
  * - EmbeddingQueue: Background embedding processing
  * - ProviderManager: Embedding provider management
@@ -103,11 +203,30 @@ export class DatabaseWorker {
   // Core components
   private sqliteManager: SQLiteManager;
   private opfsManager: OPFSManager;
+  private storage: StorageBackend;
+  private storageTarget: StorageOpenTarget | null = null;
   private schemaManager: SchemaManager;
   private embeddingQueue: EmbeddingQueue;
+  private insertEmbedder: InsertEmbedder;
   private providerManager: ProviderManager;
   private searchHandler: SearchHandler;
+  private documentHandler: DocumentHandler;
+  private bundleHandler: BundleHandler;
   private llmManager: LLMManager;
+  private llmStreams = new Map<string, AbortController>();  // streamId -> in-flight streamed call
+  private transfers = new Map<string, AbortController>();   // transferId -> running chunked export/import
+  private incomingTransfers = new Map<string, { collector: ChunkCollector; onChunk: () => void }>();
+  private searchEventStore: SearchEventStore;
+  private queueScheduler: QueueScheduler;
+  private filterCompiler = new FilterCompiler('d');
+  private strategyEngine = new StrategyEngine({ enableAnalyticsIntegration: false });
+  // The quality threshold applies to fused scores, whose scale depends on the fusion method, so it is off.
+  // Up to 1000 candidates (MAX_VECTOR_CANDIDATES) reach post-processing.
+  private resultProcessor = new ResultProcessor({
+    enableAnalyticsIntegration: false,
+    enableAdaptiveProcessing: false,
+    qualitySettings: { minRelevanceScore: 0, maxResultsForOptimization: 1000, diversityThreshold: 0.3 }
+  });
   private logger: Logger;
 
   // RPC handler
@@ -128,16 +247,44 @@ export class DatabaseWorker {
     // Initialize core components
     this.sqliteManager = new SQLiteManager(this.logger);
     this.opfsManager = new OPFSManager(this.sqliteManager, this.logger);
-    this.schemaManager = new SchemaManager(this.sqliteManager, this.logger);
-    this.embeddingQueue = new EmbeddingQueue(this.sqliteManager, this.logger);
+    this.storage = createStorageBackend('memory', this.storageDependencies());
+    // The backend is chosen on open, so migrations look it up when they need a backup
+    this.schemaManager = new SchemaManager(this.sqliteManager, this.logger, {
+      backupDatabase: label => this.storage.backupDatabase(label)
+    });
+    this.embeddingQueue = new EmbeddingQueue(this.sqliteManager, this.schemaManager, this.logger);
     this.providerManager = new ProviderManager(this.sqliteManager, this.logger);
+    this.insertEmbedder = new InsertEmbedder(
+      this.sqliteManager,
+      this.providerManager,
+      this.embeddingQueue,
+      (collection, documentId, vector) => this.documentHandler.storeVector(collection, documentId, vector),
+      this.logger
+    );
     this.searchHandler = new SearchHandler({
       sqliteManager: this.sqliteManager,
       schemaManager: this.schemaManager,
       opfsManager: this.opfsManager,
       logger: this.logger
     });
+    this.documentHandler = new DocumentHandler({
+      sqliteManager: this.sqliteManager,
+      schemaManager: this.schemaManager,
+      opfsManager: this.opfsManager,
+      logger: this.logger
+    });
+    this.bundleHandler = new BundleHandler(
+      {
+        sqliteManager: this.sqliteManager,
+        schemaManager: this.schemaManager,
+        opfsManager: this.opfsManager,
+        logger: this.logger
+      },
+      this.documentHandler,
+      (collection, documents, options) => this.insertEmbedder.embed(collection, documents, options)
+    );
     this.llmManager = new LLMManager(this.logger);
+    this.searchEventStore = new SearchEventStore(this.sqliteManager, this.logger);
 
     // Initialize RPC handler
     this.rpcHandler = new WorkerRPCHandler({
@@ -145,6 +292,14 @@ export class DatabaseWorker {
       operationTimeout: 30000
     });
 
+    this.queueScheduler = new QueueScheduler({
+      queue: this.embeddingQueue,
+      embeddingGenerator: this.queueEmbeddingGenerator,
+      isIdle: quietMs => this.rpcHandler.isIdle(quietMs),
+      emit: event => this.rpcHandler.emit(event),
+      logger: this.logger
+    });
+
     this.setupRPCHandlers();
     this.logger.info('DatabaseWorker initialized with modular architecture + LLM support');
   }
@@ -166,14 +321,22 @@ export class DatabaseWorker {
     // Schema management
     this.rpcHandler.register('initializeSchema', this.handleInitializeSchema.bind(this));
     this.rpcHandler.register('getCollectionInfo', this.handleGetCollectionInfo.bind(this));
+    this.rpcHandler.register('listCollections', this.handleListCollections.bind(this));
+    this.rpcHandler.register('dropCollection', this.handleDropCollection.bind(this));
+    this.rpcHandler.register('renameCollection', this.handleRenameCollection.bind(this));
 
     // Collection management
     this.rpcHandler.register('createCollection', this.handleCreateCollection.bind(this));
+    this.rpcHandler.register('setEmbeddingApiKey', this.handleSetEmbeddingApiKey.bind(this));
     this.rpcHandler.register('getCollectionEmbeddingStatus', this.handleGetCollectionEmbeddingStatus.bind(this));
 
     // Document operations with embedding support
     this.rpcHandler.register('insertDocumentWithEmbedding', this.handleInsertDocumentWithEmbedding.bind(this));
     this.rpcHandler.register('batchInsertDocuments', this.handleBatchInsertDocuments.bind(this));
+    this.rpcHandler.register('insertChunkedDocument', this.handleInsertChunkedDocument.bind(this));
+    this.rpcHandler.register('updateDocument', this.handleUpdateDocument.bind(this));
+    this.rpcHandler.register('deleteDocument', this.handleDeleteDocument.bind(this));
+    this.rpcHandler.register('deleteDocuments', this.handleDeleteDocuments.bind(this));
 
     // Embedding generation operations
     this.rpcHandler.register('generateEmbedding', this.handleGenerateEmbedding.bind(this));
@@ -185,6 +348,8 @@ export class DatabaseWorker {
     this.rpcHandler.register('processEmbeddingQueue', this.handleProcessEmbeddingQueue.bind(this));
     this.rpcHandler.register('getQueueStatus', this.handleGetQueueStatus.bind(this));
     this.rpcHandler.register('clearEmbeddingQueue', this.handleClearEmbeddingQueue.bind(this));
+    this.rpcHandler.register('startEmbeddingScheduler', this.handleStartEmbeddingScheduler.bind(this));
+    this.rpcHandler.register('stopEmbeddingScheduler', this.handleStopEmbeddingScheduler.bind(this));
 
     // Search operations
     this.rpcHandler.register('search', this.handleSearch.bind(this));
@@ -197,8 +362,16 @@ export class DatabaseWorker {
     // LLM operations (SCRUM-17)
     this.rpcHandler.register('enhanceQuery', this.handleEnhanceQuery.bind(this));
     this.rpcHandler.register('summarizeResults', this.handleSummarizeResults.bind(this));
-    this.rpcHandler.register('searchWithLLM', this.handleSearchWithLLM.bind(this));
+    this.rpcHandler.registerWithProgress('searchWithLLM', this.handleSearchWithLLM.bind(this));
     this.rpcHandler.register('callLLM', this.handleCallLLM.bind(this));
+    this.rpcHandler.registerWithProgress('callLLMStream', this.handleCallLLMStream.bind(this));
+    this.rpcHandler.register('cancelLLMStream', this.handleCancelLLMStream.bind(this));
+
+    // Search analytics
+    this.rpcHandler.register('recordSearchEvents', this.handleRecordSearchEvents.bind(this));
+    this.rpcHandler.register('getSearchEvents', this.handleGetSearchEvents.bind(this));
+    this.rpcHandler.register('getZeroResultQueries', this.handleGetZeroResultQueries.bind(this));
+    this.rpcHandler.register('pruneSearchEvents', this.handlePruneSearchEvents.bind(this));
 
     // Task 6.2: Internal Embedding Pipeline Operations
     this.rpcHandler.register('generateQueryEmbedding', this.handleGenerateQueryEmbedding.bind(this));
@@ -211,8 +384,14 @@ export class DatabaseWorker {
     this.rpcHandler.register('optimizeModelMemory', this.handleOptimizeModelMemory.bind(this));
 
     // Data export/import
-    this.rpcHandler.register('export', this.handleExport.bind(this));
-    this.rpcHandler.register('import', this.handleImport.bind(this));
+    this.rpcHandler.registerWithProgress('export', this.handleExport.bind(this));
+    this.rpcHandler.registerWithProgress('import', this.handleImport.bind(this));
+    this.rpcHandler.registerWithProgress('exportStream', this.handleExportStream.bind(this));
+    this.rpcHandler.registerWithProgress('importStream', this.handleImportStream.bind(this));
+    this.rpcHandler.register('importChunk', this.handleImportChunk.bind(this));
+    this.rpcHandler.register('cancelTransfer', this.handleCancelTransfer.bind(this));
+    this.rpcHandler.registerWithProgress('exportCollection', this.handleExportCollection.bind(this));
+    this.rpcHandler.registerWithProgress('importCollection', this.handleImportCollection.bind(this));
     this.rpcHandler.register('clear', this.handleClear.bind(this));
 
     // Utility operations
@@ -233,68 +412,50 @@ export class DatabaseWorker {
       const dbFilename = validParams.filename || validParams.path || ':memory:';
       this.logger.info(`Opening database with filename: ${dbFilename}, vfs: ${validParams.vfs}`);
 
-      // Initialize OPFS if using opfs:/ path
-      let dbPath = dbFilename;
-      if (dbFilename.startsWith('opfs:/')) {
-        this.logger.info(`Initializing OPFS database: ${dbFilename}`);
-        dbPath = await this.opfsManager.initializeDatabase(dbFilename);
-        this.logger.info(`OPFS database path resolved to: ${dbPath}`);
-      }
-
-      // Open database connection
-      this.logger.info(`Opening SQLite database at path: ${dbPath}`);
-      await this.sqliteManager.openDatabase(dbPath);
+      // Pick where the database lives; the legacy vfs option maps onto the storage preference
+      await this.sqliteManager.loadWASM();
+      const preference = validParams.storage ?? (validParams.vfs === 'opfs-sahpool' ? 'opfs-sahpool' : 'auto');
+      const environment = detectStorageEnvironment(this.sqliteManager.getSQLite3Module());
+      const backendType = selectStorageBackend(preference, dbFilename, environment, this.logger);
+      this.storage = createStorageBackend(backendType, this.storageDependencies());
+      this.logger.info(`Using ${backendType} storage backend (requested: ${preference})`);
 
-      // Configure SQLite for browser environment (prevent "database or disk is full" errors)
-      // CRITICAL FIX: Reduced cache_size to fit in 16MB WASM heap (was -64000/64MB, causing malloc failures)
-      // CRITICAL FIX: Changed journal_mode to DELETE (disk-based) to reduce memory pressure
-      await this.sqliteManager.exec('PRAGMA temp_store = MEMORY');          // Store temp tables in memory
-      await this.sqliteManager.exec('PRAGMA cache_size = -8000');           // 8MB cache (fits in 16MB heap)
-      await this.sqliteManager.exec('PRAGMA synchronous = NORMAL');         // Balance performance/durability
-      await this.sqliteManager.exec('PRAGMA journal_mode = DELETE');        // Disk-based journal (OPFS)
-      this.logger.info('SQLite PRAGMAs configured for WASM environment (8MB cache, disk journal)');
+      const target = await this.storage.open(dbFilename);
+      this.storageTarget = target;
+      this.logger.info(`Database path resolved to: ${target.filename}${target.vfs ? ` (vfs: ${target.vfs})` : ''}`);
 
-      // Initialize sqlite-vec extension
-      await this.sqliteManager.initVecExtension();
+      await this.openConnection(target);
 
-      // Apply pending OPFS data if available
-      const pendingData = this.opfsManager.getPendingDatabaseData();
+      // Apply snapshot data if the backend restored any
+      const pendingData = this.storage.takeRestoreData();
       if (pendingData) {
-        this.logger.info('Restoring database from OPFS data');
+        this.logger.info('Restoring database from snapshot data');
         await this.sqliteManager.deserialize(pendingData);
-        this.opfsManager.clearPendingDatabaseData();
-        this.logger.info('Database restored from OPFS successfully');
+        this.logger.info('Database restored from snapshot successfully');
 
         // CRITICAL: Force correct PRAGMAs after restore (overrides old settings from OPFS)
         await this.sqliteManager.exec('PRAGMA cache_size = -8000');           // 8MB cache
         await this.sqliteManager.exec('PRAGMA journal_mode = DELETE');        // Disk-based journal
-        this.logger.info('PRAGMAs enforced after OPFS restore (8MB cache, disk journal)');
+        this.logger.info('PRAGMAs enforced after snapshot restore (8MB cache, disk journal)');
 
         // Verify database integrity after deserialization
         try {
           await this.sqliteManager.exec('SELECT 1');
           this.logger.info('Database connection verified after restore');
+
+          // The restored state is what storage already holds; don't rewrite it on the first sync
+          await this.storage.markClean();
         } catch (error) {
           this.logger.error('Database connection invalid after restore, reopening...', { error });
           // Close and reopen the connection
           this.sqliteManager.closeDatabase();
-          await this.sqliteManager.openDatabase(dbPath);
-
-          // Reapply PRAGMAs after reopening (CRITICAL: Use same settings as initial open)
-          await this.sqliteManager.exec('PRAGMA temp_store = MEMORY');
-          await this.sqliteManager.exec('PRAGMA cache_size = -8000');           // 8MB cache (fits in 16MB heap)
-          await this.sqliteManager.exec('PRAGMA synchronous = NORMAL');
-          await this.sqliteManager.exec('PRAGMA journal_mode = DELETE');        // Disk-based journal
-
-          await this.sqliteManager.initVecExtension();
+          await this.openConnection(target);
           this.logger.info('Database connection re-established');
         }
       }
 
-      // Start OPFS auto-sync if using OPFS
-      if (dbFilename.startsWith('opfs:/')) {
-        this.opfsManager.startAutoSync();
-      }
+      // Start background sync for snapshot backends
+      this.storage.startAutoSync();
 
       this.isInitialized = true;
       this.logger.info(`Database opened successfully: ${dbFilename}`);
@@ -308,20 +469,21 @@ export class DatabaseWorker {
       }
 
       try {
+        // Let a scheduled queue run finish before the database goes away
+        await this.queueScheduler.stop();
+
         // Cleanup embedding providers
         await this.providerManager.dispose();
 
-        // Force final sync to OPFS
-        await this.opfsManager.forceSync();
-
-        // Stop auto-sync
-        this.opfsManager.stopAutoSync();
+        // Force final sync to storage
+        await this.storage.flush();
 
         // Close database
         this.sqliteManager.closeDatabase();
 
-        // Cleanup OPFS manager
-        this.opfsManager.cleanup();
+        // Stop syncing and release storage
+        await this.storage.close();
+        this.storageTarget = null;
 
         this.isInitialized = false;
         this.logger.info('Database closed successfully');
@@ -332,6 +494,46 @@ export class DatabaseWorker {
     });
   }
 
+  /**
+   * Open the SQLite connection and apply the worker's connection settings
+   */
+  private async openConnection(target: StorageOpenTarget): Promise<void> {
+    this.logger.info(`Opening SQLite database at path: ${target.filename}`);
+    await this.sqliteManager.openDatabase(target.filename, target.vfs);
+
+    // Configure SQLite for browser environment (prevent "database or disk is full" errors)
+    // CRITICAL FIX: Reduced cache_size to fit in 16MB WASM heap (was -64000/64MB, causing malloc failures)
+    // CRITICAL FIX: Changed journal_mode to DELETE (disk-based) to reduce memory pressure
+    await this.sqliteManager.exec('PRAGMA temp_store = MEMORY');          // Store temp tables in memory
+    await this.sqliteManager.exec('PRAGMA cache_size = -8000');           // 8MB cache (fits in 16MB heap)
+    await this.sqliteManager.exec('PRAGMA synchronous = NORMAL');         // Balance performance/durability
+    await this.sqliteManager.exec('PRAGMA journal_mode = DELETE');        // Disk-based journal (OPFS)
+    this.logger.info('SQLite PRAGMAs configured for WASM environment (8MB cache, disk journal)');
+
+    // Initialize sqlite-vec extension
+    await this.sqliteManager.initVecExtension();
+  }
+
+  /**
+   * Close the connection, change the stored database, and open it again
+   */
+  private async reopenDatabase(change: () => Promise<void>): Promise<void> {
+    if (!this.storageTarget) {
+      throw new DatabaseError('Database storage is not open');
+    }
+
+    this.sqliteManager.closeDatabase();
+    try {
+      await change();
+    } finally {
+      await this.openConnection(this.storageTarget);
+    }
+  }
+
+  private storageDependencies() {
+    return { sqliteManager: this.sqliteManager, opfsManager: this.opfsManager, logger: this.logger };
+  }
+
   private async handleExec(params: ExecParams): Promise<QueryResult | void> {
     const validParams = this.validateParams(params, isExecParams, 'handleExec');
     this.ensureInitialized();
@@ -402,19 +604,75 @@ export class DatabaseWorker {
     });
   }
 
+  private async handleListCollections(): Promise<CollectionInfo[]> {
+    this.ensureInitialized();
+
+    return this.withContext('listCollections', async () => {
+      return await this.schemaManager.listCollections();
+    });
+  }
+
+  private async handleDropCollection(name: string): Promise<void> {
+    this.ensureInitialized();
+    const collectionName = this.validateCollectionName(name, 'dropCollection');
+
+    return this.withContext('dropCollection', async () => {
+      await this.schemaManager.dropCollection(collectionName);
+    });
+  }
+
+  private async handleRenameCollection(params: RenameCollectionParams): Promise<void> {
+    this.ensureInitialized();
+    const from = this.validateCollectionName(params?.from, 'renameCollection');
+    const to = this.validateCollectionName(params?.to, 'renameCollection');
+
+    return this.withContext('renameCollection', async () => {
+      await this.schemaManager.renameCollection(from, to);
+      await this.providerManager.renameCollection(from, to);
+    });
+  }
+
   private async handleCreateCollection(params: CreateCollectionParams): Promise<void> {
     const validParams = this.validateParams(params, isCreateCollectionParams, 'handleCreateCollection');
     this.ensureInitialized();
 
     return this.withContext('createCollection', async () => {
+      const config = { ...(validParams.config || {}) };
+      if (validParams.embeddingConfig) {
+        // The API key stays in memory; everything else is persisted for ProviderManager
+        const { apiKey, ...embeddingConfig } = validParams.embeddingConfig;
+        config.embeddingConfig = embeddingConfig;
+        if (apiKey) {
+          await this.providerManager.setApiKey(validParams.name, apiKey);
+        }
+      }
+
       await this.schemaManager.createCollection(
         validParams.name,
-        validParams.dimensions || 384,
-        validParams.config || {}
+        validParams.dimensions || validParams.embeddingConfig?.dimensions || 384,
+        config
       );
     });
   }
 
+  /**
+   * Supply the API key for a collection's embedding provider
+   *
+   * Keys are never persisted, so API-backed collections need this again after
+   * every reload; until then their inserts are queued.
+   */
+  private async handleSetEmbeddingApiKey(params: SetEmbeddingApiKeyParams): Promise<void> {
+    const validParams = this.validateParams(params, isSetEmbeddingApiKeyParams, 'handleSetEmbeddingApiKey');
+    this.ensureInitialized();
+
+    return this.withContext('setEmbeddingApiKey', async () => {
+      if (!(await this.schemaManager.collectionExists(validParams.collection))) {
+        throw new DatabaseError(`Collection '${validParams.collection}' does not exist`);
+      }
+      await this.providerManager.setApiKey(validParams.collection, validParams.apiKey);
+    });
+  }
+
   // =============================================================================
   // Embedding Operations (Simplified for demo)
   // =============================================================================
@@ -436,10 +694,14 @@ export class DatabaseWorker {
     };
   }
 
+  /**
+   * @param batchMode - Called from batchInsertDocuments inside its transaction:
+   *   FTS5 sync and embedding are left to the caller, after COMMIT
+   */
   private async handleInsertDocumentWithEmbedding(
     params: InsertDocumentWithEmbeddingParams,
-    skipFtsSync: boolean = false
-  ): Promise<{ id: string; embeddingGenerated: boolean }> {
+    batchMode: boolean = false
+  ): Promise<InsertDocumentResult> {
     const validParams = this.validateParams(params, isInsertDocumentWithEmbeddingParams, 'handleInsertDocumentWithEmbedding');
     this.ensureInitialized();
 
@@ -466,8 +728,8 @@ export class DatabaseWorker {
 
       // STEP 4: Insert document with collection in separate column
       const sql = `
-        INSERT OR REPLACE INTO docs_default (id, title, content, collection, metadata, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, strftime('%s', 'now'), strftime('%s', 'now'))
+        INSERT OR REPLACE INTO docs_default (id, title, content, collection, metadata, parent_id, chunk_index, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, strftime('%s', 'now'), strftime('%s', 'now'))
       `;
 
       this.logger.debug(`[InsertDoc] Executing INSERT for document: ${documentId}`);
@@ -478,7 +740,9 @@ export class DatabaseWorker {
           validParams.document.title || '',
           validParams.document.content || '',
           validParams.collection,           // ✅ Separate column for collection
-          metadataJson                       // ✅ Pure user metadata
+          metadataJson,                      // ✅ Pure user metadata
+          validParams.document.parentId ?? null,
+          validParams.document.chunkIndex ?? null
         ]);
         this.logger.debug(`[InsertDoc] ✓ INSERT completed for document: ${documentId}`);
       } catch (error) {
@@ -525,7 +789,7 @@ export class DatabaseWorker {
 
       // STEP 5.5: Manually sync FTS5 (no automatic triggers to avoid memory exhaustion)
       // Skip FTS5 sync if requested (e.g., during batch processing)
-      if (!skipFtsSync) {
+      if (!batchMode) {
         this.logger.debug(`[InsertDoc] Syncing FTS5 index for document: ${documentId}`);
         try {
           // Get rowid for FTS5
@@ -567,11 +831,34 @@ export class DatabaseWorker {
         this.logger.debug(`[InsertDoc] Skipping FTS5 sync for document: ${documentId} (batch mode)`);
       }
 
-      // STEP 6: Return accurate result
-      return { id: documentId, embeddingGenerated: false };
+      // STEP 5.6: Store a precomputed vector in the collection's vector table
+      if (validParams.document.vector) {
+        await this.documentHandler.storeVector(validParams.collection, documentId, validParams.document.vector);
+        return { id: documentId, embeddingGenerated: false, embeddingStatus: 'provided' };
+      }
+
+      if (batchMode) {
+        return { id: documentId, embeddingGenerated: false, embeddingStatus: 'skipped' };
+      }
+
+      // STEP 6: Embed per the collection's embedding configuration
+      const [embedding] = await this.insertEmbedder.embed(
+        validParams.collection,
+        [{ id: documentId, content: validParams.document.content }],
+        validParams.options
+      );
+      return { id: documentId, ...embedding };
     });
   }
 
+  private async hasEmbeddingConfig(collection: string): Promise<boolean> {
+    const result = await this.sqliteManager.select(
+      'SELECT config FROM collections WHERE name = ?',
+      [collection]
+    );
+    return !!JSON.parse(result.rows[0]?.config || '{}').embeddingConfig;
+  }
+
   /**
    * Calculate optimal batch size based on document sizes and available cache
    *
@@ -645,11 +932,8 @@ export class DatabaseWorker {
       content: string;
       metadata?: Record<string, any>;
     }>;
-    options?: {
-      generateEmbedding?: boolean;
-      embeddingOptions?: any;
-    };
-  }): Promise<Array<{ id: string; embeddingGenerated: boolean }>> {
+    options?: InsertDocumentOptions;
+  }): Promise<InsertDocumentResult[]> {
     this.ensureInitialized();
 
     return this.withContext('batchInsertDocuments', async () => {
@@ -694,7 +978,7 @@ export class DatabaseWorker {
       // Calculate optimal batch size based on document sizes and cache
       this.logger.info(`[BatchInsert] Calculating optimal batch size...`);
       const BATCH_SIZE = await this.calculateOptimalBatchSize(documents);
-      const results: Array<{ id: string; embeddingGenerated: boolean }> = [];
+      const results: InsertDocumentResult[] = [];
       const totalBatches = Math.ceil(documents.length / BATCH_SIZE);
 
       this.logger.info(`[BatchInsert] Batch size: ${BATCH_SIZE}, total batches: ${totalBatches}`);
@@ -875,6 +1159,18 @@ export class DatabaseWorker {
             this.logger.error(`[BatchInsert] Stopping batch processing due to error in batch ${batchNum}`);
             throw batchError;
           }
+
+          // Embed after COMMIT so provider calls never hold the write transaction open
+          const unembedded = results
+            .slice(batchStartIdx, batchEndIdx)
+            .map((result, index) => ({ result, content: batch[index].content }))
+            .filter(({ result }) => result.embeddingStatus === 'skipped');
+          const outcomes = await this.insertEmbedder.embed(
+            collection,
+            unembedded.map(({ result, content }) => ({ id: result.id, content })),
+            options
+          );
+          unembedded.forEach(({ result }, index) => Object.assign(result, outcomes[index]));
         }
 
         this.logger.info(`[BatchInsert] ========================================`);
@@ -902,6 +1198,98 @@ export class DatabaseWorker {
     });
   }
 
+  /**
+   * Split a long document into chunks and insert each as a document linked to the parent id
+   *
+   * Previous chunks of the same parent, and an unchunked document stored
+   * under the parent id, are removed in the same transaction that writes the
+   * new chunks: re-chunking leaves exactly one version, and a failed insert
+   * keeps the old one. Embedding runs after COMMIT.
+   */
+  private async handleInsertChunkedDocument(params: InsertChunkedDocumentParams): Promise<InsertChunkedDocumentResult> {
+    const validParams = this.validateParams(params, isInsertChunkedDocumentParams, 'handleInsertChunkedDocument');
+    this.ensureInitialized();
+
+    return this.withContext('insertChunkedDocument', async () => {
+      const { validateDocument, generateDocumentId, sanitizeDocumentId } = await import('../utils/Validation.js');
+      const { collection, document, chunking, options } = validParams;
+
+      validateDocument(document, collection);
+      const parentId = document.id ? sanitizeDocumentId(document.id) : generateDocumentId();
+      // A title-only document still gets one (empty) chunk so it stays findable by title
+      const chunks = new TextChunker(chunking).chunk(document.content);
+      if (chunks.length === 0) {
+        chunks.push({ index: 0, content: document.content, startOffset: 0, endOffset: document.content.length, estimatedTokens: 0 });
+      }
+
+      const chunkDocuments: InsertDocumentWithEmbeddingParams['document'][] = chunks.map(chunk => ({
+        id: `${parentId}#${chunk.index}`,
+        title: document.title,
+        content: chunk.content,
+        metadata: document.metadata,
+        parentId,
+        chunkIndex: chunk.index
+      }));
+
+      const results: InsertDocumentResult[] = [];
+      const replacedChunks = await runInTransaction(this.sqliteManager, async () => {
+        const replaced = await this.documentHandler.removeChunkedDocument(collection, parentId);
+
+        for (const chunkDocument of chunkDocuments) {
+          // Batch mode: FTS5 sync below, embedding after COMMIT
+          const result = await this.handleInsertDocumentWithEmbedding({ collection, document: chunkDocument, options }, true);
+          const rowidResult = await this.sqliteManager.select(
+            'SELECT rowid FROM docs_default WHERE id = ? AND collection = ?',
+            [result.id, collection]
+          );
+          await this.sqliteManager.exec(
+            'INSERT INTO fts_default(rowid, title, content, metadata) VALUES (?, ?, ?, ?)',
+            [rowidResult.rows[0].rowid, chunkDocument.title || '', chunkDocument.content, JSON.stringify(chunkDocument.metadata || {})]
+          );
+          results.push(result);
+        }
+
+        return replaced;
+      }, (level, message) => this.logger.log(level, `[InsertChunked] ${message}`));
+      this.logger.info(`[InsertChunked] Document '${parentId}' split into ${chunks.length} chunks (${replacedChunks} replaced)`);
+
+      const outcomes = await this.insertEmbedder.embed(
+        collection,
+        results.map((result, index) => ({ id: result.id, content: chunkDocuments[index].content })),
+        options
+      );
+      results.forEach((result, index) => Object.assign(result, outcomes[index]));
+      return { parentId, chunks: results, replacedChunks };
+    });
+  }
+
+  private async handleUpdateDocument(params: UpdateDocumentParams): Promise<UpdateDocumentResult> {
+    const validParams = this.validateParams(params, isUpdateDocumentParams, 'handleUpdateDocument');
+    this.ensureInitialized();
+
+    return this.withContext('updateDocument', async () => {
+      return await this.documentHandler.updateDocument(validParams);
+    });
+  }
+
+  private async handleDeleteDocument(params: DeleteDocumentParams): Promise<boolean> {
+    const validParams = this.validateParams(params, isDeleteDocumentParams, 'handleDeleteDocument');
+    this.ensureInitialized();
+
+    return this.withContext('deleteDocument', async () => {
+      return await this.documentHandler.deleteDocument(validParams);
+    });
+  }
+
+  private async handleDeleteDocuments(params: DeleteDocumentsParams): Promise<DeleteDocumentsResult> {
+    const validParams = this.validateParams(params, isDeleteDocumentsParams, 'handleDeleteDocuments');
+    this.ensureInitialized();
+
+    return this.withContext('deleteDocuments', async () => {
+      return await this.documentHandler.deleteDocuments(validParams);
+    });
+  }
+
   private async handleGenerateEmbedding(params: GenerateEmbeddingRequest): Promise<GenerateEmbeddingResult> {
     // Simplified implementation
     const validParams = this.validateParams(params, isGenerateEmbeddingRequest, 'handleGenerateEmbedding');
@@ -950,17 +1338,58 @@ export class DatabaseWorker {
     });
   }
 
+  // Batch size for collections without an embedding provider (placeholder vectors)
+  private readonly PLACEHOLDER_BATCH_SIZE = 100;
+
   private async handleProcessEmbeddingQueue(params: ProcessEmbeddingQueueParams = {}): Promise<ProcessEmbeddingQueueResult> {
     const validParams = this.validateParams(params, isProcessEmbeddingQueueParams, 'handleProcessEmbeddingQueue');
     this.ensureInitialized();
 
     return this.withContext('processEmbeddingQueue', async () => {
-      // Simple mock embedding generator
-      const embeddingGenerator = async (collection: string, content: string): Promise<Float32Array> => {
-        return new Float32Array(384).fill(0.1);
-      };
+      return await this.embeddingQueue.processQueue(validParams, this.queueEmbeddingGenerator);
+    });
+  }
 
-      return await this.embeddingQueue.processQueue(validParams, embeddingGenerator);
+  /**
+   * Embedding source for queue runs, shared by processEmbeddingQueue and the scheduler
+   * (ProviderManager caches providers per collection)
+   */
+  private readonly queueEmbeddingGenerator: QueueEmbeddingGenerator = {
+    maxBatchSize: async collection =>
+      (await this.providerManager.getProvider(collection))?.maxBatchSize ?? this.PLACEHOLDER_BATCH_SIZE,
+    generateBatch: async (collection, texts) => {
+      const provider = await this.providerManager.getProvider(collection);
+      if (provider) {
+        return await provider.generateBatch(texts);
+      }
+
+      // A configured provider that failed to initialize (missing key, network, bad config)
+      // must fail the batch so it is retried, not store placeholder vectors for good
+      if (await this.hasEmbeddingConfig(collection)) {
+        throw new EmbeddingError(`Embedding provider for collection '${collection}' is not available`);
+      }
+
+      // Collections without an embedding configuration get placeholder vectors sized to their vector table
+      const { dimensions } = await this.schemaManager.getVectorTable(collection);
+      return texts.map(() => new Float32Array(dimensions).fill(0.1));
+    }
+  };
+
+  private async handleStartEmbeddingScheduler(params: EmbeddingSchedulerConfig = {}): Promise<void> {
+    if (typeof params !== 'object' || params === null ||
+        Object.values(params).some(value => value !== undefined && (typeof value !== 'number' || !(value > 0)))) {
+      throw new Error('Invalid parameters for startEmbeddingScheduler: settings must be positive numbers');
+    }
+    this.ensureInitialized();
+
+    return this.withContext('startEmbeddingScheduler', async () => {
+      this.queueScheduler.start(params);
+    });
+  }
+
+  private async handleStopEmbeddingScheduler(): Promise<void> {
+    return this.withContext('stopEmbeddingScheduler', async () => {
+      await this.queueScheduler.stop();
     });
   }
 
@@ -994,6 +1423,10 @@ export class DatabaseWorker {
   private readonly MAX_LIKE_RESULTS = 100;
   private readonly LIKE_TIMEOUT_MS = 500;
 
+  // Vector candidate oversampling when metadata filters are active
+  private readonly FILTERED_VECTOR_OVERSAMPLE = 10;
+  private readonly MAX_VECTOR_CANDIDATES = 1000;
+
   /**
    * Escape LIKE wildcards to prevent SQL injection / unintended matches
    * CRITICAL: Must escape %, _, and \ characters
@@ -1019,8 +1452,9 @@ export class DatabaseWorker {
   private async executeLIKESearch(
     searchText: string,
     collection: string,
-    limit: number
-  ): Promise<{ rows: Array<{ id: string; title: string; content: string; metadata: any; like_rank: number }>; skipReason?: string }> {
+    limit: number,
+    filter: CompiledFilter = { clause: '', params: [] }
+  ): Promise<{ rows: Array<{ rowid: number; id: string; title: string; content: string; metadata: any; like_rank: number }>; skipReason?: string }> {
     // SAFETY CHECK 1: Empty query
     if (!searchText || searchText.trim().length === 0) {
       return { rows: [], skipReason: 'too_short' };
@@ -1052,10 +1486,13 @@ export class DatabaseWorker {
     // This allows "Совет" to match "Советский" correctly
     const sql = `
       SELECT
+        d.rowid,
         d.id,
         d.title,
         d.content,
         d.metadata,
+        d.parent_id,
+        d.chunk_index,
         ROW_NUMBER() OVER (
           ORDER BY
             -- Primary: Where match appears (title > content)
@@ -1073,7 +1510,7 @@ export class DatabaseWorker {
             LENGTH(d.content) ASC
         ) - 1 AS like_rank  -- 0-indexed for RRF
       FROM docs_default d
-      WHERE d.collection = ?
+      WHERE d.collection = ?${andFilter(filter)}
         AND (
           d.title LIKE ? ESCAPE '\\' OR
           d.content LIKE ? ESCAPE '\\'
@@ -1087,6 +1524,7 @@ export class DatabaseWorker {
       escaped,            // INSTR: title position
       escaped,            // INSTR: content position
       collection,
+      ...filter.params,   // WHERE: metadata filters
       likePattern,        // WHERE: title match
       likePattern,        // WHERE: content match
       Math.min(limit * 2, this.MAX_LIKE_RESULTS)  // Cap at MAX_LIKE_RESULTS
@@ -1116,11 +1554,25 @@ export class DatabaseWorker {
     this.ensureInitialized();
     const startTime = Date.now();
 
+    // Compile filters up front so invalid filters surface as FilterError instead of empty results
+    const searchFilters = params.filters ?? (params.query?.filters ? { metadata: params.query.filters } : undefined);
+    const compiledFilter = this.filterCompiler.compile(searchFilters);
+    const filterSql = andFilter(compiledFilter);
+    // Validated up front so configuration errors surface as FusionError
+    let fusion = resolveRequestFusion(params, !!params.query?.vector);
+    const fingerprint = fingerprintSearch(params);
+    const cursor = params.cursor ? decodeCursor(params.cursor, fingerprint) : undefined;
+    const offset = params.offset ?? 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new PaginationError(`offset must be a non-negative integer, got ${params.offset}`, { offset: params.offset });
+    }
+
     try {
       const {
         query,
         collection = 'default',
         limit = 10,
+        deep = false,
         fusionMethod = 'rrf',
         fusionWeights = { fts: 0.6, vec: 0.4 },
         enableLikeSearch = false  // NEW: Opt-in for LIKE search (3-way RRF)
@@ -1149,6 +1601,7 @@ export class DatabaseWorker {
           });
           if (embedding.embedding) {
             searchQuery.vector = embedding.embedding;
+            fusion = resolveRequestFusion(params, true);
             this.logger.info('Successfully generated query embedding');
           }
         } catch (embeddingError) {
@@ -1158,6 +1611,23 @@ export class DatabaseWorker {
 
       this.logger.info(`Starting search - text: "${searchQuery.text || 'none'}", vector: ${searchQuery.vector ? 'provided' : 'none'}, collection: ${collection}, LIKE enabled: ${enableLikeSearch}`);
 
+      // Each collection owns a vector table sized to its embedding dimensions
+      let vectorTable = 'vec_default_dense';
+      if (searchQuery.vector) {
+        const tableInfo = await this.schemaManager.getVectorTable(collection);
+        if (searchQuery.vector.length !== tableInfo.dimensions) {
+          throw new VectorError(
+            `Query vector has ${searchQuery.vector.length} dimensions, ` +
+            `collection '${collection}' expects ${tableInfo.dimensions}`
+          );
+        }
+        vectorTable = tableInfo.table;
+      }
+
+      // Every source retrieves enough candidates to rank the whole page
+      const position = cursor?.position ?? offset;
+      const poolSize = candidatePoolSize(position, limit, deep, this.MAX_VECTOR_CANDIDATES);
+
       // LIKE search execution (if enabled)
       let likeResults: any[] = [];
       let likeSkipReason: string | undefined;
@@ -1165,7 +1635,7 @@ export class DatabaseWorker {
 
       if (enableLikeSearch && searchQuery.text) {
         const likeStartTime = Date.now();
-        const likeResult = await this.executeLIKESearch(searchQuery.text, collection, limit);
+        const likeResult = await this.executeLIKESearch(searchQuery.text, collection, poolSize, compiledFilter);
         likeResults = likeResult.rows;
         likeSkipReason = likeResult.skipReason;
         likeTime = Date.now() - likeStartTime;
@@ -1176,283 +1646,154 @@ export class DatabaseWorker {
         }
       }
 
-      // Handle different search scenarios
-      let searchSQL: string;
-      let searchParams: any[];
+      // Filters are applied after the KNN step, so oversample vector candidates to keep pages full
+      const vectorK = compiledFilter.clause
+        ? Math.min(poolSize * this.FILTERED_VECTOR_OVERSAMPLE, this.MAX_VECTOR_CANDIDATES)
+        : poolSize;
+
+      if (!searchQuery.text && !searchQuery.vector) {
+        throw new Error('Search requires either text or vector query');
+      }
+
+      // Each source is retrieved separately and fused in TypeScript (see FusionEngine)
+      const rows = new Map<string, Record<string, any>>();
+      const lists: CandidateList[] = [];
       let ftsTime = 0;
       let vecTime = 0;
-      let fusionTime = 0;
-
-      if (searchQuery.text && searchQuery.vector) {
-        // Hybrid search: 2-way (FTS + Vector) or 3-way (FTS + Vector + LIKE)
-        const is3Way = enableLikeSearch && likeResults.length > 0;
-        this.logger.info(`Performing ${is3Way ? '3-way' : '2-way'} hybrid search`);
-
-        // Build SQL with conditional LIKE CTE
-        if (is3Way) {
-          // 3-way RRF: FTS + Vector + LIKE
-          searchSQL = `
-            WITH fts_results AS (
-              SELECT d.rowid, d.id, d.title, d.content, d.metadata,
-                     bm25(fts_default) as fts_score,
-                     rank() OVER (ORDER BY bm25(fts_default)) as fts_rank
-              FROM docs_default d
-              JOIN fts_default f ON d.rowid = f.rowid
-              WHERE d.collection = ? AND fts_default MATCH ?
-              LIMIT ?
-            ),
-            vec_results AS (
-              SELECT d.rowid, d.id, d.title, d.content, d.metadata,
-                     v.distance as vec_score,
-                     rank() OVER (ORDER BY v.distance) as vec_rank
-              FROM docs_default d
-              JOIN (
-                SELECT rowid, distance
-                FROM vec_default_dense
-                WHERE embedding MATCH ?
-                ORDER BY distance
-                LIMIT ?
-              ) v ON d.rowid = v.rowid
-              WHERE d.collection = ?
-            ),
-            like_results AS (
-              SELECT d.rowid, d.id, d.title, d.content, d.metadata,
-                     lr.like_rank
-              FROM docs_default d
-              JOIN (
-                ${likeResults.map((r, idx) => `SELECT '${r.id}' as id, ${r.like_rank} as like_rank`).join(' UNION ALL ')}
-              ) lr ON d.id = lr.id
-              WHERE d.collection = ?
-            )
-            SELECT DISTINCT
-              COALESCE(f.id, v.id, l.id) as id,
-              COALESCE(f.title, v.title, l.title) as title,
-              COALESCE(f.content, v.content, l.content) as content,
-              COALESCE(f.metadata, v.metadata, l.metadata) as metadata,
-              COALESCE(f.fts_score, 0) as fts_score,
-              COALESCE(v.vec_score, 1) as vec_score,
-              COALESCE(l.like_rank, -1) as like_rank,
-              CASE
-                WHEN ? = 'rrf' THEN
-                  (COALESCE(1.0/(60 + f.fts_rank), 0) +
-                   COALESCE(1.0/(60 + v.vec_rank), 0) +
-                   COALESCE(1.0/(60 + l.like_rank), 0))
-                ELSE
-                  (? * COALESCE(-f.fts_score, 0) +
-                   ? * COALESCE(1.0/(1.0 + v.vec_score), 0) +
-                   ? * CASE WHEN l.like_rank >= 0 THEN 1.0/(1.0 + l.like_rank) ELSE 0 END)
-              END as score
-            FROM fts_results f
-            FULL OUTER JOIN vec_results v ON f.rowid = v.rowid
-            FULL OUTER JOIN like_results l ON COALESCE(f.rowid, v.rowid) = l.rowid
-            ORDER BY score DESC
-            LIMIT ?
-          `;
-
-          const vectorJson = JSON.stringify(Array.from(searchQuery.vector));
-          searchParams = [
-            collection, searchQuery.text, limit,
-            vectorJson, limit,
-            collection,
-            collection,  // LIKE CTE collection filter
-            fusionMethod,
-            fusionWeights.fts, fusionWeights.vec, fusionWeights.like || 0.2,
-            limit
-          ];
-        } else {
-          // 2-way RRF: FTS + Vector (existing logic)
-          searchSQL = `
-            WITH fts_results AS (
-              SELECT d.rowid, d.id, d.title, d.content, d.metadata,
-                     bm25(fts_default) as fts_score,
-                     rank() OVER (ORDER BY bm25(fts_default)) as fts_rank
-              FROM docs_default d
-              JOIN fts_default f ON d.rowid = f.rowid
-              WHERE d.collection = ? AND fts_default MATCH ?
-              LIMIT ?
-            ),
-            vec_results AS (
-              SELECT d.rowid, d.id, d.title, d.content, d.metadata,
-                     v.distance as vec_score,
-                     rank() OVER (ORDER BY v.distance) as vec_rank
-              FROM docs_default d
-              JOIN (
-                SELECT rowid, distance
-                FROM vec_default_dense
-                WHERE embedding MATCH ?
-                ORDER BY distance
-                LIMIT ?
-              ) v ON d.rowid = v.rowid
-              WHERE d.collection = ?
-            )
-            SELECT DISTINCT
-              COALESCE(f.id, v.id) as id,
-              COALESCE(f.title, v.title) as title,
-              COALESCE(f.content, v.content) as content,
-              COALESCE(f.metadata, v.metadata) as metadata,
-              COALESCE(f.fts_score, 0) as fts_score,
-              COALESCE(v.vec_score, 1) as vec_score,
-              CASE
-                WHEN ? = 'rrf' THEN
-                  (COALESCE(1.0/(60 + f.fts_rank), 0) + COALESCE(1.0/(60 + v.vec_rank), 0))
-                ELSE
-                  (? * COALESCE(-f.fts_score, 0) + ? * COALESCE(1.0/(1.0 + v.vec_score), 0))
-              END as score
-            FROM fts_results f
-            FULL OUTER JOIN vec_results v ON f.rowid = v.rowid
-            ORDER BY score DESC
-            LIMIT ?
-          `;
-
-          const vectorJson = JSON.stringify(Array.from(searchQuery.vector));
-          searchParams = [
-            collection, searchQuery.text, limit,
-            vectorJson, limit,
-            collection,
-            fusionMethod,
-            fusionWeights.fts, fusionWeights.vec,
-            limit
-          ];
-        }
-      } else if (searchQuery.text) {
-        // Text-only search (with optional LIKE)
-        const is3Way = enableLikeSearch && likeResults.length > 0;
-        this.logger.info(`Performing text-only search${is3Way ? ' with LIKE' : ''}`);
+      let ftsMatch: string | undefined;
 
-        // For multi-word queries, use OR
+      if (searchQuery.text) {
+        // Text-only search ORs multi-word queries; hybrid relies on the vector side for recall
         const words = searchQuery.text.trim().split(/\s+/);
-        const ftsQuery = words.length > 1 ? words.join(' OR ') : searchQuery.text;
-
-        if (is3Way) {
-          // FTS + LIKE fusion
-          searchSQL = `
-            WITH fts_results AS (
-              SELECT d.rowid, d.id, d.title, d.content, d.metadata,
-                     bm25(fts_default) as fts_score,
-                     rank() OVER (ORDER BY bm25(fts_default)) as fts_rank
-              FROM docs_default d
-              JOIN fts_default f ON d.rowid = f.rowid
-              WHERE d.collection = ? AND fts_default MATCH ?
-              LIMIT ?
-            ),
-            like_results AS (
-              SELECT d.rowid, d.id, d.title, d.content, d.metadata,
-                     lr.like_rank
-              FROM docs_default d
-              JOIN (
-                ${likeResults.map((r, idx) => `SELECT '${r.id}' as id, ${r.like_rank} as like_rank`).join(' UNION ALL ')}
-              ) lr ON d.id = lr.id
-              WHERE d.collection = ?
-            )
-            SELECT DISTINCT
-              COALESCE(f.id, l.id) as id,
-              COALESCE(f.title, l.title) as title,
-              COALESCE(f.content, l.content) as content,
-              COALESCE(f.metadata, l.metadata) as metadata,
-              COALESCE(f.fts_score, 0) as fts_score,
-              0 as vec_score,
-              COALESCE(l.like_rank, -1) as like_rank,
-              CASE
-                WHEN ? = 'rrf' THEN
-                  (COALESCE(1.0/(60 + f.fts_rank), 0) +
-                   COALESCE(1.0/(60 + l.like_rank), 0))
-                ELSE
-                  (? * COALESCE(-f.fts_score, 0) +
-                   ? * CASE WHEN l.like_rank >= 0 THEN 1.0/(1.0 + l.like_rank) ELSE 0 END)
-              END as score
-            FROM fts_results f
-            FULL OUTER JOIN like_results l ON f.rowid = l.rowid
-            ORDER BY score DESC
-            LIMIT ?
-          `;
-
-          searchParams = [
-            collection, ftsQuery, limit,
-            collection,  // LIKE CTE collection filter
-            fusionMethod,
-            fusionWeights.fts, fusionWeights.like || 0.3,
-            limit
-          ];
-        } else {
-          // FTS only (existing logic)
-          searchSQL = `
-            SELECT d.id, d.title, d.content, d.metadata,
-                   bm25(fts_default) as fts_score,
-                   0 as vec_score,
-                   -bm25(fts_default) as score
-            FROM docs_default d
-            JOIN fts_default f ON d.rowid = f.rowid
-            WHERE d.collection = ? AND fts_default MATCH ?
-            ORDER BY score DESC
-            LIMIT ?
-          `;
-
-          searchParams = [collection, ftsQuery, limit];
-        }
-      } else if (searchQuery.vector) {
-        // Vector-only search
-        this.logger.info('Performing vector-only search');
-
-        const vectorJson = JSON.stringify(Array.from(searchQuery.vector));
-        searchSQL = `
-          SELECT d.id, d.title, d.content, d.metadata,
-                 0 as fts_score,
-                 v.distance as vec_score,
-                 1.0/(1.0 + v.distance) as score
-          FROM docs_default d
-          JOIN (
-            SELECT rowid, distance
-            FROM vec_default_dense
-            WHERE embedding MATCH ?
-            ORDER BY distance
-            LIMIT ?
-          ) v ON d.rowid = v.rowid
-          WHERE d.collection = ?
-          ORDER BY v.distance
-        `;
-
-        searchParams = [vectorJson, limit, collection];
-      } else {
-        throw new Error('Search requires either text or vector query');
+        ftsMatch = params.ftsQuery
+          ?? (searchQuery.vector || words.length === 1 ? searchQuery.text : words.join(' OR '));
+
+        const ftsStartTime = Date.now();
+        const ftsResult = await this.sqliteManager.select(
+          `SELECT d.rowid, d.id, d.title, d.content, d.metadata, d.parent_id, d.chunk_index, bm25(fts_default) as fts_score
+           FROM docs_default d
+           JOIN fts_default f ON d.rowid = f.rowid
+           WHERE d.collection = ? AND fts_default MATCH ?${filterSql}
+           ORDER BY fts_score
+           LIMIT ?`,
+          [collection, ftsMatch, ...compiledFilter.params, poolSize]
+        );
+        ftsTime = Date.now() - ftsStartTime;
+
+        lists.push({
+          source: 'fts',
+          candidates: ftsResult.rows.map((row, index) => {
+            rows.set(String(row.rowid), row);
+            // bm25() is lower-is-better
+            return { id: String(row.rowid), rank: index + 1, score: -row.fts_score, raw: row.fts_score };
+          })
+        });
       }
 
-      this.logger.info(`Executing search SQL with ${searchParams.length} parameters`);
+      if (searchQuery.vector) {
+        const vecStartTime = Date.now();
+        const vecResult = await this.sqliteManager.select(
+          `SELECT d.rowid, d.id, d.title, d.content, d.metadata, d.parent_id, d.chunk_index, v.distance as vec_score
+           FROM docs_default d
+           JOIN (
+             SELECT rowid, distance
+             FROM ${vectorTable}
+             WHERE embedding MATCH ?
+             ORDER BY distance
+             LIMIT ?
+           ) v ON d.rowid = v.rowid
+           WHERE d.collection = ?${filterSql}
+           ORDER BY v.distance
+           LIMIT ?`,
+          [JSON.stringify(Array.from(searchQuery.vector)), vectorK, collection, ...compiledFilter.params, poolSize]
+        );
+        vecTime = Date.now() - vecStartTime;
+
+        lists.push({
+          source: 'vec',
+          candidates: vecResult.rows.map((row, index) => {
+            rows.set(String(row.rowid), row);
+            return { id: String(row.rowid), rank: index + 1, score: 1 / (1 + row.vec_score), raw: row.vec_score };
+          })
+        });
+      }
 
-      // DEBUG: Log SQL and params for troubleshooting
-      this.logger.debug(`SQL Query:\n${searchSQL}`);
-      this.logger.debug(`Parameters: ${JSON.stringify(searchParams.slice(0, 5))}...`);
+      if (likeResults.length > 0) {
+        lists.push({
+          source: 'like',
+          candidates: likeResults.map(row => {
+            rows.set(String(row.rowid), row);
+            // like_rank is 0-based
+            return { id: String(row.rowid), rank: row.like_rank + 1, score: 1 / (1 + row.like_rank), raw: row.like_rank };
+          })
+        });
+      }
 
       const fusionStartTime = Date.now();
-      const searchResult = await this.sqliteManager.select(searchSQL, searchParams);
-      fusionTime = Date.now() - fusionStartTime;
-
-      this.logger.debug(`Search returned ${searchResult.rows.length} rows`);
-
-      const results: import('../../../types/worker.js').SearchResult[] = searchResult.rows.map(row => ({
-        id: row.id,
-        title: row.title,
-        content: row.content,
-        metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-        score: row.score,
-        ftsScore: row.fts_score,
-        vecScore: row.vec_score,
-        // Add LIKE score/rank if available (3-way RRF only)
-        likeRank: row.like_rank !== undefined && row.like_rank >= 0 ? row.like_rank : undefined,
-        likeScore: row.like_rank !== undefined && row.like_rank >= 0
-          ? 1.0 / (1.0 + row.like_rank)
-          : undefined
-      }));
+      const fused = lists.length === 1
+        ? rankSingleList(lists[0])
+        : fuseCandidateLists(lists, fusion);
+      const fusionTime = Date.now() - fusionStartTime;
+
+      // One result per parent document: its best-ranked chunk stands in for the others
+      const collapsed = params.collapseChunks
+        ? collapseByGroup(fused, entry => {
+            const row = rows.get(entry.id)!;
+            return row.parent_id ?? row.id;
+          })
+        : null;
+      const ranked = collapsed ? collapsed.map(group => group.candidate) : fused;
+      const matchedChunks = new Map(collapsed?.map(group => [group.candidate.id, group.matchedChunks]));
+
+      const start = cursor ? resumeIndex(ranked, cursor) : offset;
+      const page = ranked.slice(start, start + limit);
+      const hasMore = ranked.length > start + page.length && page.length > 0;
+      const last = page[page.length - 1];
+      const nextCursor = hasMore
+        ? encodeCursor({ fingerprint, lastScore: last.score, lastId: last.id, position: start + page.length })
+        : undefined;
+
+      const results: import('../../../types/worker.js').SearchResult[] = page.map(entry => {
+        const row = rows.get(entry.id)!;
+        const { fts, vec, like } = entry.components;
+        const isChunk = row.parent_id != null;
+        return {
+          id: collapsed && isChunk ? row.parent_id : row.id,
+          title: row.title,
+          content: row.content,
+          metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+          score: entry.score,
+          ftsScore: fts?.raw ?? 0,
+          vecScore: vec?.raw ?? 0,
+          likeRank: like?.raw,
+          likeScore: like ? 1.0 / (1.0 + like.raw) : undefined,
+          ...(isChunk && { parentId: row.parent_id, chunkIndex: row.chunk_index }),
+          // The collapsed result's content is its best chunk, which doubles as the default snippet
+          ...(collapsed && isChunk && {
+            chunkId: row.id,
+            matchedChunks: matchedChunks.get(entry.id),
+            ...(!params.snippets?.enabled && { snippets: [row.content] })
+          }),
+          ...(params.explain && { explanation: explainFusion(entry, lists.length === 1 ? undefined : fusion) })
+        };
+      });
+
+      if (params.snippets?.enabled || params.highlight?.enabled) {
+        await this.attachSnippets(results, page, params, ftsMatch);
+      }
 
       const searchTime = Date.now() - startTime;
       this.operationCount++;
 
       this.logger.debug(`Search completed in ${searchTime}ms, found ${results.length} results`);
-      this.logger.debug(`Timing breakdown: LIKE=${likeTime}ms, Fusion=${fusionTime}ms, Total=${searchTime}ms`);
+      this.logger.debug(`Timing breakdown: FTS=${ftsTime}ms, Vector=${vecTime}ms, LIKE=${likeTime}ms, Fusion=${fusionTime}ms, Total=${searchTime}ms`);
 
       return {
         results,
         totalResults: results.length,
         searchTime,
+        hasMore,
+        ...(nextCursor && { nextCursor }),
         // Enhanced debugInfo with timing breakdown and LIKE monitoring
         debugInfo: {
           query: {
@@ -1462,7 +1803,8 @@ export class DatabaseWorker {
           searchMethod: searchQuery.text && searchQuery.vector
             ? 'hybrid'
             : searchQuery.text ? 'text' : 'vector',
-          fusionMethod,
+          fusionMethod: fusion.method,
+          normalization: fusion.normalization,
           likeEnabled: enableLikeSearch,
           likeExecuted: enableLikeSearch && !!searchQuery.text,
           likeTimeout: likeSkipReason === 'timeout',
@@ -1473,17 +1815,22 @@ export class DatabaseWorker {
             total: searchTime,
             likeSearch: likeTime,
             fusion: fusionTime,
-            // FTS/Vec times not separately tracked (combined in fusion)
-            ftsTime: 0,
-            vectorTime: 0
+            ftsTime,
+            vectorTime: vecTime
           },
           weights: fusionWeights,
+          filtered: !!compiledFilter.clause,
           collection,
-          limit
+          limit,
+          offset: start,
+          poolSize
         }
       };
-
     } catch (error) {
+      // Dimension mismatches are caller errors, not empty result sets
+      if (error instanceof VectorError) {
+        throw error;
+      }
       this.logger.error('Search failed', { error });
       return {
         results: [],
@@ -1493,6 +1840,80 @@ export class DatabaseWorker {
     }
   }
 
+  /**
+   * Snippets and highlights for a page of search results
+   *
+   * FTS hits are marked up by FTS5 snippet()/highlight() under the same MATCH
+   * expression; vector and LIKE hits get the equivalent computed in TypeScript.
+   * `results[i]` must be the document of `page[i]`.
+   */
+  private async attachSnippets(
+    results: import('../../../types/worker.js').SearchResult[],
+    page: FusedCandidate[],
+    params: SearchRequest,
+    ftsMatch: string | undefined
+  ): Promise<void> {
+    const snippetOptions = params.snippets?.enabled ? params.snippets : undefined;
+    const highlightOptions = params.highlight?.enabled ? params.highlight : undefined;
+    const snippetTags = snippetOptions?.highlightTags ?? highlightOptions?.tags ?? DEFAULT_HIGHLIGHT_TAGS;
+    const highlightTags = highlightOptions?.tags ?? DEFAULT_HIGHLIGHT_TAGS;
+    const contextWindow = snippetOptions?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+    const fields = highlightOptions
+      ? (highlightOptions.fields ?? Object.keys(HIGHLIGHT_COLUMNS))
+          .filter((field): field is HighlightField => field in HIGHLIGHT_COLUMNS)
+      : [];
+
+    const columns: string[] = [];
+    const columnParams: Array<string | number> = [];
+    if (snippetOptions) {
+      columns.push('snippet(fts_default, 1, ?, ?, ?, ?) AS snippet');
+      columnParams.push(snippetTags.pre, snippetTags.post, SNIPPET_ELLIPSIS, Math.min(2 * contextWindow + 1, MAX_SNIPPET_TOKENS));
+    }
+    for (const field of fields) {
+      columns.push(`highlight(fts_default, ${HIGHLIGHT_COLUMNS[field]}, ?, ?) AS ${field}_highlight`);
+      columnParams.push(highlightTags.pre, highlightTags.post);
+    }
+
+    const ftsRowids = page.filter(entry => entry.components.fts).map(entry => Number(entry.id));
+    const marked = new Map<string, Record<string, any>>();
+    if (ftsMatch && ftsRowids.length > 0 && columns.length > 0) {
+      try {
+        const markup = await this.sqliteManager.select(
+          `SELECT rowid, ${columns.join(', ')}
+           FROM fts_default
+           WHERE fts_default MATCH ? AND rowid IN (${ftsRowids.map(() => '?').join(', ')})`,
+          [...columnParams, ftsMatch, ...ftsRowids]
+        );
+        for (const row of markup.rows) {
+          marked.set(String(row.rowid), row);
+        }
+      } catch (error) {
+        this.logger.warn('FTS5 snippets failed, building them in TypeScript', { error });
+      }
+    }
+
+    const terms = queryTerms(params.query.text ?? '');
+    results.forEach((result, index) => {
+      const row = marked.get(page[index].id);
+
+      if (snippetOptions) {
+        result.snippets = [row?.snippet ?? buildSnippet(result.content ?? '', terms, { contextWindow, tags: snippetTags })];
+      }
+
+      if (highlightOptions) {
+        const highlights: Record<string, string[]> = {};
+        for (const field of fields) {
+          const text = result[field] ?? '';
+          const highlighted: string = row?.[`${field}_highlight`] ?? highlightText(text, terms, highlightTags);
+          if (!highlightOptions.requireFieldMatch || highlighted !== text) {
+            highlights[field] = [highlighted];
+          }
+        }
+        result.highlights = highlights;
+      }
+    });
+  }
+
   private async handleSearchSemantic(params: SemanticSearchParams): Promise<SearchResponse> {
     // Simplified implementation
     return {
@@ -1503,41 +1924,308 @@ export class DatabaseWorker {
   }
 
   // Enhanced Search API (Task 6.1)
-  // Note: These methods are placeholders for future enhanced search implementation
+
+  /**
+   * Analyze the query, build an execution plan and run it
+   *
+   * The primary strategy runs first; each fallback strategy runs only while
+   * the previous attempts returned nothing. The plan that produced the
+   * results is reported in `debugInfo.executionPlan`.
+   */
   private async handleSearchText(params: TextSearchParams): Promise<EnhancedSearchResponse> {
     this.ensureInitialized();
     return this.withContext('searchText', async () => {
-      // Fallback to regular search for now
-      const searchResult = await this.handleSearch({
-        query: { text: params.query },
-        collection: params.options?.collection || 'default',
-        limit: params.options?.limit || 10
-      });
+      const startTime = Date.now();
+      const options = params.options ?? {};
+      const collection = options.collection || 'default';
+
+      // Validate filters before analysis so they fail fast with FilterError
+      const filtered = !!this.filterCompiler.compile(options.filters).clause;
+
+      const context = await this.buildSearchContext(collection, options.context);
+      const analysis = await this.strategyEngine.analyzeQuery(params.query, context);
+      const analysisTime = Date.now() - startTime;
+
+      const plan = this.strategyEngine.selectStrategy(analysis, options);
+      const planningTime = Date.now() - startTime - analysisTime;
+
+      const queryVector = this.lazyQueryEmbedding(params.query, collection, context);
+      const attemptedStrategies: SearchStrategy[] = [];
+      let usedPlan = plan;
+      let execution: { results: SearchResult[]; usedFts: boolean; usedVector: boolean } = {
+        results: [],
+        usedFts: false,
+        usedVector: false
+      };
+
+      for (const strategy of [plan.primaryStrategy, ...plan.fallbackStrategies]) {
+        const attemptPlan = strategy === plan.primaryStrategy
+          ? plan
+          : this.strategyEngine.selectStrategy(analysis, { ...options, strategy });
+
+        attemptedStrategies.push(strategy);
+        execution = await this.executeSearchPlan(params.query, attemptPlan, collection, context, queryVector, {
+          explain: options.explain,
+          snippets: options.snippets,
+          highlight: options.highlight,
+          collapseChunks: options.collapseChunks
+        });
+        usedPlan = attemptPlan;
+        if (execution.results.length > 0) {
+          break;
+        }
+      }
+
+      const { offset, limit } = usedPlan.pagination;
+      const executionTime = Date.now() - startTime - analysisTime - planningTime;
+      this.strategyEngine.updatePerformanceMetrics(
+        params.query, usedPlan.primaryStrategy, executionTime, execution.results.length
+      );
+
+      const processingStart = Date.now();
+      const results = options.processing
+        ? await this.processSearchResults(execution.results, params.query, options.processing, {
+            explain: options.explain,
+            sessionId: options.sessionId,
+            previousInteractions: context.previousQueries
+          })
+        : execution.results;
+      const processingTime = Date.now() - processingStart;
+
+      return {
+        results: results.slice(offset, offset + limit),
+        totalResults: results.length,
+        searchTime: Date.now() - startTime,
+        strategy: usedPlan.primaryStrategy,
+        fusion: usedPlan.fusion.method,
+        debugInfo: {
+          queryAnalysis: analysis,
+          executionPlan: usedPlan,
+          timings: {
+            analysis: analysisTime,
+            planning: planningTime,
+            execution: executionTime,
+            fusion: 0,
+            processing: processingTime,
+            total: Date.now() - startTime
+          },
+          indexUsage: {
+            ftsIndex: execution.usedFts,
+            vectorIndex: execution.usedVector,
+            filterIndex: filtered
+          },
+          attemptedStrategies
+        }
+      };
+    });
+  }
+
+  /**
+   * Run a single strategy of a search plan against one collection
+   *
+   * Strategies map onto the FTS5 expression (see FtsQueryBuilder); the plan's
+   * search mode decides whether the FTS index, the vector index or both are used.
+   * A mode that needs a query embedding returns no results when none is available,
+   * which lets the next fallback strategy run.
+   */
+  private async executeSearchPlan(
+    query: string,
+    plan: SearchExecutionPlan,
+    collection: string,
+    context: SearchContext,
+    queryVector: () => Promise<Float32Array | undefined>,
+    presentation: Pick<SearchRequest, 'explain' | 'snippets' | 'highlight' | 'collapseChunks'> = {}
+  ): Promise<{ results: SearchResult[]; usedFts: boolean; usedVector: boolean }> {
+    let mode = plan.searchModes[0] ?? SearchMode.AUTO;
+    if (mode === SearchMode.AUTO || mode === SearchMode.GLOBAL) {
+      mode = context.indexCapabilities.hasEmbeddings ? SearchMode.HYBRID : SearchMode.FTS_ONLY;
+    }
+
+    const ftsQuery = mode === SearchMode.VECTOR_ONLY ? null : buildFtsQuery(query, plan.primaryStrategy);
+    const vector = mode === SearchMode.FTS_ONLY ? undefined : await queryVector();
+
+    if (!ftsQuery && !vector) {
+      return { results: [], usedFts: false, usedVector: false };
+    }
+
+    const { weights, method, normalization, parameters } = plan.fusion;
+    const response = await this.handleSearch({
+      query: {
+        ...(ftsQuery && { text: query }),
+        ...(vector && { vector })
+      },
+      ...(ftsQuery && { ftsQuery }),
+      collection,
+      limit: plan.pagination.offset + plan.pagination.limit,
+      ...(plan.pagination.deep && { deep: true }),
+      filters: plan.filters,
+      fusion: { method, normalization, parameters },
+      fusionWeights: { fts: weights.fts, vec: weights.vector, ...(weights.like !== undefined && { like: weights.like }) },
+      ...presentation
+    });
+
+    return { results: response.results, usedFts: !!ftsQuery, usedVector: !!vector };
+  }
+
+  /**
+   * Optional post-processing stage over all fused candidates, before pagination
+   *
+   * ResultProcessor normalizes scores, drops empty documents and, as requested,
+   * deduplicates, clusters and re-ranks. With `reranking.enabled` SearchOptimizer
+   * also re-ranks, diversifies and, given a sessionId, personalizes. Processed
+   * scores replace fused scores; with `explain` each result carries the
+   * processor's ScoreExplanation instead of the fusion breakdown.
+   */
+  private async processSearchResults(
+    results: SearchResult[],
+    query: string,
+    processing: ResultProcessingOptions,
+    context: { explain?: boolean; sessionId?: string; previousInteractions?: QueryHistory[] }
+  ): Promise<SearchResult[]> {
+    const raw: RawSearchResult[] = results.map((result, index) => ({
+      id: result.id,
+      title: result.title,
+      content: result.content,
+      metadata: result.metadata,
+      rawScore: result.score,
+      source: result.ftsScore && result.vecScore ? 'hybrid' : result.vecScore ? 'vector' : 'fts',
+      rank: index + 1
+    }));
+
+    const processed = await this.resultProcessor.processResults(raw, query, {
+      ...processing,
+      userContext: { sessionId: context.sessionId, previousInteractions: context.previousInteractions }
+    });
 
+    const originals = new Map(results.map(result => [result.id, result]));
+    return processed.results.map(result => {
+      const { explanation, ...original } = originals.get(result.id)!;
       return {
-        results: searchResult.results,
-        totalResults: searchResult.totalResults,
-        searchTime: searchResult.searchTime,
-        strategy: 'fts' as import('../../../types/search.js').SearchStrategy
+        ...original,
+        score: result.score,
+        ...(result.snippets?.length ? { snippets: result.snippets } : {}),
+        ...(result.highlights ? { highlights: result.highlights } : {}),
+        ...(context.explain ? { explanation: result.explanation } : {})
       };
     });
   }
 
+  /**
+   * Collection statistics the StrategyEngine uses to pick strategies
+   */
+  private async buildSearchContext(collection: string, overrides?: Partial<SearchContext>): Promise<SearchContext> {
+    const stats = await this.sqliteManager.select(
+      `SELECT COUNT(*) as count, COALESCE(AVG(length(content)), 0) as avg_length
+       FROM docs_default WHERE collection = ?`,
+      [collection]
+    );
+
+    const vectorTable = await this.schemaManager.getVectorTable(collection);
+    const embedded = await this.sqliteManager.select(
+      `SELECT 1 FROM docs_default
+       WHERE collection = ? AND rowid IN (SELECT rowid FROM ${vectorTable.table})
+       LIMIT 1`,
+      [collection]
+    );
+    const hasEmbeddings = embedded.rows.length > 0;
+
+    return {
+      collectionName: collection,
+      documentCount: stats.rows[0]?.count || 0,
+      averageDocumentLength: stats.rows[0]?.avg_length || 0,
+      ...overrides,
+      indexCapabilities: {
+        hasFTS: true,
+        hasVector: hasEmbeddings,
+        hasEmbeddings,
+        ...overrides?.indexCapabilities
+      }
+    };
+  }
+
+  /**
+   * Generate the query embedding at most once per search, and only if a strategy needs it
+   */
+  private lazyQueryEmbedding(
+    query: string,
+    collection: string,
+    context: SearchContext
+  ): () => Promise<Float32Array | undefined> {
+    let pending: Promise<Float32Array | undefined> | undefined;
+
+    return () => {
+      if (!context.indexCapabilities.hasEmbeddings) {
+        return Promise.resolve(undefined);
+      }
+      pending ??= this.handleGenerateQueryEmbedding({ query, collection })
+        .then(result => result.embedding)
+        .catch(error => {
+          this.logger.warn('Query embedding unavailable, skipping vector search', { error });
+          return undefined;
+        });
+      return pending;
+    };
+  }
+
   private async handleSearchAdvanced(params: AdvancedSearchParams): Promise<EnhancedSearchResponse> {
     this.ensureInitialized();
     return this.withContext('searchAdvanced', async () => {
-      // Fallback to regular search
-      const searchResult = await this.handleSearch({
-        query: typeof params.query === 'string' ? { text: params.query } : params.query,
-        collection: params.collections?.[0] || 'default',
-        limit: 10
-      });
+      const startTime = Date.now();
+      const plan = params.searchPlan;
+      const collections = params.collections?.length ? params.collections : ['default'];
+      const limit = plan?.pagination?.limit ?? 10;
+      const offset = plan?.pagination?.offset ?? 0;
+
+      // Plan-level filters and request filters must both hold
+      const filters = plan?.filters && params.filters
+        ? { bool: { must: [plan.filters, params.filters] } }
+        : params.filters ?? plan?.filters;
+
+      // Validate the whole filter tree once before touching any collection
+      this.filterCompiler.compile(filters);
+
+      const fusionWeights = plan?.fusion?.weights
+        ? { fts: plan.fusion.weights.fts, vec: plan.fusion.weights.vector }
+        : undefined;
+      const fusion = plan?.fusion?.method
+        ? { method: plan.fusion.method, normalization: plan.fusion.normalization, parameters: plan.fusion.parameters }
+        : undefined;
+
+      const collectionResults: CollectionResultSet[] = [];
+      let totalResults = 0;
+      for (const collection of collections) {
+        const response = await this.handleSearch({
+          query: { text: params.query },
+          collection,
+          limit: offset + limit,
+          filters,
+          explain: params.explain,
+          ...(fusionWeights && { fusionWeights }),
+          ...(fusion && { fusion })
+        });
+        collectionResults.push({ collection, results: response.results });
+        totalResults += response.totalResults;
+      }
+
+      // Fused scores are only comparable within a collection, so several collections are normalized
+      // before merging; a single collection keeps its fused scores
+      const merged = collectionResults.length > 1
+        ? mergeCollectionResults(collectionResults, 'unified_ranking')
+        : collectionResults.flatMap(({ collection, results }) => results.map(result => ({ ...result, collection })));
+      const processed = params.processing
+        ? await this.processSearchResults(merged, params.query, params.processing, {
+            explain: params.explain,
+            sessionId: params.sessionId
+          })
+        : merged;
+      const results = processed.slice(offset, offset + limit);
 
       return {
-        results: searchResult.results,
-        totalResults: searchResult.totalResults,
-        searchTime: searchResult.searchTime,
-        strategy: 'hybrid' as import('../../../types/search.js').SearchStrategy
+        results,
+        totalResults,
+        searchTime: Date.now() - startTime,
+        // Every collection runs the same text-only keyword search
+        strategy: SearchStrategy.KEYWORD
       };
     });
   }
@@ -1545,49 +2233,306 @@ export class DatabaseWorker {
   private async handleSearchGlobal(params: GlobalSearchParams): Promise<GlobalSearchResponse> {
     this.ensureInitialized();
     return this.withContext('searchGlobal', async () => {
-      // Simple implementation - search across all collections
-      const searchResult = await this.handleSearch({
-        query: { text: params.query },
-        limit: 10
-      });
+      const startTime = Date.now();
+      const options = params.options ?? {};
+      const limit = options.limit ?? 10;
+      const maxPerCollection = resolveMaxPerCollection(options.diversification);
+
+      let collections = params.collections
+        ? [...new Set(params.collections)]
+        : (await this.sqliteManager.select('SELECT name FROM collections ORDER BY name')).rows.map(row => row.name as string);
+      if (options.maxCollections !== undefined) {
+        collections = collections.slice(0, Math.max(0, options.maxCollections));
+      }
+
+      // Collections have their own dimensions: the query vector only applies where it fits
+      const vectorCollections = new Set<string>();
+      if (options.vector) {
+        for (const collection of collections) {
+          if ((await this.schemaManager.getVectorTable(collection)).dimensions === options.vector.length) {
+            vectorCollections.add(collection);
+          }
+        }
+        if (collections.length > 0 && vectorCollections.size === 0) {
+          throw new VectorError(`Query vector has ${options.vector.length} dimensions, which no searched collection uses`);
+        }
+      }
+
+      // Each collection contributes up to `limit` candidates so any of them can win the merged ranking
+      const collectionResults: GlobalSearchResponse['collectionResults'] = [];
+      for (const collection of collections) {
+        const collectionStart = Date.now();
+        const response = await this.handleSearch({
+          query: {
+            text: params.query,
+            vector: vectorCollections.has(collection) ? Float32Array.from(options.vector!) : undefined
+          },
+          collection,
+          limit,
+          fusionMethod: options.fusionMethod,
+          fusionWeights: options.fusionWeights,
+          fusion: options.fusion
+        });
+        collectionResults.push({
+          collection,
+          results: response.results.map(result => ({ ...result, collection })),
+          totalInCollection: response.totalResults,
+          searchTime: Date.now() - collectionStart
+        });
+      }
+
+      const results = mergeCollectionResults(
+        collectionResults,
+        options.mergeStrategy,
+        options.crossCollectionBoosts,
+        limit,
+        maxPerCollection
+      );
 
       return {
-        results: searchResult.results,
-        totalResults: searchResult.totalResults,
-        searchTime: searchResult.searchTime,
-        strategy: 'fts' as import('../../../types/search.js').SearchStrategy,
-        collectionResults: [{
-          collection: 'default',
-          results: searchResult.results,
-          totalInCollection: searchResult.totalResults
-        }],
-        collectionsSearched: ['default']
+        results,
+        totalResults: collectionResults.reduce((sum, entry) => sum + entry.totalInCollection, 0),
+        searchTime: Date.now() - startTime,
+        strategy: (vectorCollections.size > 0 ? 'hybrid' : 'fts') as import('../../../types/search.js').SearchStrategy,
+        collectionResults,
+        collectionsSearched: collections
       };
     });
   }
 
+  // =============================================================================
+  // Search Analytics
+  // =============================================================================
+
+  private async handleRecordSearchEvents(params: RecordSearchEventsParams): Promise<void> {
+    if (!Array.isArray(params?.events)) {
+      throw new Error('Invalid parameters for recordSearchEvents: events must be an array');
+    }
+    this.ensureInitialized();
+
+    return this.withContext('recordSearchEvents', async () => {
+      await this.searchEventStore.record(params.events);
+    });
+  }
+
+  private async handleGetSearchEvents(params?: SearchEventFilter): Promise<SearchEventRecord[]> {
+    this.ensureInitialized();
+
+    return this.withContext('getSearchEvents', async () => {
+      return await this.searchEventStore.query(params);
+    });
+  }
+
+  private async handleGetZeroResultQueries(params?: ZeroResultQueriesParams): Promise<ZeroResultQuery[]> {
+    this.ensureInitialized();
+
+    return this.withContext('getZeroResultQueries', async () => {
+      return await this.searchEventStore.zeroResultQueries(params);
+    });
+  }
+
+  private async handlePruneSearchEvents(params: PruneSearchEventsParams): Promise<number> {
+    if (typeof params?.before !== 'number' || !Number.isFinite(params.before)) {
+      throw new Error('Invalid parameters for pruneSearchEvents: before must be a timestamp');
+    }
+    this.ensureInitialized();
+
+    return this.withContext('pruneSearchEvents', async () => {
+      return await this.searchEventStore.prune(params.before);
+    });
+  }
+
   // =============================================================================
   // Import/Export Operations
   // =============================================================================
 
-  private async handleExport(params?: ExportParams): Promise<Uint8Array> {
+  private async handleExport(params?: ExportParams, context?: RPCCallContext): Promise<Uint8Array> {
     this.ensureInitialized();
 
     return this.withContext('export', async () => {
-      return await this.sqliteManager.serialize();
+      const startTime = Date.now();
+      context?.progress(this.transferProgress('exporting', 0, 0, startTime));
+      const data = await this.sqliteManager.serialize();
+      context?.progress(this.transferProgress('complete', data.length, data.length, startTime));
+      return data;
     });
   }
 
-  private async handleImport(params: ImportParams): Promise<void> {
+  private async handleImport(params: ImportParams, context?: RPCCallContext): Promise<void> {
     const validParams = this.validateParams(params, isImportParams, 'handleImport');
     this.ensureInitialized();
 
     return this.withContext('import', async () => {
-      const data = params.data instanceof ArrayBuffer ? new Uint8Array(params.data) : params.data;
+      const startTime = Date.now();
+      const data = validParams.data instanceof ArrayBuffer ? new Uint8Array(validParams.data) : validParams.data;
+      context?.progress(this.transferProgress('importing', 0, data.length, startTime));
+      await this.replaceDatabaseImage(data);
+      context?.progress(this.transferProgress('complete', data.length, data.length, startTime));
+    });
+  }
+
+  /**
+   * Serialize the database and send it as transferred chunks in progress messages
+   */
+  private async handleExportStream(params: ExportStreamParams, context: RPCCallContext): Promise<ExportStreamResult> {
+    const validParams = this.validateParams(params, isExportStreamParams, 'handleExportStream');
+    this.ensureInitialized();
+
+    const { transferId } = validParams;
+    return this.withContext('exportStream', () => this.withTransfer(transferId, async signal => {
+      const startTime = Date.now();
+      context.progress({ transferId, ...this.transferProgress('preparing', 0, 0, startTime) });
+      const data = await this.sqliteManager.serialize();
+
+      let bytesSent = 0;
+      let chunks = 0;
+      for (const chunk of splitIntoChunks(data, resolveChunkSize(validParams.chunkSize))) {
+        // Yield between chunks so cancelTransfer (and other calls) get a turn
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (signal.aborted) {
+          throw new DatabaseError('Export aborted');
+        }
+
+        bytesSent += chunk.byteLength;
+        chunks++;
+        const progress: ExportStreamProgress = {
+          transferId,
+          ...this.transferProgress('exporting', bytesSent, data.length, startTime),
+          chunk
+        };
+        context.progress(progress, [chunk]);
+      }
+
+      context.progress({ transferId, ...this.transferProgress('complete', data.length, data.length, startTime) });
+      return { totalBytes: data.length, chunks };
+    }));
+  }
+
+  /**
+   * Collect chunks sent by importChunk, then replace the database with them
+   *
+   * Nothing changes until the last chunk has arrived, so a cancelled or
+   * failed transfer leaves the database as it was.
+   */
+  private async handleImportStream(params: ImportStreamParams, context: RPCCallContext): Promise<void> {
+    const validParams = this.validateParams(params, isImportStreamParams, 'handleImportStream');
+    this.ensureInitialized();
+
+    const { transferId } = validParams;
+    return this.withContext('importStream', () => this.withTransfer(transferId, async signal => {
+      const startTime = Date.now();
+      const totalBytes = validParams.totalBytes ?? 0;
+      const collector = new ChunkCollector(signal);
+
+      // Registered before the first await: chunks may already be queued behind this call
+      this.incomingTransfers.set(transferId, {
+        collector,
+        onChunk: () => context.progress(this.transferProgress('importing', collector.byteLength, totalBytes, startTime))
+      });
+
+      let data: Uint8Array;
+      try {
+        data = await collector.done;
+      } finally {
+        this.incomingTransfers.delete(transferId);
+      }
+
+      context.progress(this.transferProgress('finalizing', data.length, data.length, startTime));
+      await this.replaceDatabaseImage(data);
+      context.progress(this.transferProgress('complete', data.length, data.length, startTime));
+    }));
+  }
+
+  private async handleImportChunk(params: ImportChunkParams): Promise<void> {
+    const validParams = this.validateParams(params, isImportChunkParams, 'handleImportChunk');
+
+    const incoming = this.incomingTransfers.get(validParams.transferId);
+    if (!incoming) {
+      throw new Error(`No import in progress for transfer ${validParams.transferId}`);
+    }
+
+    if (validParams.chunk) {
+      incoming.collector.push(validParams.chunk);
+      incoming.onChunk();
+    }
+    if (validParams.done) {
+      incoming.collector.end();
+    }
+  }
+
+  private async handleCancelTransfer(params: CancelTransferParams): Promise<boolean> {
+    const controller = this.transfers.get(params.transferId);
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort();
+    this.transfers.delete(params.transferId);
+    return true;
+  }
+
+  /**
+   * Swap in a complete database image and bring its schema up to date
+   */
+  private async replaceDatabaseImage(data: Uint8Array): Promise<void> {
+    if (this.storage.inPlace) {
+      // Deserializing would detach the connection from its file
+      await this.reopenDatabase(() => this.storage.replaceDatabase(data));
+    } else {
       await this.sqliteManager.deserialize(data);
 
-      // Reinitialize schema if needed
-      await this.schemaManager.initializeSchema();
+      // Deserialize replaces the content without moving the change counters
+      this.storage.markDirty();
+    }
+
+    // Reinitialize schema if needed
+    await this.schemaManager.initializeSchema();
+  }
+
+  /**
+   * Run a chunked export/import that cancelTransfer can abort by its transfer id
+   */
+  private async withTransfer<T>(transferId: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    if (this.transfers.has(transferId)) {
+      throw new Error(`Transfer ${transferId} is already active`);
+    }
+
+    const controller = new AbortController();
+    this.transfers.set(transferId, controller);
+    try {
+      return await run(controller.signal);
+    } finally {
+      if (this.transfers.get(transferId) === controller) {
+        this.transfers.delete(transferId);
+      }
+    }
+  }
+
+  private transferProgress(
+    phase: ExportImportProgress['phase'],
+    bytesProcessed: number,
+    totalBytes: number,
+    startTime: number
+  ): ExportImportProgress {
+    return { phase, bytesProcessed, totalBytes, timeElapsed: Date.now() - startTime };
+  }
+
+  private async handleExportCollection(params: ExportCollectionParams, context: RPCCallContext): Promise<Uint8Array> {
+    const validParams = this.validateParams(params, isExportCollectionParams, 'handleExportCollection');
+    this.ensureInitialized();
+
+    return this.withContext('exportCollection', async () => {
+      return await this.bundleHandler.exportCollection(validParams, progress => context.progress(progress));
+    });
+  }
+
+  private async handleImportCollection(params: ImportCollectionParams, context: RPCCallContext): Promise<ImportCollectionResult> {
+    const validParams = this.validateParams(params, isImportCollectionParams, 'handleImportCollection');
+    this.ensureInitialized();
+
+    return this.withContext('importCollection', async () => {
+      const data = validParams.data instanceof ArrayBuffer ? new Uint8Array(validParams.data) : validParams.data;
+      return await this.bundleHandler.importCollection({ ...validParams, data }, progress => context.progress(progress));
     });
   }
 
@@ -1595,8 +2540,12 @@ export class DatabaseWorker {
     this.ensureInitialized();
 
     return this.withContext('clear', async () => {
-      // Clear OPFS data
-      await this.opfsManager.clearDatabase();
+      // Clear persisted data; in-place storage can only drop files that aren't open
+      if (this.storage.inPlace) {
+        await this.reopenDatabase(() => this.storage.clear());
+      } else {
+        await this.storage.clear();
+      }
 
       // Reinitialize schema
       await this.schemaManager.initializeSchema();
@@ -1826,7 +2775,7 @@ export class DatabaseWorker {
     this.ensureInitialized();
     return this.withContext('enhanceQuery', async () => {
       const config: import('../../../llm/types.js').LLMProviderConfig = {
-        provider: (params.options?.provider as any) || 'openai',
+        provider: this.resolveLLMProvider(params.options?.provider),
         model: params.options?.model || 'gpt-4',
         apiKey: params.options?.apiKey,
         temperature: params.options?.temperature,
@@ -1841,7 +2790,7 @@ export class DatabaseWorker {
     this.ensureInitialized();
     return this.withContext('summarizeResults', async () => {
       const config: import('../../../llm/types.js').LLMProviderConfig = {
-        provider: (params.options?.provider as any) || 'openai',
+        provider: this.resolveLLMProvider(params.options?.provider),
         model: params.options?.model || 'gpt-4',
         apiKey: params.options?.apiKey,
         temperature: params.options?.temperature,
@@ -1852,23 +2801,25 @@ export class DatabaseWorker {
     });
   }
 
-  private async handleSearchWithLLM(params: SearchWithLLMParams): Promise<LLMSearchResponseResult> {
+  private async handleSearchWithLLM(params: SearchWithLLMParams, context?: RPCCallContext): Promise<LLMSearchResponseResult> {
     this.ensureInitialized();
-    return this.withContext('searchWithLLM', async () => {
+    return this.withContext('searchWithLLM', () => this.withLLMStream(params.streamId, async signal => {
       const startTime = Date.now();
       let enhancedQuery: EnhancedQueryResult | undefined;
       let llmTime = 0;
 
+      const config: import('../../../llm/types.js').LLMProviderConfig = {
+        provider: this.resolveLLMProvider(params.options?.llmOptions?.provider),
+        model: params.options?.llmOptions?.model || 'gpt-4',
+        apiKey: params.options?.llmOptions?.apiKey,
+        endpoint: params.options?.llmOptions?.endpoint,
+        temperature: params.options?.llmOptions?.temperature
+      };
+
       // Step 1: Enhance query if requested
       if (params.options?.enhanceQuery) {
         const enhanceStart = Date.now();
-        const config: import('../../../llm/types.js').LLMProviderConfig = {
-          provider: (params.options.llmOptions?.provider as any) || 'openai',
-          model: params.options.llmOptions?.model || 'gpt-4',
-          apiKey: params.options.llmOptions?.apiKey,
-          temperature: params.options.llmOptions?.temperature
-        };
-        enhancedQuery = await this.llmManager.enhanceQuery(params.query, config);
+        enhancedQuery = await this.llmManager.enhanceQuery(params.query, config, { signal });
         llmTime += Date.now() - enhanceStart;
       }
 
@@ -1881,17 +2832,14 @@ export class DatabaseWorker {
       });
       const searchTime = Date.now() - searchStart;
 
-      // Step 3: Summarize results if requested
+      // Step 3: Summarize results if requested, streaming the summary when a stream id is given
       let summary: ResultSummaryResult | undefined;
       if (params.options?.summarizeResults && searchResponse.results.length > 0) {
         const summaryStart = Date.now();
-        const config: import('../../../llm/types.js').LLMProviderConfig = {
-          provider: (params.options.llmOptions?.provider as any) || 'openai',
-          model: params.options.llmOptions?.model || 'gpt-4',
-          apiKey: params.options.llmOptions?.apiKey,
-          temperature: params.options.llmOptions?.temperature
-        };
-        summary = await this.llmManager.summarizeResults(searchResponse.results, config);
+        const onDelta = params.streamId && context
+          ? this.createStreamForwarder(params.streamId, context)
+          : undefined;
+        summary = await this.llmManager.summarizeResults(searchResponse.results, config, { signal }, onDelta);
         llmTime += Date.now() - summaryStart;
       }
 
@@ -1903,32 +2851,106 @@ export class DatabaseWorker {
         llmTime,
         totalTime: Date.now() - startTime
       };
-    });
+    }));
   }
 
-  private async handleCallLLM(params: import('../../../types/worker.js').CallLLMParams): Promise<import('../../../types/worker.js').CallLLMResult> {
+  /**
+   * LLM provider named by a request, OpenAI when none is given
+   *
+   * Requests arrive over RPC, so the name is checked here rather than trusted
+   * from the parameter types.
+   */
+  private resolveLLMProvider(provider: unknown): LLMProvider {
+    if (provider === undefined) {
+      return 'openai';
+    }
+    if (!isLLMProvider(provider)) {
+      throw new LLMConfigError(`Unknown LLM provider '${provider}', expected one of: ${LLM_PROVIDERS.join(', ')}`, { provider });
+    }
+    return provider;
+  }
+
+  private async handleCallLLM(params: CallLLMParams): Promise<CallLLMResult> {
     this.ensureInitialized();
-    return this.withContext('callLLM', async () => {
-      const config: import('../../../llm/types.js').LLMProviderConfig = {
-        provider: (params.options?.provider as any) || 'openai',
-        model: params.options?.model || 'gpt-4',
-        apiKey: params.options?.apiKey,
-        temperature: params.options?.temperature,
-        maxTokens: params.options?.maxTokens,
-        timeout: params.options?.timeout
-      };
+    return this.withContext('callLLM', () => this.runCallLLM(params));
+  }
 
-      const result = await this.llmManager.callLLM(params.prompt, config, params.options);
+  private async handleCallLLMStream(params: CallLLMStreamParams, context: RPCCallContext): Promise<CallLLMResult> {
+    this.ensureInitialized();
+    if (!params.streamId) {
+      throw new Error('callLLMStream requires a streamId');
+    }
 
-      return {
-        text: result.text,
-        finishReason: result.finishReason as 'stop' | 'length' | 'error' | 'timeout',
-        usage: result.usage,
-        model: result.model,
-        provider: result.provider,
-        processingTime: result.processingTime
-      };
-    });
+    return this.withContext('callLLMStream', () => this.withLLMStream(params.streamId, signal =>
+      this.runCallLLM(params, signal, this.createStreamForwarder(params.streamId, context))
+    ));
+  }
+
+  private async handleCancelLLMStream(params: CancelLLMStreamParams): Promise<boolean> {
+    const controller = this.llmStreams.get(params.streamId);
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort();
+    this.llmStreams.delete(params.streamId);
+    return true;
+  }
+
+  private async runCallLLM(
+    params: CallLLMParams,
+    signal?: AbortSignal,
+    onDelta?: (delta: string) => void
+  ): Promise<CallLLMResult> {
+    const config: import('../../../llm/types.js').LLMProviderConfig = {
+      provider: this.resolveLLMProvider(params.options?.provider),
+      model: params.options?.model || 'gpt-4',
+      apiKey: params.options?.apiKey,
+      endpoint: params.options?.endpoint,
+      temperature: params.options?.temperature,
+      maxTokens: params.options?.maxTokens,
+      timeout: params.options?.timeout
+    };
+
+    const result = await this.llmManager.callLLM(params.prompt, config, { ...params.options, signal }, onDelta);
+
+    return {
+      text: result.text,
+      finishReason: result.finishReason as 'stop' | 'length' | 'error' | 'timeout',
+      usage: result.usage,
+      model: result.model,
+      provider: result.provider,
+      processingTime: result.processingTime
+    };
+  }
+
+  /**
+   * Run an LLM operation that cancelLLMStream can abort by its stream id
+   */
+  private async withLLMStream<T>(streamId: string | undefined, run: (signal?: AbortSignal) => Promise<T>): Promise<T> {
+    if (!streamId) {
+      return run();
+    }
+    if (this.llmStreams.has(streamId)) {
+      throw new Error(`LLM stream ${streamId} is already active`);
+    }
+
+    const controller = new AbortController();
+    this.llmStreams.set(streamId, controller);
+    try {
+      return await run(controller.signal);
+    } finally {
+      if (this.llmStreams.get(streamId) === controller) {
+        this.llmStreams.delete(streamId);
+      }
+    }
+  }
+
+  private createStreamForwarder(streamId: string, context: RPCCallContext): (delta: string) => void {
+    return delta => {
+      const progress: LLMStreamProgress = { streamId, delta };
+      context.progress(progress);
+    };
   }
 
   // =============================================================================
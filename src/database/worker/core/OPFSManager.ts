@@ -7,6 +7,55 @@
 
 import { OPFSError } from '../../../types/worker.js';
 import type { SQLiteManager } from './SQLiteManager.js';
+import { encodeSnapshot, decodeSnapshot, type DecodedSnapshot } from './SnapshotFormat.js';
+import type { SnapshotFileStore } from '../storage/SnapshotFileStore.js';
+import { OPFSFileStore } from '../storage/OPFSFileStore.js';
+
+// Sibling files of the database: the snapshot being written and the last good one
+const TEMP_SUFFIX = '.tmp';
+const PREVIOUS_SUFFIX = '.prev';
+
+/**
+ * The newest valid snapshot among a database file and its siblings
+ */
+export interface SnapshotCandidate {
+  name: string;
+  snapshot: DecodedSnapshot;
+}
+
+/**
+ * Find the snapshot to restore a database from
+ *
+ * The database file, an unfinished temp snapshot and the previous snapshot
+ * are all candidates: the newest one that passes validation wins, so a
+ * write interrupted at any step still restores the last complete state.
+ * `failures` lists the files that exist but could not be decoded.
+ */
+export async function findLatestSnapshot(
+  store: SnapshotFileStore,
+  dbPath: string
+): Promise<{ best: SnapshotCandidate | null; failures: string[] }> {
+  const failures: string[] = [];
+  let best: SnapshotCandidate | null = null;
+
+  for (const name of [dbPath, dbPath + TEMP_SUFFIX, dbPath + PREVIOUS_SUFFIX]) {
+    try {
+      const bytes = await store.read(name);
+      if (!bytes) {
+        continue;
+      }
+
+      const snapshot = decodeSnapshot(bytes);
+      if (!best || snapshot.savedAt > best.snapshot.savedAt) {
+        best = { name, snapshot };
+      }
+    } catch (error) {
+      failures.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { best, failures };
+}
 
 /**
  * Storage quota information
@@ -23,10 +72,14 @@ export interface StorageQuota {
  * Responsibilities:
  * - OPFS availability checking
  * - Database file persistence to OPFS
- * - Periodic background synchronization
+ * - Periodic background synchronization of changed databases
+ * - Crash-safe snapshot writes (temp file, checksum, previous snapshot fallback)
  * - Storage quota management
  * - Error handling and fallback strategies
  * - Database restoration from OPFS
+ *
+ * Files go through a SnapshotFileStore: OPFS by default, or the local file
+ * system for the node-fs storage backend.
  */
 export class OPFSManager {
   private opfsPath: string | null = null;
@@ -35,10 +88,13 @@ export class OPFSManager {
   private syncInterval = 5000; // Sync every 5 seconds
   private syncTimer: NodeJS.Timeout | null = null;
   private pendingDatabaseData: Uint8Array | null = null;
+  private lastSyncedMarker: string | null = null;  // SQLiteManager change marker of the last snapshot
+  private syncInProgress: Promise<void> | null = null;
 
   constructor(
     private sqliteManager: SQLiteManager,
-    private logger?: { log: (level: string, message: string) => void }
+    private logger?: { log: (level: string, message: string) => void },
+    private store: SnapshotFileStore = new OPFSFileStore()
   ) {}
 
   /**
@@ -80,16 +136,14 @@ export class OPFSManager {
   }
 
   /**
-   * Check if OPFS is supported by the browser
+   * Check if the snapshot store (OPFS unless configured otherwise) is available
    */
   isOPFSSupported(): boolean {
-    return typeof navigator !== 'undefined' &&
-           typeof navigator.storage !== 'undefined' &&
-           typeof navigator.storage.getDirectory === 'function';
+    return this.store.isSupported();
   }
 
   /**
-   * Load database from OPFS storage
+   * Load database from OPFS storage, from the newest valid snapshot (see findLatestSnapshot)
    */
   async loadDatabaseFromOPFS(dbPath: string): Promise<void> {
     try {
@@ -97,27 +151,22 @@ export class OPFSManager {
         throw new Error('OPFS not supported');
       }
 
-      const opfsRoot = await navigator.storage.getDirectory();
-      const pathParts = dbPath.split('/').filter(part => part.length > 0);
-
-      // Navigate to the file
-      let currentDir = opfsRoot;
-      for (let i = 0; i < pathParts.length - 1; i++) {
-        currentDir = await currentDir.getDirectoryHandle(pathParts[i], { create: false });
+      const { best, failures } = await findLatestSnapshot(this.store, dbPath);
+      for (const failure of failures) {
+        this.log('warn', `Ignoring invalid OPFS snapshot ${failure}`);
       }
 
-      const fileName = pathParts[pathParts.length - 1];
-      const fileHandle = await currentDir.getFileHandle(fileName, { create: false });
-      const file = await fileHandle.getFile();
-      const data = new Uint8Array(await file.arrayBuffer());
+      if (!best) {
+        throw new Error(failures.length > 0 ? `No valid snapshot (${failures.join('; ')})` : 'Database file not found');
+      }
 
-      if (data.length === 0) {
-        throw new Error('Empty database file');
+      if (best.name !== dbPath) {
+        this.log('warn', `Recovered database from ${best.name}, the main file is missing, older or invalid`);
       }
 
       // Store the data to be applied after the database is created
-      this.pendingDatabaseData = data;
-      this.log('info', `Loaded ${data.length} bytes from OPFS: ${dbPath}`);
+      this.pendingDatabaseData = best.snapshot.data;
+      this.log('info', `Loaded ${best.snapshot.data.length} bytes from OPFS: ${dbPath}`);
     } catch (error) {
       const opfsError = new OPFSError(`Failed to load from OPFS: ${error instanceof Error ? error.message : String(error)}`);
       this.handleOPFSError(opfsError, 'load');
@@ -127,47 +176,68 @@ export class OPFSManager {
 
   /**
    * Save database to OPFS storage
+   *
+   * Skipped when nothing changed since the last snapshot. Concurrent calls
+   * are queued, so a save requested during a write re-checks afterwards.
    */
   async saveDatabaseToOPFS(): Promise<void> {
     if (!this.opfsPath || !this.sqliteManager.isConnected()) {
       return;
     }
 
+    const run = (this.syncInProgress ?? Promise.resolve()).then(() => this.writeSnapshotIfChanged());
+    this.syncInProgress = run;
     try {
-      if (!this.isOPFSSupported()) {
-        throw new Error('OPFS not supported');
+      await run;
+    } finally {
+      if (this.syncInProgress === run) {
+        this.syncInProgress = null;
       }
+    }
+  }
 
-      // Serialize the current database
-      const data = await this.sqliteManager.serialize();
+  /**
+   * Record the current database state as persisted (e.g. right after restoring it)
+   */
+  async markClean(): Promise<void> {
+    this.lastSyncedMarker = await this.sqliteManager.getChangeMarker();
+  }
 
-      // Check if we have enough space
-      await this.ensureSufficientSpace(data.length * 2); // Conservative estimate with buffer
+  /**
+   * Force the next sync to write, for changes the change marker cannot see
+   * (e.g. a database replaced by deserialize)
+   */
+  markDirty(): void {
+    this.lastSyncedMarker = null;
+  }
 
-      // Get OPFS root directory
-      const opfsRoot = await navigator.storage.getDirectory();
-      const pathParts = this.opfsPath.split('/').filter(part => part.length > 0);
+  private async writeSnapshotIfChanged(): Promise<void> {
+    if (!this.opfsPath || !this.sqliteManager.isConnected()) {
+      return;
+    }
 
-      // Create directories as needed
-      let currentDir = opfsRoot;
-      for (let i = 0; i < pathParts.length - 1; i++) {
-        currentDir = await currentDir.getDirectoryHandle(pathParts[i], { create: true });
+    try {
+      if (!this.isOPFSSupported()) {
+        throw new Error('OPFS not supported');
       }
 
-      // Create/update the file
-      const fileName = pathParts[pathParts.length - 1];
-      const fileHandle = await currentDir.getFileHandle(fileName, { create: true });
-      const writable = await fileHandle.createWritable();
+      const marker = await this.sqliteManager.getChangeMarker();
+      if (marker === this.lastSyncedMarker) {
+        this.log('debug', 'No changes since last OPFS sync, skipping');
+        return;
+      }
+
+      // Serialize the current database
+      const snapshot = encodeSnapshot(await this.sqliteManager.serialize());
+
+      // Check if we have enough space
+      await this.ensureSufficientSpace(snapshot.length * 2); // Conservative estimate with buffer
 
-      // Convert Uint8Array to ArrayBuffer for OPFS write
-      const buffer = new ArrayBuffer(data.length);
-      const view = new Uint8Array(buffer);
-      view.set(data);
-      await writable.write(buffer);
-      await writable.close();
+      await this.writeSnapshot(this.opfsPath, snapshot);
 
+      this.lastSyncedMarker = marker;
       this.lastSyncTime = Date.now();
-      this.log('debug', `Saved ${data.length} bytes to OPFS: ${this.opfsPath}`);
+      this.log('debug', `Saved ${snapshot.length} bytes to OPFS: ${this.opfsPath}`);
     } catch (error) {
       // Handle OPFS errors gracefully - background sync failures shouldn't crash the app
       this.handleOPFSError(error instanceof Error ? error : new Error(String(error)), 'save');
@@ -175,7 +245,32 @@ export class OPFSManager {
   }
 
   /**
-   * Clear OPFS database file
+   * Write a copy of the current database next to the OPFS file before a risky operation
+   *
+   * Unlike background sync this throws on failure: callers must not proceed
+   * without a backup. Returns the backup path, or null for non-persistent databases.
+   */
+  async backupDatabase(label: string): Promise<string | null> {
+    if (!this.opfsPath || !this.sqliteManager.isConnected() || !this.isOPFSSupported()) {
+      this.log('info', 'Database is not persisted to OPFS, skipping backup');
+      return null;
+    }
+
+    const backupPath = `${this.opfsPath}.${label}-${Date.now()}.bak`;
+
+    try {
+      const data = await this.sqliteManager.serialize();
+      await this.ensureSufficientSpace(data.length * 2);
+      await this.store.write(backupPath, data);
+      this.log('info', `Backed up ${data.length} bytes to OPFS: ${backupPath}`);
+      return backupPath;
+    } catch (error) {
+      throw new OPFSError(`Failed to back up database to ${backupPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Clear OPFS database file together with its temp and previous snapshots
    */
   async clearDatabase(): Promise<void> {
     if (!this.opfsPath) {
@@ -188,29 +283,13 @@ export class OPFSManager {
         return;
       }
 
-      const opfsRoot = await navigator.storage.getDirectory();
-      const pathParts = this.opfsPath.split('/').filter(part => part.length > 0);
-
-      // Navigate to the file
-      let currentDir = opfsRoot;
-      for (let i = 0; i < pathParts.length - 1; i++) {
-        try {
-          currentDir = await currentDir.getDirectoryHandle(pathParts[i], { create: false });
-        } catch {
-          // Directory doesn't exist, nothing to clear
-          this.log('debug', `Directory ${pathParts[i]} doesn't exist, nothing to clear`);
-          return;
+      for (const path of [this.opfsPath, this.opfsPath + TEMP_SUFFIX, this.opfsPath + PREVIOUS_SUFFIX]) {
+        if (await this.store.remove(path)) {
+          this.log('info', `Cleared OPFS file: ${path}`);
         }
       }
 
-      const fileName = pathParts[pathParts.length - 1];
-      try {
-        await currentDir.removeEntry(fileName);
-        this.log('info', `Cleared OPFS database: ${this.opfsPath}`);
-      } catch {
-        // File doesn't exist, nothing to clear
-        this.log('debug', `File ${fileName} doesn't exist, nothing to clear`);
-      }
+      this.markDirty();
     } catch (error) {
       this.handleOPFSError(error instanceof Error ? error : new Error(String(error)), 'clear');
     }
@@ -225,6 +304,10 @@ export class OPFSManager {
     }
 
     this.syncTimer = setInterval(async () => {
+      if (this.syncInProgress) {
+        return; // Previous write still running
+      }
+
       try {
         await this.saveDatabaseToOPFS();
       } catch (error) {
@@ -247,7 +330,7 @@ export class OPFSManager {
   }
 
   /**
-   * Force immediate OPFS synchronization
+   * Force immediate OPFS synchronization (still skipped when nothing changed)
    */
   async forceSync(): Promise<void> {
     if (this.opfsPath && this.sqliteManager.isConnected()) {
@@ -261,7 +344,7 @@ export class OPFSManager {
    */
   async checkQuota(): Promise<StorageQuota> {
     try {
-      if (!this.isOPFSSupported() || !navigator.storage.estimate) {
+      if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
         return { available: -1, used: -1, total: -1 };
       }
 
@@ -310,6 +393,13 @@ export class OPFSManager {
     return this.pendingDatabaseData;
   }
 
+  /**
+   * Replace the data restored on the next open
+   */
+  setPendingDatabaseData(data: Uint8Array): void {
+    this.pendingDatabaseData = data;
+  }
+
   /**
    * Clear pending database data after restoration
    */
@@ -338,6 +428,27 @@ export class OPFSManager {
     return this.lastSyncTime;
   }
 
+  /**
+   * Write a snapshot so that an interruption never leaves only a partial file
+   *
+   * 1. The snapshot is written completely to `<file>.tmp`
+   * 2. The current file becomes `<file>.prev`, the fallback on load
+   * 3. The temp file is swapped in as the database file
+   */
+  private async writeSnapshot(path: string, snapshot: Uint8Array): Promise<void> {
+    const tempPath = path + TEMP_SUFFIX;
+    const previousPath = path + PREVIOUS_SUFFIX;
+
+    await this.store.write(tempPath, snapshot);
+
+    if (await this.store.exists(path)) {
+      await this.store.remove(previousPath);
+      await this.store.rename(path, previousPath);
+    }
+
+    await this.store.rename(tempPath, path);
+  }
+
   /**
    * Handle OPFS-specific errors with appropriate logging and user guidance
    */
@@ -370,6 +481,8 @@ export class OPFSManager {
     this.tempDbName = null;
     this.pendingDatabaseData = null;
     this.lastSyncTime = 0;
+    this.lastSyncedMarker = null;
+    this.syncInProgress = null;
   }
 
   private log(level: string, message: string): void {
@@ -29,8 +29,14 @@ export interface SQLite3Module {
   // Bulk memory operations
   writeArrayToMemory?(data: Uint8Array, ptr: number): void;
 
+  // Heap view and function table, needed to implement a VFS in JavaScript.
+  // HEAPU8 is replaced when memory grows, so always read it from the module.
+  HEAPU8?: Uint8Array;
+  addFunction?(fn: (...args: any[]) => any, signature: string): number;
+
   // SQLite C API functions
   _sqlite3_open(filename: number, ppDb: number): number;
+  _sqlite3_open_v2?(filename: number, ppDb: number, flags: number, zVfs: number): number;
   _sqlite3_close(db: number): number;
   _sqlite3_exec(db: number, sql: number, callback: number, arg: number, errmsg: number): number;
   _sqlite3_prepare_v2(db: number, sql: number, nByte: number, ppStmt: number, pzTail: number): number;
@@ -59,6 +65,10 @@ export interface SQLite3Module {
   _sqlite3_serialize(db: number, schema: number, size: number, flags: number): number;
   _sqlite3_deserialize(db: number, schema: number, data: number, szDb: bigint, szBuf: bigint, flags: number): number;
 
+  // VFS registration (builds with the storage backend exports)
+  _sqlite3_vfs_find?(zVfsName: number): number;
+  _sqlite3_vfs_register?(vfs: number, makeDefault: number): number;
+
   // Version info
   version?: string;
 }
@@ -67,6 +77,16 @@ export interface SQLite3Module {
 export const SQLITE_OK = 0;
 export const SQLITE_ROW = 100;
 export const SQLITE_DONE = 101;
+export const SQLITE_IOERR = 10;
+export const SQLITE_NOTFOUND = 12;
+export const SQLITE_CANTOPEN = 14;
+export const SQLITE_IOERR_SHORT_READ = 522;   // SQLITE_IOERR | (2 << 8)
+
+// sqlite3_open_v2() flags
+export const SQLITE_OPEN_READWRITE = 0x00000002;
+export const SQLITE_OPEN_CREATE = 0x00000004;
+export const SQLITE_OPEN_DELETEONCLOSE = 0x00000008;
+export const SQLITE_OPEN_MAIN_DB = 0x00000100;
 
 // SQLite column types
 export const SQLITE_INTEGER = 1;
@@ -15,7 +15,9 @@ import {
   SQLITE_TEXT,
   SQLITE_BLOB,
   SQLITE_NULL,
-  SQLITE_TRANSIENT
+  SQLITE_TRANSIENT,
+  SQLITE_OPEN_READWRITE,
+  SQLITE_OPEN_CREATE
 } from './SQLite3Module.js';
 import type { SQLValue, ExtendedSQLValue, SQLParams, ExtendedSQLParams, QueryResult } from '../../../types/worker.js';
 import { DatabaseError, VectorError } from '../../../types/worker.js';
@@ -72,8 +74,11 @@ export class SQLiteManager {
 
   /**
    * Open database connection
+   *
+   * @param dbPath - Database filename
+   * @param vfs - Name of a registered VFS; the default VFS when omitted
    */
-  async openDatabase(dbPath: string): Promise<void> {
+  async openDatabase(dbPath: string, vfs?: string): Promise<void> {
     if (!this.sqlite3) {
       await this.loadWASM();
     }
@@ -86,7 +91,22 @@ export class SQLiteManager {
     this.sqlite3!.stringToUTF8(dbPath, filenamePtr, dbPath.length + 1);
 
     const dbPtrPtr = this.sqlite3!._malloc(4); // Pointer to pointer
-    const result = this.sqlite3!._sqlite3_open(filenamePtr, dbPtrPtr);
+    let result: number;
+
+    if (vfs) {
+      if (!this.sqlite3!._sqlite3_open_v2) {
+        this.sqlite3!._free(filenamePtr);
+        this.sqlite3!._free(dbPtrPtr);
+        throw new DatabaseError(`Cannot open database with VFS "${vfs}": sqlite3_open_v2 not available`);
+      }
+
+      const vfsPtr = this.sqlite3!._malloc(vfs.length + 1);
+      this.sqlite3!.stringToUTF8(vfs, vfsPtr, vfs.length + 1);
+      result = this.sqlite3!._sqlite3_open_v2(filenamePtr, dbPtrPtr, SQLITE_OPEN_READWRITE | SQLITE_OPEN_CREATE, vfsPtr);
+      this.sqlite3!._free(vfsPtr);
+    } else {
+      result = this.sqlite3!._sqlite3_open(filenamePtr, dbPtrPtr);
+    }
 
     this.sqlite3!._free(filenamePtr);
 
@@ -105,7 +125,7 @@ export class SQLiteManager {
       throw new DatabaseError('Failed to get valid database pointer');
     }
 
-    this.log('info', `Database opened successfully: ${dbPath}`);
+    this.log('info', `Database opened successfully: ${dbPath}${vfs ? ` (vfs: ${vfs})` : ''}`);
   }
 
   /**
@@ -523,6 +543,23 @@ export class SQLiteManager {
     return this.operationCount;
   }
 
+  /**
+   * Get a marker that changes whenever the database content changes
+   *
+   * total_changes() counts rows written by this connection (including
+   * triggers); schema and user versions cover DDL and migrations, which
+   * total_changes() does not see. Only equality of markers is meaningful.
+   */
+  async getChangeMarker(): Promise<string> {
+    const result = await this.select(
+      'SELECT total_changes() AS changes, ' +
+      '(SELECT schema_version FROM pragma_schema_version) AS schema_version, ' +
+      '(SELECT user_version FROM pragma_user_version) AS user_version'
+    );
+    const row = result.rows[0] ?? {};
+    return `${row.changes}:${row.schema_version}:${row.user_version}`;
+  }
+
   /**
    * Get database pointer (for advanced operations)
    */
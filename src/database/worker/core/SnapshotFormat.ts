@@ -0,0 +1,140 @@
+/**
+ * SnapshotFormat
+ *
+ * Container format for database snapshots persisted to OPFS. A fixed header
+ * in front of the serialized SQLite bytes records the payload length, a
+ * CRC-32 of the payload and the save time, so a truncated or torn write is
+ * detected on load instead of being handed to sqlite3_deserialize.
+ *
+ * Layout (little-endian):
+ *   0  magic "LRSNAP\0\0" (8 bytes)
+ *   8  format version (u32)
+ *  12  CRC-32 of the payload (u32)
+ *  16  payload length (u64)
+ *  24  saved at, ms since epoch (u64)
+ *  32  payload
+ */
+
+const MAGIC = new Uint8Array([0x4c, 0x52, 0x53, 0x4e, 0x41, 0x50, 0x00, 0x00]); // "LRSNAP\0\0"
+const FORMAT_VERSION = 1;
+export const SNAPSHOT_HEADER_SIZE = 32;
+
+// Files written before snapshots had a header are plain SQLite databases
+const SQLITE_MAGIC = 'SQLite format 3\0';
+
+/**
+ * A decoded snapshot
+ */
+export interface DecodedSnapshot {
+  data: Uint8Array;
+  savedAt: number;   // 0 for legacy files without a header
+  legacy: boolean;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 (IEEE 802.3) of a byte array
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Wrap serialized database bytes in a checksummed snapshot
+ */
+export function encodeSnapshot(data: Uint8Array, savedAt = Date.now()): Uint8Array {
+  const snapshot = new Uint8Array(SNAPSHOT_HEADER_SIZE + data.length);
+  const view = new DataView(snapshot.buffer);
+
+  snapshot.set(MAGIC, 0);
+  view.setUint32(8, FORMAT_VERSION, true);
+  view.setUint32(12, crc32(data), true);
+  view.setBigUint64(16, BigInt(data.length), true);
+  view.setBigUint64(24, BigInt(savedAt), true);
+  snapshot.set(data, SNAPSHOT_HEADER_SIZE);
+
+  return snapshot;
+}
+
+/**
+ * Validate a snapshot and return its payload
+ *
+ * Throws when the header is damaged, the file is truncated or the checksum
+ * does not match. Plain SQLite files from earlier versions are accepted as-is.
+ */
+export function decodeSnapshot(bytes: Uint8Array): DecodedSnapshot {
+  if (bytes.length === 0) {
+    throw new Error('Empty database file');
+  }
+
+  if (!hasMagic(bytes)) {
+    if (isSQLiteFile(bytes)) {
+      return { data: bytes, savedAt: 0, legacy: true };
+    }
+    throw new Error('Unrecognized database file: invalid snapshot header');
+  }
+
+  if (bytes.length < SNAPSHOT_HEADER_SIZE) {
+    throw new Error('Snapshot is truncated: incomplete header');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint32(8, true);
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported snapshot format version ${version}`);
+  }
+
+  const checksum = view.getUint32(12, true);
+  const length = Number(view.getBigUint64(16, true));
+  const savedAt = Number(view.getBigUint64(24, true));
+
+  if (bytes.length !== SNAPSHOT_HEADER_SIZE + length) {
+    throw new Error(`Snapshot is truncated: expected ${length} bytes, found ${bytes.length - SNAPSHOT_HEADER_SIZE}`);
+  }
+
+  const data = bytes.subarray(SNAPSHOT_HEADER_SIZE);
+  if (crc32(data) !== checksum) {
+    throw new Error('Snapshot checksum mismatch: file is corrupt');
+  }
+
+  return { data, savedAt, legacy: false };
+}
+
+function hasMagic(bytes: Uint8Array): boolean {
+  if (bytes.length < MAGIC.length) {
+    return false;
+  }
+  return MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+function isSQLiteFile(bytes: Uint8Array): boolean {
+  if (bytes.length < SQLITE_MAGIC.length) {
+    return false;
+  }
+  for (let i = 0; i < SQLITE_MAGIC.length; i++) {
+    if (bytes[i] !== SQLITE_MAGIC.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -6,6 +6,7 @@
  */
 
 import type { SQLiteManager } from '../core/SQLiteManager.js';
+import type { SchemaManager } from '../schema/SchemaManager.js';
 import type {
   EnqueueEmbeddingParams,
   ProcessEmbeddingQueueParams,
@@ -15,6 +16,7 @@ import type {
 } from '../../../types/worker.js';
 import { DatabaseError } from '../../../types/worker.js';
 import { EmbeddingError } from '../../../embedding/errors.js';
+import { runInTransaction } from '../utils/Transaction.js';
 
 /**
  * Queue item structure
@@ -47,6 +49,24 @@ export interface QueueStats {
   avgProcessingTime?: number;
 }
 
+/**
+ * Items that failed permanently, and how many went back to the queue
+ */
+interface FailureOutcome {
+  failed: Array<{ documentId: string; error: string }>;
+  retrying: number;
+}
+
+/**
+ * Source of embeddings for queue processing
+ */
+export interface QueueEmbeddingGenerator {
+  /** Embeddings for `texts`, in the same order */
+  generateBatch(collection: string, texts: string[]): Promise<Float32Array[]>;
+  /** Largest number of texts one generateBatch call may receive for the collection */
+  maxBatchSize(collection: string): Promise<number>;
+}
+
 /**
  * EmbeddingQueue manages background embedding processing
  *
@@ -61,6 +81,7 @@ export interface QueueStats {
 export class EmbeddingQueue {
   constructor(
     private sqliteManager: SQLiteManager,
+    private schemaManager: SchemaManager,
     private logger?: { log: (level: string, message: string, data?: any) => void }
   ) {}
 
@@ -105,9 +126,14 @@ export class EmbeddingQueue {
 
   /**
    * Process pending items in the queue
+   *
+   * Items are grouped per collection and embedded in batches of up to the
+   * provider's maxBatchSize, one generateBatch call per batch. Up to
+   * `concurrency` batches are generated at once; each batch's vectors and
+   * queue status changes are then written in a single transaction.
    */
-  async processQueue(params: ProcessEmbeddingQueueParams, embeddingGenerator: (collection: string, content: string) => Promise<Float32Array>): Promise<ProcessEmbeddingQueueResult> {
-    const { collection, batchSize = 10, maxRetries = 3 } = params;
+  async processQueue(params: ProcessEmbeddingQueueParams, embeddingGenerator: QueueEmbeddingGenerator): Promise<ProcessEmbeddingQueueResult> {
+    const { collection, batchSize = 10, maxRetries = 3, concurrency = 1 } = params;
 
     try {
       // Get pending queue items
@@ -115,7 +141,7 @@ export class EmbeddingQueue {
 
       if (queueItems.length === 0) {
         this.log('info', `No pending items in embedding queue${collection ? ' for collection ' + collection : ''}`);
-        return { processed: 0, failed: 0, remainingInQueue: 0, errors: [] };
+        return { processed: 0, failed: 0, retrying: 0, remainingInQueue: 0, errors: [] };
       }
 
       this.log('info', `Processing ${queueItems.length} items from embedding queue`);
@@ -123,45 +149,42 @@ export class EmbeddingQueue {
       const result: ProcessEmbeddingQueueResult = {
         processed: 0,
         failed: 0,
+        retrying: 0,
         remainingInQueue: 0,
         errors: []
       };
 
-      // Process each item in the batch
-      for (const item of queueItems) {
-        result.processed++;
+      await this.markAsProcessing(queueItems.map(item => item.id));
 
+      const batches: Array<{ collection: string; items: QueueItem[] }> = [];
+      for (const [collectionName, items] of groupByCollection(queueItems)) {
+        let providerBatchSize = 1;
         try {
-          // Mark as processing
-          await this.markAsProcessing(item.id);
-
-          // Generate embedding
-          const embedding = await embeddingGenerator(item.collection_name, item.content);
-
-          // Store the embedding in vector table
-          await this.storeEmbedding(item.collection_name, item.document_id, embedding);
+          providerBatchSize = Math.max(1, await embeddingGenerator.maxBatchSize(collectionName));
+        } catch (error) {
+          this.log('warn', `Could not resolve batch size for collection '${collectionName}', embedding one item at a time: ${error instanceof Error ? error.message : String(error)}`);
+        }
 
-          // Mark as completed
-          await this.markAsCompleted(item.id);
+        for (let start = 0; start < items.length; start += providerBatchSize) {
+          batches.push({ collection: collectionName, items: items.slice(start, start + providerBatchSize) });
+        }
+      }
 
-          this.log('debug', `Successfully processed embedding for document '${item.document_id}' in collection '${item.collection_name}'`);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-
-          // Handle retry logic
-          if (item.retry_count < maxRetries) {
-            await this.markForRetry(item.id, item.retry_count + 1);
-            this.log('warn', `Embedding processing failed for document '${item.document_id}', will retry (attempt ${item.retry_count + 1}/${maxRetries}): ${errorMessage}`);
-          } else {
-            // Mark as failed after max retries
-            await this.markAsFailed(item.id, errorMessage);
-            result.failed++;
-            result.errors.push({
-              documentId: item.document_id,
-              error: errorMessage
-            });
-            this.log('error', `Embedding processing failed permanently for document '${item.document_id}' after ${maxRetries} retries: ${errorMessage}`);
-          }
+      // Provider calls run in parallel; writes stay sequential (one connection, one transaction at a time)
+      for (let start = 0; start < batches.length; start += Math.max(1, concurrency)) {
+        const wave = batches.slice(start, start + Math.max(1, concurrency));
+        const embedded = await Promise.all(
+          wave.map(batch => this.embedBatch(batch.collection, batch.items, embeddingGenerator))
+        );
+
+        for (let index = 0; index < wave.length; index++) {
+          const { collection: collectionName, items } = wave[index];
+          result.processed += items.length;
+
+          const outcome = await this.storeBatch(collectionName, items, embedded[index], maxRetries);
+          result.failed += outcome.failed.length;
+          result.retrying! += outcome.retrying;
+          result.errors.push(...outcome.failed);
         }
       }
 
@@ -179,6 +202,132 @@ export class EmbeddingQueue {
     }
   }
 
+  /**
+   * Generate embeddings for one batch of a collection's queue items
+   *
+   * Returns the provider error instead of throwing, so one failing batch does
+   * not abort the others generated alongside it.
+   */
+  private async embedBatch(
+    collection: string,
+    items: QueueItem[],
+    embeddingGenerator: QueueEmbeddingGenerator
+  ): Promise<Float32Array[] | Error> {
+    try {
+      const embeddings = await embeddingGenerator.generateBatch(collection, items.map(item => item.content));
+      if (embeddings.length !== items.length) {
+        throw new EmbeddingError(`Provider returned ${embeddings.length} embeddings for ${items.length} texts`);
+      }
+      return embeddings;
+    } catch (error) {
+      return error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Store one batch's embeddings and update its queue items
+   *
+   * A provider error, or a failed write, fails the whole batch; a missing
+   * document or a wrong-sized vector fails only its own item.
+   */
+  private async storeBatch(
+    collection: string,
+    items: QueueItem[],
+    embeddings: Float32Array[] | Error,
+    maxRetries: number
+  ): Promise<FailureOutcome> {
+    try {
+      if (embeddings instanceof Error) {
+        throw embeddings;
+      }
+
+      const vectorTable = await this.schemaManager.getVectorTable(collection);
+      const rowids = await this.getDocumentRowids(collection, items.map(item => item.document_id));
+      const stored: Array<{ item: QueueItem; rowid: number; embedding: Float32Array }> = [];
+      const rejected: Array<{ item: QueueItem; error: string }> = [];
+
+      items.forEach((item, index) => {
+        const rowid = rowids.get(item.document_id);
+        const embedding = embeddings[index];
+
+        if (rowid === undefined) {
+          rejected.push({ item, error: `Document '${item.document_id}' not found in collection '${collection}'` });
+        } else if (embedding.length !== vectorTable.dimensions) {
+          rejected.push({
+            item,
+            error: `Embedding for document '${item.document_id}' has ${embedding.length} dimensions, ` +
+              `collection '${collection}' expects ${vectorTable.dimensions}`
+          });
+        } else {
+          stored.push({ item, rowid, embedding });
+        }
+      });
+
+      let outcome: FailureOutcome = { failed: [], retrying: 0 };
+      await this.withTransaction(async () => {
+        for (const { rowid, embedding } of stored) {
+          await this.sqliteManager.exec(
+            `INSERT OR REPLACE INTO ${vectorTable.table} (rowid, embedding) VALUES (?, ?)`,
+            [rowid, new Uint8Array(embedding.buffer, embedding.byteOffset, embedding.byteLength)]
+          );
+        }
+        await this.markAsCompleted(stored.map(({ item }) => item.id));
+        outcome = await this.markFailures(rejected, maxRetries);
+      });
+
+      this.log('debug', `Stored ${stored.length} embeddings for collection '${collection}' in one batch`);
+      return outcome;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log('warn', `Embedding batch of ${items.length} items failed for collection '${collection}': ${errorMessage}`);
+      return await this.markFailures(items.map(item => ({ item, error: errorMessage })), maxRetries);
+    }
+  }
+
+  /**
+   * Return items left in 'processing' by an interrupted run to the queue
+   *
+   * Each recovery counts as an attempt, so an item that keeps crashing the
+   * worker eventually fails instead of being retried forever.
+   */
+  async recoverStuckItems(olderThanSeconds: number, maxRetries: number = 3): Promise<number> {
+    const cutoff = Math.floor(Date.now() / 1000) - olderThanSeconds;
+    const stuck = await this.sqliteManager.select(
+      `SELECT COUNT(*) as count FROM embedding_queue WHERE status = 'processing' AND (started_at IS NULL OR started_at <= ?)`,
+      [cutoff]
+    );
+    const count = stuck.rows[0]?.count || 0;
+    if (count === 0) {
+      return 0;
+    }
+
+    await this.sqliteManager.exec(
+      `UPDATE embedding_queue
+       SET status = CASE WHEN retry_count < ? THEN 'pending' ELSE 'failed' END,
+           retry_count = MIN(retry_count + 1, ?),
+           error_message = 'Interrupted while processing'
+       WHERE status = 'processing' AND (started_at IS NULL OR started_at <= ?)`,
+      [maxRetries, maxRetries, cutoff]
+    );
+
+    this.log('warn', `Recovered ${count} embedding queue items stuck in processing`);
+    return count;
+  }
+
+  /**
+   * Collections with pending queue items, highest priority first
+   */
+  async getPendingCollections(): Promise<string[]> {
+    const result = await this.sqliteManager.select(`
+      SELECT collection_name, MAX(priority) as priority
+      FROM embedding_queue
+      WHERE status = 'pending'
+      GROUP BY collection_name
+      ORDER BY priority DESC, collection_name
+    `);
+    return result.rows.map(row => row.collection_name);
+  }
+
   /**
    * Get queue status statistics
    */
@@ -337,77 +486,77 @@ export class EmbeddingQueue {
   }
 
   /**
-   * Mark queue item as processing
+   * Mark queue items as processing
    */
-  private async markAsProcessing(queueId: number): Promise<void> {
-    await this.sqliteManager.exec(`
-      UPDATE embedding_queue
-      SET status = 'processing', started_at = strftime('%s', 'now')
-      WHERE id = ?
-    `);
-    // Note: exec doesn't support parameters, so we use select instead
-    await this.sqliteManager.select(
-      "UPDATE embedding_queue SET status = 'processing', started_at = strftime('%s', 'now') WHERE id = ? RETURNING id",
-      [queueId]
+  private async markAsProcessing(queueIds: number[]): Promise<void> {
+    await this.sqliteManager.exec(
+      `UPDATE embedding_queue SET status = 'processing', started_at = strftime('%s', 'now')
+       WHERE id IN (${placeholders(queueIds)})`,
+      queueIds
     );
   }
 
   /**
-   * Mark queue item as completed
+   * Mark queue items as completed
    */
-  private async markAsCompleted(queueId: number): Promise<void> {
-    await this.sqliteManager.select(
-      "UPDATE embedding_queue SET status = 'completed', completed_at = strftime('%s', 'now'), processed_at = strftime('%s', 'now') WHERE id = ? RETURNING id",
-      [queueId]
+  private async markAsCompleted(queueIds: number[]): Promise<void> {
+    if (queueIds.length === 0) {
+      return;
+    }
+    await this.sqliteManager.exec(
+      `UPDATE embedding_queue
+       SET status = 'completed', completed_at = strftime('%s', 'now'), processed_at = strftime('%s', 'now')
+       WHERE id IN (${placeholders(queueIds)})`,
+      queueIds
     );
   }
 
   /**
-   * Mark queue item as failed
+   * Send failed items back to the queue, or fail them once retries are used up
    */
-  private async markAsFailed(queueId: number, errorMessage: string): Promise<void> {
-    await this.sqliteManager.select(
-      "UPDATE embedding_queue SET status = 'failed', error_message = ?, processed_at = strftime('%s', 'now') WHERE id = ? RETURNING id",
-      [errorMessage, queueId]
-    );
+  private async markFailures(
+    failures: Array<{ item: QueueItem; error: string }>,
+    maxRetries: number
+  ): Promise<FailureOutcome> {
+    const outcome: FailureOutcome = { failed: [], retrying: 0 };
+
+    for (const { item, error } of failures) {
+      if (item.retry_count < maxRetries) {
+        await this.sqliteManager.exec(
+          `UPDATE embedding_queue SET status = 'pending', retry_count = ?, error_message = ?, processed_at = strftime('%s', 'now') WHERE id = ?`,
+          [item.retry_count + 1, error, item.id]
+        );
+        outcome.retrying++;
+        this.log('warn', `Embedding processing failed for document '${item.document_id}', will retry (attempt ${item.retry_count + 1}/${maxRetries}): ${error}`);
+      } else {
+        await this.sqliteManager.exec(
+          `UPDATE embedding_queue SET status = 'failed', error_message = ?, processed_at = strftime('%s', 'now') WHERE id = ?`,
+          [error, item.id]
+        );
+        outcome.failed.push({ documentId: item.document_id, error });
+        this.log('error', `Embedding processing failed permanently for document '${item.document_id}' after ${maxRetries} retries: ${error}`);
+      }
+    }
+
+    return outcome;
   }
 
   /**
-   * Mark queue item for retry
+   * rowids of a collection's documents, by document id
    */
-  private async markForRetry(queueId: number, retryCount: number): Promise<void> {
-    await this.sqliteManager.select(
-      "UPDATE embedding_queue SET status = 'pending', retry_count = ?, processed_at = strftime('%s', 'now') WHERE id = ? RETURNING id",
-      [retryCount, queueId]
+  private async getDocumentRowids(collection: string, documentIds: string[]): Promise<Map<string, number>> {
+    const result = await this.sqliteManager.select(
+      `SELECT id, rowid FROM docs_default WHERE collection = ? AND id IN (${placeholders(documentIds)})`,
+      [collection, ...documentIds]
     );
+    return new Map(result.rows.map(row => [row.id, row.rowid]));
   }
 
   /**
-   * Store embedding in vector table
+   * Run `fn` inside BEGIN IMMEDIATE ... COMMIT, rolling back if it throws
    */
-  private async storeEmbedding(collection: string, documentId: string, embedding: Float32Array): Promise<void> {
-    // Get the rowid for the document (using collection column in schema v3+)
-    const docResult = await this.sqliteManager.select(
-      `SELECT rowid FROM docs_default WHERE id = ? AND collection = ?`,
-      [documentId, collection]
-    );
-
-    if (docResult.rows.length === 0) {
-      throw new DatabaseError(`Document '${documentId}' not found in collection '${collection}'`);
-    }
-
-    const rowid = docResult.rows[0].rowid;
-
-    // Convert Float32Array to blob
-    const embeddingBlob = new Uint8Array(embedding.buffer);
-
-    // Insert into vector table
-    await this.sqliteManager.select(
-      `INSERT OR REPLACE INTO vec_default_dense (rowid, embedding) VALUES (?, ?)`,
-      [rowid, embeddingBlob]
-    );
-
-    this.log('debug', `Stored embedding for document '${documentId}' (rowid: ${rowid}) with ${embedding.length} dimensions`);
+  private withTransaction(fn: () => Promise<void>): Promise<void> {
+    return runInTransaction(this.sqliteManager, fn, (level, message) => this.log(level, message));
   }
 
   /**
@@ -431,4 +580,24 @@ export class EmbeddingQueue {
       console.log(`[EmbeddingQueue] ${level.toUpperCase()}: ${message}`, data ? data : '');
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Queue items grouped by collection, keeping their priority order
+ */
+function groupByCollection(items: QueueItem[]): Map<string, QueueItem[]> {
+  const groups = new Map<string, QueueItem[]>();
+  for (const item of items) {
+    const group = groups.get(item.collection_name);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(item.collection_name, [item]);
+    }
+  }
+  return groups;
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
@@ -0,0 +1,118 @@
+/**
+ * InsertEmbedder
+ *
+ * Embeds newly inserted documents, or queues them, per the collection's
+ * embedding configuration and the insert options.
+ */
+
+import type { SQLiteManager } from '../core/SQLiteManager.js';
+import type { EmbeddingQueue } from './EmbeddingQueue.js';
+import type { ProviderManager } from './ProviderManager.js';
+import type { InsertDocumentOptions, InsertDocumentResult } from '../../../types/worker.js';
+
+export type InsertEmbeddingOutcome = Omit<InsertDocumentResult, 'id'>;
+
+/**
+ * Writes a generated vector for a stored document
+ */
+export type VectorWriter = (collection: string, documentId: string, vector: Float32Array) => Promise<void>;
+
+export class InsertEmbedder {
+  constructor(
+    private sqliteManager: SQLiteManager,
+    private providerManager: ProviderManager,
+    private embeddingQueue: EmbeddingQueue,
+    private storeVector: VectorWriter,
+    private logger?: { log: (level: string, message: string, data?: any) => void }
+  ) {}
+
+  /**
+   * Embed newly inserted documents, or queue them, per the collection and call options
+   *
+   * A failed synchronous generation does not fail the insert: the affected
+   * documents are queued and the error is reported in the result.
+   */
+  async embed(
+    collection: string,
+    documents: Array<{ id: string; content: string }>,
+    options: InsertDocumentOptions = {}
+  ): Promise<InsertEmbeddingOutcome[]> {
+    if (documents.length === 0 || options.generateEmbedding === false || !(await this.hasAutoEmbedding(collection))) {
+      return documents.map(() => ({ embeddingGenerated: false, embeddingStatus: 'skipped' as const }));
+    }
+
+    const enqueue = async (document: { id: string; content: string }, embeddingError?: string) => {
+      await this.embeddingQueue.enqueue({ collection, documentId: document.id, textContent: document.content });
+      return { embeddingGenerated: false, embeddingStatus: 'queued' as const, ...(embeddingError && { embeddingError }) };
+    };
+
+    const outcomes: InsertEmbeddingOutcome[] = [];
+    const provider = options.embeddingMode === 'queue' ? null : await this.providerManager.getProvider(collection);
+
+    if (!provider) {
+      const error = options.embeddingMode === 'queue' ? undefined : `No embedding provider available for collection '${collection}'`;
+      for (const document of documents) {
+        outcomes.push(await enqueue(document, error));
+      }
+      return outcomes;
+    }
+
+    const chunkSize = Math.max(1, provider.maxBatchSize);
+    for (let start = 0; start < documents.length; start += chunkSize) {
+      const chunk = documents.slice(start, start + chunkSize);
+
+      let embeddings: Float32Array[] | null = null;
+      let generationError: string | undefined;
+      try {
+        embeddings = await provider.generateBatch(chunk.map(document => document.content));
+        if (embeddings.length !== chunk.length) {
+          throw new Error(`Provider returned ${embeddings.length} embeddings for ${chunk.length} texts`);
+        }
+      } catch (error) {
+        embeddings = null;
+        generationError = error instanceof Error ? error.message : String(error);
+        this.log('warn', `Embedding generation failed for collection '${collection}', queueing ${chunk.length} documents: ${generationError}`);
+      }
+
+      for (let index = 0; index < chunk.length; index++) {
+        if (!embeddings) {
+          outcomes.push(await enqueue(chunk[index], generationError));
+          continue;
+        }
+
+        try {
+          await this.storeVector(collection, chunk[index].id, embeddings[index]);
+          outcomes.push({ embeddingGenerated: true, embeddingStatus: 'generated' });
+        } catch (error) {
+          outcomes.push(await enqueue(chunk[index], error instanceof Error ? error.message : String(error)));
+        }
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Whether inserts into a collection are embedded automatically: it has an
+   * embedding configuration and embedding_status 'enabled'
+   */
+  private async hasAutoEmbedding(collection: string): Promise<boolean> {
+    const result = await this.sqliteManager.select(
+      'SELECT embedding_status, config FROM collections WHERE name = ?',
+      [collection]
+    );
+    const row = result.rows[0];
+    if (!row || row.embedding_status !== 'enabled') {
+      return false;
+    }
+    return !!JSON.parse(row.config || '{}').embeddingConfig;
+  }
+
+  private log(level: string, message: string, data?: any): void {
+    if (this.logger) {
+      this.logger.log(level, message, data);
+    } else {
+      console.log(`[InsertEmbedder] ${level.toUpperCase()}: ${message}`, data ? data : '');
+    }
+  }
+}
@@ -34,6 +34,8 @@ interface ProviderCacheEntry {
 export class ProviderManager {
   private providers = new Map<string, ProviderCacheEntry>();
   private initPromises = new Map<string, Promise<EmbeddingProvider>>();
+  // API keys are never written to the collections table, only kept for this session
+  private apiKeys = new Map<string, string>();
   private cleanupTimer: NodeJS.Timeout | null = null;
   private readonly maxCacheAge = 30 * 60 * 1000; // 30 minutes
   private readonly cleanupInterval = 5 * 60 * 1000; // 5 minutes
@@ -98,7 +100,10 @@ export class ProviderManager {
       }
 
       const config = JSON.parse(collectionResult.rows[0].config || '{}');
-      const embeddingConfig: CollectionEmbeddingConfig = config.embeddingConfig;
+      const embeddingConfig: CollectionEmbeddingConfig | undefined = config.embeddingConfig && {
+        ...config.embeddingConfig,
+        apiKey: config.embeddingConfig.apiKey ?? this.apiKeys.get(collection)
+      };
 
       if (!embeddingConfig) {
         throw new EmbeddingError(`Collection '${collection}' has no embedding configuration`);
@@ -154,6 +159,32 @@ export class ProviderManager {
     });
   }
 
+  /**
+   * Remember the API key for a collection's provider
+   *
+   * A provider already created for the collection is dropped, so the next
+   * use initializes it again with the new key.
+   */
+  async setApiKey(collection: string, apiKey: string): Promise<void> {
+    this.apiKeys.set(collection, apiKey);
+    await this.removeProvider(collection);
+    this.initPromises.delete(collection);
+  }
+
+  /**
+   * Move a collection's API key and drop its provider after a rename
+   */
+  async renameCollection(from: string, to: string): Promise<void> {
+    const apiKey = this.apiKeys.get(from);
+    this.apiKeys.delete(from);
+    if (apiKey !== undefined) {
+      this.apiKeys.set(to, apiKey);
+    }
+
+    await this.removeProvider(from);
+    this.initPromises.delete(from);
+  }
+
   /**
    * Remove provider from cache
    */
@@ -312,6 +343,7 @@ export class ProviderManager {
     // Clear all caches
     this.providers.clear();
     this.initPromises.clear();
+    this.apiKeys.clear();
   }
 
   /**
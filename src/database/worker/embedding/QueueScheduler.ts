@@ -0,0 +1,242 @@
+/**
+ * QueueScheduler
+ *
+ * Drains the embedding queue in the background. Runs start only while the
+ * worker has no RPC call in flight, stay within an items-per-minute budget,
+ * and take turns between collections. Items abandoned in 'processing' by a
+ * crashed or closed worker are returned to the queue before each run.
+ * Progress is reported through worker events.
+ */
+
+import type { EmbeddingQueue, QueueEmbeddingGenerator } from './EmbeddingQueue.js';
+import type {
+  EmbeddingSchedulerConfig,
+  EmbeddingProgressEvent,
+  EmbeddingCompletedEvent,
+  WorkerEvent
+} from '../../../types/worker.js';
+
+export const DEFAULT_SCHEDULER_CONFIG: Required<EmbeddingSchedulerConfig> = {
+  batchSize: 32,
+  concurrency: 2,
+  maxItemsPerMinute: 600,
+  pollInterval: 2000,
+  idleDelay: 250,
+  maxRetries: 3,
+  stuckTimeout: 300
+};
+
+// Upper bound for the delay after consecutive failed runs
+const MAX_BACKOFF_MS = 60000;
+
+/**
+ * What the scheduler needs from the worker
+ */
+export interface QueueSchedulerDeps {
+  queue: Pick<EmbeddingQueue, 'processQueue' | 'recoverStuckItems' | 'getPendingCollections'>;
+  embeddingGenerator: QueueEmbeddingGenerator;
+  isIdle: (quietMs: number) => boolean;
+  emit: (event: WorkerEvent) => void;
+  logger?: { log: (level: string, message: string, data?: any) => void };
+}
+
+/**
+ * Progress of one collection since its queue last became non-empty
+ */
+interface CollectionProgress {
+  startedAt: number;
+  finished: number;  // Completed or permanently failed
+  failed: number;
+}
+
+export class QueueScheduler {
+  private config: Required<EmbeddingSchedulerConfig> = { ...DEFAULT_SCHEDULER_CONFIG };
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private currentRun: Promise<void> | null = null;
+  private tokens = 0;
+  private lastRefill = 0;
+  private lastCollection: string | null = null;
+  private consecutiveFailures = 0;
+  private progress = new Map<string, CollectionProgress>();
+
+  constructor(private deps: QueueSchedulerDeps) {}
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start draining, or apply new settings if already running
+   */
+  start(config: EmbeddingSchedulerConfig = {}): void {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...this.config, ...definedOnly(config) };
+
+    if (this.running) {
+      this.log('debug', 'Scheduler settings updated');
+      return;
+    }
+
+    this.running = true;
+    this.tokens = this.bucketSize();
+    this.lastRefill = Date.now();
+    this.consecutiveFailures = 0;
+    this.log('info', `Scheduler started (${this.config.maxItemsPerMinute} items/min, concurrency ${this.config.concurrency})`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop scheduling runs and wait for the current one to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await this.currentRun;
+    this.progress.clear();
+    this.log('info', 'Scheduler stopped');
+  }
+
+  private schedule(delay: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.currentRun = this.tick().finally(() => {
+        this.currentRun = null;
+      });
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    if (!this.deps.isIdle(this.config.idleDelay)) {
+      this.schedule(this.config.idleDelay);
+      return;
+    }
+
+    // Wait for a full batch's budget rather than running many small batches
+    this.refillTokens();
+    if (this.tokens < this.bucketSize()) {
+      const perItem = 60000 / this.config.maxItemsPerMinute;
+      this.schedule(Math.ceil((this.bucketSize() - this.tokens) * perItem));
+      return;
+    }
+
+    let delay = 0;
+    try {
+      await this.deps.queue.recoverStuckItems(this.config.stuckTimeout, this.config.maxRetries);
+
+      const collection = this.nextCollection(await this.deps.queue.getPendingCollections());
+      if (!collection) {
+        this.schedule(this.config.pollInterval);
+        return;
+      }
+
+      const result = await this.deps.queue.processQueue({
+        collection,
+        batchSize: Math.min(this.config.batchSize, Math.floor(this.tokens)),
+        maxRetries: this.config.maxRetries,
+        concurrency: this.config.concurrency
+      }, this.deps.embeddingGenerator);
+
+      this.tokens -= result.processed;
+      this.report(collection, result.processed - (result.retrying ?? 0), result.failed, result.remainingInQueue);
+
+      // Nothing got through: the provider is likely down or rate limiting
+      if (result.processed > 0 && result.retrying === result.processed) {
+        delay = this.backoff();
+      } else {
+        this.consecutiveFailures = 0;
+      }
+    } catch (error) {
+      this.log('warn', `Scheduled queue run failed: ${error instanceof Error ? error.message : String(error)}`);
+      delay = this.backoff();
+    }
+
+    this.schedule(delay);
+  }
+
+  /**
+   * Round robin: the first collection after the one served last
+   */
+  private nextCollection(collections: string[]): string | null {
+    if (collections.length === 0) {
+      return null;
+    }
+
+    const previous = this.lastCollection === null ? -1 : collections.indexOf(this.lastCollection);
+    const next = previous === -1
+      ? collections[0]
+      : collections[(previous + 1) % collections.length];
+
+    this.lastCollection = next;
+    return next;
+  }
+
+  private report(collection: string, finished: number, failed: number, remaining: number): void {
+    let state = this.progress.get(collection);
+    if (!state) {
+      state = { startedAt: Date.now(), finished: 0, failed: 0 };
+      this.progress.set(collection, state);
+    }
+    state.finished += finished;
+    state.failed += failed;
+
+    const timeElapsed = Date.now() - state.startedAt;
+    const progressEvent: EmbeddingProgressEvent = {
+      type: 'embedding_progress',
+      data: {
+        phase: remaining > 0 ? 'generating' : 'complete',
+        processedCount: state.finished,
+        totalCount: state.finished + remaining,
+        timeElapsed,
+        estimatedTimeRemaining: state.finished > 0 ? Math.round(timeElapsed / state.finished * remaining) : undefined,
+        errorCount: state.failed,
+        collection
+      }
+    };
+    this.deps.emit(progressEvent);
+
+    if (remaining === 0) {
+      const completedEvent: EmbeddingCompletedEvent = {
+        type: 'embedding_completed',
+        data: { collection, documentsProcessed: state.finished - state.failed, errors: state.failed }
+      };
+      this.deps.emit(completedEvent);
+      this.progress.delete(collection);
+    }
+  }
+
+  private refillTokens(): void {
+    const now = Date.now();
+    const refill = (now - this.lastRefill) * this.config.maxItemsPerMinute / 60000;
+    this.tokens = Math.min(this.bucketSize(), this.tokens + refill);
+    this.lastRefill = now;
+  }
+
+  // A full bucket holds one run's worth of items, so bursts never exceed a batch
+  private bucketSize(): number {
+    return Math.max(1, Math.min(this.config.batchSize, this.config.maxItemsPerMinute));
+  }
+
+  private backoff(): number {
+    this.consecutiveFailures++;
+    return Math.min(this.config.pollInterval * 2 ** (this.consecutiveFailures - 1), MAX_BACKOFF_MS);
+  }
+
+  private log(level: string, message: string): void {
+    this.deps.logger?.log(level, `[QueueScheduler] ${message}`);
+  }
+}
+
+function definedOnly<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
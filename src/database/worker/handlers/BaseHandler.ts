@@ -10,6 +10,7 @@ import type { SchemaManager } from '../schema/SchemaManager.js';
 import type { OPFSManager } from '../core/OPFSManager.js';
 import { ErrorHandler, ContextualError } from '../utils/ErrorHandling.js';
 import { ParameterValidator } from '../utils/TypeGuards.js';
+import { runInTransaction } from '../utils/Transaction.js';
 
 /**
  * Handler dependencies injected during construction
@@ -99,6 +100,13 @@ export abstract class BaseHandler {
     }
   }
 
+  /**
+   * Run `fn` inside BEGIN IMMEDIATE ... COMMIT, rolling back if it throws
+   */
+  protected withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return runInTransaction(this.sqliteManager, fn, (level, message) => this.log(level, message));
+  }
+
   /**
    * Measure operation performance
    */
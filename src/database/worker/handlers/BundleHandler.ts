@@ -0,0 +1,389 @@
+/**
+ * BundleHandler
+ *
+ * Exports a collection as a portable NDJSON bundle (manifest, documents,
+ * base64 vectors) and imports such bundles back, in batches, with progress
+ * reports and a conflict policy for documents that already exist.
+ */
+
+import { BaseHandler, type HandlerDependencies } from './BaseHandler.js';
+import type { DocumentHandler, ImportedDocument } from './DocumentHandler.js';
+import { CURRENT_SCHEMA_VERSION, type VectorTableInfo } from '../schema/SchemaManager.js';
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  BundleWriter,
+  readBundleLines,
+  parseManifest,
+  parseDocument,
+  encodeVector,
+  decodeVector
+} from '../core/BundleFormat.js';
+import { DatabaseError, VectorError } from '../../../types/worker.js';
+import type {
+  ExportCollectionParams,
+  ImportCollectionParams,
+  ImportCollectionResult,
+  ExportImportProgress,
+  CollectionBundleDocument,
+  InsertDocumentOptions,
+  InsertDocumentResult
+} from '../../../types/worker.js';
+
+/**
+ * Rows read per export query
+ */
+const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * Documents written per import transaction
+ */
+const IMPORT_BATCH_SIZE = 50;
+
+// Set per database, not portable between them
+const LOCAL_CONFIG_KEYS = ['vectorTable', 'vectorDim'];
+
+/**
+ * Embeds freshly written documents per the collection's embedding configuration
+ */
+export type BundleEmbedder = (
+  collection: string,
+  documents: Array<{ id: string; content: string }>,
+  options: InsertDocumentOptions
+) => Promise<Array<Omit<InsertDocumentResult, 'id'>>>;
+
+export type BundleProgressListener = (progress: ExportImportProgress) => void;
+
+interface ExportRow {
+  rowid: number;
+  id: string;
+  title: string | null;
+  content: string;
+  metadata: string | null;
+  parent_id: string | null;
+  chunk_index: number | null;
+  created_at: number | null;
+  updated_at: number | null;
+}
+
+export class BundleHandler extends BaseHandler {
+  getComponentName(): string {
+    return 'BundleHandler';
+  }
+
+  constructor(
+    dependencies: HandlerDependencies,
+    private documents: DocumentHandler,
+    private embed: BundleEmbedder
+  ) {
+    super(dependencies);
+  }
+
+  /**
+   * Serialize a collection to an NDJSON bundle
+   */
+  async exportCollection(params: ExportCollectionParams, onProgress?: BundleProgressListener): Promise<Uint8Array> {
+    const { collection } = params;
+    const includeVectors = params.includeVectors !== false;
+    const startTime = Date.now();
+
+    const collectionResult = await this.sqliteManager.select(
+      'SELECT config FROM collections WHERE name = ?',
+      [collection]
+    );
+    if (collectionResult.rows.length === 0) {
+      throw new DatabaseError(`Collection '${collection}' does not exist`);
+    }
+
+    const config = this.parseJson(collectionResult.rows[0].config);
+    const vectorTable = await this.schemaManager.getVectorTable(collection);
+
+    const countResult = await this.sqliteManager.select(
+      'SELECT COUNT(*) as count FROM docs_default WHERE collection = ?',
+      [collection]
+    );
+    const documentCount = Number(countResult.rows[0]?.count ?? 0);
+    let vectorCount = 0;
+    if (includeVectors) {
+      const vectorResult = await this.sqliteManager.select(
+        `SELECT COUNT(*) as count FROM docs_default
+         WHERE collection = ? AND rowid IN (SELECT rowid FROM ${vectorTable.table})`,
+        [collection]
+      );
+      vectorCount = Number(vectorResult.rows[0]?.count ?? 0);
+    }
+
+    const writer = new BundleWriter();
+    const report = (phase: ExportImportProgress['phase'], documentsProcessed: number) => onProgress?.({
+      phase,
+      bytesProcessed: writer.byteLength,
+      totalBytes: phase === 'complete' ? writer.byteLength : 0,
+      timeElapsed: Date.now() - startTime,
+      documentsProcessed,
+      totalDocuments: documentCount
+    });
+
+    report('preparing', 0);
+    writer.write({
+      type: 'manifest',
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      collection,
+      config: this.portableConfig(config),
+      provider: config.embeddingConfig?.provider ?? null,
+      model: config.embeddingConfig?.model ?? null,
+      dimensions: vectorTable.dimensions,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      documentCount,
+      vectorCount,
+      exportedAt: Date.now()
+    });
+
+    let processed = 0;
+    let lastRowid = -1;
+    for (;;) {
+      const page = await this.sqliteManager.select(
+        `SELECT rowid, id, title, content, metadata, parent_id, chunk_index, created_at, updated_at
+         FROM docs_default WHERE collection = ? AND rowid > ? ORDER BY rowid LIMIT ?`,
+        [collection, lastRowid, EXPORT_PAGE_SIZE]
+      );
+      if (page.rows.length === 0) {
+        break;
+      }
+
+      for (const row of page.rows as ExportRow[]) {
+        const vector = includeVectors ? await this.readVector(vectorTable, row.rowid) : null;
+        writer.write(this.toBundleDocument(row, vector));
+        lastRowid = row.rowid;
+      }
+
+      processed += page.rows.length;
+      report('exporting', processed);
+    }
+
+    report('complete', processed);
+    this.log('info', `Exported ${processed} documents (${vectorCount} vectors) from collection '${collection}', ${writer.byteLength} bytes`);
+    return writer.finish();
+  }
+
+  /**
+   * Load an NDJSON bundle into a collection
+   *
+   * The collection is created from the manifest if it does not exist. Each
+   * batch commits on its own, so a failed import keeps the batches before it;
+   * running it again with onConflict 'skip' picks up where it stopped.
+   */
+  async importCollection(params: ImportCollectionParams, onProgress?: BundleProgressListener): Promise<ImportCollectionResult> {
+    const { data } = params;
+    const policy = params.onConflict ?? 'skip';
+    const startTime = Date.now();
+
+    const lines = readBundleLines(data);
+    const first = lines.next();
+    if (first.done) {
+      throw new DatabaseError('Collection bundle is empty');
+    }
+    const manifest = parseManifest(first.value.record);
+    const collection = params.collection ?? manifest.collection;
+
+    const result: ImportCollectionResult = {
+      collection,
+      created: false,
+      inserted: 0,
+      replaced: 0,
+      merged: 0,
+      skipped: 0,
+      vectorsImported: 0,
+      embeddingsGenerated: 0,
+      embeddingsQueued: 0,
+      warnings: []
+    };
+
+    let processed = 0;
+    let bytesProcessed = first.value.bytesRead;
+    const report = (phase: ExportImportProgress['phase']) => onProgress?.({
+      phase,
+      bytesProcessed,
+      totalBytes: data.byteLength,
+      timeElapsed: Date.now() - startTime,
+      documentsProcessed: processed,
+      totalDocuments: manifest.documentCount
+    });
+
+    report('validating');
+    if (!(await this.schemaManager.collectionExists(collection))) {
+      await this.schemaManager.createCollection(collection, manifest.dimensions, this.portableConfig(manifest.config));
+      result.created = true;
+    }
+
+    const vectorTable = await this.schemaManager.getVectorTable(collection);
+    const importVectors = !params.reembed;
+    if (importVectors && manifest.vectorCount > 0) {
+      if (manifest.dimensions !== vectorTable.dimensions) {
+        throw new VectorError(
+          `Bundle vectors have ${manifest.dimensions} dimensions, collection '${collection}' expects ` +
+          `${vectorTable.dimensions}; import with reembed to generate new vectors`
+        );
+      }
+
+      const targetModel = result.created ? manifest.model : await this.collectionModel(collection);
+      if (manifest.model && targetModel && manifest.model !== targetModel) {
+        result.warnings.push(
+          `Bundle vectors were made with model '${manifest.model}', collection '${collection}' uses '${targetModel}'`
+        );
+      }
+    }
+
+    const embeddingOptions: InsertDocumentOptions = { embeddingMode: params.embeddingMode };
+    let withoutVector = 0;
+    let batch: ImportedDocument[] = [];
+    const flush = async () => {
+      const unembedded: Array<{ id: string; content: string }> = [];
+      await this.withTransaction(async () => {
+        for (const document of batch) {
+          const outcome = await this.documents.importDocument(collection, document, policy, vectorTable);
+          result[outcome.status]++;
+          if (outcome.status === 'skipped') {
+            continue;
+          }
+          if (document.vector) {
+            result.vectorsImported++;
+          } else if (!outcome.hasVector) {
+            unembedded.push({ id: document.id, content: document.content });
+          }
+        }
+      });
+
+      // Embed after COMMIT so provider calls never hold the write transaction open
+      for (const outcome of await this.embed(collection, unembedded, embeddingOptions)) {
+        if (outcome.embeddingStatus === 'generated') {
+          result.embeddingsGenerated++;
+        } else if (outcome.embeddingStatus === 'queued') {
+          result.embeddingsQueued++;
+        } else {
+          withoutVector++;
+        }
+      }
+
+      processed += batch.length;
+      batch = [];
+      report('importing');
+    };
+
+    for (const { record, line, bytesRead } of lines) {
+      const document = parseDocument(record, line);
+      batch.push(this.toImportedDocument(document, importVectors, line));
+      bytesProcessed = bytesRead;
+      if (batch.length >= IMPORT_BATCH_SIZE) {
+        await flush();
+      }
+    }
+    if (batch.length > 0) {
+      await flush();
+    }
+
+    if (withoutVector > 0) {
+      result.warnings.push(
+        `${withoutVector} documents were imported without a vector: collection '${collection}' has no automatic embedding`
+      );
+    }
+
+    bytesProcessed = data.byteLength;
+    report('complete');
+    this.log(
+      'info',
+      `Imported bundle into collection '${collection}': ${result.inserted} inserted, ${result.replaced} replaced, ` +
+      `${result.merged} merged, ${result.skipped} skipped`
+    );
+    return result;
+  }
+
+  private toBundleDocument(row: ExportRow, vector: Float32Array | null): CollectionBundleDocument {
+    const document: CollectionBundleDocument = {
+      type: 'document',
+      id: row.id,
+      title: row.title ?? '',
+      content: row.content ?? '',
+      metadata: this.parseJson(row.metadata)
+    };
+    if (row.parent_id !== null) {
+      document.parentId = row.parent_id;
+    }
+    if (row.chunk_index !== null) {
+      document.chunkIndex = row.chunk_index;
+    }
+    if (row.created_at !== null) {
+      document.createdAt = row.created_at;
+    }
+    if (row.updated_at !== null) {
+      document.updatedAt = row.updated_at;
+    }
+    if (vector) {
+      document.vector = encodeVector(vector);
+    }
+    return document;
+  }
+
+  private toImportedDocument(document: CollectionBundleDocument, importVectors: boolean, line: number): ImportedDocument {
+    let vector: Float32Array | undefined;
+    if (importVectors && document.vector) {
+      try {
+        vector = decodeVector(document.vector);
+      } catch (error) {
+        throw new VectorError(`Bundle line ${line}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return {
+      id: document.id,
+      title: document.title,
+      content: document.content,
+      metadata: document.metadata,
+      parentId: document.parentId,
+      chunkIndex: document.chunkIndex,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt,
+      vector
+    };
+  }
+
+  private async readVector(vectorTable: VectorTableInfo, rowid: number): Promise<Float32Array | null> {
+    const result = await this.sqliteManager.select(
+      `SELECT embedding FROM ${vectorTable.table} WHERE rowid = ?`,
+      [rowid]
+    );
+    const blob = result.rows[0]?.embedding;
+    if (!(blob instanceof Uint8Array)) {
+      return null;
+    }
+    // Copy into an aligned buffer; the blob may be a view into a larger one
+    return new Float32Array(blob.slice().buffer);
+  }
+
+  private async collectionModel(collection: string): Promise<string | null> {
+    const result = await this.sqliteManager.select(
+      'SELECT config FROM collections WHERE name = ?',
+      [collection]
+    );
+    return this.parseJson(result.rows[0]?.config).embeddingConfig?.model ?? null;
+  }
+
+  private portableConfig(config: Record<string, any>): Record<string, any> {
+    const portable = { ...config };
+    for (const key of LOCAL_CONFIG_KEYS) {
+      delete portable[key];
+    }
+    return portable;
+  }
+
+  private parseJson(value: string | null | undefined): Record<string, any> {
+    if (!value) {
+      return {};
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+}
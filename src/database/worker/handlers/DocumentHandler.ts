@@ -0,0 +1,453 @@
+/**
+ * DocumentHandler
+ *
+ * Document mutations (vector storage, update, delete) that keep the manually
+ * synced FTS5 index, the collection's vec0 table and the embedding queue
+ * consistent with docs_default.
+ */
+
+import { BaseHandler, type HandlerDependencies } from './BaseHandler.js';
+import { FilterCompiler, andFilter } from '../search/FilterCompiler.js';
+import { validateDocument } from '../utils/Validation.js';
+import { DocumentNotFoundError, DocumentInsertError } from '../utils/Errors.js';
+import { VectorError } from '../../../types/worker.js';
+import type { VectorTableInfo } from '../schema/SchemaManager.js';
+import type {
+  SQLValue,
+  BundleConflictPolicy,
+  UpdateDocumentParams,
+  UpdateDocumentResult,
+  DeleteDocumentParams,
+  DeleteDocumentsParams,
+  DeleteDocumentsResult
+} from '../../../types/worker.js';
+
+/**
+ * Stored document row as indexed in fts_default
+ */
+interface DocumentRow {
+  rowid: number;
+  id: string;
+  title: string | null;
+  content: string;
+  metadata: string | null;
+}
+
+/**
+ * Document read from a collection bundle
+ */
+export interface ImportedDocument {
+  id: string;
+  title: string;
+  content: string;
+  metadata: Record<string, any>;
+  parentId?: string;
+  chunkIndex?: number;
+  createdAt?: number;
+  updatedAt?: number;
+  vector?: Float32Array;
+}
+
+export interface ImportedDocumentOutcome {
+  status: 'inserted' | 'replaced' | 'merged' | 'skipped';
+  hasVector: boolean;  // The stored document has a vector after the write
+}
+
+/**
+ * Max ids bound into a single IN list
+ */
+const ID_CHUNK_SIZE = 500;
+
+/**
+ * DocumentHandler owns every write that touches more than docs_default
+ *
+ * FTS5 is an external-content table, so removing a document from the index
+ * requires the FTS5 'delete' command with the exact values that were indexed.
+ * Those are the values stored in docs_default, which is why rows are always
+ * read back before they are changed.
+ */
+export class DocumentHandler extends BaseHandler {
+  private filterCompiler = new FilterCompiler('d');
+
+  getComponentName(): string {
+    return 'DocumentHandler';
+  }
+
+  constructor(dependencies: HandlerDependencies) {
+    super(dependencies);
+  }
+
+  /**
+   * Store a document vector in the collection's vector table
+   */
+  async storeVector(collection: string, documentId: string, vector: Float32Array | number[]): Promise<void> {
+    const vectorTable = await this.resolveVectorTable(collection, documentId, vector);
+    const row = await this.findDocument(collection, documentId);
+    if (!row) {
+      throw new VectorError(`Document '${documentId}' not found in collection '${collection}'`);
+    }
+
+    await this.writeVector(vectorTable, row.rowid, vector);
+    this.log('debug', `Stored ${vector.length}-d vector for document ${documentId} in ${vectorTable.table}`);
+  }
+
+  /**
+   * Update title/content/metadata/vector of an existing document
+   *
+   * Changing the title or content drops the stored vector (unless a new one is
+   * supplied) and refreshes the text of pending queue entries.
+   */
+  async updateDocument(params: UpdateDocumentParams): Promise<UpdateDocumentResult> {
+    const { collection, id, updates, options } = params;
+
+    const existing = await this.findDocument(collection, id);
+    if (!existing) {
+      throw new DocumentNotFoundError(
+        `Cannot update document '${id}': not found in collection '${collection}'`,
+        { collection, documentId: id, operation: 'updateDocument' }
+      );
+    }
+
+    const previousMetadata = this.parseMetadata(existing.metadata);
+    const metadata = updates.metadata === undefined
+      ? previousMetadata
+      : options?.mergeMetadata ? { ...previousMetadata, ...updates.metadata } : updates.metadata;
+    const title = updates.title ?? existing.title ?? '';
+    const content = updates.content ?? existing.content ?? '';
+
+    validateDocument({ id, title, content, metadata }, collection);
+
+    const vectorTable = updates.vector
+      ? await this.resolveVectorTable(collection, id, updates.vector)
+      : await this.schemaManager.getVectorTable(collection);
+    const textChanged = title !== (existing.title ?? '') || content !== existing.content;
+    const hadVector = await this.hasVector(vectorTable, existing.rowid);
+    const metadataJson = JSON.stringify(metadata);
+
+    await this.withTransaction(async () => {
+      await this.deleteFromFts(existing);
+
+      await this.sqliteManager.exec(
+        `UPDATE docs_default SET title = ?, content = ?, metadata = ?, updated_at = strftime('%s', 'now') WHERE rowid = ?`,
+        [title, content, metadataJson, existing.rowid]
+      );
+
+      await this.sqliteManager.exec(
+        'INSERT INTO fts_default(rowid, title, content, metadata) VALUES (?, ?, ?, ?)',
+        [existing.rowid, title, content, metadataJson]
+      );
+
+      if (updates.vector) {
+        await this.writeVector(vectorTable, existing.rowid, updates.vector);
+      } else if (textChanged && hadVector) {
+        await this.sqliteManager.exec(`DELETE FROM ${vectorTable.table} WHERE rowid = ?`, [existing.rowid]);
+      }
+
+      if (textChanged) {
+        await this.sqliteManager.exec(
+          `UPDATE embedding_queue SET text_content = ? WHERE collection_name = ? AND document_id = ? AND status = 'pending'`,
+          [content, collection, id]
+        );
+      }
+    });
+
+    this.log('info', `Updated document '${id}' in collection '${collection}'`);
+    return { id, embeddingInvalidated: textChanged && hadVector && !updates.vector };
+  }
+
+  /**
+   * Write a bundled document under a conflict policy (caller owns the transaction)
+   *
+   * Ids are unique across collections, so an id taken by another collection
+   * is an error whatever the policy. A merge keeps the stored vector unless
+   * the text changed or the bundle brings a new one.
+   */
+  async importDocument(
+    collection: string,
+    document: ImportedDocument,
+    policy: BundleConflictPolicy,
+    vectorTable: VectorTableInfo
+  ): Promise<ImportedDocumentOutcome> {
+    if (document.vector && document.vector.length !== vectorTable.dimensions) {
+      throw new VectorError(
+        `Vector for document '${document.id}' has ${document.vector.length} dimensions, ` +
+        `collection '${collection}' expects ${vectorTable.dimensions}`
+      );
+    }
+
+    const existing = await this.findDocumentById(document.id);
+    if (existing && existing.collection !== collection) {
+      throw new DocumentInsertError(
+        `Document id '${document.id}' is already used in collection '${existing.collection}'`,
+        { collection, documentId: document.id, providedFields: Object.keys(document) }
+      );
+    }
+
+    if (existing && policy === 'skip') {
+      return { status: 'skipped', hasVector: await this.hasVector(vectorTable, existing.rowid) };
+    }
+
+    if (existing && policy === 'merge') {
+      return this.mergeDocument(collection, existing, document, vectorTable);
+    }
+
+    if (existing) {
+      await this.removeDocument(collection, existing, vectorTable);
+    }
+
+    const metadataJson = JSON.stringify(document.metadata);
+    await this.sqliteManager.exec(
+      `INSERT INTO docs_default (id, title, content, collection, metadata, parent_id, chunk_index, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, COALESCE(?, strftime('%s', 'now')), COALESCE(?, strftime('%s', 'now')))`,
+      [
+        document.id, document.title, document.content, collection, metadataJson,
+        document.parentId ?? null, document.chunkIndex ?? null,
+        document.createdAt ?? null, document.updatedAt ?? null
+      ]
+    );
+
+    const row = await this.findDocument(collection, document.id);
+    if (!row) {
+      throw new DocumentInsertError(
+        `Document '${document.id}' was not found after insert`,
+        { collection, documentId: document.id, providedFields: Object.keys(document) }
+      );
+    }
+
+    await this.sqliteManager.exec(
+      'INSERT INTO fts_default(rowid, title, content, metadata) VALUES (?, ?, ?, ?)',
+      [row.rowid, document.title, document.content, metadataJson]
+    );
+    if (document.vector) {
+      await this.writeVector(vectorTable, row.rowid, document.vector);
+    }
+
+    return { status: existing ? 'replaced' : 'inserted', hasVector: !!document.vector };
+  }
+
+  private async mergeDocument(
+    collection: string,
+    existing: DocumentRow,
+    document: ImportedDocument,
+    vectorTable: VectorTableInfo
+  ): Promise<ImportedDocumentOutcome> {
+    const metadataJson = JSON.stringify({ ...this.parseMetadata(existing.metadata), ...document.metadata });
+    const textChanged = document.title !== (existing.title ?? '') || document.content !== existing.content;
+    const hadVector = await this.hasVector(vectorTable, existing.rowid);
+
+    await this.deleteFromFts(existing);
+    await this.sqliteManager.exec(
+      `UPDATE docs_default SET title = ?, content = ?, metadata = ?, parent_id = ?, chunk_index = ?,
+         updated_at = COALESCE(?, strftime('%s', 'now'))
+       WHERE rowid = ?`,
+      [
+        document.title, document.content, metadataJson, document.parentId ?? null, document.chunkIndex ?? null,
+        document.updatedAt ?? null, existing.rowid
+      ]
+    );
+    await this.sqliteManager.exec(
+      'INSERT INTO fts_default(rowid, title, content, metadata) VALUES (?, ?, ?, ?)',
+      [existing.rowid, document.title, document.content, metadataJson]
+    );
+
+    if (document.vector) {
+      await this.writeVector(vectorTable, existing.rowid, document.vector);
+    } else if (textChanged && hadVector) {
+      await this.sqliteManager.exec(`DELETE FROM ${vectorTable.table} WHERE rowid = ?`, [existing.rowid]);
+    }
+
+    if (textChanged) {
+      await this.sqliteManager.exec(
+        `UPDATE embedding_queue SET text_content = ? WHERE collection_name = ? AND document_id = ? AND status = 'pending'`,
+        [document.content, collection, document.id]
+      );
+    }
+
+    return { status: 'merged', hasVector: !!document.vector || (hadVector && !textChanged) };
+  }
+
+  /**
+   * Delete a single document and its chunks; returns false if neither existed
+   *
+   * A chunked document has no row of its own, so deleting its id removes the chunks.
+   */
+  async deleteDocument(params: DeleteDocumentParams): Promise<boolean> {
+    const { collection, id } = params;
+
+    const row = await this.findDocument(collection, id);
+    const rows = [...(row ? [row] : []), ...(await this.findChunks(collection, id))];
+    if (rows.length === 0) {
+      return false;
+    }
+
+    const vectorTable = await this.schemaManager.getVectorTable(collection);
+    await this.withTransaction(async () => {
+      for (const documentRow of rows) {
+        await this.removeDocument(collection, documentRow, vectorTable);
+      }
+    });
+
+    this.log('info', `Deleted document '${id}' from collection '${collection}'`);
+    return true;
+  }
+
+  /**
+   * Remove a document before it is stored again in chunks: its previous
+   * chunks and any unchunked row under the same id; the caller owns the transaction
+   *
+   * Returns the number of chunks removed.
+   */
+  async removeChunkedDocument(collection: string, parentId: string): Promise<number> {
+    const chunks = await this.findChunks(collection, parentId);
+    const unchunked = await this.findDocument(collection, parentId);
+    if (chunks.length === 0 && !unchunked) {
+      return 0;
+    }
+
+    const vectorTable = await this.schemaManager.getVectorTable(collection);
+    for (const row of unchunked ? [...chunks, unchunked] : chunks) {
+      await this.removeDocument(collection, row, vectorTable);
+    }
+
+    this.log('debug', `Removed ${chunks.length} chunks${unchunked ? ' and the unchunked version' : ''} of document '${parentId}' from collection '${collection}'`);
+    return chunks.length;
+  }
+
+  /**
+   * Delete every document in a collection matching `ids` and/or `filter`
+   *
+   * At least one non-empty selector is required so a missing argument can
+   * never wipe a whole collection.
+   */
+  async deleteDocuments(params: DeleteDocumentsParams): Promise<DeleteDocumentsResult> {
+    const { collection, ids, filter } = params;
+
+    const compiled = this.filterCompiler.compile(filter);
+    if (!compiled.clause && !ids) {
+      throw new Error('deleteDocuments requires ids or a non-empty filter');
+    }
+
+    const rows: DocumentRow[] = [];
+    const select = async (idClause: string, idParams: SQLValue[]) => {
+      const result = await this.sqliteManager.select(
+        `SELECT d.rowid, d.id, d.title, d.content, d.metadata
+         FROM docs_default d
+         WHERE d.collection = ?${idClause}${andFilter(compiled)}`,
+        [collection, ...idParams, ...compiled.params]
+      );
+      rows.push(...(result.rows as DocumentRow[]));
+    };
+
+    if (ids) {
+      for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+        await select(` AND d.id IN (${chunk.map(() => '?').join(', ')})`, chunk);
+      }
+    } else {
+      await select('', []);
+    }
+
+    if (rows.length === 0) {
+      return { deleted: 0, ids: [] };
+    }
+
+    const vectorTable = await this.schemaManager.getVectorTable(collection);
+    await this.withTransaction(async () => {
+      for (const row of rows) {
+        await this.removeDocument(collection, row, vectorTable);
+      }
+    });
+
+    this.log('info', `Deleted ${rows.length} documents from collection '${collection}'`);
+    return { deleted: rows.length, ids: rows.map(row => row.id) };
+  }
+
+  /**
+   * Remove a document and everything derived from it (caller owns the transaction)
+   */
+  private async removeDocument(collection: string, row: DocumentRow, vectorTable: VectorTableInfo): Promise<void> {
+    await this.deleteFromFts(row);
+    await this.sqliteManager.exec(`DELETE FROM ${vectorTable.table} WHERE rowid = ?`, [row.rowid]);
+    await this.sqliteManager.exec(
+      'DELETE FROM embedding_queue WHERE collection_name = ? AND document_id = ?',
+      [collection, row.id]
+    );
+    await this.sqliteManager.exec('DELETE FROM docs_default WHERE rowid = ?', [row.rowid]);
+  }
+
+  /**
+   * Remove a row from the external-content FTS5 index using the values it was indexed with
+   */
+  private async deleteFromFts(row: DocumentRow): Promise<void> {
+    await this.sqliteManager.exec(
+      `INSERT INTO fts_default(fts_default, rowid, title, content, metadata) VALUES('delete', ?, ?, ?, ?)`,
+      [row.rowid, row.title ?? '', row.content ?? '', row.metadata ?? '{}']
+    );
+  }
+
+  private async findDocument(collection: string, id: string): Promise<DocumentRow | null> {
+    const result = await this.sqliteManager.select(
+      'SELECT rowid, id, title, content, metadata FROM docs_default WHERE id = ? AND collection = ?',
+      [id, collection]
+    );
+    return (result.rows[0] as DocumentRow | undefined) ?? null;
+  }
+
+  private async findDocumentById(id: string): Promise<(DocumentRow & { collection: string }) | null> {
+    const result = await this.sqliteManager.select(
+      'SELECT rowid, id, title, content, metadata, collection FROM docs_default WHERE id = ?',
+      [id]
+    );
+    return (result.rows[0] as (DocumentRow & { collection: string }) | undefined) ?? null;
+  }
+
+  private async findChunks(collection: string, parentId: string): Promise<DocumentRow[]> {
+    const result = await this.sqliteManager.select(
+      'SELECT rowid, id, title, content, metadata FROM docs_default WHERE collection = ? AND parent_id = ?',
+      [collection, parentId]
+    );
+    return result.rows as DocumentRow[];
+  }
+
+  private async hasVector(vectorTable: VectorTableInfo, rowid: number): Promise<boolean> {
+    const result = await this.sqliteManager.select(
+      `SELECT rowid FROM ${vectorTable.table} WHERE rowid = ?`,
+      [rowid]
+    );
+    return result.rows.length > 0;
+  }
+
+  private async resolveVectorTable(
+    collection: string,
+    documentId: string,
+    vector: Float32Array | number[]
+  ): Promise<VectorTableInfo> {
+    const vectorTable = await this.schemaManager.getVectorTable(collection);
+    if (vector.length !== vectorTable.dimensions) {
+      throw new VectorError(
+        `Vector for document '${documentId}' has ${vector.length} dimensions, ` +
+        `collection '${collection}' expects ${vectorTable.dimensions}`
+      );
+    }
+    return vectorTable;
+  }
+
+  private async writeVector(vectorTable: VectorTableInfo, rowid: number, vector: Float32Array | number[]): Promise<void> {
+    const embedding = vector instanceof Float32Array ? vector : new Float32Array(vector);
+    await this.sqliteManager.exec(
+      `INSERT OR REPLACE INTO ${vectorTable.table} (rowid, embedding) VALUES (?, ?)`,
+      [rowid, new Uint8Array(embedding.buffer, embedding.byteOffset, embedding.byteLength)]
+    );
+  }
+
+  private parseMetadata(metadata: string | null): Record<string, any> {
+    if (!metadata) {
+      return {};
+    }
+    try {
+      return JSON.parse(metadata);
+    } catch {
+      return {};
+    }
+  }
+}
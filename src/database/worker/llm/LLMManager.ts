@@ -11,7 +11,7 @@ import { OpenAIProvider } from '../../../llm/providers/OpenAIProvider.js';
 import { AnthropicProvider } from '../../../llm/providers/AnthropicProvider.js';
 import { OpenRouterProvider } from '../../../llm/providers/OpenRouterProvider.js';
 import { CustomProvider } from '../../../llm/providers/CustomProvider.js';
-import type { LLMProviderConfig, EnhancedQuery, ResultSummary } from '../../../llm/types.js';
+import type { LLMProviderConfig, EnhancedQuery, ResultSummary, LLMDeltaHandler } from '../../../llm/types.js';
 import { LLMError, LLMParseError } from '../../../llm/errors.js';
 
 export class LLMManager {
@@ -71,12 +71,14 @@ export class LLMManager {
    * Generic LLM call with arbitrary prompt (SCRUM-17)
    *
    * Provides direct access to LLM for custom use cases.
-   * Returns raw LLM response without JSON parsing.
+   * Returns raw LLM response without JSON parsing. With `onDelta` the
+   * completion is streamed and the result is assembled from the deltas.
    */
   async callLLM(
     prompt: string,
     config: LLMProviderConfig,
-    options?: any
+    options?: any,
+    onDelta?: LLMDeltaHandler
   ): Promise<{ text: string; finishReason: string; usage?: any; model: string; provider: string; processingTime: number }> {
     const startTime = Date.now();
     const provider = this.getProvider(config);
@@ -84,10 +86,13 @@ export class LLMManager {
     try {
       this.logger.debug(`Generic LLM call`, {
         provider: config.provider,
-        promptLength: prompt.length
+        promptLength: prompt.length,
+        stream: Boolean(onDelta)
       });
 
-      const response = await provider.call(prompt, options);
+      const response = onDelta
+        ? await provider.callStream(prompt, onDelta, options)
+        : await provider.call(prompt, options);
 
       const result = {
         text: response.text,
@@ -175,11 +180,14 @@ export class LLMManager {
 
   /**
    * Summarize search results using LLM
+   *
+   * With `onDelta` the raw (JSON) completion is streamed while it is generated.
    */
   async summarizeResults(
     results: any[],
     config: LLMProviderConfig,
-    options?: any
+    options?: any,
+    onDelta?: LLMDeltaHandler
   ): Promise<ResultSummary> {
     const startTime = Date.now();
     const provider = this.getProvider(config);
@@ -187,7 +195,9 @@ export class LLMManager {
     try {
       this.logger.debug(`Summarizing ${results.length} results`, { provider: config.provider });
 
-      const response = await provider.summarizeResults(results, options);
+      const response = onDelta
+        ? await provider.summarizeResultsStream(results, onDelta, options)
+        : await provider.summarizeResults(results, options);
       const result = JSON.parse(response.text);
 
       const summary: ResultSummary = {
@@ -6,15 +6,39 @@
  */
 
 import type { SQLiteManager } from '../core/SQLiteManager.js';
+import type { StorageBackend } from '../storage/StorageBackend.js';
 import type { CollectionInfo } from '../../../types/worker.js';
 import { DatabaseError } from '../../../types/worker.js';
+import { MIGRATIONS, planMigrations, type Migration } from './migrations.js';
+import { runInTransaction } from '../utils/Transaction.js';
 
 /**
  * Database schema version
  *
- * Version 4: Added unicode61 tokenizer to FTS5 for proper Cyrillic/multilingual support
+ * Version 6: parent_id/chunk_index on docs_default for chunked documents.
+ * Every earlier version is described by its migration in migrations.ts.
  */
-export const CURRENT_SCHEMA_VERSION = 4;
+export const CURRENT_SCHEMA_VERSION = 6;
+
+/**
+ * Vector table shared by the default collection (and collections created before
+ * per-collection vector tables existed)
+ */
+export const DEFAULT_VECTOR_TABLE = 'vec_default_dense';
+export const DEFAULT_VECTOR_DIMENSIONS = 384;
+
+/**
+ * Upper bound on vec0 float vector dimensions
+ */
+export const MAX_VECTOR_DIMENSIONS = 8192;
+
+/**
+ * Vector storage owned by a collection
+ */
+export interface VectorTableInfo {
+  table: string;
+  dimensions: number;
+}
 
 /**
  * SchemaManager handles all database schema operations
@@ -27,9 +51,13 @@ export const CURRENT_SCHEMA_VERSION = 4;
  * - Migration path coordination
  */
 export class SchemaManager {
+  private vectorTables = new Map<string, VectorTableInfo>();
+
   constructor(
     private sqliteManager: SQLiteManager,
-    private logger?: { log: (level: string, message: string, data?: any) => void }
+    private logger?: { log: (level: string, message: string, data?: any) => void },
+    private storage?: Pick<StorageBackend, 'backupDatabase'>,
+    private migrations: readonly Migration[] = MIGRATIONS
   ) {}
 
   /**
@@ -40,6 +68,9 @@ export class SchemaManager {
       throw new DatabaseError('Database not connected');
     }
 
+    // Database may have been cleared or replaced by an import
+    this.vectorTables.clear();
+
     try {
       // Check for existing schema version and handle migrations
       let currentSchemaVersion = 0;
@@ -67,14 +98,20 @@ export class SchemaManager {
         this.log('debug', 'Schema tables do not exist yet, proceeding with initialization');
       }
 
-      // Handle schema migrations if we have an older version
-      if (currentSchemaVersion > 0 && currentSchemaVersion < CURRENT_SCHEMA_VERSION) {
+      if (currentSchemaVersion > CURRENT_SCHEMA_VERSION) {
         throw new DatabaseError(
-          `Database schema v${currentSchemaVersion} detected. Schema v${CURRENT_SCHEMA_VERSION} requires database recreation. ` +
-          `Please export your data, clear the database (db.clearAsync()), and reimport.`
+          `Database schema v${currentSchemaVersion} is newer than this library supports (v${CURRENT_SCHEMA_VERSION})`
         );
       }
 
+      // Upgrade older databases in place, then fill in anything the migrations don't create
+      if (currentSchemaVersion > 0 && currentSchemaVersion < CURRENT_SCHEMA_VERSION) {
+        await this.migrateSchema(currentSchemaVersion);
+        await this.createSchema();
+        this.log('info', 'Schema initialized successfully');
+        return;
+      }
+
       // Check if schema already exists (from restored database)
       await this.validateAndCleanupSchema();
 
@@ -89,66 +126,47 @@ export class SchemaManager {
 
   /**
    * Migrate schema from older version to current version
+   *
+   * Backs the database up to OPFS first, then runs every pending migration in a
+   * single transaction so a failure leaves the database at its original version.
    */
   async migrateSchema(currentVersion: number): Promise<void> {
     this.log('info', `Migrating schema from version ${currentVersion} to version ${CURRENT_SCHEMA_VERSION}`);
 
+    let plan: Migration[];
     try {
-
-      // Add future migrations here as needed
-
-      this.log('info', `Successfully migrated from schema version ${currentVersion} to ${CURRENT_SCHEMA_VERSION}`);
+      plan = planMigrations(currentVersion, CURRENT_SCHEMA_VERSION, this.migrations);
     } catch (error) {
       throw new DatabaseError(`Schema migration failed: ${error instanceof Error ? error.message : String(error)}`);
     }
-  }
 
-  /**
-   * Migrate from schema version 1 to version 2
-   */
-  private async migrateFromV1ToV2(): Promise<void> {
-    // Add new columns to collections table
-    await this.sqliteManager.exec(`
-      ALTER TABLE collections ADD COLUMN embedding_provider TEXT DEFAULT 'local';
-      ALTER TABLE collections ADD COLUMN embedding_dimensions INTEGER DEFAULT 384;
-      ALTER TABLE collections ADD COLUMN embedding_status TEXT DEFAULT 'enabled' CHECK(embedding_status IN ('enabled', 'disabled', 'pending'));
-      ALTER TABLE collections ADD COLUMN processing_status TEXT DEFAULT 'idle' CHECK(processing_status IN ('idle', 'processing', 'error'));
-    `);
+    // Never migrate without a backup of persistent data
+    const backupPath = this.storage
+      ? await this.storage.backupDatabase(`v${currentVersion}`)
+      : null;
 
-    // Create embedding queue table
-    await this.sqliteManager.exec(`
-      CREATE TABLE IF NOT EXISTS embedding_queue (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        collection_name TEXT NOT NULL,
-        document_id TEXT NOT NULL,
-        text_content TEXT NOT NULL,
-        priority INTEGER DEFAULT 0,
-        status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'processing', 'completed', 'failed')),
-        retry_count INTEGER DEFAULT 0,
-        created_at INTEGER DEFAULT (strftime('%s', 'now')),
-        started_at INTEGER,
-        completed_at INTEGER,
-        processed_at INTEGER,
-        error_message TEXT,
-        FOREIGN KEY(collection_name) REFERENCES collections(name) ON DELETE CASCADE
+    let migration: Migration | undefined;
+    try {
+      await this.withTransaction(async () => {
+        for (migration of plan) {
+          this.log('info', `Applying migration v${migration.version}: ${migration.description}`);
+          await migration.up(this.sqliteManager);
+          await this.sqliteManager.exec(
+            `UPDATE collections SET schema_version = ?, updated_at = strftime('%s', 'now')`,
+            [migration.version]
+          );
+        }
+      });
+    } catch (error) {
+      throw new DatabaseError(
+        `Schema migration to v${migration?.version} failed: ${error instanceof Error ? error.message : String(error)}` +
+        (backupPath ? ` (backup saved at ${backupPath})` : '')
       );
-    `);
-
-    // Create indexes for embedding queue performance
-    await this.sqliteManager.exec(`
-      CREATE INDEX IF NOT EXISTS idx_embedding_queue_status ON embedding_queue(status);
-      CREATE INDEX IF NOT EXISTS idx_embedding_queue_collection ON embedding_queue(collection_name);
-      CREATE INDEX IF NOT EXISTS idx_embedding_queue_priority ON embedding_queue(priority DESC);
-      CREATE INDEX IF NOT EXISTS idx_embedding_queue_created ON embedding_queue(created_at);
-    `);
+    }
 
-    // Update schema version to 2
-    await this.sqliteManager.exec(`
-      UPDATE collections SET schema_version = 2, updated_at = strftime('%s', 'now')
-    `);
+    this.log('info', `Successfully migrated from schema version ${currentVersion} to ${CURRENT_SCHEMA_VERSION}`);
   }
 
-
   /**
    * Validate existing schema and cleanup incomplete installations
    */
@@ -215,12 +233,15 @@ export class SchemaManager {
   private async createSchema(): Promise<void> {
     await this.sqliteManager.exec(`
       -- Base documents table (v3 schema with separate collection column)
+      -- parent_id/chunk_index (v6) are set on chunks of a longer document
       CREATE TABLE IF NOT EXISTS docs_default (
         id TEXT PRIMARY KEY,
         title TEXT,
         content TEXT NOT NULL,
         collection TEXT NOT NULL DEFAULT 'default',
         metadata JSON,
+        parent_id TEXT,
+        chunk_index INTEGER,
         created_at INTEGER DEFAULT (strftime('%s', 'now')),
         updated_at INTEGER DEFAULT (strftime('%s', 'now'))
       );
@@ -228,6 +249,9 @@ export class SchemaManager {
       -- Index for efficient collection filtering
       CREATE INDEX IF NOT EXISTS idx_docs_collection ON docs_default(collection);
 
+      -- Index for finding the chunks of a document
+      CREATE INDEX IF NOT EXISTS idx_docs_parent ON docs_default(collection, parent_id);
+
       -- Full-text search table (EXTERNAL CONTENT - requires manual sync)
       -- NOTE: FTS5 sync is handled manually in DatabaseWorker to avoid
       --       memory exhaustion during batch transactions
@@ -241,7 +265,7 @@ export class SchemaManager {
 
       -- Vector search table (384-dimensional dense vectors)
       CREATE VIRTUAL TABLE IF NOT EXISTS vec_default_dense USING vec0(
-        embedding float[384]
+        embedding float[${DEFAULT_VECTOR_DIMENSIONS}]
       );
 
       -- Collections metadata with embedding configuration
@@ -280,14 +304,39 @@ export class SchemaManager {
       CREATE INDEX IF NOT EXISTS idx_embedding_queue_priority ON embedding_queue(priority DESC);
       CREATE INDEX IF NOT EXISTS idx_embedding_queue_created ON embedding_queue(created_at);
 
+      -- Search analytics events (opt-in, written by Database when analytics are enabled)
+      CREATE TABLE IF NOT EXISTS search_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL CHECK(type IN ('search', 'interaction')),
+        query_id TEXT NOT NULL,
+        session_id TEXT,
+        timestamp INTEGER NOT NULL,
+        method TEXT,
+        query TEXT,
+        collection TEXT,
+        strategy TEXT,
+        latency_ms REAL,
+        result_count INTEGER,
+        zero_results INTEGER,
+        error TEXT,
+        action TEXT,
+        target_id TEXT,
+        target_rank INTEGER,
+        dwell_time REAL,
+        metadata JSON
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_search_events_timestamp ON search_events(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_search_events_query_id ON search_events(query_id);
+
       -- Insert default collection info
       INSERT OR IGNORE INTO collections (name, config)
-      VALUES ('default', '{"vectorDim": 384, "metric": "cosine"}');
+      VALUES ('default', '{"vectorDim": ${DEFAULT_VECTOR_DIMENSIONS}, "metric": "cosine", "vectorTable": "${DEFAULT_VECTOR_TABLE}"}');
     `);
   }
 
   /**
-   * Get collection information
+   * Get collection information, including storage and embedding statistics
    */
   async getCollectionInfo(name: string): Promise<CollectionInfo> {
     try {
@@ -300,85 +349,317 @@ export class SchemaManager {
         throw new DatabaseError(`Collection '${name}' not found`);
       }
 
-      const collection = collectionResult.rows[0];
+      return await this.buildCollectionInfo(collectionResult.rows[0]);
+    } catch (error) {
+      throw new DatabaseError(`Failed to get collection info: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-      // Get document count (using collection column in v3+)
-      const countResult = await this.sqliteManager.select(
-        `SELECT COUNT(*) as count FROM docs_default WHERE collection = ?`,
-        [name]
-      );
+  /**
+   * List all collections with their statistics, ordered by name
+   */
+  async listCollections(): Promise<CollectionInfo[]> {
+    try {
+      const result = await this.sqliteManager.select('SELECT * FROM collections ORDER BY name');
+      const collections: CollectionInfo[] = [];
+      for (const row of result.rows) {
+        collections.push(await this.buildCollectionInfo(row));
+      }
+      return collections;
+    } catch (error) {
+      throw new DatabaseError(`Failed to list collections: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-      let config;
-      try {
-        config = JSON.parse(collection.config || '{}');
-      } catch {
-        config = {};
+  /**
+   * Drop a collection and everything derived from it
+   *
+   * Removes FTS5 entries (via the 'delete' command), vectors, queue entries and
+   * documents in one transaction. A collection-owned vector table is dropped;
+   * rows in the shared vec_default_dense table are deleted individually.
+   */
+  async dropCollection(name: string): Promise<void> {
+    if (name === 'default') {
+      throw new DatabaseError(`Cannot drop the 'default' collection; delete its documents instead`);
+    }
+
+    try {
+      if (!(await this.collectionExists(name))) {
+        throw new DatabaseError(`Collection '${name}' not found`);
       }
 
-      return {
-        name: collection.name,
-        createdAt: collection.created_at,
-        schemaVersion: collection.schema_version,
-        vectorDimensions: config.vectorDim || 384,
-        documentCount: countResult.rows[0]?.count || 0
-      };
+      const vectorTable = await this.getVectorTable(name);
+
+      await this.withTransaction(async () => {
+        await this.sqliteManager.exec(
+          `INSERT INTO fts_default(fts_default, rowid, title, content, metadata)
+           SELECT 'delete', rowid, COALESCE(title, ''), content, COALESCE(metadata, '{}')
+           FROM docs_default WHERE collection = ?`,
+          [name]
+        );
+
+        if (vectorTable.table === DEFAULT_VECTOR_TABLE) {
+          await this.sqliteManager.exec(
+            `DELETE FROM ${DEFAULT_VECTOR_TABLE} WHERE rowid IN (SELECT rowid FROM docs_default WHERE collection = ?)`,
+            [name]
+          );
+        } else {
+          await this.sqliteManager.exec(`DROP TABLE IF EXISTS ${vectorTable.table}`);
+        }
+
+        await this.sqliteManager.exec('DELETE FROM embedding_queue WHERE collection_name = ?', [name]);
+        await this.sqliteManager.exec('DELETE FROM docs_default WHERE collection = ?', [name]);
+        await this.sqliteManager.exec('DELETE FROM collections WHERE name = ?', [name]);
+      });
+
+      this.vectorTables.delete(name);
+      this.log('info', `Collection '${name}' dropped`);
     } catch (error) {
-      throw new DatabaseError(`Failed to get collection info: ${error instanceof Error ? error.message : String(error)}`);
+      throw new DatabaseError(`Failed to drop collection: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Create a new collection
+   * Rename a collection; documents, queue entries and the vector table move with it
+   *
+   * The vector table keeps its original name (it is recorded in config.vectorTable).
+   */
+  async renameCollection(from: string, to: string): Promise<void> {
+    if (from === 'default') {
+      throw new DatabaseError(`Cannot rename the 'default' collection`);
+    }
+
+    try {
+      if (!(await this.collectionExists(from))) {
+        throw new DatabaseError(`Collection '${from}' not found`);
+      }
+      if (await this.collectionExists(to)) {
+        throw new DatabaseError(`Collection '${to}' already exists`);
+      }
+
+      // Make sure legacy collections have their vector table recorded before the name changes
+      await this.getVectorTable(from);
+
+      await this.withTransaction(async () => {
+        // embedding_queue references collections(name) without ON UPDATE CASCADE
+        await this.sqliteManager.exec('PRAGMA defer_foreign_keys = ON');
+        await this.sqliteManager.exec(
+          `UPDATE collections SET name = ?, updated_at = strftime('%s', 'now') WHERE name = ?`,
+          [to, from]
+        );
+        await this.sqliteManager.exec('UPDATE docs_default SET collection = ? WHERE collection = ?', [to, from]);
+        await this.sqliteManager.exec('UPDATE embedding_queue SET collection_name = ? WHERE collection_name = ?', [to, from]);
+      });
+
+      const cached = this.vectorTables.get(from);
+      this.vectorTables.delete(from);
+      if (cached) {
+        this.vectorTables.set(to, cached);
+      }
+      this.log('info', `Collection '${from}' renamed to '${to}'`);
+    } catch (error) {
+      throw new DatabaseError(`Failed to rename collection: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Assemble CollectionInfo for a collections row
+   *
+   * storageBytes is an estimate: UTF-8 size of title, content and metadata plus
+   * 4 bytes per stored vector dimension (index overhead is not included).
+   */
+  private async buildCollectionInfo(collection: Record<string, any>): Promise<CollectionInfo> {
+    const name: string = collection.name;
+    const vectorTable = await this.getVectorTable(name);
+
+    const docStats = await this.sqliteManager.select(
+      `SELECT COUNT(*) as count,
+              COALESCE(SUM(length(CAST(COALESCE(title, '') AS BLOB)) +
+                           length(CAST(content AS BLOB)) +
+                           length(CAST(COALESCE(metadata, '') AS BLOB))), 0) as bytes,
+              MAX(updated_at) as last_updated
+       FROM docs_default WHERE collection = ?`,
+      [name]
+    );
+
+    const embedded = await this.sqliteManager.select(
+      `SELECT COUNT(*) as count FROM docs_default
+       WHERE collection = ? AND rowid IN (SELECT rowid FROM ${vectorTable.table})`,
+      [name]
+    );
+
+    const pending = await this.sqliteManager.select(
+      `SELECT COUNT(*) as count FROM embedding_queue
+       WHERE collection_name = ? AND status IN ('pending', 'processing')`,
+      [name]
+    );
+
+    const documentCount = docStats.rows[0]?.count || 0;
+    const embeddedCount = embedded.rows[0]?.count || 0;
+
+    return {
+      name,
+      createdAt: collection.created_at,
+      updatedAt: Math.max(collection.updated_at || 0, docStats.rows[0]?.last_updated || 0),
+      schemaVersion: collection.schema_version,
+      vectorDimensions: vectorTable.dimensions,
+      vectorTable: vectorTable.table,
+      documentCount,
+      embeddedCount,
+      pendingEmbeddingCount: pending.rows[0]?.count || 0,
+      storageBytes: (docStats.rows[0]?.bytes || 0) + embeddedCount * vectorTable.dimensions * 4
+    };
+  }
+
+  /**
+   * Run `fn` inside BEGIN IMMEDIATE ... COMMIT, rolling back if it throws
+   */
+  private withTransaction(fn: () => Promise<void>): Promise<void> {
+    return runInTransaction(this.sqliteManager, fn, (level, message) => this.log(level, message));
+  }
+
+  /**
+   * Create a new collection with its own vector table sized to `dimensions`
    */
   async createCollection(
     name: string,
-    dimensions: number = 384,
+    dimensions: number = DEFAULT_VECTOR_DIMENSIONS,
     config: Record<string, any> = {}
   ): Promise<void> {
     try {
-      // Check if collection already exists
-      const existing = await this.sqliteManager.select(
-        'SELECT name FROM collections WHERE name = ?',
-        [name]
-      );
+      this.validateDimensions(dimensions);
+
+      // The vector table and the collection row are created together or not at all
+      let vectorTable = '';
+      await this.withTransaction(async () => {
+        // Check if collection already exists
+        const existing = await this.sqliteManager.select(
+          'SELECT name FROM collections WHERE name = ?',
+          [name]
+        );
 
-      if (existing.rows.length > 0) {
-        throw new DatabaseError(`Collection '${name}' already exists`);
+        if (existing.rows.length > 0) {
+          throw new DatabaseError(`Collection '${name}' already exists`);
+        }
+
+        vectorTable = await this.createVectorTable(name, dimensions);
+
+        // vectorDim/vectorTable always describe the table that was actually created
+        const collectionMetadata = {
+          metric: 'cosine',
+          ...config,
+          vectorDim: dimensions,
+          vectorTable
+        };
+
+        // Collections with an embedding configuration record its provider and auto-embedding switch
+        const embeddingConfig = config.embeddingConfig;
+        const timestamp = Math.floor(Date.now() / 1000);
+        await this.sqliteManager.exec(
+          `INSERT INTO collections (name, config, schema_version, embedding_dimensions, created_at, updated_at, embedding_provider, embedding_status)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            name, JSON.stringify(collectionMetadata), CURRENT_SCHEMA_VERSION, dimensions, timestamp, timestamp,
+            embeddingConfig?.provider ?? 'local',
+            embeddingConfig?.autoGenerate === false ? 'disabled' : 'enabled'
+          ]
+        );
+      });
+
+      this.vectorTables.set(name, { table: vectorTable, dimensions });
+      this.log('info', `Collection '${name}' created with ${dimensions} dimensions (vector table: ${vectorTable})`);
+    } catch (error) {
+      throw new DatabaseError(`Failed to create collection: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Resolve the vector table for a collection
+   *
+   * Collections record their table in `config.vectorTable`. The default collection and
+   * collections created before per-collection tables use vec_default_dense; a legacy
+   * collection whose dimensions don't fit that table gets its own table on first use.
+   */
+  async getVectorTable(collection: string): Promise<VectorTableInfo> {
+    const cached = this.vectorTables.get(collection);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.sqliteManager.select(
+      'SELECT config FROM collections WHERE name = ?',
+      [collection]
+    );
+
+    if (result.rows.length === 0) {
+      throw new DatabaseError(`Collection '${collection}' does not exist`);
+    }
+
+    let config: Record<string, any>;
+    try {
+      config = JSON.parse(result.rows[0].config || '{}');
+    } catch {
+      config = {};
+    }
+
+    const dimensions = Number(config.vectorDim) || DEFAULT_VECTOR_DIMENSIONS;
+    let table: string = config.vectorTable;
+
+    if (!table) {
+      if (dimensions === DEFAULT_VECTOR_DIMENSIONS) {
+        table = DEFAULT_VECTOR_TABLE;
+      } else {
+        this.validateDimensions(dimensions);
+        table = await this.createVectorTable(collection, dimensions);
+        await this.sqliteManager.exec(
+          `UPDATE collections SET config = json_set(COALESCE(config, '{}'), '$.vectorTable', ?), updated_at = strftime('%s', 'now') WHERE name = ?`,
+          [table, collection]
+        );
       }
+    }
 
-      const collectionMetadata = {
-        vectorDim: dimensions,
-        metric: 'cosine',
-        ...config
-      };
+    const info = { table, dimensions };
+    this.vectorTables.set(collection, info);
+    return info;
+  }
 
-      await this.sqliteManager.exec(`
-        INSERT INTO collections (name, config, schema_version, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?)
-      `);
+  /**
+   * Create a vec0 table for a collection and return its name
+   *
+   * Table names are derived from the collection name (sanitized to [a-z0-9_]) and the
+   * dimensions; a numeric suffix is added if the sanitized name is already taken.
+   */
+  private async createVectorTable(collection: string, dimensions: number): Promise<string> {
+    const base = `vec_${collection.toLowerCase().replace(/[^a-z0-9_]/g, '_').slice(0, 48)}_${dimensions}d`;
 
-      // Use select to avoid parameter binding issues
-      const timestamp = Math.floor(Date.now() / 1000);
-      const result = await this.sqliteManager.select(
-        `SELECT ? as name, ? as config, ? as schema_version, ? as created_at, ? as updated_at`,
-        [
-          name,
-          JSON.stringify(collectionMetadata),
-          CURRENT_SCHEMA_VERSION,
-          timestamp,
-          timestamp
-        ]
-      );
+    let table = base;
+    for (let suffix = 2; await this.tableExists(table); suffix++) {
+      table = `${base}_${suffix}`;
+    }
 
-      // Insert the data
-      await this.sqliteManager.exec(
-        `INSERT INTO collections (name, config, schema_version, created_at, updated_at)
-         VALUES ('${name}', '${JSON.stringify(collectionMetadata)}', ${CURRENT_SCHEMA_VERSION}, ${timestamp}, ${timestamp})`
-      );
+    await this.sqliteManager.exec(`
+      CREATE VIRTUAL TABLE ${table} USING vec0(
+        embedding float[${dimensions}]
+      )
+    `);
 
-      this.log('info', `Collection '${name}' created with ${dimensions} dimensions`);
-    } catch (error) {
-      throw new DatabaseError(`Failed to create collection: ${error instanceof Error ? error.message : String(error)}`);
+    this.log('info', `Created vector table '${table}' (${dimensions} dimensions) for collection '${collection}'`);
+    return table;
+  }
+
+  private async tableExists(table: string): Promise<boolean> {
+    const result = await this.sqliteManager.select(
+      'SELECT name FROM sqlite_master WHERE name = ?',
+      [table]
+    );
+    return result.rows.length > 0;
+  }
+
+  private validateDimensions(dimensions: number): void {
+    if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > MAX_VECTOR_DIMENSIONS) {
+      throw new DatabaseError(
+        `Invalid vector dimensions: ${dimensions} (expected an integer between 1 and ${MAX_VECTOR_DIMENSIONS})`
+      );
     }
   }
 
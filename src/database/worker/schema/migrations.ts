@@ -0,0 +1,222 @@
+/**
+ * Schema migrations
+ *
+ * Ordered, registered upgrades from one schema version to the next.
+ * Each migration upgrades a database from `version - 1` to `version`;
+ * SchemaManager runs every pending migration inside a single transaction.
+ *
+ * DDL in migrations is a snapshot of the schema at that version and must not
+ * be changed once released - add a new migration instead.
+ */
+
+import type { SQLiteManager } from '../core/SQLiteManager.js';
+
+/**
+ * A single schema upgrade step
+ */
+export interface Migration {
+  /** Schema version this migration upgrades to */
+  version: number;
+  description: string;
+  up(sqlite: SQLiteManager): Promise<void>;
+}
+
+/**
+ * Add a column unless it already exists (ALTER TABLE ADD COLUMN is not idempotent)
+ */
+async function addColumnIfMissing(
+  sqlite: SQLiteManager,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  const columns = await sqlite.select(`PRAGMA table_info(${table})`);
+  if (!columns.rows.some(row => row.name === column)) {
+    await sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * v2: collection-level embedding configuration and the background embedding queue
+ */
+const v2EmbeddingQueue: Migration = {
+  version: 2,
+  description: 'Add embedding columns to collections and create embedding_queue',
+  async up(sqlite) {
+    await addColumnIfMissing(sqlite, 'collections', 'embedding_provider', `TEXT DEFAULT 'local'`);
+    await addColumnIfMissing(sqlite, 'collections', 'embedding_dimensions', 'INTEGER DEFAULT 384');
+    await addColumnIfMissing(
+      sqlite, 'collections', 'embedding_status',
+      `TEXT DEFAULT 'enabled' CHECK(embedding_status IN ('enabled', 'disabled', 'pending'))`
+    );
+    await addColumnIfMissing(
+      sqlite, 'collections', 'processing_status',
+      `TEXT DEFAULT 'idle' CHECK(processing_status IN ('idle', 'processing', 'error'))`
+    );
+
+    await sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS embedding_queue (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL,
+        document_id TEXT NOT NULL,
+        text_content TEXT NOT NULL,
+        priority INTEGER DEFAULT 0,
+        status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'processing', 'completed', 'failed')),
+        retry_count INTEGER DEFAULT 0,
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        started_at INTEGER,
+        completed_at INTEGER,
+        processed_at INTEGER,
+        error_message TEXT,
+        FOREIGN KEY(collection_name) REFERENCES collections(name) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_embedding_queue_status ON embedding_queue(status);
+      CREATE INDEX IF NOT EXISTS idx_embedding_queue_collection ON embedding_queue(collection_name);
+      CREATE INDEX IF NOT EXISTS idx_embedding_queue_priority ON embedding_queue(priority DESC);
+      CREATE INDEX IF NOT EXISTS idx_embedding_queue_created ON embedding_queue(created_at);
+    `);
+  }
+};
+
+/**
+ * v3: collection moves from metadata.collection into its own column
+ *
+ * metadata.collection is left in place: it may be user data, and as of v3 it
+ * is no longer read internally.
+ */
+const v3CollectionColumn: Migration = {
+  version: 3,
+  description: 'Move document collection into a dedicated docs_default.collection column',
+  async up(sqlite) {
+    await addColumnIfMissing(sqlite, 'docs_default', 'collection', `TEXT NOT NULL DEFAULT 'default'`);
+
+    await sqlite.exec(`
+      UPDATE docs_default
+      SET collection = json_extract(metadata, '$.collection')
+      WHERE json_valid(metadata) AND json_type(metadata, '$.collection') = 'text';
+
+      CREATE INDEX IF NOT EXISTS idx_docs_collection ON docs_default(collection);
+
+      INSERT OR IGNORE INTO collections (name, config)
+      SELECT DISTINCT collection, '{"vectorDim": 384, "metric": "cosine"}' FROM docs_default;
+    `);
+  }
+};
+
+/**
+ * v4: rebuild FTS5 with the unicode61 tokenizer (Cyrillic/multilingual support)
+ *
+ * fts_default is an external-content table, so 'rebuild' repopulates the index
+ * from docs_default without touching document rows.
+ */
+const v4Unicode61Fts: Migration = {
+  version: 4,
+  description: 'Rebuild fts_default with the unicode61 tokenizer',
+  async up(sqlite) {
+    await sqlite.exec(`
+      DROP TABLE IF EXISTS fts_default;
+
+      CREATE VIRTUAL TABLE fts_default USING fts5(
+        title, content, metadata,
+        content=docs_default,
+        content_rowid=rowid,
+        tokenize='unicode61'
+      );
+
+      INSERT INTO fts_default(fts_default) VALUES('rebuild');
+    `);
+  }
+};
+
+/**
+ * v5: search analytics events (queries, latency, zero results, interactions)
+ */
+const v5SearchEvents: Migration = {
+  version: 5,
+  description: 'Create search_events for persisted search analytics',
+  async up(sqlite) {
+    await sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS search_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL CHECK(type IN ('search', 'interaction')),
+        query_id TEXT NOT NULL,
+        session_id TEXT,
+        timestamp INTEGER NOT NULL,
+        method TEXT,
+        query TEXT,
+        collection TEXT,
+        strategy TEXT,
+        latency_ms REAL,
+        result_count INTEGER,
+        zero_results INTEGER,
+        error TEXT,
+        action TEXT,
+        target_id TEXT,
+        target_rank INTEGER,
+        dwell_time REAL,
+        metadata JSON
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_search_events_timestamp ON search_events(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_search_events_query_id ON search_events(query_id);
+    `);
+  }
+};
+
+/**
+ * v6: chunk rows link back to the logical document they were split from
+ */
+const v6DocumentChunks: Migration = {
+  version: 6,
+  description: 'Add parent_id and chunk_index to docs_default for chunked documents',
+  async up(sqlite) {
+    await addColumnIfMissing(sqlite, 'docs_default', 'parent_id', 'TEXT');
+    await addColumnIfMissing(sqlite, 'docs_default', 'chunk_index', 'INTEGER');
+
+    await sqlite.exec(`
+      CREATE INDEX IF NOT EXISTS idx_docs_parent ON docs_default(collection, parent_id);
+    `);
+  }
+};
+
+/**
+ * All registered migrations, in version order
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  v2EmbeddingQueue,
+  v3CollectionColumn,
+  v4Unicode61Fts,
+  v5SearchEvents,
+  v6DocumentChunks
+];
+
+/**
+ * Select the migrations needed to go from `fromVersion` to `toVersion`
+ *
+ * Throws if the registered chain has a gap, so a database is never left at a
+ * version that no code path knows how to read.
+ */
+export function planMigrations(
+  fromVersion: number,
+  toVersion: number,
+  migrations: readonly Migration[] = MIGRATIONS
+): Migration[] {
+  const plan = migrations
+    .filter(migration => migration.version > fromVersion && migration.version <= toVersion)
+    .sort((a, b) => a.version - b.version);
+
+  let expected = fromVersion + 1;
+  for (const migration of plan) {
+    if (migration.version !== expected) {
+      break;
+    }
+    expected++;
+  }
+
+  if (expected !== toVersion + 1) {
+    throw new Error(`No migration registered from schema v${expected - 1} to v${expected}`);
+  }
+
+  return plan;
+}
@@ -0,0 +1,43 @@
+/**
+ * ChunkCollapser
+ *
+ * Collapses chunk hits into one result per parent document. Chunks of a long
+ * document compete with each other in the fused ranking, so without collapsing
+ * a single document can fill a whole page. The best-ranked chunk represents
+ * its parent; the others only add to its match count.
+ */
+
+/**
+ * A ranked candidate that survived collapsing
+ */
+export interface CollapsedCandidate<T> {
+  candidate: T;
+  groupId: string;
+  matchedChunks: number;  // Candidates of the same group in the fused list, including this one
+}
+
+/**
+ * Keep the first (best-ranked) candidate of each group, preserving order
+ *
+ * `groupOf` returns the parent id for chunks and the document's own id for
+ * anything else, so unchunked documents pass through unchanged.
+ */
+export function collapseByGroup<T>(
+  candidates: readonly T[],
+  groupOf: (candidate: T) => string
+): CollapsedCandidate<T>[] {
+  const groups = new Map<string, CollapsedCandidate<T>>();
+
+  for (const candidate of candidates) {
+    const groupId = groupOf(candidate);
+    const existing = groups.get(groupId);
+    if (existing) {
+      existing.matchedChunks++;
+    } else {
+      groups.set(groupId, { candidate, groupId, matchedChunks: 1 });
+    }
+  }
+
+  // Map preserves insertion order, which is rank order of each group's best candidate
+  return [...groups.values()];
+}
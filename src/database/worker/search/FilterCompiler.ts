@@ -0,0 +1,511 @@
+/**
+ * FilterCompiler
+ *
+ * Compiles declarative SearchFilters into parameterized SQL predicates over
+ * the documents table. Metadata fields are resolved with json_extract()/json_type()
+ * against docs_default.metadata; user values are always bound as parameters.
+ */
+
+import type { SearchFilters, AdvancedFilters } from '../../../types/search.js';
+import type { SQLValue } from '../../../types/worker.js';
+import { FilterError } from '../../../types/search.js';
+
+/**
+ * Compiled SQL predicate with its bound parameters
+ *
+ * `clause` is empty when there is nothing to filter on, otherwise it is a
+ * parenthesized boolean expression that can be AND-ed into a WHERE clause.
+ */
+export interface CompiledFilter {
+  clause: string;
+  params: SQLValue[];
+}
+
+/**
+ * Document columns that can be filtered directly instead of through metadata
+ */
+const DOCUMENT_COLUMNS = new Set(['id', 'title', 'content', 'created_at', 'updated_at']);
+
+/**
+ * Timestamp columns store unix seconds
+ */
+const TIMESTAMP_COLUMNS = new Set(['created_at', 'updated_at']);
+
+/**
+ * Metadata field path: dot-separated identifiers with optional array indexes,
+ * e.g. `author`, `author.name`, `tags[0]`, `metadata.source.url`
+ */
+const FIELD_PATH_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*(\[\d+\])*(\.[A-Za-z_][A-Za-z0-9_-]*(\[\d+\])*)*$/;
+
+const MAX_IN_LIST_SIZE = 500;
+
+/**
+ * Maximum nesting depth of bool filter trees
+ */
+const MAX_BOOL_DEPTH = 16;
+
+const BOOL_KEYS = new Set(['must', 'should', 'must_not', 'minimum_should_match']);
+
+const FILTER_KEYS = new Set(['metadata', 'dateRange', 'numericRange', 'textFilter', 'exists', 'missing', 'bool']);
+
+/**
+ * Resolved filter target: either a plain column or a JSON path into metadata
+ */
+type FieldTarget =
+  | { kind: 'column'; column: string }
+  | { kind: 'metadata'; path: string };
+
+/**
+ * FilterCompiler turns SearchFilters into SQL that can be applied to the
+ * FTS, vector and LIKE candidate queries before fusion
+ *
+ * Field resolution:
+ * - `id`, `title`, `content`, `created_at`, `updated_at` map to document columns
+ * - anything else (optionally prefixed with `metadata.`) maps to `$.<path>` in metadata
+ *
+ * Bool trees (`bool.must/should/must_not`) may nest arbitrarily up to MAX_BOOL_DEPTH
+ * and are AND-ed with any plain filters on the same level.
+ */
+export class FilterCompiler {
+  constructor(private alias: string = 'd') {}
+
+  /**
+   * Compile filters into a single AND-ed predicate
+   */
+  compile(filters?: AdvancedFilters | null): CompiledFilter {
+    if (!filters) {
+      return { clause: '', params: [] };
+    }
+    return this.compileNode(filters, 0);
+  }
+
+  private compileNode(filters: AdvancedFilters, depth: number): CompiledFilter {
+    if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+      throw new FilterError('Search filters must be an object', { filters });
+    }
+    if (filters.script !== undefined) {
+      throw new FilterError(
+        'script filters are not supported: filters must be declarative',
+        { construct: 'script' }
+      );
+    }
+    // A misspelled key would otherwise silently match every document
+    for (const key of Object.keys(filters)) {
+      if (!FILTER_KEYS.has(key)) {
+        throw new FilterError(`Unsupported filter '${key}'`, { construct: key });
+      }
+    }
+
+    const clauses: string[] = [];
+    const params: SQLValue[] = [];
+
+    const push = (compiled: CompiledFilter) => {
+      if (compiled.clause) {
+        clauses.push(compiled.clause);
+        params.push(...compiled.params);
+      }
+    };
+
+    if (filters.metadata !== undefined) {
+      push(this.compileMetadata(filters.metadata));
+    }
+    if (filters.dateRange !== undefined) {
+      push(this.compileDateRange(filters.dateRange));
+    }
+    if (filters.numericRange !== undefined) {
+      push(this.compileNumericRange(filters.numericRange));
+    }
+    if (filters.textFilter !== undefined) {
+      push(this.compileTextFilter(filters.textFilter));
+    }
+    if (filters.exists !== undefined) {
+      push(this.compilePresence(filters.exists, true));
+    }
+    if (filters.missing !== undefined) {
+      push(this.compilePresence(filters.missing, false));
+    }
+    if (filters.bool !== undefined) {
+      push(this.compileBool(filters.bool, depth + 1));
+    }
+
+    return this.join(clauses, params);
+  }
+
+  /**
+   * Bool tree: must = AND, must_not = NOT OR, should = at least minimum_should_match
+   *
+   * should clauses only filter here (there is no scoring), so minimum_should_match
+   * defaults to 1 whenever should is non-empty. Negative values mean "all but N".
+   * Sub-predicates are wrapped in COALESCE so a missing field counts as "no match"
+   * rather than propagating NULL through NOT.
+   */
+  private compileBool(bool: NonNullable<AdvancedFilters['bool']>, depth: number): CompiledFilter {
+    if (typeof bool !== 'object' || bool === null || Array.isArray(bool)) {
+      throw new FilterError('bool filter must be an object', { bool });
+    }
+    if (depth > MAX_BOOL_DEPTH) {
+      throw new FilterError(`bool filter is nested too deeply (max ${MAX_BOOL_DEPTH})`, { depth });
+    }
+    for (const key of Object.keys(bool)) {
+      if (!BOOL_KEYS.has(key)) {
+        throw new FilterError(`Unsupported bool clause '${key}'`, { construct: `bool.${key}` });
+      }
+    }
+
+    const clauses: string[] = [];
+    const params: SQLValue[] = [];
+
+    const compileList = (key: 'must' | 'should' | 'must_not'): CompiledFilter[] => {
+      const list = bool[key];
+      if (list === undefined) {
+        return [];
+      }
+      if (!Array.isArray(list)) {
+        throw new FilterError(`bool.${key} must be an array of filters`, { [key]: list });
+      }
+      return list.map(child => {
+        const compiled = this.compileNode(child as AdvancedFilters, depth);
+        // An empty sub-filter matches every document
+        return compiled.clause ? compiled : { clause: '1', params: [] };
+      });
+    };
+
+    for (const compiled of compileList('must')) {
+      clauses.push(compiled.clause);
+      params.push(...compiled.params);
+    }
+
+    for (const compiled of compileList('must_not')) {
+      clauses.push(`NOT COALESCE(${compiled.clause}, 0)`);
+      params.push(...compiled.params);
+    }
+
+    const should = compileList('should');
+    let minimumShouldMatch = should.length > 0 ? 1 : 0;
+
+    if (bool.minimum_should_match !== undefined) {
+      const value = bool.minimum_should_match;
+      if (!Number.isInteger(value)) {
+        throw new FilterError('bool.minimum_should_match must be an integer', { minimum_should_match: value });
+      }
+      minimumShouldMatch = value < 0 ? Math.max(should.length + value, 0) : value;
+      if (minimumShouldMatch > should.length) {
+        throw new FilterError(
+          `bool.minimum_should_match (${value}) exceeds the number of should clauses (${should.length})`,
+          { minimum_should_match: value, should: should.length }
+        );
+      }
+    }
+
+    if (minimumShouldMatch === 1 && should.length > 0) {
+      clauses.push(`(${should.map(compiled => `COALESCE(${compiled.clause}, 0)`).join(' OR ')})`);
+      should.forEach(compiled => params.push(...compiled.params));
+    } else if (minimumShouldMatch > 1) {
+      const matches = should.map(compiled => `(COALESCE(${compiled.clause}, 0) <> 0)`).join(' + ');
+      clauses.push(`(${matches}) >= ?`);
+      should.forEach(compiled => params.push(...compiled.params));
+      params.push(minimumShouldMatch);
+    }
+
+    return this.join(clauses, params);
+  }
+
+  /**
+   * Metadata equality: scalars compare with =, arrays become IN lists, null matches JSON null or missing
+   */
+  private compileMetadata(metadata: Record<string, any>): CompiledFilter {
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      throw new FilterError('metadata filter must be an object of field/value pairs', { metadata });
+    }
+
+    const clauses: string[] = [];
+    const params: SQLValue[] = [];
+
+    for (const [field, value] of Object.entries(metadata)) {
+      const target = this.resolveField(field);
+
+      if (Array.isArray(value) && value.length === 0) {
+        // Empty IN list never matches
+        clauses.push('0');
+        continue;
+      }
+
+      const expr = this.valueExpression(target, params);
+
+      if (value === null) {
+        clauses.push(`${expr} IS NULL`);
+      } else if (Array.isArray(value)) {
+        if (value.length > MAX_IN_LIST_SIZE) {
+          throw new FilterError(`metadata filter '${field}' has too many values (max ${MAX_IN_LIST_SIZE})`, { field, count: value.length });
+        }
+        const bound = value.map(item => this.toScalar(item, field));
+        clauses.push(`${expr} IN (${bound.map(() => '?').join(', ')})`);
+        params.push(...bound);
+      } else {
+        clauses.push(`${expr} = ?`);
+        params.push(this.toScalar(value, field));
+      }
+    }
+
+    return this.join(clauses, params);
+  }
+
+  /**
+   * Date range over a timestamp column (unix seconds) or a metadata field
+   *
+   * Metadata dates may be stored as ISO 8601 strings or as epoch milliseconds;
+   * bounds are compared in whichever representation the stored value uses.
+   */
+  private compileDateRange(range: NonNullable<SearchFilters['dateRange']>): CompiledFilter {
+    if (typeof range !== 'object' || range === null || typeof range.field !== 'string') {
+      throw new FilterError('dateRange filter requires a field name', { range });
+    }
+    if (range.start === undefined && range.end === undefined) {
+      throw new FilterError(`dateRange filter on '${range.field}' requires start and/or end`, { field: range.field });
+    }
+
+    const target = this.resolveField(range.field);
+    const clauses: string[] = [];
+    const params: SQLValue[] = [];
+
+    const bounds: Array<[Date | string | number | undefined, string]> = [
+      [range.start, '>='],
+      [range.end, '<=']
+    ];
+
+    for (const [bound, op] of bounds) {
+      if (bound === undefined) {
+        continue;
+      }
+
+      const date = this.toDate(bound, range.field);
+
+      if (target.kind === 'column') {
+        if (!TIMESTAMP_COLUMNS.has(target.column)) {
+          throw new FilterError(`dateRange is not supported on column '${target.column}'`, { field: range.field });
+        }
+        clauses.push(`${this.alias}.${target.column} ${op} ?`);
+        params.push(Math.floor(date.getTime() / 1000));
+      } else {
+        const value = `json_extract(${this.alias}.metadata, ?)`;
+        const type = `json_type(${this.alias}.metadata, ?)`;
+        clauses.push(
+          `(CASE WHEN ${type} IN ('integer', 'real') THEN ${value} ${op} ? ELSE ${value} ${op} ? END)`
+        );
+        params.push(target.path, target.path, date.getTime(), target.path, date.toISOString());
+      }
+    }
+
+    return this.join(clauses, params);
+  }
+
+  /**
+   * Numeric range; non-numeric values never match
+   */
+  private compileNumericRange(range: NonNullable<SearchFilters['numericRange']>): CompiledFilter {
+    if (typeof range !== 'object' || range === null || typeof range.field !== 'string') {
+      throw new FilterError('numericRange filter requires a field name', { range });
+    }
+    if (range.min === undefined && range.max === undefined) {
+      throw new FilterError(`numericRange filter on '${range.field}' requires min and/or max`, { field: range.field });
+    }
+
+    for (const bound of [range.min, range.max]) {
+      if (bound !== undefined && (typeof bound !== 'number' || !Number.isFinite(bound))) {
+        throw new FilterError(`numericRange bounds on '${range.field}' must be finite numbers`, { field: range.field, bound });
+      }
+    }
+
+    const target = this.resolveField(range.field);
+    const params: SQLValue[] = [];
+    const clauses: string[] = [];
+
+    if (target.kind === 'column') {
+      if (!TIMESTAMP_COLUMNS.has(target.column)) {
+        throw new FilterError(`numericRange is not supported on column '${target.column}'`, { field: range.field });
+      }
+      if (range.min !== undefined) {
+        clauses.push(`${this.alias}.${target.column} >= ?`);
+        params.push(range.min);
+      }
+      if (range.max !== undefined) {
+        clauses.push(`${this.alias}.${target.column} <= ?`);
+        params.push(range.max);
+      }
+      return this.join(clauses, params);
+    }
+
+    clauses.push(`json_type(${this.alias}.metadata, ?) IN ('integer', 'real')`);
+    params.push(target.path);
+
+    if (range.min !== undefined) {
+      clauses.push(`json_extract(${this.alias}.metadata, ?) >= ?`);
+      params.push(target.path, range.min);
+    }
+    if (range.max !== undefined) {
+      clauses.push(`json_extract(${this.alias}.metadata, ?) <= ?`);
+      params.push(target.path, range.max);
+    }
+
+    return this.join(clauses, params);
+  }
+
+  /**
+   * Text comparison; contains/starts_with/ends_with use escaped LIKE patterns
+   */
+  private compileTextFilter(filter: NonNullable<SearchFilters['textFilter']>): CompiledFilter {
+    if (typeof filter !== 'object' || filter === null || typeof filter.field !== 'string') {
+      throw new FilterError('textFilter requires a field name', { filter });
+    }
+    if (typeof filter.value !== 'string') {
+      throw new FilterError(`textFilter value for '${filter.field}' must be a string`, { field: filter.field });
+    }
+
+    const target = this.resolveField(filter.field);
+    const params: SQLValue[] = [];
+    const expr = this.valueExpression(target, params);
+    const escaped = escapeLikePattern(filter.value);
+
+    switch (filter.operator) {
+      case 'equals':
+        params.push(filter.value);
+        return { clause: `${expr} = ?`, params };
+      case 'contains':
+        params.push(`%${escaped}%`);
+        return { clause: `${expr} LIKE ? ESCAPE '\\'`, params };
+      case 'starts_with':
+        params.push(`${escaped}%`);
+        return { clause: `${expr} LIKE ? ESCAPE '\\'`, params };
+      case 'ends_with':
+        params.push(`%${escaped}`);
+        return { clause: `${expr} LIKE ? ESCAPE '\\'`, params };
+      case 'regex':
+        throw new FilterError(
+          `textFilter operator 'regex' is not supported: SQLite WASM build has no REGEXP function`,
+          { field: filter.field, operator: filter.operator }
+        );
+      default:
+        throw new FilterError(`Unknown textFilter operator '${(filter as any).operator}'`, { field: filter.field });
+    }
+  }
+
+  /**
+   * exists / missing checks; a JSON null counts as present
+   */
+  private compilePresence(fields: string[], present: boolean): CompiledFilter {
+    if (!Array.isArray(fields)) {
+      throw new FilterError(`${present ? 'exists' : 'missing'} filter must be an array of field names`, { fields });
+    }
+
+    const clauses: string[] = [];
+    const params: SQLValue[] = [];
+
+    for (const field of fields) {
+      const target = this.resolveField(field);
+      if (target.kind === 'column') {
+        clauses.push(`${this.alias}.${target.column} IS ${present ? 'NOT ' : ''}NULL`);
+      } else {
+        clauses.push(`json_type(${this.alias}.metadata, ?) IS ${present ? 'NOT ' : ''}NULL`);
+        params.push(target.path);
+      }
+    }
+
+    return this.join(clauses, params);
+  }
+
+  /**
+   * Resolve a user-supplied field name into a column or metadata JSON path
+   */
+  resolveField(field: string): FieldTarget {
+    if (typeof field !== 'string' || field.length === 0) {
+      throw new FilterError('Filter field name must be a non-empty string', { field });
+    }
+
+    if (DOCUMENT_COLUMNS.has(field)) {
+      return { kind: 'column', column: field };
+    }
+
+    const path = field.startsWith('metadata.') ? field.slice('metadata.'.length) : field;
+
+    if (!FIELD_PATH_PATTERN.test(path)) {
+      throw new FilterError(
+        `Invalid filter field path '${field}': use dot-separated identifiers with optional [index] segments`,
+        { field }
+      );
+    }
+
+    const jsonPath = '$.' + path.replace(/(^|\.)([^.[]+)/g, (_match, sep: string, key: string) =>
+      key.includes('-') ? `${sep}"${key}"` : `${sep}${key}`
+    );
+
+    return { kind: 'metadata', path: jsonPath };
+  }
+
+  private valueExpression(target: FieldTarget, params: SQLValue[]): string {
+    if (target.kind === 'column') {
+      return `${this.alias}.${target.column}`;
+    }
+    params.push(target.path);
+    return `json_extract(${this.alias}.metadata, ?)`;
+  }
+
+  /**
+   * Convert a filter value into a bindable scalar (booleans are stored as 1/0 by json_extract)
+   */
+  private toScalar(value: any, field: string): SQLValue {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new FilterError(`Filter value for '${field}' must be a finite number`, { field, value });
+      }
+      return value;
+    }
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    throw new FilterError(
+      `Unsupported filter value type for '${field}': ${value === null ? 'null' : typeof value}`,
+      { field }
+    );
+  }
+
+  private toDate(value: Date | string | number, field: string): Date {
+    const date = value instanceof Date ? value : new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new FilterError(`Invalid date value for '${field}'`, { field, value });
+    }
+    return date;
+  }
+
+  private join(clauses: string[], params: SQLValue[]): CompiledFilter {
+    if (clauses.length === 0) {
+      return { clause: '', params: [] };
+    }
+    return {
+      clause: clauses.length === 1 ? clauses[0] : `(${clauses.join(' AND ')})`,
+      params
+    };
+  }
+}
+
+/**
+ * Escape LIKE wildcards (%, _) and the escape character itself
+ */
+export function escapeLikePattern(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/%/g, '\\%')
+    .replace(/_/g, '\\_');
+}
+
+/**
+ * Render a compiled filter as an `AND ...` suffix for an existing WHERE clause
+ */
+export function andFilter(filter: CompiledFilter): string {
+  return filter.clause ? ` AND ${filter.clause}` : '';
+}
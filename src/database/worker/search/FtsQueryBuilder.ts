@@ -0,0 +1,278 @@
+/**
+ * FtsQueryBuilder
+ *
+ * Translates a user query into an FTS5 MATCH expression for a search strategy.
+ * Every term is emitted as a quoted FTS5 string, so user input can never be
+ * parsed as FTS5 syntax (column filters, NEAR, stray operators) and fail the
+ * whole query.
+ */
+
+import { SearchStrategy } from '../../../types/search.js';
+
+/**
+ * Token distance used for PROXIMITY queries
+ */
+export const PROXIMITY_DISTANCE = 10;
+
+/**
+ * Boolean operators, recognized in uppercase only so that ordinary words
+ * ("rock and roll", "и", "не") stay search terms
+ */
+const BOOLEAN_OPERATORS = new Set(['AND', 'OR', 'NOT'] as const);
+
+function isBooleanOperator(word: string): word is 'AND' | 'OR' | 'NOT' {
+  return BOOLEAN_OPERATORS.has(word as 'AND' | 'OR' | 'NOT');
+}
+
+/**
+ * Characters unicode61 treats as part of a token
+ */
+export const TERM_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * Quote a term or phrase as an FTS5 string
+ */
+export function quoteFtsTerm(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Split text into index terms the way unicode61 tokenizes it
+ */
+export function extractTerms(text: string): string[] {
+  return text.match(TERM_PATTERN) ?? [];
+}
+
+/**
+ * Build the FTS5 MATCH expression for `query` under `strategy`
+ *
+ * Returns null when the query has no indexable terms, i.e. full-text search
+ * cannot run for it.
+ *
+ * - EXACT_MATCH / PHRASE: quoted parts stay phrases; unquoted text becomes one phrase
+ * - BOOLEAN: AND/OR/NOT and parentheses become FTS5 boolean syntax
+ * - FUZZY: prefix queries; `*` and `?` truncate a term to its prefix
+ * - PROXIMITY: NEAR() over all terms
+ * - KEYWORD and anything else: any term may match (OR)
+ */
+export function buildFtsQuery(query: string, strategy: SearchStrategy): string | null {
+  switch (strategy) {
+    case SearchStrategy.EXACT_MATCH:
+    case SearchStrategy.PHRASE:
+      return buildPhraseQuery(query);
+    case SearchStrategy.BOOLEAN:
+      return buildBooleanQuery(query);
+    case SearchStrategy.FUZZY:
+      return buildPrefixQuery(query);
+    case SearchStrategy.PROXIMITY:
+      return buildProximityQuery(query);
+    default:
+      return joinTerms(extractTerms(query), ' OR ');
+  }
+}
+
+function joinTerms(terms: string[], separator: string): string | null {
+  return terms.length > 0 ? terms.map(quoteFtsTerm).join(separator) : null;
+}
+
+function buildPhraseQuery(query: string): string | null {
+  const parts: string[] = [];
+  const quoted = /"([^"]*)"/g;
+  let rest = query;
+
+  if (query.includes('"')) {
+    for (const match of query.matchAll(quoted)) {
+      const terms = extractTerms(match[1]);
+      if (terms.length > 0) {
+        parts.push(quoteFtsTerm(terms.join(' ')));
+      }
+    }
+    // Text outside quotes must still be present, but not as part of the phrase
+    rest = query.replace(quoted, ' ');
+    parts.push(...extractTerms(rest).map(quoteFtsTerm));
+  } else {
+    const terms = extractTerms(rest);
+    if (terms.length > 0) {
+      parts.push(quoteFtsTerm(terms.join(' ')));
+    }
+  }
+
+  return parts.length > 0 ? parts.join(' AND ') : null;
+}
+
+function buildPrefixQuery(query: string): string | null {
+  const prefixes = (query.match(/[\p{L}\p{N}_*?]+/gu) ?? [])
+    .map(token => token.split(/[*?]/)[0])
+    .filter(prefix => prefix.length > 0);
+  return prefixes.length > 0 ? prefixes.map(prefix => `${quoteFtsTerm(prefix)}*`).join(' OR ') : null;
+}
+
+function buildProximityQuery(query: string): string | null {
+  const terms = extractTerms(query);
+  if (terms.length < 2) {
+    return joinTerms(terms, ' OR ');
+  }
+  return `NEAR(${terms.map(quoteFtsTerm).join(' ')}, ${PROXIMITY_DISTANCE})`;
+}
+
+// =============================================================================
+// Boolean queries
+// =============================================================================
+
+type BooleanToken =
+  | { type: 'term'; value: string }
+  | { type: 'op'; value: 'AND' | 'OR' | 'NOT' }
+  | { type: 'open' }
+  | { type: 'close' };
+
+function tokenizeBoolean(query: string): BooleanToken[] {
+  const tokens: BooleanToken[] = [];
+  const pattern = /"([^"]*)"|(\()|(\))|([\p{L}\p{N}_]+)/gu;
+
+  for (const match of query.matchAll(pattern)) {
+    if (match[1] !== undefined) {
+      const terms = extractTerms(match[1]);
+      if (terms.length > 0) {
+        tokens.push({ type: 'term', value: terms.join(' ') });
+      }
+    } else if (match[2]) {
+      tokens.push({ type: 'open' });
+    } else if (match[3]) {
+      tokens.push({ type: 'close' });
+    } else {
+      const word = match[4];
+      tokens.push(isBooleanOperator(word) ? { type: 'op', value: word } : { type: 'term', value: word });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser producing an FTS5 expression
+ *
+ * FTS5 NOT is binary (`a NOT b`), so exclusions are collected per AND group
+ * and applied after its positive terms: `NOT b a` becomes `a NOT b`. An
+ * exclusion in a group with nothing to exclude from (`NOT b`, `a OR NOT b`)
+ * is dropped. Dangling operators and unbalanced parentheses are ignored
+ * rather than rejected, since this runs on free-form user input.
+ */
+class BooleanQueryParser {
+  private position = 0;
+  private depth = 0;
+
+  constructor(private tokens: BooleanToken[]) {}
+
+  parse(): string | null {
+    return this.parseOr();
+  }
+
+  private peek(): BooleanToken | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isOperator(value: 'AND' | 'OR' | 'NOT'): boolean {
+    const token = this.peek();
+    return token?.type === 'op' && token.value === value;
+  }
+
+  private parseOr(): string | null {
+    const operands: string[] = [];
+    const first = this.parseAnd();
+    if (first) operands.push(first);
+
+    while (this.isOperator('OR')) {
+      this.position++;
+      const next = this.parseAnd();
+      if (next) operands.push(next);
+    }
+
+    return combine(operands, 'OR');
+  }
+
+  private parseAnd(): string | null {
+    let expression: string | null = null;
+    const exclusions: string[] = [];
+
+    while (this.position < this.tokens.length) {
+      const token = this.peek()!;
+      if (token.type === 'close' && this.depth === 0) {
+        // Stray ')' with no group to close; keep parsing at this level
+        this.position++;
+        continue;
+      }
+      if (token.type === 'close' || (token.type === 'op' && token.value === 'OR')) {
+        break;
+      }
+
+      if (token.type === 'op' && token.value === 'AND') {
+        this.position++;
+        continue;
+      }
+
+      if (token.type === 'op' && token.value === 'NOT') {
+        this.position++;
+        const excluded = this.parsePrimary();
+        if (excluded) exclusions.push(excluded);
+        continue;
+      }
+
+      const operand = this.parsePrimary();
+      if (operand) {
+        expression = expression ? `${wrap(expression)} AND ${wrap(operand)}` : operand;
+      }
+    }
+
+    if (!expression) {
+      return null;
+    }
+    for (const excluded of exclusions) {
+      expression = `${wrap(expression)} NOT ${wrap(excluded)}`;
+    }
+    return expression;
+  }
+
+  private parsePrimary(): string | null {
+    const token = this.peek();
+    if (!token || token.type === 'close') {
+      // Leave ')' for the enclosing group
+      return null;
+    }
+
+    this.position++;
+    switch (token.type) {
+      case 'term':
+        return quoteFtsTerm(token.value);
+      case 'open': {
+        this.depth++;
+        const inner = this.parseOr();
+        this.depth--;
+        if (this.peek()?.type === 'close') {
+          this.position++;
+        }
+        return inner;
+      }
+      default:
+        // Operator where an operand was expected
+        return null;
+    }
+  }
+}
+
+/**
+ * Parenthesize anything but a single quoted term
+ */
+function wrap(expression: string): string {
+  return /^"(?:[^"]|"")*"$/.test(expression) ? expression : `(${expression})`;
+}
+
+function combine(operands: string[], operator: 'AND' | 'OR'): string | null {
+  if (operands.length === 0) {
+    return null;
+  }
+  return operands.length === 1 ? operands[0] : operands.map(wrap).join(` ${operator} `);
+}
+
+function buildBooleanQuery(query: string): string | null {
+  return new BooleanQueryParser(tokenizeBoolean(query)).parse();
+}
@@ -0,0 +1,367 @@
+/**
+ * FusionEngine
+ *
+ * Combines separately retrieved FTS, vector and LIKE candidate lists into one
+ * ranking. Every FusionMethod and ScoreNormalization declared in types/search
+ * is implemented here, so fusion no longer lives in SQL CASE expressions.
+ */
+
+import { FusionMethod, ScoreNormalization, FusionError } from '../../../types/search.js';
+import type { ScoreExplanation } from '../../../types/search.js';
+import type { SearchRequest } from '../../../types/worker.js';
+
+export type CandidateSource = 'fts' | 'vec' | 'like';
+
+/**
+ * A document retrieved by one source
+ *
+ * `score` must be oriented so that higher is better (e.g. -bm25, or
+ * 1/(1 + distance)); `raw` is the source's native value for reporting.
+ */
+export interface Candidate {
+  id: string;
+  rank: number;   // 1-based position within its source
+  score: number;
+  raw: number;
+}
+
+export interface CandidateList {
+  source: CandidateSource;
+  candidates: Candidate[];
+}
+
+/**
+ * Tunables accepted through `fusion.parameters`
+ */
+export interface FusionParameters {
+  /** RRF rank constant (default 60) */
+  k: number;
+  /** Normalized score assumed for a document missing from a list (default 0) */
+  missingScore: number;
+  /** Prior probability of relevance for BAYESIAN fusion (default 0.5) */
+  prior: number;
+  /** Input scale for SIGMOID normalization (default 1) */
+  sigmoidScale: number;
+  /** Floor for scores entering logarithms and divisions (default 1e-6) */
+  epsilon: number;
+}
+
+export interface FusionOptions {
+  method: FusionMethod;
+  normalization: ScoreNormalization;
+  weights?: Partial<Record<CandidateSource, number>>;
+  parameters?: Partial<FusionParameters>;
+}
+
+/**
+ * Per-source contribution to a fused score
+ */
+export interface FusionComponent {
+  rank: number;
+  raw: number;
+  normalized: number;
+  weight: number;
+}
+
+export interface FusedCandidate {
+  id: string;
+  score: number;
+  components: Partial<Record<CandidateSource, FusionComponent>>;
+}
+
+export const DEFAULT_FUSION_PARAMETERS: FusionParameters = {
+  k: 60,
+  missingScore: 0,
+  prior: 0.5,
+  sigmoidScale: 1,
+  epsilon: 1e-6
+};
+
+/**
+ * LIKE weight when a request gives none, as in the original SQL fusion:
+ * 0.2 next to a vector list (FTS + vector + LIKE), 0.3 for FTS + LIKE
+ */
+export function defaultLikeWeight(hasVector: boolean): number {
+  return hasVector ? 0.2 : 0.3;
+}
+
+/**
+ * Fusion configuration for a search request
+ *
+ * `request.fusion` selects any FusionMethod/ScoreNormalization. Without it the
+ * legacy `fusionMethod` values keep their original meaning: 'rrf' is
+ * unweighted RRF (k = 60), 'weighted_rrf' is a weighted sum of raw scores.
+ * `hasVector` tells whether a vector list takes part, which decides the
+ * default LIKE weight.
+ */
+export function resolveRequestFusion(
+  request: Pick<SearchRequest, 'fusion' | 'fusionMethod' | 'fusionWeights'>,
+  hasVector: boolean
+): FusionOptions {
+  const weights = request.fusionWeights ?? { fts: 0.6, vec: 0.4 };
+  const like = weights.like ?? defaultLikeWeight(hasVector);
+  const fusion: FusionOptions = request.fusion?.method
+    ? {
+        method: request.fusion.method,
+        normalization: request.fusion.normalization ?? ScoreNormalization.MIN_MAX,
+        weights: { fts: weights.fts, vec: weights.vec, like },
+        parameters: request.fusion.parameters
+      }
+    : request.fusionMethod === 'weighted_rrf'
+      ? {
+          method: FusionMethod.WEIGHTED,
+          normalization: ScoreNormalization.NONE,
+          weights: { fts: weights.fts, vec: weights.vec, like }
+        }
+      : { method: FusionMethod.RRF, normalization: ScoreNormalization.NONE };
+
+  validateFusionOptions(fusion);
+  return fusion;
+}
+
+/**
+ * Merge user parameters over the defaults and validate them
+ */
+export function resolveFusionParameters(parameters: Record<string, any> = {}): FusionParameters {
+  const resolved = { ...DEFAULT_FUSION_PARAMETERS, ...parameters };
+
+  if (!Number.isFinite(resolved.k) || resolved.k <= 0) {
+    throw new FusionError(`RRF k must be a positive number, got ${parameters.k}`, { parameter: 'k' });
+  }
+  if (!Number.isFinite(resolved.prior) || resolved.prior <= 0 || resolved.prior >= 1) {
+    throw new FusionError(`Bayesian prior must be between 0 and 1 (exclusive), got ${parameters.prior}`, { parameter: 'prior' });
+  }
+  if (!Number.isFinite(resolved.missingScore)) {
+    throw new FusionError(`missingScore must be a finite number`, { parameter: 'missingScore' });
+  }
+  if (!Number.isFinite(resolved.sigmoidScale) || resolved.sigmoidScale <= 0) {
+    throw new FusionError(`sigmoidScale must be a positive number`, { parameter: 'sigmoidScale' });
+  }
+  if (!Number.isFinite(resolved.epsilon) || resolved.epsilon <= 0) {
+    throw new FusionError(`epsilon must be a positive number`, { parameter: 'epsilon' });
+  }
+
+  return resolved;
+}
+
+/**
+ * Validate a fusion configuration before any retrieval runs
+ */
+export function validateFusionOptions(options: FusionOptions): void {
+  if (!Object.values(FusionMethod).includes(options.method)) {
+    throw new FusionError(`Unknown fusion method: ${options.method}`, { method: options.method });
+  }
+  if (!Object.values(ScoreNormalization).includes(options.normalization)) {
+    throw new FusionError(`Unknown score normalization: ${options.normalization}`, {
+      normalization: options.normalization
+    });
+  }
+  resolveFusionParameters(options.parameters);
+}
+
+/**
+ * Normalize one source's scores
+ *
+ * - MIN_MAX: [0, 1]; a list with a single distinct score maps to 1
+ * - Z_SCORE: mean 0, standard deviation 1; a constant list maps to 0
+ * - SIGMOID: 1 / (1 + e^(-scale * score))
+ * - RANK_BASED: 1 / rank, independent of score magnitudes
+ */
+export function normalizeScores(
+  candidates: Candidate[],
+  method: ScoreNormalization,
+  parameters: FusionParameters = DEFAULT_FUSION_PARAMETERS
+): number[] {
+  const scores = candidates.map(candidate => candidate.score);
+  if (scores.length === 0) {
+    return [];
+  }
+
+  switch (method) {
+    case ScoreNormalization.NONE:
+      return scores;
+    case ScoreNormalization.MIN_MAX: {
+      const min = Math.min(...scores);
+      const range = Math.max(...scores) - min;
+      return scores.map(score => (range > 0 ? (score - min) / range : 1));
+    }
+    case ScoreNormalization.Z_SCORE: {
+      const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+      const std = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length);
+      return scores.map(score => (std > 0 ? (score - mean) / std : 0));
+    }
+    case ScoreNormalization.SIGMOID:
+      return scores.map(score => sigmoid(score * parameters.sigmoidScale));
+    case ScoreNormalization.RANK_BASED:
+      return candidates.map(candidate => 1 / candidate.rank);
+    default:
+      throw new FusionError(`Unknown score normalization: ${method}`, { normalization: method });
+  }
+}
+
+/**
+ * Fuse candidate lists into one ranking, best first
+ *
+ * Score-based methods work on normalized scores, with `missingScore` standing
+ * in for lists a document does not appear in:
+ * - WEIGHTED: sum of w * s
+ * - LINEAR: sum of w * s divided by the sum of weights
+ * - HARMONIC / GEOMETRIC: weighted harmonic / geometric mean (scores floored at epsilon)
+ * - BAYESIAN: log-odds update of `prior` by each list's evidence; a missing
+ *   document contributes no evidence. Scores outside [0, 1] (NONE, Z_SCORE)
+ *   are mapped through a sigmoid first.
+ * RRF ignores scores: sum of w / (k + rank).
+ *
+ * Ties are broken by best rank in any list, then by id.
+ */
+export function fuseCandidateLists(lists: CandidateList[], options: FusionOptions): FusedCandidate[] {
+  const parameters = resolveFusionParameters(options.parameters);
+  const activeLists = lists.filter(list => list.candidates.length > 0);
+  const weightOf = (source: CandidateSource) => options.weights?.[source] ?? 1;
+
+  const fused = new Map<string, FusedCandidate>();
+  for (const list of activeLists) {
+    const normalized = normalizeScores(list.candidates, options.normalization, parameters);
+    list.candidates.forEach((candidate, index) => {
+      let entry = fused.get(candidate.id);
+      if (!entry) {
+        entry = { id: candidate.id, score: 0, components: {} };
+        fused.set(candidate.id, entry);
+      }
+      // Keep the best-ranked occurrence if a source returned a document twice
+      if (!entry.components[list.source]) {
+        entry.components[list.source] = {
+          rank: candidate.rank,
+          raw: candidate.raw,
+          normalized: normalized[index],
+          weight: weightOf(list.source)
+        };
+      }
+    });
+  }
+
+  const sources = activeLists.map(list => list.source);
+  for (const entry of fused.values()) {
+    entry.score = combine(entry, sources, weightOf, options, parameters);
+  }
+
+  const bestRank = (entry: FusedCandidate) =>
+    Math.min(...Object.values(entry.components).map(component => component!.rank));
+
+  return [...fused.values()].sort((a, b) =>
+    b.score - a.score || bestRank(a) - bestRank(b) || a.id.localeCompare(b.id)
+  );
+}
+
+function combine(
+  entry: FusedCandidate,
+  sources: CandidateSource[],
+  weightOf: (source: CandidateSource) => number,
+  options: FusionOptions,
+  parameters: FusionParameters
+): number {
+  const { epsilon } = parameters;
+  const weights = sources.map(weightOf);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const scores = sources.map(source => entry.components[source]?.normalized ?? parameters.missingScore);
+
+  switch (options.method) {
+    case FusionMethod.RRF:
+      return sources.reduce((sum, source, i) => {
+        const component = entry.components[source];
+        return component ? sum + weights[i] / (parameters.k + component.rank) : sum;
+      }, 0);
+
+    case FusionMethod.WEIGHTED:
+      return scores.reduce((sum, score, i) => sum + weights[i] * score, 0);
+
+    case FusionMethod.LINEAR:
+      return totalWeight > 0
+        ? scores.reduce((sum, score, i) => sum + weights[i] * score, 0) / totalWeight
+        : 0;
+
+    case FusionMethod.HARMONIC: {
+      const denominator = scores.reduce((sum, score, i) => sum + weights[i] / Math.max(score, epsilon), 0);
+      return denominator > 0 ? totalWeight / denominator : 0;
+    }
+
+    case FusionMethod.GEOMETRIC: {
+      if (totalWeight <= 0) {
+        return 0;
+      }
+      const logSum = scores.reduce((sum, score, i) => sum + weights[i] * Math.log(Math.max(score, epsilon)), 0);
+      return Math.exp(logSum / totalWeight);
+    }
+
+    case FusionMethod.BAYESIAN: {
+      const toProbability = options.normalization === ScoreNormalization.NONE ||
+        options.normalization === ScoreNormalization.Z_SCORE
+        ? sigmoid
+        : (score: number) => score;
+      const priorLogit = logit(parameters.prior, epsilon);
+      const posterior = sources.reduce((sum, source, i) => {
+        const component = entry.components[source];
+        return component
+          ? sum + weights[i] * (logit(toProbability(component.normalized), epsilon) - priorLogit)
+          : sum;
+      }, priorLogit);
+      return sigmoid(posterior);
+    }
+
+    default:
+      throw new FusionError(`Unknown fusion method: ${options.method}`, { method: options.method });
+  }
+}
+
+/**
+ * Rank a single source by its own score; there is nothing to fuse
+ */
+export function rankSingleList(list: CandidateList): FusedCandidate[] {
+  return list.candidates.map(candidate => ({
+    id: candidate.id,
+    score: candidate.score,
+    components: {
+      [list.source]: { rank: candidate.rank, raw: candidate.raw, normalized: candidate.score, weight: 1 }
+    }
+  }));
+}
+
+/**
+ * Describe how a score was computed; without `options` the score is the
+ * single source's native score (see rankSingleList)
+ */
+export function explainFusion(candidate: FusedCandidate, options?: FusionOptions): ScoreExplanation {
+  const entries = Object.entries(candidate.components) as Array<[CandidateSource, FusionComponent]>;
+
+  if (!options) {
+    const [source, component] = entries[0];
+    return {
+      totalScore: candidate.score,
+      components: [{ name: source, score: component.normalized, weight: 1, details: `rank ${component.rank}, raw ${component.raw}` }],
+      formula: `${source} score`
+    };
+  }
+
+  const parameters = resolveFusionParameters(options.parameters);
+  return {
+    totalScore: candidate.score,
+    components: entries.map(([source, component]) => ({
+      name: source,
+      score: options.method === FusionMethod.RRF ? 1 / (parameters.k + component.rank) : component.normalized,
+      weight: component.weight,
+      details: `rank ${component.rank}, raw ${component.raw}, ${options.normalization} ${component.normalized}`
+    })),
+    formula: options.method === FusionMethod.RRF
+      ? `${options.method}(k=${parameters.k})`
+      : `${options.method}(${options.normalization})`
+  };
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+function logit(probability: number, epsilon: number): number {
+  const p = Math.min(Math.max(probability, epsilon), 1 - epsilon);
+  return Math.log(p / (1 - p));
+}
@@ -0,0 +1,131 @@
+/**
+ * GlobalSearchMerger
+ *
+ * Merges per-collection search results into one ranked list for searchGlobal.
+ * Raw scores from different collections are not comparable (RRF scores depend
+ * on candidate counts, BM25 on corpus statistics), so each collection's scores
+ * are min-max normalized before cross-collection boosts are applied.
+ */
+
+import type { SearchResult } from '../../../types/worker.js';
+import { DiversificationError, type DiversificationOptions, type GlobalSearchOptions } from '../../../types/search.js';
+
+export type MergeStrategy = NonNullable<GlobalSearchOptions['mergeStrategy']>;
+
+/**
+ * Results of a single collection, in that collection's rank order
+ */
+export interface CollectionResultSet {
+  collection: string;
+  results: SearchResult[];
+}
+
+/**
+ * Scale scores of one collection into [0, 1]
+ *
+ * A collection whose results all share one score maps them to 1, so a single
+ * hit is not ranked below hits from collections with a wider score spread.
+ */
+export function normalizeCollectionScores(results: SearchResult[]): SearchResult[] {
+  if (results.length === 0) {
+    return [];
+  }
+
+  const scores = results.map(result => result.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+
+  return results.map(result => ({
+    ...result,
+    normalizedScore: range > 0 ? (result.score - min) / range : 1
+  }));
+}
+
+/**
+ * Per-collection result cap from the diversification options
+ *
+ * Only the round_robin algorithm with `maxPerCollection` is implemented;
+ * anything else is rejected rather than silently ignored.
+ */
+export function resolveMaxPerCollection(diversification?: DiversificationOptions): number | undefined {
+  if (!diversification?.enabled) {
+    return undefined;
+  }
+
+  const { algorithm = 'round_robin', diversityField, maxPerCollection } = diversification;
+  if (algorithm !== 'round_robin') {
+    throw new DiversificationError(`Diversification algorithm '${algorithm}' is not supported`, { algorithm });
+  }
+  if (diversityField !== undefined) {
+    throw new DiversificationError('Diversification by diversityField is not supported', { diversityField });
+  }
+  if (maxPerCollection === undefined || !Number.isInteger(maxPerCollection) || maxPerCollection < 1) {
+    throw new DiversificationError(
+      `Diversification requires maxPerCollection to be a positive integer, got ${maxPerCollection}`,
+      { maxPerCollection }
+    );
+  }
+  return maxPerCollection;
+}
+
+/**
+ * Normalize, boost and merge per-collection results
+ *
+ * - `unified_ranking`: one list ordered by boosted normalized score
+ * - `interleave`: round-robin over collections, strongest collection first
+ * - `group_by_collection`: whole collections in order of their best hit
+ *
+ * Every merged result carries its `collection`, and `score` is replaced by the
+ * boosted normalized score so the merged list is consistently ordered.
+ * `maxPerCollection` keeps only each collection's best results.
+ */
+export function mergeCollectionResults(
+  sets: CollectionResultSet[],
+  strategy: MergeStrategy = 'unified_ranking',
+  boosts: Record<string, number> = {},
+  limit?: number,
+  maxPerCollection?: number
+): SearchResult[] {
+  const ranked = sets
+    .map(set => {
+      const boost = boosts[set.collection] ?? 1;
+      const results = normalizeCollectionScores(set.results)
+        .map(result => ({
+          ...result,
+          collection: set.collection,
+          score: (result.normalizedScore ?? 0) * boost
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxPerCollection);
+      return { collection: set.collection, results, best: results[0]?.score ?? 0 };
+    })
+    .filter(set => set.results.length > 0)
+    // Stable tie-break on name keeps output deterministic across runs
+    .sort((a, b) => b.best - a.best || a.collection.localeCompare(b.collection));
+
+  let merged: SearchResult[];
+  switch (strategy) {
+    case 'unified_ranking':
+      merged = ranked.flatMap(set => set.results).sort((a, b) => b.score - a.score);
+      break;
+    case 'interleave': {
+      merged = [];
+      const longest = Math.max(0, ...ranked.map(set => set.results.length));
+      for (let i = 0; i < longest; i++) {
+        for (const set of ranked) {
+          if (i < set.results.length) {
+            merged.push(set.results[i]);
+          }
+        }
+      }
+      break;
+    }
+    case 'group_by_collection':
+      merged = ranked.flatMap(set => set.results);
+      break;
+    default:
+      throw new Error(`Unknown merge strategy: ${strategy}`);
+  }
+
+  return limit === undefined ? merged : merged.slice(0, limit);
+}
@@ -0,0 +1,128 @@
+/**
+ * SearchCursor
+ *
+ * Opaque pagination cursors for hybrid search. A cursor records which query
+ * it belongs to (a fingerprint of everything that affects ranking), the last
+ * document served and how many documents were served before it, so the next
+ * page continues exactly where the previous one ended.
+ */
+
+import { PaginationError } from '../../../types/search.js';
+import type { SearchRequest } from '../../../types/worker.js';
+import type { FusedCandidate } from './FusionEngine.js';
+
+const CURSOR_VERSION = 1;
+
+/**
+ * Candidate pools grow in blocks of this size, so consecutive pages are
+ * usually fused from identical candidate sets and rank documents identically
+ */
+export const PAGE_POOL_BLOCK = 50;
+
+/**
+ * Pool multiplier for `deep` pagination: fused ranks far down the list
+ * depend on documents that sit even further down the individual sources
+ */
+export const DEEP_POOL_FACTOR = 4;
+
+export interface SearchCursorState {
+  fingerprint: string;
+  lastScore: number;
+  lastId: string;
+  position: number;  // Documents served up to and including lastId
+}
+
+/**
+ * Fingerprint of the parts of a request that decide the ranking
+ *
+ * limit, offset and cursor are excluded: they select a page, not an order.
+ */
+export function fingerprintSearch(params: SearchRequest): string {
+  const { query } = params;
+  return fnv1a(JSON.stringify([
+    params.collection ?? 'default',
+    query.text ?? null,
+    query.vector ? Array.from(query.vector) : null,
+    query.filters ?? null,
+    params.filters ?? null,
+    params.ftsQuery ?? null,
+    params.fusionMethod ?? null,
+    params.fusionWeights ?? null,
+    params.fusion ?? null,
+    !!params.enableLikeSearch,
+    !!params.deep,
+    !!params.collapseChunks
+  ]));
+}
+
+export function encodeCursor(state: SearchCursorState): string {
+  const payload = JSON.stringify([CURSOR_VERSION, state.fingerprint, state.lastScore, state.lastId, state.position]);
+  return btoa(payload).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor and check that it was issued for this request
+ */
+export function decodeCursor(cursor: string, fingerprint: string): SearchCursorState {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    throw new PaginationError('Malformed search cursor', { cursor });
+  }
+
+  if (
+    !Array.isArray(decoded) || decoded.length !== 5 || decoded[0] !== CURSOR_VERSION ||
+    typeof decoded[1] !== 'string' || typeof decoded[2] !== 'number' ||
+    typeof decoded[3] !== 'string' || !Number.isInteger(decoded[4]) || decoded[4] < 0
+  ) {
+    throw new PaginationError('Malformed search cursor', { cursor });
+  }
+
+  const [, cursorFingerprint, lastScore, lastId, position] = decoded;
+  if (cursorFingerprint !== fingerprint) {
+    throw new PaginationError('Search cursor belongs to a different query', { cursor });
+  }
+
+  return { fingerprint, lastScore, lastId, position };
+}
+
+/**
+ * Number of candidates to retrieve from each source for a page
+ *
+ * Covers everything up to the end of the page plus one document to tell
+ * whether another page exists, rounded up to a PAGE_POOL_BLOCK boundary.
+ */
+export function candidatePoolSize(position: number, limit: number, deep: boolean, max: number): number {
+  const needed = (position + limit + 1) * (deep ? DEEP_POOL_FACTOR : 1);
+  return Math.min(Math.ceil(needed / PAGE_POOL_BLOCK) * PAGE_POOL_BLOCK, max);
+}
+
+/**
+ * Index in `ranked` of the first document after the cursor
+ *
+ * Normally the document right after `lastId`. If that document is no longer
+ * ranked (deleted, or the pool grew and reshuffled the tail), continue after
+ * the last document that ranks at or above `lastScore`, so nothing ranked
+ * above the cursor is served twice.
+ */
+export function resumeIndex(ranked: FusedCandidate[], cursor: SearchCursorState): number {
+  const index = ranked.findIndex(entry => entry.id === cursor.lastId);
+  if (index !== -1) {
+    return index + 1;
+  }
+  const next = ranked.findIndex(entry => entry.score < cursor.lastScore);
+  return next === -1 ? ranked.length : next;
+}
+
+/**
+ * 32-bit FNV-1a hash as 8 hex digits
+ */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
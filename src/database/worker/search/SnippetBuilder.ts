@@ -0,0 +1,131 @@
+/**
+ * SnippetBuilder
+ *
+ * Snippets and highlighting for results that FTS5 cannot mark up itself,
+ * i.e. documents found only by vector or LIKE search. Text is tokenized the
+ * way unicode61 does it (case-folded, diacritics removed), so terms match the
+ * same words FTS5 snippet()/highlight() would mark, Cyrillic included.
+ */
+
+import { TERM_PATTERN, extractTerms } from './FtsQueryBuilder.js';
+
+export const DEFAULT_HIGHLIGHT_TAGS = { pre: '<mark>', post: '</mark>' };
+export const DEFAULT_CONTEXT_WINDOW = 5;
+export const SNIPPET_ELLIPSIS = '...';
+
+/**
+ * fts_default columns that can be highlighted
+ */
+export const HIGHLIGHT_COLUMNS = { title: 0, content: 1 } as const;
+export type HighlightField = keyof typeof HIGHLIGHT_COLUMNS;
+
+/**
+ * snippet() accepts at most 64 tokens
+ */
+export const MAX_SNIPPET_TOKENS = 64;
+
+interface TokenSpan {
+  start: number;
+  end: number;
+  term: string;  // Folded form used for matching
+}
+
+/**
+ * Fold a term the way unicode61 does: lowercase, and without diacritics on
+ * Latin letters only (Cyrillic й and ё stay distinct from и and е)
+ */
+export function foldTerm(term: string): string {
+  return term
+    .normalize('NFD')
+    .replace(/(\p{Script=Latin})\p{M}+/gu, '$1')
+    .normalize('NFC')
+    .toLowerCase();
+}
+
+/**
+ * Folded, de-duplicated terms of a query
+ */
+export function queryTerms(query: string): Set<string> {
+  return new Set(extractTerms(query).map(foldTerm));
+}
+
+function tokenize(text: string): TokenSpan[] {
+  return [...text.matchAll(TERM_PATTERN)].map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    term: foldTerm(match[0])
+  }));
+}
+
+/**
+ * Wrap every token of `text` that matches a query term in `tags`
+ */
+export function highlightText(
+  text: string,
+  terms: Set<string>,
+  tags: { pre: string; post: string } = DEFAULT_HIGHLIGHT_TAGS
+): string {
+  return markTokens(text, tokenize(text), terms, tags, 0, text.length);
+}
+
+/**
+ * Best-matching window of `text`, with matches wrapped in `tags`
+ *
+ * The window spans `2 * contextWindow + 1` tokens and is chosen to contain
+ * the most distinct query terms, then the most matches, then the earliest
+ * position. Without any match it is the start of the text.
+ */
+export function buildSnippet(
+  text: string,
+  terms: Set<string>,
+  options: { contextWindow?: number; tags?: { pre: string; post: string } } = {}
+): string {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) {
+    return '';
+  }
+
+  const size = 2 * (options.contextWindow ?? DEFAULT_CONTEXT_WINDOW) + 1;
+  let bestStart = 0;
+  let bestDistinct = -1;
+  let bestMatches = -1;
+
+  for (let start = 0; start <= Math.max(0, tokens.length - size); start++) {
+    const window = tokens.slice(start, start + size).filter(token => terms.has(token.term));
+    const distinct = new Set(window.map(token => token.term)).size;
+    if (distinct > bestDistinct || (distinct === bestDistinct && window.length > bestMatches)) {
+      bestStart = start;
+      bestDistinct = distinct;
+      bestMatches = window.length;
+    }
+  }
+
+  const window = tokens.slice(bestStart, bestStart + size);
+  const from = window[0].start;
+  const to = window[window.length - 1].end;
+
+  return (from > 0 ? SNIPPET_ELLIPSIS : '') +
+    markTokens(text, window, terms, options.tags ?? DEFAULT_HIGHLIGHT_TAGS, from, to) +
+    (to < text.length ? SNIPPET_ELLIPSIS : '');
+}
+
+function markTokens(
+  text: string,
+  tokens: TokenSpan[],
+  terms: Set<string>,
+  tags: { pre: string; post: string },
+  from: number,
+  to: number
+): string {
+  let marked = '';
+  let position = from;
+
+  for (const token of tokens) {
+    if (terms.has(token.term)) {
+      marked += text.slice(position, token.start) + tags.pre + text.slice(token.start, token.end) + tags.post;
+      position = token.end;
+    }
+  }
+
+  return marked + text.slice(position, to);
+}
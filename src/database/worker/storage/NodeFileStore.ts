@@ -0,0 +1,100 @@
+/**
+ * NodeFileStore
+ *
+ * SnapshotFileStore on the local file system, for running the worker
+ * code under Node (tests, tooling). Relative paths resolve against `rootDir`.
+ */
+
+import type { SnapshotFileStore } from './SnapshotFileStore.js';
+
+type NodeFS = typeof import('node:fs/promises');
+type NodePath = typeof import('node:path');
+
+// Kept out of static imports so browser bundles never try to resolve them
+const FS_MODULE = 'node:fs/promises';
+const PATH_MODULE = 'node:path';
+
+export class NodeFileStore implements SnapshotFileStore {
+  private modules: Promise<{ fs: NodeFS; path: NodePath }> | null = null;
+
+  constructor(private rootDir?: string) {}
+
+  /**
+   * Whether the code runs under Node rather than in a browser
+   */
+  static isNodeEnvironment(): boolean {
+    return typeof process !== 'undefined' &&
+           typeof process.versions?.node === 'string' &&
+           typeof (globalThis as { window?: unknown }).window === 'undefined';
+  }
+
+  isSupported(): boolean {
+    return NodeFileStore.isNodeEnvironment();
+  }
+
+  async read(path: string): Promise<Uint8Array | null> {
+    const { fs } = await this.load();
+    try {
+      return new Uint8Array(await fs.readFile(await this.resolve(path)));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(path: string, data: Uint8Array): Promise<void> {
+    const { fs, path: nodePath } = await this.load();
+    const target = await this.resolve(path);
+    await fs.mkdir(nodePath.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    const { fs } = await this.load();
+    await fs.rename(await this.resolve(from), await this.resolve(to));
+  }
+
+  async remove(path: string): Promise<boolean> {
+    const { fs } = await this.load();
+    try {
+      await fs.unlink(await this.resolve(path));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const { fs } = await this.load();
+    try {
+      await fs.access(await this.resolve(path));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async resolve(path: string): Promise<string> {
+    const { path: nodePath } = await this.load();
+    return nodePath.resolve(this.rootDir ?? process.cwd(), path);
+  }
+
+  private load(): Promise<{ fs: NodeFS; path: NodePath }> {
+    if (!this.modules) {
+      this.modules = Promise.all([
+        import(/* @vite-ignore */ FS_MODULE) as Promise<NodeFS>,
+        import(/* @vite-ignore */ PATH_MODULE) as Promise<NodePath>
+      ]).then(([fs, path]) => ({ fs, path }));
+    }
+    return this.modules;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'ENOENT';
+}
@@ -0,0 +1,110 @@
+/**
+ * OPFSFileStore
+ *
+ * SnapshotFileStore on the Origin Private File System, using the async
+ * file handle API (available on the main thread and in workers).
+ */
+
+import type { SnapshotFileStore } from './SnapshotFileStore.js';
+
+export class OPFSFileStore implements SnapshotFileStore {
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' &&
+           typeof navigator.storage !== 'undefined' &&
+           typeof navigator.storage.getDirectory === 'function';
+  }
+
+  async read(path: string): Promise<Uint8Array | null> {
+    try {
+      const { directory, fileName } = await this.resolvePath(path, false);
+      const file = await (await directory.getFileHandle(fileName, { create: false })).getFile();
+      return new Uint8Array(await file.arrayBuffer());
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(path: string, data: Uint8Array): Promise<void> {
+    const { directory, fileName } = await this.resolvePath(path, true);
+    await writeToHandle(await directory.getFileHandle(fileName, { create: true }), data);
+  }
+
+  /**
+   * Rename a file within its directory
+   *
+   * Uses FileSystemHandle.move() where available; otherwise the file is
+   * copied (createWritable commits atomically on close) and the source removed.
+   */
+  async rename(from: string, to: string): Promise<void> {
+    const { directory, fileName } = await this.resolvePath(from, false);
+    const target = to.split('/').filter(part => part.length > 0).pop()!;
+    const handle = await directory.getFileHandle(fileName) as FileSystemFileHandle & {
+      move?: (newName: string) => Promise<void>;
+    };
+
+    if (typeof handle.move === 'function') {
+      await handle.move(target);
+      return;
+    }
+
+    const data = new Uint8Array(await (await handle.getFile()).arrayBuffer());
+    await writeToHandle(await directory.getFileHandle(target, { create: true }), data);
+    await directory.removeEntry(fileName);
+  }
+
+  async remove(path: string): Promise<boolean> {
+    try {
+      const { directory, fileName } = await this.resolvePath(path, false);
+      await directory.removeEntry(fileName);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async exists(path: string): Promise<boolean> {
+    try {
+      const { directory, fileName } = await this.resolvePath(path, false);
+      await directory.getFileHandle(fileName, { create: false });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve the parent directory and file name of an OPFS path
+   */
+  private async resolvePath(
+    path: string,
+    create: boolean
+  ): Promise<{ directory: FileSystemDirectoryHandle; fileName: string }> {
+    const opfsRoot = await navigator.storage.getDirectory();
+    const pathParts = path.split('/').filter(part => part.length > 0);
+
+    let directory = opfsRoot;
+    for (let i = 0; i < pathParts.length - 1; i++) {
+      directory = await directory.getDirectoryHandle(pathParts[i], { create });
+    }
+
+    return { directory, fileName: pathParts[pathParts.length - 1] };
+  }
+}
+
+async function writeToHandle(fileHandle: FileSystemFileHandle, data: Uint8Array): Promise<void> {
+  const writable = await fileHandle.createWritable();
+
+  // Convert Uint8Array to ArrayBuffer for OPFS write
+  const buffer = new ArrayBuffer(data.length);
+  const view = new Uint8Array(buffer);
+  view.set(data);
+  await writable.write(buffer);
+  await writable.close();
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && error.name === 'NotFoundError';
+}
@@ -0,0 +1,191 @@
+/**
+ * OPFSSAHPoolBackend
+ *
+ * The database file lives in OPFS and SQLite works on it directly through
+ * the opfs-sahpool VFS: no in-memory copy, no snapshots, every committed
+ * transaction is durable. Files are kept in a SyncAccessHandlePool in the
+ * directory `<path>.sahpool` next to where the snapshot file would be.
+ */
+
+import type { SQLiteManager } from '../core/SQLiteManager.js';
+import type { SQLite3Module } from '../core/SQLite3Module.js';
+import { SQLITE_OPEN_MAIN_DB } from '../core/SQLite3Module.js';
+import { findLatestSnapshot } from '../core/OPFSManager.js';
+import { DatabaseError, OPFSError } from '../../../types/worker.js';
+import type { StorageBackend, StorageOpenTarget } from './StorageBackend.js';
+import { SyncAccessHandlePool } from './SyncAccessHandlePool.js';
+import { OPFSSAHPoolVfs, OPFS_SAHPOOL_VFS_NAME } from './OPFSSAHPoolVfs.js';
+import { OPFSFileStore } from './OPFSFileStore.js';
+
+const POOL_DIRECTORY_SUFFIX = '.sahpool';
+const JOURNAL_SUFFIX = '-journal';
+
+// A VFS is registered once per WASM module and then re-pointed at each pool
+const vfsByModule = new WeakMap<SQLite3Module, OPFSSAHPoolVfs>();
+
+export class OPFSSAHPoolBackend implements StorageBackend {
+  readonly type = 'opfs-sahpool' as const;
+  readonly inPlace = true;
+
+  private pool: SyncAccessHandlePool | null = null;
+  private vfs: OPFSSAHPoolVfs | null = null;
+  private opfsPath: string | null = null;
+  private dbName: string | null = null;
+  private files = new OPFSFileStore();
+
+  constructor(
+    private sqliteManager: SQLiteManager,
+    private logger?: { log: (level: string, message: string) => void },
+    private poolCapacity?: number
+  ) {}
+
+  async open(filename: string): Promise<StorageOpenTarget> {
+    const sqlite3 = this.sqliteManager.getSQLite3Module();
+    if (!sqlite3 || !OPFSSAHPoolVfs.isSupported(sqlite3)) {
+      throw new DatabaseError('SQLite WASM build does not support the opfs-sahpool VFS');
+    }
+
+    const opfsPath = filename.replace(/^opfs:\/\/?/, '');
+    const pool = new SyncAccessHandlePool(opfsPath + POOL_DIRECTORY_SUFFIX, this.poolCapacity, this.logger);
+    await pool.open();
+
+    let vfs = vfsByModule.get(sqlite3);
+    if (!vfs) {
+      vfs = new OPFSSAHPoolVfs(sqlite3, this.logger);
+      vfsByModule.set(sqlite3, vfs);
+    }
+
+    try {
+      vfs.attach(pool);
+    } catch (error) {
+      pool.close();
+      throw error;
+    }
+
+    this.pool = pool;
+    this.vfs = vfs;
+    this.opfsPath = opfsPath;
+    this.dbName = '/' + opfsPath.split('/').filter(part => part.length > 0).pop();
+
+    if (!pool.has(this.dbName)) {
+      try {
+        await this.importSnapshot(opfsPath);
+      } catch (error) {
+        await this.close();
+        throw error;
+      }
+    }
+
+    return { filename: this.dbName, vfs: OPFS_SAHPOOL_VFS_NAME };
+  }
+
+  takeRestoreData(): Uint8Array | null {
+    return null;
+  }
+
+  async markClean(): Promise<void> {
+    // Every commit is already in OPFS
+  }
+
+  markDirty(): void {
+    // Every commit is already in OPFS
+  }
+
+  startAutoSync(): void {
+    // Nothing to sync
+  }
+
+  async flush(): Promise<void> {
+    this.pool?.flush();
+  }
+
+  async close(): Promise<void> {
+    this.vfs?.detach();
+    this.pool?.close();
+    this.pool = null;
+    this.vfs = null;
+    this.opfsPath = null;
+    this.dbName = null;
+  }
+
+  /**
+   * Delete the database file and its journal; the connection must be closed
+   */
+  async clear(): Promise<void> {
+    const { pool, dbName } = this.requireOpen();
+    pool.release(dbName);
+    pool.release(dbName + JOURNAL_SUFFIX);
+  }
+
+  /**
+   * Overwrite the database file; the connection must be closed
+   */
+  async replaceDatabase(data: Uint8Array): Promise<void> {
+    const { pool, dbName } = this.requireOpen();
+    // A leftover journal would roll the new content back on open
+    pool.release(dbName + JOURNAL_SUFFIX);
+    pool.writeFile(dbName, data, SQLITE_OPEN_MAIN_DB);
+  }
+
+  async backupDatabase(label: string): Promise<string | null> {
+    if (!this.opfsPath || !this.sqliteManager.isConnected()) {
+      return null;
+    }
+
+    const backupPath = `${this.opfsPath}.${label}-${Date.now()}.bak`;
+    try {
+      const data = await this.sqliteManager.serialize();
+      await this.files.write(backupPath, data);
+      this.log('info', `Backed up ${data.length} bytes to OPFS: ${backupPath}`);
+      return backupPath;
+    } catch (error) {
+      throw new OPFSError(`Failed to back up database to ${backupPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Move a database persisted by the memory backend into the pool
+   *
+   * Picks the snapshot the memory backend would restore (main, temp or
+   * previous file). If snapshot files exist but none can be imported the
+   * open fails: continuing with an empty pool would hide the user's data.
+   */
+  private async importSnapshot(opfsPath: string): Promise<void> {
+    const { pool, dbName } = this.requireOpen();
+    const { best, failures } = await findLatestSnapshot(this.files, opfsPath);
+    if (!best) {
+      if (failures.length > 0) {
+        throw new OPFSError(`Could not import OPFS snapshot ${opfsPath}: no valid snapshot (${failures.join('; ')})`);
+      }
+      return;
+    }
+
+    for (const failure of failures) {
+      this.log('warn', `Ignoring invalid OPFS snapshot ${failure}`);
+    }
+    if (best.name !== opfsPath) {
+      this.log('warn', `Importing ${best.name}, the main snapshot file is missing, older or invalid`);
+    }
+
+    const { data } = best.snapshot;
+    try {
+      pool.writeFile(dbName, data, SQLITE_OPEN_MAIN_DB);
+    } catch (error) {
+      // A partial file would be taken for the database on the next open
+      pool.release(dbName);
+      throw new OPFSError(`Could not import OPFS snapshot ${best.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.log('info', `Imported ${data.length} bytes from OPFS snapshot ${best.name}; the snapshot file is no longer updated`);
+  }
+
+  private requireOpen(): { pool: SyncAccessHandlePool; dbName: string } {
+    if (!this.pool || !this.dbName) {
+      throw new OPFSError('OPFS storage is not open');
+    }
+    return { pool: this.pool, dbName: this.dbName };
+  }
+
+  private log(level: string, message: string): void {
+    this.logger?.log(level, message);
+  }
+}
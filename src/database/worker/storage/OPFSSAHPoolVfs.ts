@@ -0,0 +1,332 @@
+/**
+ * OPFSSAHPoolVfs
+ *
+ * A SQLite VFS implemented in JavaScript on top of a SyncAccessHandlePool:
+ * SQLite reads and writes database pages straight from OPFS instead of an
+ * in-memory copy. The sqlite3_vfs and sqlite3_io_methods structs are built
+ * in the WASM heap and their callbacks installed with addFunction().
+ *
+ * Locking is a no-op: sync access handles are exclusive, so only one
+ * connection (this worker) can have the pool open.
+ */
+
+import type { SQLite3Module } from '../core/SQLite3Module.js';
+import {
+  SQLITE_OK,
+  SQLITE_IOERR,
+  SQLITE_NOTFOUND,
+  SQLITE_CANTOPEN,
+  SQLITE_IOERR_SHORT_READ,
+  SQLITE_OPEN_CREATE,
+  SQLITE_OPEN_DELETEONCLOSE
+} from '../core/SQLite3Module.js';
+import { DatabaseError } from '../../../types/worker.js';
+import { MAX_PATH_LENGTH, type SyncAccessHandlePool } from './SyncAccessHandlePool.js';
+
+export const OPFS_SAHPOOL_VFS_NAME = 'opfs-sahpool';
+
+// struct sqlite3_vfs (iVersion 2) on wasm32
+const VFS_SIZE = 76;
+const VFS = {
+  iVersion: 0, szOsFile: 4, mxPathname: 8, pNext: 12, zName: 16, pAppData: 20,
+  xOpen: 24, xDelete: 28, xAccess: 32, xFullPathname: 36,
+  xDlOpen: 40, xDlError: 44, xDlSym: 48, xDlClose: 52,
+  xRandomness: 56, xSleep: 60, xCurrentTime: 64, xGetLastError: 68, xCurrentTimeInt64: 72
+};
+
+// struct sqlite3_io_methods (iVersion 1)
+const IO_METHODS_SIZE = 52;
+const IO = {
+  iVersion: 0, xClose: 4, xRead: 8, xWrite: 12, xTruncate: 16, xSync: 20, xFileSize: 24,
+  xLock: 28, xUnlock: 32, xCheckReservedLock: 36, xFileControl: 40, xSectorSize: 44,
+  xDeviceCharacteristics: 48
+};
+
+// Our sqlite3_file: the io_methods pointer followed by a file id
+const FILE_SIZE = 8;
+const FILE_ID_OFFSET = 4;
+
+const SECTOR_SIZE = 4096;
+
+// Functions taken over from the default VFS
+const INHERITED = ['xDlOpen', 'xDlError', 'xDlSym', 'xDlClose', 'xRandomness', 'xSleep',
+  'xCurrentTime', 'xGetLastError', 'xCurrentTimeInt64'] as const;
+
+interface OpenFile {
+  path: string;
+  flags: number;
+}
+
+export class OPFSSAHPoolVfs {
+  private pool: SyncAccessHandlePool | null = null;
+  private files = new Map<number, OpenFile>();
+  private nextFileId = 1;
+  private registered = false;
+
+  constructor(
+    private sqlite3: SQLite3Module,
+    private logger?: { log: (level: string, message: string) => void }
+  ) {}
+
+  /**
+   * Whether the WASM build exports what a JavaScript VFS needs
+   */
+  static isSupported(sqlite3: SQLite3Module | null): boolean {
+    return !!sqlite3 &&
+           typeof sqlite3.addFunction === 'function' &&
+           typeof sqlite3._sqlite3_vfs_register === 'function' &&
+           typeof sqlite3._sqlite3_vfs_find === 'function' &&
+           typeof sqlite3._sqlite3_open_v2 === 'function';
+  }
+
+  /**
+   * Point the VFS at a pool; registers it with SQLite on first use
+   */
+  attach(pool: SyncAccessHandlePool): void {
+    if (this.files.size > 0) {
+      throw new DatabaseError('Cannot switch OPFS pool while files are open');
+    }
+    this.pool = pool;
+
+    if (!this.registered) {
+      this.register();
+      this.registered = true;
+    }
+  }
+
+  detach(): void {
+    this.files.clear();
+    this.pool = null;
+  }
+
+  private register(): void {
+    const m = this.sqlite3;
+    if (!OPFSSAHPoolVfs.isSupported(m)) {
+      throw new DatabaseError('SQLite WASM build does not support custom VFS registration');
+    }
+
+    const defaultVfs = m._sqlite3_vfs_find!(0);
+    if (!defaultVfs) {
+      throw new DatabaseError('No default SQLite VFS to inherit from');
+    }
+
+    const add = (fn: (...args: any[]) => number, signature: string) => m.addFunction!(fn, signature);
+
+    const ioMethods = this.allocZeroed(IO_METHODS_SIZE);
+    m.setValue(ioMethods + IO.iVersion, 1, 'i32');
+    m.setValue(ioMethods + IO.xClose, add(pFile => this.xClose(pFile), 'ii'), 'i32');
+    m.setValue(ioMethods + IO.xRead, add((pFile, pBuf, iAmt, iOfst) => this.xRead(pFile, pBuf, iAmt, iOfst), 'iiiij'), 'i32');
+    m.setValue(ioMethods + IO.xWrite, add((pFile, pBuf, iAmt, iOfst) => this.xWrite(pFile, pBuf, iAmt, iOfst), 'iiiij'), 'i32');
+    m.setValue(ioMethods + IO.xTruncate, add((pFile, size) => this.xTruncate(pFile, size), 'iij'), 'i32');
+    m.setValue(ioMethods + IO.xSync, add(pFile => this.xSync(pFile), 'iii'), 'i32');
+    m.setValue(ioMethods + IO.xFileSize, add((pFile, pSize) => this.xFileSize(pFile, pSize), 'iii'), 'i32');
+    m.setValue(ioMethods + IO.xLock, add(() => SQLITE_OK, 'iii'), 'i32');
+    m.setValue(ioMethods + IO.xUnlock, add(() => SQLITE_OK, 'iii'), 'i32');
+    m.setValue(ioMethods + IO.xCheckReservedLock, add((_pFile, pResOut) => {
+      m.setValue(pResOut, 0, 'i32');
+      return SQLITE_OK;
+    }, 'iii'), 'i32');
+    m.setValue(ioMethods + IO.xFileControl, add(() => SQLITE_NOTFOUND, 'iiii'), 'i32');
+    m.setValue(ioMethods + IO.xSectorSize, add(() => SECTOR_SIZE, 'ii'), 'i32');
+    m.setValue(ioMethods + IO.xDeviceCharacteristics, add(() => 0, 'ii'), 'i32');
+
+    const vfs = this.allocZeroed(VFS_SIZE);
+    const name = this.allocString(OPFS_SAHPOOL_VFS_NAME);
+    m.setValue(vfs + VFS.iVersion, 2, 'i32');
+    m.setValue(vfs + VFS.szOsFile, FILE_SIZE, 'i32');
+    m.setValue(vfs + VFS.mxPathname, MAX_PATH_LENGTH, 'i32');
+    m.setValue(vfs + VFS.zName, name, 'i32');
+    m.setValue(vfs + VFS.xOpen, add((_pVfs, zName, pFile, flags, pOutFlags) =>
+      this.xOpen(zName, pFile, flags, pOutFlags, ioMethods), 'iiiiii'), 'i32');
+    m.setValue(vfs + VFS.xDelete, add((_pVfs, zName) => this.xDelete(zName), 'iiii'), 'i32');
+    m.setValue(vfs + VFS.xAccess, add((_pVfs, zName, _flags, pResOut) => this.xAccess(zName, pResOut), 'iiiii'), 'i32');
+    m.setValue(vfs + VFS.xFullPathname, add((_pVfs, zName, nOut, zOut) =>
+      this.xFullPathname(zName, nOut, zOut), 'iiiii'), 'i32');
+
+    const defaultVersion = m.getValue(defaultVfs + VFS.iVersion, 'i32');
+    for (const field of INHERITED) {
+      if (field === 'xCurrentTimeInt64' && defaultVersion < 2) {
+        continue;
+      }
+      m.setValue(vfs + VFS[field], m.getValue(defaultVfs + VFS[field], 'i32'), 'i32');
+    }
+
+    const result = m._sqlite3_vfs_register!(vfs, 0);
+    if (result !== SQLITE_OK) {
+      throw new DatabaseError(`Failed to register ${OPFS_SAHPOOL_VFS_NAME} VFS: SQLite error code ${result}`);
+    }
+    this.log('info', `Registered ${OPFS_SAHPOOL_VFS_NAME} VFS`);
+  }
+
+  // ---------------------------------------------------------------------------
+  // sqlite3_vfs methods
+  // ---------------------------------------------------------------------------
+
+  private xOpen(zName: number, pFile: number, flags: number, pOutFlags: number, ioMethods: number): number {
+    const m = this.sqlite3;
+    m.setValue(pFile, 0, 'i32');  // pMethods stays NULL unless the open succeeds
+
+    return this.guard('xOpen', SQLITE_CANTOPEN, () => {
+      const pool = this.requirePool();
+      // A NULL name asks for a temporary file
+      const path = zName ? m.UTF8ToString(zName) : `/tmp-${Date.now()}-${this.nextFileId}`;
+
+      if (!pool.has(path)) {
+        if (!(flags & SQLITE_OPEN_CREATE)) {
+          return SQLITE_CANTOPEN;
+        }
+        pool.allocate(path, flags);
+      }
+
+      const fileId = this.nextFileId++;
+      this.files.set(fileId, { path, flags });
+      m.setValue(pFile + FILE_ID_OFFSET, fileId, 'i32');
+      m.setValue(pFile, ioMethods, 'i32');
+      if (pOutFlags) {
+        m.setValue(pOutFlags, flags, 'i32');
+      }
+      return SQLITE_OK;
+    });
+  }
+
+  private xDelete(zName: number): number {
+    return this.guard('xDelete', SQLITE_IOERR, () => {
+      this.requirePool().release(this.sqlite3.UTF8ToString(zName));
+      return SQLITE_OK;
+    });
+  }
+
+  private xAccess(zName: number, pResOut: number): number {
+    return this.guard('xAccess', SQLITE_IOERR, () => {
+      const exists = this.requirePool().has(this.sqlite3.UTF8ToString(zName));
+      this.sqlite3.setValue(pResOut, exists ? 1 : 0, 'i32');
+      return SQLITE_OK;
+    });
+  }
+
+  private xFullPathname(zName: number, nOut: number, zOut: number): number {
+    const name = this.sqlite3.UTF8ToString(zName);
+    const fullName = name.startsWith('/') ? name : `/${name}`;
+    if (fullName.length >= nOut) {
+      return SQLITE_CANTOPEN;
+    }
+    this.sqlite3.stringToUTF8(fullName, zOut, nOut);
+    return SQLITE_OK;
+  }
+
+  // ---------------------------------------------------------------------------
+  // sqlite3_io_methods
+  // ---------------------------------------------------------------------------
+
+  private xClose(pFile: number): number {
+    return this.guard('xClose', SQLITE_IOERR, () => {
+      const fileId = this.sqlite3.getValue(pFile + FILE_ID_OFFSET, 'i32');
+      const file = this.files.get(fileId);
+      this.files.delete(fileId);
+
+      if (file && this.pool) {
+        if (file.flags & SQLITE_OPEN_DELETEONCLOSE) {
+          this.pool.release(file.path);
+        } else {
+          this.pool.flush(file.path);
+        }
+      }
+      return SQLITE_OK;
+    });
+  }
+
+  private xRead(pFile: number, pBuf: number, iAmt: number, iOfst: bigint): number {
+    return this.guard('xRead', SQLITE_IOERR, () => {
+      const target = this.sqlite3.HEAPU8!.subarray(pBuf, pBuf + iAmt);
+      const read = this.requirePool().read(this.getFile(pFile).path, target, Number(iOfst));
+      if (read < iAmt) {
+        // SQLite expects the unread tail zero-filled
+        target.fill(0, read);
+        return SQLITE_IOERR_SHORT_READ;
+      }
+      return SQLITE_OK;
+    });
+  }
+
+  private xWrite(pFile: number, pBuf: number, iAmt: number, iOfst: bigint): number {
+    return this.guard('xWrite', SQLITE_IOERR, () => {
+      // Copy out of the heap: the handle may not accept a view into WASM memory
+      const data = this.sqlite3.HEAPU8!.slice(pBuf, pBuf + iAmt);
+      this.requirePool().write(this.getFile(pFile).path, data, Number(iOfst));
+      return SQLITE_OK;
+    });
+  }
+
+  private xTruncate(pFile: number, size: bigint): number {
+    return this.guard('xTruncate', SQLITE_IOERR, () => {
+      this.requirePool().truncate(this.getFile(pFile).path, Number(size));
+      return SQLITE_OK;
+    });
+  }
+
+  private xSync(pFile: number): number {
+    return this.guard('xSync', SQLITE_IOERR, () => {
+      this.requirePool().flush(this.getFile(pFile).path);
+      return SQLITE_OK;
+    });
+  }
+
+  private xFileSize(pFile: number, pSize: number): number {
+    return this.guard('xFileSize', SQLITE_IOERR, () => {
+      const size = this.requirePool().getSize(this.getFile(pFile).path);
+      // sqlite3_int64 as two 32-bit halves (little endian)
+      this.sqlite3.setValue(pSize, size % 0x100000000, 'i32');
+      this.sqlite3.setValue(pSize + 4, Math.floor(size / 0x100000000), 'i32');
+      return SQLITE_OK;
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Run a callback invoked from SQLite; exceptions must not cross into WASM
+   */
+  private guard(method: string, errorCode: number, fn: () => number): number {
+    try {
+      return fn();
+    } catch (error) {
+      this.log('error', `${OPFS_SAHPOOL_VFS_NAME} ${method} failed: ${error instanceof Error ? error.message : String(error)}`);
+      return errorCode;
+    }
+  }
+
+  private requirePool(): SyncAccessHandlePool {
+    if (!this.pool) {
+      throw new DatabaseError('OPFS access handle pool is not open');
+    }
+    return this.pool;
+  }
+
+  private getFile(pFile: number): OpenFile {
+    const file = this.files.get(this.sqlite3.getValue(pFile + FILE_ID_OFFSET, 'i32'));
+    if (!file) {
+      throw new DatabaseError('Unknown file handle');
+    }
+    return file;
+  }
+
+  private allocZeroed(size: number): number {
+    const ptr = this.sqlite3._malloc(size);
+    for (let offset = 0; offset < size; offset += 4) {
+      this.sqlite3.setValue(ptr + offset, 0, 'i32');
+    }
+    return ptr;
+  }
+
+  private allocString(value: string): number {
+    const ptr = this.sqlite3._malloc(value.length + 1);
+    this.sqlite3.stringToUTF8(value, ptr, value.length + 1);
+    return ptr;
+  }
+
+  private log(level: string, message: string): void {
+    this.logger?.log(level, message);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * SnapshotFileStore
+ *
+ * The file operations snapshot persistence needs, independent of where the
+ * files live. Paths are slash-separated and relative to the store root.
+ */
+
+export interface SnapshotFileStore {
+  /** Whether the store can be used in the current environment */
+  isSupported(): boolean;
+
+  /** Read a whole file; null when it does not exist */
+  read(path: string): Promise<Uint8Array | null>;
+
+  /** Write a whole file, creating parent directories as needed */
+  write(path: string, data: Uint8Array): Promise<void>;
+
+  /** Rename a file; the target must not exist */
+  rename(from: string, to: string): Promise<void>;
+
+  /** Remove a file; false when it did not exist */
+  remove(path: string): Promise<boolean>;
+
+  exists(path: string): Promise<boolean>;
+}
@@ -0,0 +1,79 @@
+/**
+ * SnapshotStorageBackend
+ *
+ * The database lives in an in-memory SQLite connection; OPFSManager restores
+ * it from a snapshot file on open and writes changed snapshots back
+ * periodically. Used for the memory backend (snapshots in OPFS) and the
+ * node-fs backend (snapshots on the local file system).
+ */
+
+import type { OPFSManager } from '../core/OPFSManager.js';
+import type { StorageBackend, StorageBackendType, StorageOpenTarget } from './StorageBackend.js';
+
+export class SnapshotStorageBackend implements StorageBackend {
+  readonly inPlace = false;
+  private persistent = false;
+
+  constructor(
+    readonly type: Exclude<StorageBackendType, 'opfs-sahpool'>,
+    private manager: OPFSManager
+  ) {}
+
+  async open(filename: string): Promise<StorageOpenTarget> {
+    // The memory backend only persists opfs:/ paths; node-fs any real filename
+    const persist = this.type === 'memory' ? filename.startsWith('opfs:/') : filename !== ':memory:';
+    if (!persist) {
+      return { filename };
+    }
+
+    const dbPath = await this.manager.initializeDatabase(filename);
+    this.persistent = this.manager.getOPFSPath() !== null;
+    return { filename: dbPath };
+  }
+
+  takeRestoreData(): Uint8Array | null {
+    const data = this.manager.getPendingDatabaseData();
+    this.manager.clearPendingDatabaseData();
+    return data;
+  }
+
+  async markClean(): Promise<void> {
+    await this.manager.markClean();
+  }
+
+  markDirty(): void {
+    this.manager.markDirty();
+  }
+
+  startAutoSync(): void {
+    if (this.persistent) {
+      this.manager.startAutoSync();
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.manager.forceSync();
+  }
+
+  async close(): Promise<void> {
+    this.manager.stopAutoSync();
+    this.manager.cleanup();
+    this.persistent = false;
+  }
+
+  async clear(): Promise<void> {
+    await this.manager.clearDatabase();
+  }
+
+  /**
+   * Hand `data` to the next open as restore data; the next sync writes it
+   */
+  async replaceDatabase(data: Uint8Array): Promise<void> {
+    this.manager.setPendingDatabaseData(data);
+    this.manager.markDirty();
+  }
+
+  async backupDatabase(label: string): Promise<string | null> {
+    return this.manager.backupDatabase(label);
+  }
+}
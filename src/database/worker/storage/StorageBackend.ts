@@ -0,0 +1,78 @@
+/**
+ * StorageBackend
+ *
+ * Where the worker keeps a database between sessions. DatabaseWorker asks
+ * the backend what to open, opens it with SQLiteManager and leaves
+ * persistence (snapshots, sync, cleanup) to the backend.
+ */
+
+import type { StorageBackendType } from '../../../types/worker.js';
+
+export type { StorageBackendType, StorageBackendPreference } from '../../../types/worker.js';
+
+/**
+ * What SQLiteManager.openDatabase() should open
+ */
+export interface StorageOpenTarget {
+  filename: string;
+  vfs?: string;
+}
+
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+
+  /**
+   * True when the live database is the stored file itself. Such backends
+   * have nothing to restore, and clear()/replaceDatabase() need the
+   * connection closed and reopened around them.
+   */
+  readonly inPlace: boolean;
+
+  /**
+   * Prepare storage for a database and return what SQLite should open
+   */
+  open(filename: string): Promise<StorageOpenTarget>;
+
+  /**
+   * Stored content to deserialize into the freshly opened database; returned once
+   */
+  takeRestoreData(): Uint8Array | null;
+
+  /**
+   * Record the current database state as persisted
+   */
+  markClean(): Promise<void>;
+
+  /**
+   * Force the next sync to write (changes the change marker cannot see)
+   */
+  markDirty(): void;
+
+  startAutoSync(): void;
+
+  /**
+   * Persist pending changes now
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Release storage resources; called after the database connection closed
+   */
+  close(): Promise<void>;
+
+  /**
+   * Delete the stored database
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Store `data` as the database content
+   */
+  replaceDatabase(data: Uint8Array): Promise<void>;
+
+  /**
+   * Write a copy of the current database before a risky operation;
+   * returns the backup path, or null when nothing is persisted
+   */
+  backupDatabase(label: string): Promise<string | null>;
+}
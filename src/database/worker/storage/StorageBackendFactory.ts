@@ -0,0 +1,91 @@
+/**
+ * StorageBackendFactory
+ *
+ * Picks a storage backend from the configured preference and what the
+ * environment supports, and creates it.
+ */
+
+import type { SQLiteManager } from '../core/SQLiteManager.js';
+import type { SQLite3Module } from '../core/SQLite3Module.js';
+import { OPFSManager } from '../core/OPFSManager.js';
+import type { StorageBackend, StorageBackendType, StorageBackendPreference } from './StorageBackend.js';
+import { SnapshotStorageBackend } from './SnapshotStorageBackend.js';
+import { OPFSSAHPoolBackend } from './OPFSSAHPoolBackend.js';
+import { SyncAccessHandlePool } from './SyncAccessHandlePool.js';
+import { OPFSSAHPoolVfs } from './OPFSSAHPoolVfs.js';
+import { NodeFileStore } from './NodeFileStore.js';
+
+/**
+ * Storage features available in the current environment
+ */
+export interface StorageEnvironment {
+  syncAccessHandles: boolean;   // OPFS createSyncAccessHandle() (dedicated workers)
+  customVfs: boolean;           // WASM build exports VFS registration
+  node: boolean;
+}
+
+export function detectStorageEnvironment(sqlite3: SQLite3Module | null): StorageEnvironment {
+  return {
+    syncAccessHandles: SyncAccessHandlePool.isSupported(),
+    customVfs: OPFSSAHPoolVfs.isSupported(sqlite3),
+    node: NodeFileStore.isNodeEnvironment()
+  };
+}
+
+/**
+ * Choose the backend for a database
+ *
+ * 'auto' uses opfs-sahpool for opfs:/ paths where it works and the memory
+ * backend otherwise; node-fs is only used when asked for. An explicit
+ * backend the environment can't provide falls back to memory.
+ */
+export function selectStorageBackend(
+  preference: StorageBackendPreference,
+  filename: string,
+  env: StorageEnvironment,
+  logger?: { log: (level: string, message: string) => void }
+): StorageBackendType {
+  if (filename === ':memory:' || filename === '') {
+    return 'memory';
+  }
+
+  const isOPFSPath = filename.startsWith('opfs:/');
+  const isSupported = (type: StorageBackendType): boolean => {
+    switch (type) {
+      case 'opfs-sahpool':
+        return isOPFSPath && env.syncAccessHandles && env.customVfs;
+      case 'node-fs':
+        return env.node;
+      default:
+        return true;
+    }
+  };
+
+  if (preference === 'auto') {
+    return isSupported('opfs-sahpool') ? 'opfs-sahpool' : 'memory';
+  }
+
+  if (!isSupported(preference)) {
+    logger?.log('warn', `Storage backend ${preference} is not available for ${filename}, falling back to memory`);
+    return 'memory';
+  }
+
+  return preference;
+}
+
+export interface StorageBackendDependencies {
+  sqliteManager: SQLiteManager;
+  opfsManager: OPFSManager;   // Snapshot manager used by the memory backend
+  logger?: { log: (level: string, message: string) => void };
+}
+
+export function createStorageBackend(type: StorageBackendType, deps: StorageBackendDependencies): StorageBackend {
+  switch (type) {
+    case 'opfs-sahpool':
+      return new OPFSSAHPoolBackend(deps.sqliteManager, deps.logger);
+    case 'node-fs':
+      return new SnapshotStorageBackend('node-fs', new OPFSManager(deps.sqliteManager, deps.logger, new NodeFileStore()));
+    default:
+      return new SnapshotStorageBackend('memory', deps.opfsManager);
+  }
+}
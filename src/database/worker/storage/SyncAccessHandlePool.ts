@@ -0,0 +1,254 @@
+/**
+ * SyncAccessHandlePool
+ *
+ * A fixed set of OPFS files opened once with createSyncAccessHandle(), so
+ * the SQLite VFS can do synchronous reads and writes on them. Each slot file
+ * starts with a header holding the SQLite path it currently stores; the
+ * file content follows at HEADER_SIZE. Free slots have an empty path.
+ *
+ * Sync access handles are exclusive and only exist in dedicated workers,
+ * which is why the pool opens them all up front and keeps them until close().
+ */
+
+import { OPFSError } from '../../../types/worker.js';
+
+// Header: path (UTF-8, zero padded) followed by the open flags (u32)
+export const HEADER_SIZE = 4096;
+const HEADER_PATH_SIZE = 512;
+const HEADER_FLAGS_OFFSET = HEADER_PATH_SIZE;
+export const MAX_PATH_LENGTH = HEADER_PATH_SIZE - 1;
+
+const DEFAULT_CAPACITY = 6;
+
+/**
+ * The part of FileSystemSyncAccessHandle the pool uses
+ */
+export interface SyncAccessHandle {
+  read(buffer: Uint8Array, options?: { at?: number }): number;
+  write(buffer: Uint8Array, options?: { at?: number }): number;
+  truncate(size: number): void;
+  getSize(): number;
+  flush(): void;
+  close(): void;
+}
+
+interface PoolSlot {
+  name: string;
+  handle: SyncAccessHandle;
+  path: string | null;
+  flags: number;
+}
+
+export class SyncAccessHandlePool {
+  private slots: PoolSlot[] = [];
+  private slotsByPath = new Map<string, PoolSlot>();
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder();
+
+  constructor(
+    private directoryPath: string,
+    private capacity = DEFAULT_CAPACITY,
+    private logger?: { log: (level: string, message: string) => void }
+  ) {}
+
+  /**
+   * Whether OPFS sync access handles exist in this environment
+   */
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' &&
+           typeof navigator.storage?.getDirectory === 'function' &&
+           typeof FileSystemFileHandle !== 'undefined' &&
+           typeof (FileSystemFileHandle.prototype as { createSyncAccessHandle?: unknown }).createSyncAccessHandle === 'function';
+  }
+
+  /**
+   * Open all slot files and read which paths they hold
+   */
+  async open(): Promise<void> {
+    if (this.slots.length > 0) {
+      return;
+    }
+
+    try {
+      let directory = await navigator.storage.getDirectory();
+      for (const part of this.directoryPath.split('/').filter(part => part.length > 0)) {
+        directory = await directory.getDirectoryHandle(part, { create: true });
+      }
+
+      for (let i = 0; i < this.capacity; i++) {
+        const name = `slot-${i}`;
+        const fileHandle = await directory.getFileHandle(name, { create: true });
+        const handle = await (fileHandle as FileSystemFileHandle & {
+          createSyncAccessHandle(): Promise<SyncAccessHandle>;
+        }).createSyncAccessHandle();
+
+        const slot: PoolSlot = { name, handle, path: null, flags: 0 };
+        this.slots.push(slot);
+        this.readHeader(slot);
+        if (slot.path) {
+          this.slotsByPath.set(slot.path, slot);
+        }
+      }
+    } catch (error) {
+      this.close();
+      throw new OPFSError(`Failed to open OPFS access handle pool ${this.directoryPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.log('info', `Opened OPFS access handle pool ${this.directoryPath}: ${this.slotsByPath.size}/${this.capacity} slots in use`);
+  }
+
+  has(path: string): boolean {
+    return this.slotsByPath.has(path);
+  }
+
+  getFlags(path: string): number {
+    return this.getSlot(path).flags;
+  }
+
+  /**
+   * Assign a free slot to a path, starting out empty
+   */
+  allocate(path: string, flags: number): void {
+    if (this.slotsByPath.has(path)) {
+      return;
+    }
+    if (this.encoder.encode(path).length > MAX_PATH_LENGTH) {
+      throw new OPFSError(`Path too long for OPFS access handle pool: ${path}`);
+    }
+
+    const slot = this.slots.find(candidate => candidate.path === null);
+    if (!slot) {
+      throw new OPFSError(`OPFS access handle pool is full (${this.capacity} files)`);
+    }
+
+    slot.path = path;
+    slot.flags = flags;
+    slot.handle.truncate(HEADER_SIZE);
+    this.writeHeader(slot);
+    this.slotsByPath.set(path, slot);
+  }
+
+  /**
+   * Free the slot of a path and drop its content
+   */
+  release(path: string): boolean {
+    const slot = this.slotsByPath.get(path);
+    if (!slot) {
+      return false;
+    }
+
+    slot.path = null;
+    slot.flags = 0;
+    this.writeHeader(slot);
+    slot.handle.truncate(HEADER_SIZE);
+    this.slotsByPath.delete(path);
+    return true;
+  }
+
+  /**
+   * Read into `target` from `offset`; returns the number of bytes read
+   */
+  read(path: string, target: Uint8Array, offset: number): number {
+    return this.getSlot(path).handle.read(target, { at: HEADER_SIZE + offset });
+  }
+
+  write(path: string, data: Uint8Array, offset: number): void {
+    const written = this.getSlot(path).handle.write(data, { at: HEADER_SIZE + offset });
+    if (written !== data.length) {
+      throw new OPFSError(`Short write to ${path}: ${written} of ${data.length} bytes`);
+    }
+  }
+
+  truncate(path: string, size: number): void {
+    this.getSlot(path).handle.truncate(HEADER_SIZE + size);
+  }
+
+  getSize(path: string): number {
+    return Math.max(0, this.getSlot(path).handle.getSize() - HEADER_SIZE);
+  }
+
+  flush(path?: string): void {
+    if (path !== undefined) {
+      this.getSlot(path).handle.flush();
+      return;
+    }
+    for (const slot of this.slotsByPath.values()) {
+      slot.handle.flush();
+    }
+  }
+
+  /**
+   * Read the whole content of a path
+   */
+  readFile(path: string): Uint8Array {
+    const data = new Uint8Array(this.getSize(path));
+    this.read(path, data, 0);
+    return data;
+  }
+
+  /**
+   * Replace the whole content of a path, allocating a slot if needed
+   */
+  writeFile(path: string, data: Uint8Array, flags = 0): void {
+    this.allocate(path, flags);
+    this.truncate(path, 0);
+    if (data.length > 0) {
+      this.write(path, data, 0);
+    }
+    this.flush(path);
+  }
+
+  /**
+   * Close every sync access handle; the pool can be opened again afterwards
+   */
+  close(): void {
+    for (const slot of this.slots) {
+      try {
+        slot.handle.close();
+      } catch (error) {
+        this.log('warn', `Failed to close access handle ${slot.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    this.slots = [];
+    this.slotsByPath.clear();
+  }
+
+  private getSlot(path: string): PoolSlot {
+    const slot = this.slotsByPath.get(path);
+    if (!slot) {
+      throw new OPFSError(`No OPFS access handle for ${path}`);
+    }
+    return slot;
+  }
+
+  private readHeader(slot: PoolSlot): void {
+    const header = new Uint8Array(HEADER_SIZE);
+    const read = slot.handle.read(header, { at: 0 });
+    if (read < HEADER_SIZE) {
+      // New or never assigned slot file
+      slot.handle.truncate(HEADER_SIZE);
+      this.writeHeader(slot);
+      return;
+    }
+
+    const end = header.subarray(0, HEADER_PATH_SIZE).indexOf(0);
+    const path = this.decoder.decode(header.subarray(0, end === -1 ? HEADER_PATH_SIZE : end));
+    slot.path = path.length > 0 ? path : null;
+    slot.flags = new DataView(header.buffer).getUint32(HEADER_FLAGS_OFFSET, true);
+  }
+
+  private writeHeader(slot: PoolSlot): void {
+    const header = new Uint8Array(HEADER_SIZE);
+    if (slot.path) {
+      header.set(this.encoder.encode(slot.path));
+    }
+    new DataView(header.buffer).setUint32(HEADER_FLAGS_OFFSET, slot.flags, true);
+
+    slot.handle.write(header, { at: 0 });
+    slot.handle.flush();
+  }
+
+  private log(level: string, message: string): void {
+    this.logger?.log(level, message);
+  }
+}
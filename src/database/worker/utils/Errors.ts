@@ -81,6 +81,38 @@ export class DocumentInsertError extends Error {
   }
 }
 
+/**
+ * Document lookup error
+ *
+ * Thrown when a mutation targets a document that does not exist in the collection.
+ */
+export class DocumentNotFoundError extends Error {
+  constructor(
+    message: string,
+    public context: {
+      collection: string;
+      documentId: string;
+      operation: string;
+    }
+  ) {
+    super(message);
+    this.name = 'DocumentNotFoundError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, DocumentNotFoundError);
+    }
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      message: this.message,
+      context: this.context,
+      stack: this.stack
+    };
+  }
+}
+
 /**
  * Collection operation error
  *
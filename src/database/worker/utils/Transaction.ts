@@ -0,0 +1,34 @@
+/**
+ * Transaction
+ *
+ * The BEGIN IMMEDIATE ... COMMIT wrapper shared by worker components that
+ * group several statements into one write.
+ */
+
+import type { SQLiteManager } from '../core/SQLiteManager.js';
+
+/**
+ * Run `fn` inside BEGIN IMMEDIATE ... COMMIT, rolling back if it throws
+ *
+ * The error from `fn` is always rethrown; a failed ROLLBACK is only logged so
+ * it cannot mask that error.
+ */
+export async function runInTransaction<T>(
+  sqliteManager: Pick<SQLiteManager, 'exec'>,
+  fn: () => Promise<T>,
+  log?: (level: string, message: string) => void
+): Promise<T> {
+  await sqliteManager.exec('BEGIN IMMEDIATE TRANSACTION');
+  try {
+    const result = await fn();
+    await sqliteManager.exec('COMMIT');
+    return result;
+  } catch (error) {
+    try {
+      await sqliteManager.exec('ROLLBACK');
+    } catch (rollbackError) {
+      log?.('error', `Rollback failed: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
+    }
+    throw error;
+  }
+}
@@ -14,10 +14,20 @@ import type {
   BulkInsertParams,
   SearchRequest,
   CreateCollectionParams,
+  SetEmbeddingApiKeyParams,
   InsertDocumentWithEmbeddingParams,
+  InsertChunkedDocumentParams,
+  UpdateDocumentParams,
+  DeleteDocumentParams,
+  DeleteDocumentsParams,
   SemanticSearchParams,
   ExportParams,
   ImportParams,
+  ExportStreamParams,
+  ImportStreamParams,
+  ImportChunkParams,
+  ExportCollectionParams,
+  ImportCollectionParams,
   GenerateEmbeddingRequest,
   BatchEmbeddingRequest,
   EnqueueEmbeddingParams,
@@ -53,6 +63,7 @@ export function isOpenDatabaseParams(params: any): params is OpenDatabaseParams
          typeof params.filename === 'string' &&
          (params.path === undefined || typeof params.path === 'string') &&
          (params.vfs === undefined || params.vfs === 'opfs' || params.vfs === 'opfs-sahpool') &&
+         (params.storage === undefined || ['auto', 'memory', 'opfs-sahpool', 'node-fs'].includes(params.storage)) &&
          (params.pragmas === undefined || (typeof params.pragmas === 'object' && params.pragmas !== null));
 }
 
@@ -115,6 +126,17 @@ export function isCreateCollectionParams(params: any): params is CreateCollectio
          (params.config === undefined || (typeof params.config === 'object' && params.config !== null));
 }
 
+/**
+ * Type guard for SetEmbeddingApiKeyParams
+ */
+export function isSetEmbeddingApiKeyParams(params: any): params is SetEmbeddingApiKeyParams {
+  return typeof params === 'object' &&
+         params !== null &&
+         typeof params.collection === 'string' &&
+         typeof params.apiKey === 'string' &&
+         params.apiKey.length > 0;
+}
+
 /**
  * Type guard for InsertDocumentWithEmbeddingParams
  */
@@ -129,10 +151,70 @@ export function isInsertDocumentWithEmbeddingParams(params: any): params is Inse
          typeof params.document.content === 'string' &&
          (params.document.title === undefined || typeof params.document.title === 'string') &&
          (params.document.metadata === undefined || (typeof params.document.metadata === 'object' && params.document.metadata !== null)) &&
+         (params.document.vector === undefined || params.document.vector instanceof Float32Array || Array.isArray(params.document.vector)) &&
+         (params.document.parentId === undefined || typeof params.document.parentId === 'string') &&
+         (params.document.chunkIndex === undefined || Number.isInteger(params.document.chunkIndex)) &&
          // Validate optional options object
+         (params.options === undefined || (typeof params.options === 'object' && params.options !== null &&
+           (params.options.embeddingMode === undefined || params.options.embeddingMode === 'sync' || params.options.embeddingMode === 'queue')));
+}
+
+/**
+ * Type guard for InsertChunkedDocumentParams
+ */
+export function isInsertChunkedDocumentParams(params: any): params is InsertChunkedDocumentParams {
+  return typeof params === 'object' &&
+         params !== null &&
+         typeof params.collection === 'string' &&
+         typeof params.document === 'object' &&
+         params.document !== null &&
+         (params.document.id === undefined || typeof params.document.id === 'string') &&
+         typeof params.document.content === 'string' &&
+         (params.document.title === undefined || typeof params.document.title === 'string') &&
+         (params.document.metadata === undefined || (typeof params.document.metadata === 'object' && params.document.metadata !== null)) &&
+         (params.chunking === undefined || (typeof params.chunking === 'object' && params.chunking !== null)) &&
+         (params.options === undefined || (typeof params.options === 'object' && params.options !== null &&
+           (params.options.embeddingMode === undefined || params.options.embeddingMode === 'sync' || params.options.embeddingMode === 'queue')));
+}
+
+/**
+ * Type guard for UpdateDocumentParams
+ */
+export function isUpdateDocumentParams(params: any): params is UpdateDocumentParams {
+  return typeof params === 'object' &&
+         params !== null &&
+         typeof params.collection === 'string' &&
+         typeof params.id === 'string' &&
+         typeof params.updates === 'object' &&
+         params.updates !== null &&
+         (params.updates.title === undefined || typeof params.updates.title === 'string') &&
+         (params.updates.content === undefined || typeof params.updates.content === 'string') &&
+         (params.updates.metadata === undefined || (typeof params.updates.metadata === 'object' && params.updates.metadata !== null && !Array.isArray(params.updates.metadata))) &&
+         (params.updates.vector === undefined || params.updates.vector instanceof Float32Array || Array.isArray(params.updates.vector)) &&
          (params.options === undefined || (typeof params.options === 'object' && params.options !== null));
 }
 
+/**
+ * Type guard for DeleteDocumentParams
+ */
+export function isDeleteDocumentParams(params: any): params is DeleteDocumentParams {
+  return typeof params === 'object' &&
+         params !== null &&
+         typeof params.collection === 'string' &&
+         typeof params.id === 'string';
+}
+
+/**
+ * Type guard for DeleteDocumentsParams
+ */
+export function isDeleteDocumentsParams(params: any): params is DeleteDocumentsParams {
+  return typeof params === 'object' &&
+         params !== null &&
+         typeof params.collection === 'string' &&
+         (params.ids === undefined || (Array.isArray(params.ids) && params.ids.every((id: any) => typeof id === 'string'))) &&
+         (params.filter === undefined || (typeof params.filter === 'object' && params.filter !== null));
+}
+
 /**
  * Type guard for SemanticSearchParams
  */
@@ -165,6 +247,60 @@ export function isImportParams(params: any): params is ImportParams {
          (params.overwrite === undefined || typeof params.overwrite === 'boolean');
 }
 
+/**
+ * Type guard for ExportStreamParams
+ */
+export function isExportStreamParams(params: any): params is ExportStreamParams {
+  return typeof params === 'object' &&
+         params !== null &&
+         typeof params.transferId === 'string' &&
+         (params.chunkSize === undefined || typeof params.chunkSize === 'number');
+}
+
+/**
+ * Type guard for ImportStreamParams
+ */
+export function isImportStreamParams(params: any): params is ImportStreamParams {
+  return typeof params === 'object' &&
+         params !== null &&
+         typeof params.transferId === 'string' &&
+         (params.totalBytes === undefined || typeof params.totalBytes === 'number');
+}
+
+/**
+ * Type guard for ImportChunkParams
+ */
+export function isImportChunkParams(params: any): params is ImportChunkParams {
+  return typeof params === 'object' &&
+         params !== null &&
+         typeof params.transferId === 'string' &&
+         (params.chunk === undefined || params.chunk instanceof ArrayBuffer || params.chunk instanceof Uint8Array) &&
+         (params.done === undefined || typeof params.done === 'boolean');
+}
+
+/**
+ * Type guard for ExportCollectionParams
+ */
+export function isExportCollectionParams(params: any): params is ExportCollectionParams {
+  return typeof params === 'object' &&
+         params !== null &&
+         typeof params.collection === 'string' &&
+         (params.includeVectors === undefined || typeof params.includeVectors === 'boolean');
+}
+
+/**
+ * Type guard for ImportCollectionParams
+ */
+export function isImportCollectionParams(params: any): params is ImportCollectionParams {
+  return typeof params === 'object' &&
+         params !== null &&
+         (params.data instanceof Uint8Array || params.data instanceof ArrayBuffer) &&
+         (params.collection === undefined || (typeof params.collection === 'string' && params.collection.length > 0)) &&
+         (params.onConflict === undefined || ['skip', 'replace', 'merge'].includes(params.onConflict)) &&
+         (params.reembed === undefined || typeof params.reembed === 'boolean') &&
+         (params.embeddingMode === undefined || params.embeddingMode === 'sync' || params.embeddingMode === 'queue');
+}
+
 /**
  * Type guard for GenerateEmbeddingRequest
  */
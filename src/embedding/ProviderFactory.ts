@@ -8,6 +8,9 @@
  * Поддерживаемые провайдеры:
  * - Transformers.js: Локальные модели с фиксированной размерностью 384
  * - OpenAI: API модели с конфигурируемыми размерностями (384, 768, 1536)
+ * - Cohere: Embed API с раздельными input_type для запросов и документов
+ * - Hugging Face: Inference API и self-hosted Text Embeddings Inference (TEI)
+ * - Custom: OpenAI-совместимые и Ollama серверы (llama.cpp, LM Studio, vLLM)
  *
  * Основные функции:
  * - Создание провайдеров на основе конфигурации коллекции
@@ -25,6 +28,9 @@ import type {
 import type { CollectionEmbeddingConfig, EmbeddingProviderType } from './types.js';
 import { TransformersProvider, getModelInfo as getTransformersModelInfo, isTransformersSupported } from './providers/TransformersProvider.js';
 import { OpenAIProvider, getRecommendedConfig, isValidModelDimensionCombo } from './providers/OpenAIProvider.js';
+import { CohereProvider, isValidCohereModelDimensionCombo } from './providers/CohereProvider.js';
+import { HuggingFaceProvider, getHuggingFaceModelDimensions } from './providers/HuggingFaceProvider.js';
+import { OpenAICompatibleProvider } from './providers/OpenAICompatibleProvider.js';
 import {
   ProviderError,
   ConfigurationError,
@@ -169,11 +175,23 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
           provider = await this.createOpenAIProvider(config);
           break;
 
+        case 'cohere':
+          provider = await this.createCohereProvider(config);
+          break;
+
+        case 'huggingface':
+          provider = await this.createHuggingFaceProvider(config);
+          break;
+
+        case 'custom':
+          provider = await this.createCustomProvider(config);
+          break;
+
         default:
           throw new ConfigurationError(
             `Unsupported provider type: ${config.provider}`,
             'provider',
-            'One of: transformers, openai',
+            'One of: transformers, openai, cohere, huggingface, custom',
             config.provider
           );
       }
@@ -186,7 +204,8 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
         batchSize: config.batchSize,
         timeout: config.timeout,
         enabled: config.autoGenerate,
-        provider: config.provider
+        provider: config.provider,
+        providerOptions: config.providerOptions
       });
 
       return provider;
@@ -229,6 +248,10 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
     // OpenAI модели
     models.push(...OpenAIProvider.getAvailableModels());
 
+    // Cohere и Hugging Face модели
+    models.push(...CohereProvider.getAvailableModels());
+    models.push(...HuggingFaceProvider.getAvailableModels());
+
     return models;
   }
 
@@ -243,6 +266,12 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
       case 'openai':
         return OpenAIProvider.getAvailableModels();
 
+      case 'cohere':
+        return CohereProvider.getAvailableModels();
+
+      case 'huggingface':
+        return HuggingFaceProvider.getAvailableModels();
+
       default:
         return [];
     }
@@ -259,7 +288,7 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
     // Базовая валидация
     if (!config.provider) {
       errors.push('Provider type is required');
-      suggestions.push('Specify provider type (transformers, openai)');
+      suggestions.push('Specify provider type (transformers, openai, cohere, huggingface, custom)');
     }
 
     if (!config.dimensions || config.dimensions <= 0) {
@@ -277,10 +306,22 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
         this.validateOpenAIConfig(config, errors, warnings, suggestions);
         break;
 
+      case 'cohere':
+        this.validateCohereConfig(config, errors, warnings, suggestions);
+        break;
+
+      case 'huggingface':
+        this.validateHuggingFaceConfig(config, errors, warnings, suggestions);
+        break;
+
+      case 'custom':
+        this.validateCustomConfig(config, errors, warnings, suggestions);
+        break;
+
       default:
         if (config.provider) {
           errors.push(`Unsupported provider: ${config.provider}`);
-          suggestions.push('Use one of: transformers, openai');
+          suggestions.push('Use one of: transformers, openai, cohere, huggingface, custom');
         }
     }
 
@@ -312,13 +353,16 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
         return this.checkTransformersSupport();
 
       case 'openai':
-        return this.checkOpenAISupport();
+      case 'cohere':
+      case 'huggingface':
+      case 'custom':
+        return this.checkFetchSupport();
 
       default:
         return {
           isSupported: false,
           unsupportedReason: `Unknown provider type: ${providerType}`,
-          alternatives: ['transformers', 'openai'],
+          alternatives: ['transformers', 'openai', 'cohere', 'huggingface', 'custom'],
           requirements: ['Valid provider type']
         };
     }
@@ -474,6 +518,70 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
     return new OpenAIProvider(config.dimensions, model);
   }
 
+  /**
+   * Создание Cohere провайдера
+   */
+  private async createCohereProvider(config: CollectionEmbeddingConfig): Promise<CohereProvider> {
+    if (!config.apiKey) {
+      throw new ConfigurationError(
+        'Cohere provider requires API key',
+        'apiKey',
+        'Valid Cohere API key',
+        undefined
+      );
+    }
+
+    const model = config.model || 'embed-multilingual-v3.0';
+
+    if (!isValidCohereModelDimensionCombo(model, config.dimensions)) {
+      throw new ConfigurationError(
+        `Model ${model} does not support ${config.dimensions} dimensions`,
+        'dimensions',
+        'Valid dimensions for the selected model',
+        config.dimensions,
+        { model, provider: 'cohere' }
+      );
+    }
+
+    return new CohereProvider(config.dimensions, model);
+  }
+
+  /**
+   * Создание Hugging Face провайдера
+   */
+  private async createHuggingFaceProvider(config: CollectionEmbeddingConfig): Promise<HuggingFaceProvider> {
+    const endpoint = config.providerOptions?.endpoint ?? 'inference';
+    if (endpoint === 'inference' && !config.apiKey) {
+      throw new ConfigurationError(
+        'Hugging Face Inference API requires an access token',
+        'apiKey',
+        'Valid Hugging Face access token starting with hf_',
+        undefined
+      );
+    }
+
+    return new HuggingFaceProvider(config.dimensions, config.model || undefined);
+  }
+
+  /**
+   * Создание провайдера для OpenAI-совместимого или Ollama сервера
+   */
+  private async createCustomProvider(config: CollectionEmbeddingConfig): Promise<OpenAICompatibleProvider> {
+    if (!config.model) {
+      throw new ConfigurationError(
+        'Custom provider requires a model name',
+        'model',
+        'Model name as known to the embedding server',
+        undefined
+      );
+    }
+
+    return new OpenAICompatibleProvider(config.dimensions, config.model, {
+      maxBatchSize: config.providerOptions?.maxBatchSize,
+      maxTextLength: config.providerOptions?.maxTextLength
+    });
+  }
+
   /**
    * Валидация конфигурации Transformers.js
    */
@@ -533,6 +641,106 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
     }
   }
 
+  /**
+   * Валидация конфигурации Cohere
+   */
+  private validateCohereConfig(
+    config: CollectionEmbeddingConfig,
+    errors: string[],
+    warnings: string[],
+    suggestions: string[]
+  ): void {
+    if (!config.apiKey) {
+      errors.push('Cohere provider requires API key');
+      suggestions.push('Set apiKey in configuration');
+    }
+
+    const model = config.model || 'embed-multilingual-v3.0';
+    if (!isValidCohereModelDimensionCombo(model, config.dimensions)) {
+      errors.push(`Model ${model} does not support ${config.dimensions} dimensions`);
+      suggestions.push('Check supported dimensions for the selected model');
+    }
+
+    if (config.batchSize && config.batchSize > 96) {
+      warnings.push('Cohere API accepts at most 96 texts per request');
+      suggestions.push('Set batch size to 96 or less');
+    }
+  }
+
+  /**
+   * Валидация конфигурации Hugging Face
+   */
+  private validateHuggingFaceConfig(
+    config: CollectionEmbeddingConfig,
+    errors: string[],
+    warnings: string[],
+    suggestions: string[]
+  ): void {
+    const endpoint = config.providerOptions?.endpoint ?? 'inference';
+
+    if (endpoint !== 'inference' && endpoint !== 'tei') {
+      errors.push(`Unsupported Hugging Face endpoint: ${endpoint}`);
+      suggestions.push("Set providerOptions.endpoint to 'inference' or 'tei'");
+    } else if (endpoint === 'inference' && !config.apiKey) {
+      errors.push('Hugging Face Inference API requires an access token');
+      suggestions.push('Set apiKey in configuration');
+    } else if (endpoint === 'tei' && !config.providerOptions?.baseUrl) {
+      errors.push('Text Embeddings Inference endpoint requires a server URL');
+      suggestions.push('Set providerOptions.baseUrl, e.g. http://localhost:8080');
+    }
+
+    const knownDimensions = config.model ? getHuggingFaceModelDimensions(config.model) : 384;
+    if (knownDimensions !== undefined && knownDimensions !== config.dimensions) {
+      errors.push(`Model ${config.model || 'sentence-transformers/all-MiniLM-L6-v2'} produces ${knownDimensions}-dimensional embeddings`);
+      suggestions.push(`Set dimensions to ${knownDimensions}`);
+    } else if (knownDimensions === undefined) {
+      warnings.push(`Model ${config.model} is not in the list of known models; dimensions are checked on the first request`);
+    }
+
+    if (config.batchSize && config.batchSize > 32) {
+      warnings.push('Hugging Face endpoints accept at most 32 texts per request by default');
+      suggestions.push('Set batch size to 32 or less');
+    }
+  }
+
+  /**
+   * Валидация конфигурации OpenAI-совместимого или Ollama сервера
+   */
+  private validateCustomConfig(
+    config: CollectionEmbeddingConfig,
+    errors: string[],
+    warnings: string[],
+    suggestions: string[]
+  ): void {
+    const options = config.providerOptions ?? {};
+    const api = options.api ?? 'openai';
+
+    if (!config.model) {
+      errors.push('Custom provider requires a model name');
+      suggestions.push('Set model to the name the server knows, e.g. nomic-embed-text');
+    }
+
+    if (api !== 'openai' && api !== 'ollama') {
+      errors.push(`Unsupported API format: ${api}`);
+      suggestions.push("Set providerOptions.api to 'openai' or 'ollama'");
+    } else if (api === 'openai' && !options.baseUrl) {
+      errors.push('OpenAI-compatible endpoint requires providerOptions.baseUrl');
+      suggestions.push('Set providerOptions.baseUrl, e.g. http://localhost:1234/v1');
+    }
+
+    for (const limit of ['maxBatchSize', 'maxTextLength'] as const) {
+      const value = options[limit];
+      if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+        errors.push(`providerOptions.${limit} must be a positive integer`);
+      }
+    }
+
+    if (config.batchSize && options.maxBatchSize && config.batchSize > options.maxBatchSize) {
+      warnings.push(`Batch size ${config.batchSize} exceeds the server limit ${options.maxBatchSize}`);
+      suggestions.push(`Set batch size to ${options.maxBatchSize} or less`);
+    }
+  }
+
   /**
    * Проверка поддержки Transformers.js
    */
@@ -557,10 +765,10 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
   }
 
   /**
-   * Проверка поддержки OpenAI
+   * Проверка поддержки внешних API (OpenAI, Cohere, Hugging Face)
    */
-  private checkOpenAISupport(): ProviderSupportInfo {
-    // OpenAI API доступен во всех современных браузерах с fetch
+  private checkFetchSupport(): ProviderSupportInfo {
+    // Внешние API доступны во всех современных браузерах с fetch
     if (typeof fetch === 'undefined') {
       return {
         isSupported: false,
@@ -627,6 +835,72 @@ export class EmbeddingProviderFactoryImpl implements EmbeddingProviderFactory {
         'fetch API support'
       ]
     });
+
+    // Cohere провайдер
+    this.providerRegistry.set('cohere', {
+      type: 'cohere',
+      displayName: 'Cohere Embed API',
+      description: 'Cloud-based embedding generation using Cohere models. Queries and documents are embedded with separate input types for better retrieval.',
+      supportedDimensions: [256, 384, 512, 1024, 1536],
+      defaultDimensions: 1024,
+      requiresApiKey: true,
+      isLocal: false,
+      availableModels: CohereProvider.getAvailableModels(),
+      recommendedUseCases: [
+        'Search and retrieval',
+        'Multilingual collections',
+        'Long documents (embed-v4.0)'
+      ],
+      environmentRequirements: [
+        'Internet connection',
+        'Valid Cohere API key',
+        'fetch API support'
+      ]
+    });
+
+    // Hugging Face провайдер
+    this.providerRegistry.set('huggingface', {
+      type: 'huggingface',
+      displayName: 'Hugging Face',
+      description: 'Embedding generation with sentence-transformers models through the Hugging Face Inference API or a self-hosted Text Embeddings Inference server.',
+      supportedDimensions: [384, 768, 1024],
+      defaultDimensions: 384,
+      requiresApiKey: false,
+      isLocal: false,
+      availableModels: HuggingFaceProvider.getAvailableModels(),
+      recommendedUseCases: [
+        'Open-source models',
+        'Self-hosted inference',
+        'Same model as the local Transformers.js provider'
+      ],
+      environmentRequirements: [
+        'Network access to the endpoint',
+        'Hugging Face access token (Inference API only)',
+        'fetch API support'
+      ]
+    });
+
+    // OpenAI-совместимые и Ollama серверы
+    this.providerRegistry.set('custom', {
+      type: 'custom',
+      displayName: 'OpenAI-compatible / Ollama server',
+      description: 'Embedding generation on a local or self-hosted server (Ollama, llama.cpp server, LM Studio, vLLM) through the OpenAI Embeddings API or the native Ollama API.',
+      supportedDimensions: [],
+      defaultDimensions: 768,
+      requiresApiKey: false,
+      isLocal: false,
+      availableModels: [],
+      recommendedUseCases: [
+        'Self-hosted models',
+        'Data that must stay on own infrastructure',
+        'Models not offered by cloud providers'
+      ],
+      environmentRequirements: [
+        'Network access to the embedding server',
+        'CORS enabled on the server for browser use',
+        'fetch API support'
+      ]
+    });
   }
 }
 
@@ -0,0 +1,342 @@
+/**
+ * Разбиение длинных текстов на фрагменты (chunks) для эмбеддингов
+ *
+ * TextProcessor только обрезает текст до лимита модели, поэтому эмбеддинг
+ * длинной страницы теряет большую часть содержимого. TextChunker делит текст
+ * на фрагменты не длиннее maxTokens с перекрытием overlapTokens:
+ * - fixed: окна фиксированного размера по границам слов
+ * - sentence: группы предложений
+ * - paragraph: группы абзацев
+ * - markdown: разделы по заголовкам, внутри раздела - группы абзацев
+ *
+ * Фрагмент - непрерывный участок исходного текста (content === text.slice(startOffset, endOffset)).
+ */
+
+import { TextProcessor } from './TextProcessor.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Стратегия разбиения
+ */
+export type ChunkingStrategy = 'fixed' | 'sentence' | 'paragraph' | 'markdown';
+
+/**
+ * Опции разбиения
+ */
+export interface ChunkingOptions {
+  /** Стратегия (по умолчанию 'paragraph') */
+  strategy?: ChunkingStrategy;
+
+  /** Максимальный размер фрагмента в токенах (по умолчанию 256) */
+  maxTokens?: number;
+
+  /** Перекрытие соседних фрагментов в токенах (по умолчанию 32) */
+  overlapTokens?: number;
+}
+
+/**
+ * Фрагмент текста
+ */
+export interface TextChunk {
+  /** Порядковый номер фрагмента, с 0 */
+  index: number;
+
+  /** Текст фрагмента */
+  content: string;
+
+  /** Начало фрагмента в исходном тексте */
+  startOffset: number;
+
+  /** Конец фрагмента в исходном тексте (не включая) */
+  endOffset: number;
+
+  /** Приблизительное количество токенов */
+  estimatedTokens: number;
+
+  /** Путь заголовков раздела ('Guide > Install'), только для стратегии markdown */
+  heading?: string;
+}
+
+/**
+ * Участок исходного текста
+ */
+interface Span {
+  start: number;
+  end: number;
+}
+
+const DEFAULT_OPTIONS: Required<ChunkingOptions> = {
+  strategy: 'paragraph',
+  maxTokens: 256,
+  overlapTokens: 32
+};
+
+/** Приблизительное соотношение символов к токенам (как в TextProcessor.estimateTokens) */
+const CHARS_PER_TOKEN = 4;
+
+const PARAGRAPH_BREAK_REGEX = /\n[ \t]*\n/g;
+const SENTENCE_REGEX = /[^.!?…]+(?:[.!?…]+["'»)\]]*|$)/g;
+const MARKDOWN_HEADING_REGEX = /^(#{1,6})[ \t]+(.+?)[ \t]*#*[ \t]*$/gm;
+
+export class TextChunker {
+  private options: Required<ChunkingOptions>;
+
+  constructor(options: ChunkingOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...definedOnly(options) };
+
+    const { strategy, maxTokens, overlapTokens } = this.options;
+    if (!['fixed', 'sentence', 'paragraph', 'markdown'].includes(strategy)) {
+      throw new ValidationError(
+        `Unknown chunking strategy: ${strategy}`,
+        'strategy',
+        'fixed | sentence | paragraph | markdown'
+      );
+    }
+    if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+      throw new ValidationError(
+        'maxTokens must be a positive integer',
+        'maxTokens',
+        'maxTokens >= 1'
+      );
+    }
+    if (!Number.isInteger(overlapTokens) || overlapTokens < 0 || overlapTokens >= maxTokens) {
+      throw new ValidationError(
+        'overlapTokens must be an integer smaller than maxTokens',
+        'overlapTokens',
+        '0 <= overlapTokens < maxTokens'
+      );
+    }
+  }
+
+  /**
+   * Разбить текст на фрагменты
+   *
+   * Текст, который помещается в maxTokens, возвращается одним фрагментом.
+   */
+  chunk(text: string): TextChunk[] {
+    const whole = trimSpan(text, { start: 0, end: text.length });
+    if (!whole) {
+      return [];
+    }
+
+    let spans: Array<Span & { heading?: string }>;
+    switch (this.options.strategy) {
+      case 'fixed':
+        spans = this.fixedWindows(text, whole);
+        break;
+      case 'sentence':
+        spans = this.pack(text, matchSpans(text, whole, SENTENCE_REGEX));
+        break;
+      case 'paragraph':
+        spans = this.pack(text, splitSpans(text, whole, PARAGRAPH_BREAK_REGEX));
+        break;
+      case 'markdown':
+        spans = this.markdownSections(text, whole);
+        break;
+    }
+
+    return spans.map((span, index) => {
+      const content = text.slice(span.start, span.end);
+      return {
+        index,
+        content,
+        startOffset: span.start,
+        endOffset: span.end,
+        estimatedTokens: TextProcessor.estimateTokens(content),
+        ...(span.heading && { heading: span.heading })
+      };
+    });
+  }
+
+  /**
+   * Окна по maxTokens с шагом maxTokens - overlapTokens, по границам слов
+   */
+  private fixedWindows(text: string, range: Span): Span[] {
+    const maxChars = this.options.maxTokens * CHARS_PER_TOKEN;
+    const overlapChars = this.options.overlapTokens * CHARS_PER_TOKEN;
+    const windows: Span[] = [];
+
+    let start = range.start;
+    while (start < range.end) {
+      let end = Math.min(start + maxChars, range.end);
+
+      // Не разрезать слово, если пробел есть во второй половине окна
+      if (end < range.end && !/\s/.test(text[end])) {
+        const lastSpace = text.lastIndexOf(' ', end);
+        const lastBreak = Math.max(lastSpace, text.lastIndexOf('\n', end));
+        if (lastBreak > start + maxChars / 2) {
+          end = lastBreak;
+        }
+      }
+
+      const window = trimSpan(text, { start, end });
+      if (window) {
+        windows.push(window);
+      }
+      if (end >= range.end) {
+        break;
+      }
+
+      // Следующее окно начинается с границы слова внутри перекрытия
+      let next = Math.max(end - overlapChars, start + 1);
+      if (overlapChars > 0 && next > start + 1) {
+        const wordStart = text.indexOf(' ', next);
+        if (wordStart !== -1 && wordStart < end) {
+          next = wordStart + 1;
+        }
+      } else {
+        next = end;
+      }
+      start = next;
+    }
+
+    return windows;
+  }
+
+  /**
+   * Собрать подряд идущие единицы (предложения, абзацы) во фрагменты до maxTokens
+   *
+   * Перекрытие - хвостовые единицы предыдущего фрагмента общим размером до
+   * overlapTokens. Единица длиннее maxTokens делится окнами стратегии fixed.
+   */
+  private pack(text: string, units: Span[]): Span[] {
+    const { maxTokens, overlapTokens } = this.options;
+    const tokens = (span: Span) => TextProcessor.estimateTokens(text.slice(span.start, span.end));
+    const chunks: Span[] = [];
+    let current: Span[] = [];
+
+    const flush = () => {
+      if (current.length > 0) {
+        chunks.push({ start: current[0].start, end: current[current.length - 1].end });
+      }
+    };
+
+    for (const unit of units) {
+      if (tokens(unit) > maxTokens) {
+        flush();
+        current = [];
+        chunks.push(...this.fixedWindows(text, unit));
+        continue;
+      }
+
+      if (current.length > 0 && tokens({ start: current[0].start, end: unit.end }) > maxTokens) {
+        flush();
+
+        // Перекрытие: последние единицы, которые помещаются в overlapTokens и оставляют место для новой
+        const overlap: Span[] = [];
+        for (let i = current.length - 1; i >= 0; i--) {
+          const candidate = { start: current[i].start, end: current[current.length - 1].end };
+          if (tokens(candidate) > overlapTokens || tokens({ start: candidate.start, end: unit.end }) > maxTokens) {
+            break;
+          }
+          overlap.unshift(current[i]);
+        }
+        current = overlap;
+      }
+
+      current.push(unit);
+    }
+
+    flush();
+    return chunks;
+  }
+
+  /**
+   * Разделы markdown по заголовкам; фрагмент никогда не пересекает границу раздела
+   */
+  private markdownSections(text: string, range: Span): Array<Span & { heading?: string }> {
+    const headings = [...text.slice(0, range.end).matchAll(MARKDOWN_HEADING_REGEX)]
+      .filter(match => match.index! >= range.start && !insideCodeFence(text, match.index!));
+
+    const sections: Array<Span & { heading?: string }> = [];
+    const path: Array<{ level: number; title: string }> = [];
+    let sectionStart = range.start;
+    let sectionHeading: string | undefined;
+
+    const addSection = (end: number) => {
+      const section = trimSpan(text, { start: sectionStart, end });
+      if (!section) {
+        return;
+      }
+      for (const chunk of this.pack(text, splitSpans(text, section, PARAGRAPH_BREAK_REGEX))) {
+        sections.push({ ...chunk, ...(sectionHeading && { heading: sectionHeading }) });
+      }
+    };
+
+    for (const match of headings) {
+      addSection(match.index!);
+
+      const level = match[1].length;
+      while (path.length > 0 && path[path.length - 1].level >= level) {
+        path.pop();
+      }
+      path.push({ level, title: match[2] });
+
+      // Заголовок остается в тексте раздела: он дает контекст эмбеддингу
+      sectionStart = match.index!;
+      sectionHeading = path.map(entry => entry.title).join(' > ');
+    }
+    addSection(range.end);
+
+    return sections;
+  }
+}
+
+/**
+ * Разбить текст на фрагменты (сокращение для new TextChunker(options).chunk(text))
+ */
+export function chunkText(text: string, options: ChunkingOptions = {}): TextChunk[] {
+  return new TextChunker(options).chunk(text);
+}
+
+/**
+ * Участок без пробельных символов по краям, или null, если он пуст
+ */
+function trimSpan(text: string, span: Span): Span | null {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+}
+
+/**
+ * Участки между совпадениями разделителя
+ */
+function splitSpans(text: string, range: Span, separator: RegExp): Span[] {
+  const spans: Span[] = [];
+  let start = range.start;
+
+  for (const match of text.slice(range.start, range.end).matchAll(separator)) {
+    const span = trimSpan(text, { start, end: range.start + match.index! });
+    if (span) spans.push(span);
+    start = range.start + match.index! + match[0].length;
+  }
+
+  const last = trimSpan(text, { start, end: range.end });
+  if (last) spans.push(last);
+  return spans;
+}
+
+/**
+ * Участки, совпавшие с шаблоном
+ */
+function matchSpans(text: string, range: Span, pattern: RegExp): Span[] {
+  const spans: Span[] = [];
+  for (const match of text.slice(range.start, range.end).matchAll(pattern)) {
+    const span = trimSpan(text, { start: range.start + match.index!, end: range.start + match.index! + match[0].length });
+    if (span) spans.push(span);
+  }
+  return spans;
+}
+
+/**
+ * Находится ли позиция внутри блока кода ``` (там '#' - не заголовок)
+ */
+function insideCodeFence(text: string, position: number): boolean {
+  const fences = text.slice(0, position).match(/^```/gm);
+  return (fences?.length ?? 0) % 2 === 1;
+}
+
+function definedOnly<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
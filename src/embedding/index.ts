@@ -30,6 +30,29 @@ export {
   getRecommendedConfig
 } from './providers/OpenAIProvider.js';
 
+export {
+  CohereProvider,
+  createCohereProvider,
+  isValidCohereModelDimensionCombo,
+  type CohereInputType
+} from './providers/CohereProvider.js';
+
+export {
+  HuggingFaceProvider,
+  createHuggingFaceProvider,
+  getHuggingFaceModelDimensions,
+  type HuggingFaceEndpoint
+} from './providers/HuggingFaceProvider.js';
+
+export {
+  OpenAICompatibleProvider,
+  createOpenAICompatibleProvider,
+  detectCompatibleDimensions,
+  type CompatibleApiFormat,
+  type CompatibleProviderLimits,
+  type CompatibleEndpointConfig
+} from './providers/OpenAICompatibleProvider.js';
+
 export {
   TransformersProvider,
   createTransformersProvider,
@@ -102,6 +125,14 @@ export {
   type ProcessingStatistics
 } from './TextProcessor.js';
 
+export {
+  TextChunker,
+  chunkText,
+  type ChunkingStrategy,
+  type ChunkingOptions,
+  type TextChunk
+} from './TextChunker.js';
+
 // Utility classes and interfaces
 export {
   EmbeddingUtils,
@@ -192,21 +223,21 @@ export const SUPPORTED_PROVIDERS: Record<import('./types.js').EmbeddingProviderT
   cohere: {
     name: 'Cohere Embeddings',
     type: 'external',
-    description: 'Cohere embedding models (coming soon)',
+    description: 'Cohere embed-v4.0 and embed-v3.0 models with query/document input types',
     requiresApiKey: true,
-    supportedDimensions: [384, 768, 1024]
+    supportedDimensions: [256, 384, 512, 1024, 1536]
   },
   huggingface: {
     name: 'Hugging Face',
     type: 'external',
-    description: 'Hugging Face Inference API (coming soon)',
-    requiresApiKey: true,
+    description: 'Hugging Face Inference API and Text Embeddings Inference (TEI) servers',
+    requiresApiKey: false,
     supportedDimensions: [384, 768, 1024]
   },
   custom: {
     name: 'Custom Provider',
     type: 'external',
-    description: 'Custom embedding provider implementation',
+    description: 'OpenAI-compatible or Ollama embedding server (llama.cpp, LM Studio, vLLM)',
     requiresApiKey: false,
     supportedDimensions: []
   }
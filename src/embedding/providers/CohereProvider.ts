@@ -0,0 +1,443 @@
+/**
+ * Cohere провайдер эмбеддингов для LocalRetrieve
+ *
+ * Реализует провайдер для Cohere Embed API (v2). Модели Cohere обучены
+ * различать поисковые запросы и документы, поэтому каждый запрос передает
+ * input_type: 'search_query' для generateEmbedding (запросы) и
+ * 'search_document' для generateBatch (индексация).
+ *
+ * Поддерживаемые возможности:
+ * - embed-v4.0 с конфигурируемой размерностью (256, 512, 1024, 1536)
+ * - embed-english/multilingual-v3.0 (1024) и light-версии (384)
+ * - Retry при rate limit (Retry-After) и ошибках сервера
+ * - Пакеты до 96 текстов
+ */
+
+import { ExternalProvider, type ExternalProviderConfig, type EmbeddingPurpose } from './ExternalProvider.js';
+import type { EmbeddingConfig } from '../types.js';
+import {
+  ProviderError,
+  NetworkError,
+  AuthenticationError,
+  QuotaExceededError,
+  ValidationError,
+  ConfigurationError
+} from '../errors.js';
+
+/**
+ * Значения input_type Cohere API
+ */
+export type CohereInputType = 'search_document' | 'search_query' | 'classification' | 'clustering';
+
+/**
+ * Конфигурация Cohere провайдера (providerOptions)
+ */
+interface CohereConfig extends ExternalProviderConfig {
+  /** Модель */
+  model: string;
+
+  /** Фиксированный input_type вместо выбора по назначению (например, 'clustering') */
+  inputType?: CohereInputType;
+
+  /** Обрезка длинных текстов на стороне API (по умолчанию 'END') */
+  truncate?: 'NONE' | 'START' | 'END';
+}
+
+/**
+ * Поддерживаемые модели Cohere
+ */
+const COHERE_MODELS = {
+  'embed-v4.0': {
+    name: 'embed-v4.0',
+    maxInputTokens: 128000,
+    defaultDimensions: 1536,
+    supportedDimensions: [256, 512, 1024, 1536],
+    multilingual: true,
+    costPer1MTokens: 0.12 // USD
+  },
+  'embed-english-v3.0': {
+    name: 'embed-english-v3.0',
+    maxInputTokens: 512,
+    defaultDimensions: 1024,
+    supportedDimensions: [1024],
+    multilingual: false,
+    costPer1MTokens: 0.10 // USD
+  },
+  'embed-multilingual-v3.0': {
+    name: 'embed-multilingual-v3.0',
+    maxInputTokens: 512,
+    defaultDimensions: 1024,
+    supportedDimensions: [1024],
+    multilingual: true,
+    costPer1MTokens: 0.10 // USD
+  },
+  'embed-english-light-v3.0': {
+    name: 'embed-english-light-v3.0',
+    maxInputTokens: 512,
+    defaultDimensions: 384,
+    supportedDimensions: [384],
+    multilingual: false,
+    costPer1MTokens: 0.10 // USD
+  },
+  'embed-multilingual-light-v3.0': {
+    name: 'embed-multilingual-light-v3.0',
+    maxInputTokens: 512,
+    defaultDimensions: 384,
+    supportedDimensions: [384],
+    multilingual: true,
+    costPer1MTokens: 0.10 // USD
+  }
+} as const;
+
+/** Максимум текстов в одном запросе к Cohere Embed API */
+const COHERE_MAX_BATCH_SIZE = 96;
+
+/**
+ * Структура запроса к Cohere Embed API v2
+ */
+interface CohereEmbedRequest {
+  model: string;
+  texts: string[];
+  input_type: CohereInputType;
+  embedding_types: ['float'];
+  truncate?: 'NONE' | 'START' | 'END';
+  output_dimension?: number;
+}
+
+/**
+ * Структура ответа Cohere Embed API v2
+ */
+interface CohereEmbedResponse {
+  id: string;
+  embeddings: {
+    float?: number[][];
+  };
+  texts?: string[];
+  meta?: {
+    billed_units?: { input_tokens?: number };
+  };
+}
+
+/**
+ * Cohere провайдер эмбеддингов
+ */
+export class CohereProvider extends ExternalProvider {
+  private cohereConfig?: CohereConfig;
+  private model: string;
+
+  /**
+   * Создание экземпляра Cohere провайдера
+   *
+   * @param dimensions - Размерность векторов эмбеддингов
+   * @param model - Модель Cohere (по умолчанию embed-multilingual-v3.0)
+   */
+  constructor(
+    dimensions: number,
+    model: string = 'embed-multilingual-v3.0'
+  ) {
+    if (!isValidCohereModelDimensionCombo(model, dimensions)) {
+      if (!(model in COHERE_MODELS)) {
+        throw new ConfigurationError(
+          `Unsupported Cohere model: ${model}`,
+          'model',
+          `One of: ${Object.keys(COHERE_MODELS).join(', ')}`,
+          model
+        );
+      }
+
+      const modelInfo = COHERE_MODELS[model as keyof typeof COHERE_MODELS];
+      throw new ConfigurationError(
+        `Unsupported dimensions ${dimensions} for model ${model}`,
+        'dimensions',
+        `One of: ${modelInfo.supportedDimensions.join(', ')}`,
+        dimensions
+      );
+    }
+
+    const modelInfo = COHERE_MODELS[model as keyof typeof COHERE_MODELS];
+
+    super(
+      'cohere',
+      dimensions,
+      COHERE_MAX_BATCH_SIZE,
+      modelInfo.maxInputTokens * 4 // Приблизительно 4 символа на токен
+    );
+
+    this.model = model;
+  }
+
+  /**
+   * Инициализация Cohere провайдера
+   */
+  protected async initializeProvider(config: ExternalProviderConfig): Promise<void> {
+    const options = this.config?.providerOptions ?? {};
+
+    this.cohereConfig = {
+      ...config,
+      model: this.model,
+      baseUrl: (config.baseUrl || 'https://api.cohere.com').replace(/\/+$/, ''),
+      inputType: options.inputType,
+      truncate: options.truncate ?? 'END'
+    };
+
+    // Тестовый запрос: неверный ключ должен проявиться при создании коллекции, а не при первой вставке
+    try {
+      await this.executeEmbeddingRequest(['test'], 'query');
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      console.warn(`Cohere provider test request failed: ${error}`);
+    }
+  }
+
+  /**
+   * Выполнение запроса к Cohere Embed API
+   */
+  protected async executeEmbeddingRequest(texts: string[], purpose: EmbeddingPurpose): Promise<Float32Array[]> {
+    if (!this.cohereConfig) {
+      throw new ProviderError(
+        'Provider not initialized',
+        this.name,
+        'PROVIDER_NOT_INITIALIZED'
+      );
+    }
+
+    const modelInfo = COHERE_MODELS[this.model as keyof typeof COHERE_MODELS];
+    const requestBody: CohereEmbedRequest = {
+      model: this.model,
+      texts,
+      input_type: this.cohereConfig.inputType ?? (purpose === 'query' ? 'search_query' : 'search_document'),
+      embedding_types: ['float'],
+      truncate: this.cohereConfig.truncate
+    };
+
+    // output_dimension поддерживается только моделями с несколькими размерностями
+    if (modelInfo.supportedDimensions.length > 1 && this.dimensions !== modelInfo.defaultDimensions) {
+      requestBody.output_dimension = this.dimensions;
+    }
+
+    const url = `${this.cohereConfig.baseUrl}/v2/embed`;
+    const response = await this.postJson<CohereEmbedResponse>(url, requestBody, {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${this.cohereConfig.apiKey}`,
+      'X-Client-Name': 'LocalRetrieve',
+      ...this.cohereConfig.headers
+    });
+
+    if (!response.ok) {
+      throw this.createErrorFromResponse(response.status, response.data, response.headers, url);
+    }
+
+    return this.processSuccessfulResponse(response.data, texts.length);
+  }
+
+  /**
+   * Проверка здоровья Cohere провайдера
+   */
+  protected async checkProviderHealth(): Promise<boolean> {
+    try {
+      await this.executeEmbeddingRequest(['health check'], 'query');
+      return true;
+    } catch (error) {
+      console.warn(`Cohere provider health check failed: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Очистка ресурсов Cohere провайдера
+   */
+  protected async cleanupProvider(): Promise<void> {
+    // Очищаем конфигурацию (включая API ключ)
+    this.cohereConfig = undefined;
+  }
+
+  /**
+   * Получение информации о поддерживаемых моделях
+   */
+  public static getAvailableModels() {
+    return Object.entries(COHERE_MODELS).map(([id, info]) => ({
+      id,
+      name: info.name,
+      description: `Cohere ${info.name} embedding model`,
+      dimensions: info.defaultDimensions,
+      supportedDimensions: [...info.supportedDimensions],
+      maxInputLength: info.maxInputTokens,
+      languages: info.multilingual ? ['multilingual'] : ['en'],
+      useCases: ['semantic search', 'classification', 'clustering', 'retrieval'],
+      costPerToken: info.costPer1MTokens / 1000000
+    }));
+  }
+
+  /**
+   * Создание специфичной ошибки на основе ответа API
+   *
+   * Cohere возвращает { message } для всех ошибок; 498 - неверный токен,
+   * 402 - исчерпан баланс (повтор не поможет).
+   */
+  private createErrorFromResponse(status: number, errorData: any, headers: Headers, url: string): Error {
+    const errorMessage = (typeof errorData === 'object' && errorData?.message) || String(errorData || 'Unknown Cohere API error');
+
+    switch (status) {
+      case 401:
+      case 498:
+        return new AuthenticationError(
+          `Cohere API authentication failed: ${errorMessage}`,
+          'invalid_key',
+          { provider: this.name, status }
+        );
+
+      case 403:
+        return new AuthenticationError(
+          `Cohere API access denied: ${errorMessage}`,
+          'insufficient_permissions',
+          { provider: this.name, status }
+        );
+
+      case 402:
+        return new QuotaExceededError(
+          `Cohere API billing limit reached: ${errorMessage}`,
+          'api_calls',
+          0,
+          0,
+          undefined,
+          { provider: this.name, status }
+        );
+
+      case 429:
+        return new QuotaExceededError(
+          `Cohere API rate limit exceeded: ${errorMessage}`,
+          'api_calls',
+          0,
+          0,
+          this.parseRetryAfter(headers, 60000),
+          { provider: this.name, status }
+        );
+
+      case 400:
+      case 422:
+        if (/model|dimension/i.test(errorMessage)) {
+          return new ConfigurationError(
+            `Cohere API configuration error: ${errorMessage}`,
+            'model',
+            undefined,
+            this.model,
+            { provider: this.name, status }
+          );
+        }
+        return new ValidationError(
+          `Cohere API validation error: ${errorMessage}`,
+          'texts',
+          'Cohere API validation',
+          { provider: this.name, status }
+        );
+
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+        return new NetworkError(
+          `Cohere API server error: ${errorMessage}`,
+          'server_error',
+          status,
+          url,
+          { provider: this.name }
+        );
+
+      default:
+        return new ProviderError(
+          `Cohere API error (${status}): ${errorMessage}`,
+          this.name,
+          'COHERE_API_ERROR',
+          undefined,
+          { status }
+        );
+    }
+  }
+
+  /**
+   * Обработка успешного ответа от Cohere API
+   */
+  private processSuccessfulResponse(response: CohereEmbedResponse, expectedCount: number): Float32Array[] {
+    const embeddings = response?.embeddings?.float;
+    if (!Array.isArray(embeddings) || embeddings.length !== expectedCount) {
+      throw new ProviderError(
+        `Invalid response format from Cohere API: expected ${expectedCount} float embeddings`,
+        this.name,
+        'INVALID_RESPONSE_FORMAT'
+      );
+    }
+
+    return embeddings.map((embedding, index) => {
+      if (!Array.isArray(embedding)) {
+        throw new ProviderError(
+          `Invalid embedding format at index ${index}`,
+          this.name,
+          'INVALID_EMBEDDING_FORMAT'
+        );
+      }
+
+      if (embedding.length !== this.dimensions) {
+        throw new ProviderError(
+          `Embedding dimension mismatch: expected ${this.dimensions}, got ${embedding.length}`,
+          this.name,
+          'DIMENSION_MISMATCH'
+        );
+      }
+
+      return new Float32Array(embedding);
+    });
+  }
+
+  /**
+   * Валидация конфигурации для Cohere провайдера
+   */
+  public validateConfig(config: EmbeddingConfig) {
+    const baseValidation = super.validateConfig(config);
+
+    const errors = [...baseValidation.errors];
+    const warnings = [...baseValidation.warnings];
+    const suggestions = [...baseValidation.suggestions];
+
+    if (!config.apiKey) {
+      errors.push('Cohere API key is required');
+      suggestions.push('Set apiKey in configuration');
+    }
+
+    const inputType = config.providerOptions?.inputType;
+    if (inputType !== undefined && !['search_document', 'search_query', 'classification', 'clustering'].includes(inputType)) {
+      errors.push(`Unsupported Cohere input_type: ${inputType}`);
+      suggestions.push('Use one of: search_document, search_query, classification, clustering');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      suggestions
+    };
+  }
+}
+
+/**
+ * Фабричная функция для создания Cohere провайдера
+ */
+export function createCohereProvider(
+  dimensions: number,
+  model: string = 'embed-multilingual-v3.0'
+): CohereProvider {
+  return new CohereProvider(dimensions, model);
+}
+
+/**
+ * Проверка поддерживается ли комбинация модели Cohere и размерности
+ */
+export function isValidCohereModelDimensionCombo(model: string, dimensions: number): boolean {
+  if (!(model in COHERE_MODELS)) {
+    return false;
+  }
+
+  const modelInfo = COHERE_MODELS[model as keyof typeof COHERE_MODELS];
+  return (modelInfo.supportedDimensions as readonly number[]).includes(dimensions);
+}
@@ -49,6 +49,25 @@ export interface ExternalProviderConfig {
   headers?: Record<string, string>;
 }
 
+/**
+ * Назначение эмбеддинга: поисковый запрос или индексируемый документ
+ *
+ * generateEmbedding используется для запросов, generateBatch - для индексации.
+ * Провайдеры, модели которых различают запросы и документы (Cohere input_type),
+ * учитывают это в executeEmbeddingRequest.
+ */
+export type EmbeddingPurpose = 'query' | 'document';
+
+/**
+ * Ответ HTTP запроса к API провайдера
+ */
+export interface JsonResponse<T = any> {
+  status: number;
+  ok: boolean;
+  data: T;
+  headers: Headers;
+}
+
 /**
  * Информация о rate limiting
  */
@@ -120,7 +139,7 @@ export abstract class ExternalProvider extends BaseEmbeddingProvider {
     }
 
     // Проверка обязательного API ключа
-    if (!config.apiKey) {
+    if (!config.apiKey && this.requiresApiKey(config)) {
       throw new AuthenticationError(
         'API key is required for external providers',
         'invalid_key',
@@ -132,7 +151,7 @@ export abstract class ExternalProvider extends BaseEmbeddingProvider {
     this.config = {
       ...ExternalProvider.DEFAULT_CONFIG,
       ...config,
-      apiKey: config.apiKey,
+      apiKey: config.apiKey ?? '',
       baseUrl: (config as any).providerOptions?.baseUrl,
       timeout: (config as any).timeout || ExternalProvider.DEFAULT_CONFIG.timeout,
       maxRetries: (config as any).maxRetries || ExternalProvider.DEFAULT_CONFIG.maxRetries,
@@ -179,7 +198,7 @@ export abstract class ExternalProvider extends BaseEmbeddingProvider {
         await this.waitForRateLimit();
 
         // Выполнение запроса
-        const embedding = await this.executeEmbeddingRequest([text]);
+        const embedding = await this.executeEmbeddingRequest([text], 'query');
 
         // Обновление метрик
         const generationTime = Date.now() - startTime;
@@ -226,7 +245,7 @@ export abstract class ExternalProvider extends BaseEmbeddingProvider {
         await this.waitForRateLimit();
 
         // Выполнение запроса
-        const embeddings = await this.executeEmbeddingRequest(texts);
+        const embeddings = await this.executeEmbeddingRequest(texts, 'document');
 
         // Обновление метрик
         const generationTime = Date.now() - startTime;
@@ -336,7 +355,7 @@ export abstract class ExternalProvider extends BaseEmbeddingProvider {
   /**
    * Выполнение запроса к API для генерации эмбеддингов
    */
-  protected abstract executeEmbeddingRequest(texts: string[]): Promise<Float32Array[]>;
+  protected abstract executeEmbeddingRequest(texts: string[], purpose: EmbeddingPurpose): Promise<Float32Array[]>;
 
   /**
    * Проверка здоровья специфичная для провайдера
@@ -348,6 +367,78 @@ export abstract class ExternalProvider extends BaseEmbeddingProvider {
    */
   protected abstract cleanupProvider(): Promise<void>;
 
+  /**
+   * Нужен ли API ключ (self-hosted endpoints могут работать без него)
+   */
+  protected requiresApiKey(_config: EmbeddingConfig): boolean {
+    return true;
+  }
+
+  /**
+   * POST запрос с JSON телом и таймаутом из конфигурации
+   *
+   * Таймаут и недоступность сервера превращаются в NetworkError; разбор
+   * HTTP ошибок остается провайдеру, так как формат тела у каждого API свой.
+   */
+  protected async postJson<T = any>(url: string, body: unknown, headers: Record<string, string>): Promise<JsonResponse<T>> {
+    const timeout = this.config?.timeout || ExternalProvider.DEFAULT_CONFIG.timeout;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      // Тело ошибки может быть не JSON (например, HTML от прокси)
+      const text = await response.text();
+      let data: any = text;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch {
+        // Оставляем текст как есть
+      }
+
+      return { status: response.status, ok: response.ok, data, headers: response.headers };
+
+    } catch (error: unknown) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new NetworkError(`Request timeout after ${timeout}ms`, 'timeout', undefined, url, { provider: this.name });
+      }
+
+      if (error instanceof TypeError) {
+        throw new NetworkError(`Network connection failed: ${error.message}`, 'connection', undefined, url, { provider: this.name });
+      }
+
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Время сброса лимита из заголовка Retry-After (секунды или HTTP дата)
+   */
+  protected parseRetryAfter(headers: Headers, fallbackMs?: number): Date | undefined {
+    const value = headers.get('retry-after');
+    if (value !== null && value.trim() !== '') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds)) {
+        return new Date(Date.now() + Math.max(seconds, 0) * 1000);
+      }
+
+      const date = Date.parse(value);
+      if (!Number.isNaN(date)) {
+        return new Date(date);
+      }
+    }
+
+    return fallbackMs !== undefined ? new Date(Date.now() + fallbackMs) : undefined;
+  }
+
   // Приватные методы для управления rate limiting и retry логикой
 
   /**
@@ -410,9 +501,9 @@ export abstract class ExternalProvider extends BaseEmbeddingProvider {
       return error.recoveryInfo?.canRetry ?? false;
     }
 
-    // Повторяем при превышении квот (rate limit)
+    // Повторяем при rate limit; исчерпанный баланс/квота без времени сброса не восстановится сама
     if (error instanceof QuotaExceededError) {
-      return true;
+      return error.resetTime !== undefined;
     }
 
     // Повторяем при таймаутах
@@ -0,0 +1,404 @@
+/**
+ * Hugging Face провайдер эмбеддингов для LocalRetrieve
+ *
+ * Поддерживает два вида endpoints с одинаковой моделью данных (массив векторов):
+ * - 'inference': Hugging Face Inference API (serverless), модель из Hub в URL
+ * - 'tei': Text Embeddings Inference - self-hosted сервер или Inference Endpoint,
+ *   модель определяется сервером, API ключ необязателен
+ *
+ * Модели без pooling на стороне сервера возвращают эмбеддинги токенов;
+ * такие ответы усредняются (mean pooling) до одного вектора на текст.
+ */
+
+import { ExternalProvider, type ExternalProviderConfig } from './ExternalProvider.js';
+import type { EmbeddingConfig } from '../types.js';
+import {
+  ProviderError,
+  NetworkError,
+  AuthenticationError,
+  QuotaExceededError,
+  ValidationError,
+  ConfigurationError
+} from '../errors.js';
+
+/**
+ * Тип endpoint
+ */
+export type HuggingFaceEndpoint = 'inference' | 'tei';
+
+/**
+ * Конфигурация Hugging Face провайдера (providerOptions)
+ */
+interface HuggingFaceConfig extends ExternalProviderConfig {
+  /** Модель из Hub (для 'inference') */
+  model: string;
+
+  /** Тип endpoint */
+  endpoint: HuggingFaceEndpoint;
+
+  /** L2-нормализация векторов на стороне сервера (только 'tei', по умолчанию true) */
+  normalize: boolean;
+}
+
+/**
+ * Известные модели (любая sentence-transformers модель из Hub тоже работает)
+ */
+const HUGGINGFACE_MODELS = {
+  'sentence-transformers/all-MiniLM-L6-v2': { dimensions: 384, maxInputTokens: 256, multilingual: false },
+  'sentence-transformers/all-mpnet-base-v2': { dimensions: 768, maxInputTokens: 384, multilingual: false },
+  'sentence-transformers/paraphrase-multilingual-MiniLM-L12-v2': { dimensions: 384, maxInputTokens: 128, multilingual: true },
+  'BAAI/bge-small-en-v1.5': { dimensions: 384, maxInputTokens: 512, multilingual: false },
+  'BAAI/bge-base-en-v1.5': { dimensions: 768, maxInputTokens: 512, multilingual: false },
+  'BAAI/bge-m3': { dimensions: 1024, maxInputTokens: 8192, multilingual: true },
+  'intfloat/multilingual-e5-large': { dimensions: 1024, maxInputTokens: 512, multilingual: true }
+} as const;
+
+const DEFAULT_MODEL = 'sentence-transformers/all-MiniLM-L6-v2';
+const DEFAULT_INFERENCE_URL = 'https://router.huggingface.co/hf-inference/models';
+
+/** TEI по умолчанию принимает до 32 текстов в запросе (--max-client-batch-size) */
+const HUGGINGFACE_MAX_BATCH_SIZE = 32;
+
+/**
+ * Hugging Face провайдер эмбеддингов
+ */
+export class HuggingFaceProvider extends ExternalProvider {
+  private hfConfig?: HuggingFaceConfig;
+  private model: string;
+
+  /**
+   * Создание экземпляра Hugging Face провайдера
+   *
+   * @param dimensions - Размерность векторов (должна совпадать с моделью)
+   * @param model - Модель из Hub (по умолчанию sentence-transformers/all-MiniLM-L6-v2)
+   */
+  constructor(
+    dimensions: number,
+    model: string = DEFAULT_MODEL
+  ) {
+    const known = HUGGINGFACE_MODELS[model as keyof typeof HUGGINGFACE_MODELS];
+    if (known && known.dimensions !== dimensions) {
+      throw new ConfigurationError(
+        `Model ${model} produces ${known.dimensions}-dimensional embeddings, got ${dimensions}`,
+        'dimensions',
+        String(known.dimensions),
+        dimensions
+      );
+    }
+
+    super(
+      'huggingface',
+      dimensions,
+      HUGGINGFACE_MAX_BATCH_SIZE,
+      (known?.maxInputTokens ?? 512) * 4 // Приблизительно 4 символа на токен
+    );
+
+    this.model = model;
+  }
+
+  /**
+   * Инициализация Hugging Face провайдера
+   */
+  protected async initializeProvider(config: ExternalProviderConfig): Promise<void> {
+    const options = this.config?.providerOptions ?? {};
+    const endpoint: HuggingFaceEndpoint = options.endpoint ?? 'inference';
+
+    if (endpoint === 'tei' && !config.baseUrl) {
+      throw new ConfigurationError(
+        'Text Embeddings Inference endpoint requires providerOptions.baseUrl',
+        'baseUrl',
+        'URL of the TEI server, e.g. http://localhost:8080',
+        undefined
+      );
+    }
+
+    this.hfConfig = {
+      ...config,
+      model: this.model,
+      endpoint,
+      normalize: options.normalize ?? true,
+      baseUrl: (config.baseUrl || DEFAULT_INFERENCE_URL).replace(/\/+$/, '')
+    };
+
+    // Тестовый запрос: неверный ключ или модель должны проявиться сразу
+    try {
+      await this.executeEmbeddingRequest(['test']);
+    } catch (error) {
+      if (error instanceof AuthenticationError || error instanceof ConfigurationError) {
+        throw error;
+      }
+      console.warn(`Hugging Face provider test request failed: ${error}`);
+    }
+  }
+
+  /**
+   * Self-hosted TEI обычно работает без ключа
+   */
+  protected requiresApiKey(config: EmbeddingConfig): boolean {
+    return config.providerOptions?.endpoint !== 'tei';
+  }
+
+  /**
+   * Выполнение запроса к Inference API или TEI
+   */
+  protected async executeEmbeddingRequest(texts: string[]): Promise<Float32Array[]> {
+    if (!this.hfConfig) {
+      throw new ProviderError(
+        'Provider not initialized',
+        this.name,
+        'PROVIDER_NOT_INITIALIZED'
+      );
+    }
+
+    const isTei = this.hfConfig.endpoint === 'tei';
+    const url = isTei
+      ? `${this.hfConfig.baseUrl}/embed`
+      : `${this.hfConfig.baseUrl}/${this.model}/pipeline/feature-extraction`;
+
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      ...this.hfConfig.headers
+    };
+    if (this.hfConfig.apiKey) {
+      headers['Authorization'] = `Bearer ${this.hfConfig.apiKey}`;
+    }
+    if (!isTei) {
+      // Ждать загрузки холодной модели вместо немедленного 503
+      headers['X-Wait-For-Model'] = 'true';
+    }
+
+    const requestBody = isTei
+      ? { inputs: texts, normalize: this.hfConfig.normalize, truncate: true }
+      : { inputs: texts };
+
+    const response = await this.postJson(url, requestBody, headers);
+
+    if (!response.ok) {
+      throw this.createErrorFromResponse(response.status, response.data, response.headers, url);
+    }
+
+    return this.processSuccessfulResponse(response.data, texts.length);
+  }
+
+  /**
+   * Проверка здоровья Hugging Face провайдера
+   */
+  protected async checkProviderHealth(): Promise<boolean> {
+    try {
+      await this.executeEmbeddingRequest(['health check']);
+      return true;
+    } catch (error) {
+      console.warn(`Hugging Face provider health check failed: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Очистка ресурсов Hugging Face провайдера
+   */
+  protected async cleanupProvider(): Promise<void> {
+    // Очищаем конфигурацию (включая API ключ)
+    this.hfConfig = undefined;
+  }
+
+  /**
+   * Получение информации об известных моделях
+   */
+  public static getAvailableModels() {
+    return Object.entries(HUGGINGFACE_MODELS).map(([id, info]) => ({
+      id,
+      name: id.split('/')[1],
+      description: `Hugging Face ${id} sentence embedding model`,
+      dimensions: info.dimensions,
+      maxInputLength: info.maxInputTokens,
+      languages: info.multilingual ? ['multilingual'] : ['en'],
+      useCases: ['semantic search', 'similarity', 'clustering']
+    }));
+  }
+
+  /**
+   * Создание специфичной ошибки на основе ответа API
+   *
+   * Inference API и TEI возвращают { error } (TEI добавляет error_type).
+   */
+  private createErrorFromResponse(status: number, errorData: any, headers: Headers, url: string): Error {
+    const rawError = typeof errorData === 'object' && errorData !== null ? errorData.error : errorData;
+    const errorMessage = (Array.isArray(rawError) ? rawError.join('; ') : rawError) || 'Unknown Hugging Face API error';
+    const errorType = typeof errorData === 'object' && errorData !== null ? errorData.error_type : undefined;
+
+    switch (status) {
+      case 401:
+        return new AuthenticationError(
+          `Hugging Face API authentication failed: ${errorMessage}`,
+          'invalid_key',
+          { provider: this.name, status }
+        );
+
+      case 403:
+        return new AuthenticationError(
+          `Hugging Face API access denied: ${errorMessage}`,
+          'insufficient_permissions',
+          { provider: this.name, status, model: this.model }
+        );
+
+      case 402:
+        return new QuotaExceededError(
+          `Hugging Face Inference credits exhausted: ${errorMessage}`,
+          'api_calls',
+          0,
+          0,
+          undefined,
+          { provider: this.name, status }
+        );
+
+      case 429:
+        return new QuotaExceededError(
+          `Hugging Face API rate limit exceeded: ${errorMessage}`,
+          'api_calls',
+          0,
+          0,
+          this.parseRetryAfter(headers, 60000),
+          { provider: this.name, status, errorType }
+        );
+
+      case 404:
+        return new ConfigurationError(
+          `Hugging Face model or endpoint not found: ${errorMessage}`,
+          'model',
+          'Model id from the Hugging Face Hub with feature-extraction support',
+          this.model,
+          { provider: this.name, status, url }
+        );
+
+      case 400:
+      case 413:
+      case 422:
+        return new ValidationError(
+          `Hugging Face API validation error: ${errorMessage}`,
+          'inputs',
+          'Hugging Face API validation',
+          { provider: this.name, status, errorType }
+        );
+
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+        // 503 - модель загружается или TEI перегружен (error_type 'overloaded')
+        return new NetworkError(
+          `Hugging Face API server error: ${errorMessage}`,
+          'server_error',
+          status,
+          url,
+          { provider: this.name, errorType }
+        );
+
+      default:
+        return new ProviderError(
+          `Hugging Face API error (${status}): ${errorMessage}`,
+          this.name,
+          'HUGGINGFACE_API_ERROR',
+          undefined,
+          { status, errorType }
+        );
+    }
+  }
+
+  /**
+   * Обработка успешного ответа: number[][] или эмбеддинги токенов number[][][]
+   */
+  private processSuccessfulResponse(response: unknown, expectedCount: number): Float32Array[] {
+    if (!Array.isArray(response) || response.length !== expectedCount) {
+      throw new ProviderError(
+        `Invalid response format from Hugging Face API: expected ${expectedCount} embeddings`,
+        this.name,
+        'INVALID_RESPONSE_FORMAT'
+      );
+    }
+
+    return response.map((item, index) => {
+      const embedding = Array.isArray(item) && Array.isArray(item[0]) ? meanPool(item as number[][]) : item;
+
+      if (!Array.isArray(embedding) || typeof embedding[0] !== 'number') {
+        throw new ProviderError(
+          `Invalid embedding format at index ${index}`,
+          this.name,
+          'INVALID_EMBEDDING_FORMAT'
+        );
+      }
+
+      if (embedding.length !== this.dimensions) {
+        throw new ProviderError(
+          `Embedding dimension mismatch: expected ${this.dimensions}, got ${embedding.length}`,
+          this.name,
+          'DIMENSION_MISMATCH'
+        );
+      }
+
+      return new Float32Array(embedding);
+    });
+  }
+
+  /**
+   * Валидация конфигурации для Hugging Face провайдера
+   */
+  public validateConfig(config: EmbeddingConfig) {
+    const baseValidation = super.validateConfig(config);
+
+    const errors = [...baseValidation.errors];
+    const warnings = [...baseValidation.warnings];
+    const suggestions = [...baseValidation.suggestions];
+
+    const endpoint = config.providerOptions?.endpoint ?? 'inference';
+    if (endpoint !== 'inference' && endpoint !== 'tei') {
+      errors.push(`Unsupported Hugging Face endpoint: ${endpoint}`);
+      suggestions.push("Use 'inference' or 'tei'");
+    }
+
+    if (endpoint === 'inference' && !config.apiKey) {
+      errors.push('Hugging Face Inference API requires an access token');
+      suggestions.push('Set apiKey to a Hugging Face access token (hf_...)');
+    }
+
+    if (!(this.model in HUGGINGFACE_MODELS)) {
+      warnings.push(`Model ${this.model} is not in the list of known models; its dimensions are checked on the first request`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      suggestions
+    };
+  }
+}
+
+/**
+ * Фабричная функция для создания Hugging Face провайдера
+ */
+export function createHuggingFaceProvider(
+  dimensions: number,
+  model: string = DEFAULT_MODEL
+): HuggingFaceProvider {
+  return new HuggingFaceProvider(dimensions, model);
+}
+
+/**
+ * Размерность известной модели Hugging Face (undefined для неизвестных)
+ */
+export function getHuggingFaceModelDimensions(model: string): number | undefined {
+  return HUGGINGFACE_MODELS[model as keyof typeof HUGGINGFACE_MODELS]?.dimensions;
+}
+
+/**
+ * Среднее по эмбеддингам токенов
+ */
+function meanPool(tokens: number[][]): number[] {
+  const pooled = new Array<number>(tokens[0].length).fill(0);
+  for (const token of tokens) {
+    for (let i = 0; i < pooled.length; i++) {
+      pooled[i] += token[i];
+    }
+  }
+  return pooled.map(value => value / tokens.length);
+}
@@ -0,0 +1,431 @@
+/**
+ * Провайдер для OpenAI-совместимых и Ollama серверов эмбеддингов (тип 'custom')
+ *
+ * Предназначен для локальных и self-hosted серверов: Ollama, llama.cpp server,
+ * LM Studio, vLLM, LocalAI и любых других с OpenAI Embeddings API.
+ *
+ * Поддерживаемые форматы API (providerOptions.api):
+ * - 'openai': POST {baseUrl}/embeddings, ответ { data: [{ index, embedding }] }
+ * - 'ollama': POST {baseUrl}/api/embed, ответ { embeddings: number[][] }
+ *
+ * Модель и размерность определяются сервером, поэтому при инициализации
+ * размерность проверяется тестовым запросом; detectDimensions позволяет
+ * узнать ее до создания коллекции.
+ */
+
+import { ExternalProvider, type ExternalProviderConfig } from './ExternalProvider.js';
+import type { EmbeddingConfig, CollectionEmbeddingConfig } from '../types.js';
+import {
+  ProviderError,
+  NetworkError,
+  AuthenticationError,
+  QuotaExceededError,
+  ValidationError,
+  ConfigurationError
+} from '../errors.js';
+
+/**
+ * Формат API сервера
+ */
+export type CompatibleApiFormat = 'openai' | 'ollama';
+
+/**
+ * Ограничения экземпляра провайдера
+ */
+export interface CompatibleProviderLimits {
+  /** Максимум текстов в одном запросе (по умолчанию 32) */
+  maxBatchSize?: number;
+
+  /** Максимальная длина текста в символах (по умолчанию 8192) */
+  maxTextLength?: number;
+}
+
+/**
+ * Конфигурация OpenAI-совместимого провайдера (providerOptions)
+ */
+interface CompatibleConfig extends ExternalProviderConfig {
+  /** Модель на сервере */
+  model: string;
+
+  /** Формат API */
+  api: CompatibleApiFormat;
+
+  /** Заголовок для API ключа (по умолчанию Authorization с префиксом Bearer) */
+  authHeader: string;
+}
+
+/**
+ * Параметры, по которым можно определить размерность модели сервера
+ */
+export type CompatibleEndpointConfig = Pick<CollectionEmbeddingConfig, 'model' | 'apiKey' | 'providerOptions'>;
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+const DEFAULT_MAX_BATCH_SIZE = 32;
+const DEFAULT_MAX_TEXT_LENGTH = 8192;
+
+/**
+ * Провайдер эмбеддингов для OpenAI-совместимых и Ollama серверов
+ */
+export class OpenAICompatibleProvider extends ExternalProvider {
+  private compatibleConfig?: CompatibleConfig;
+  private model: string;
+
+  /**
+   * Создание экземпляра провайдера
+   *
+   * @param dimensions - Размерность векторов модели сервера
+   * @param model - Название модели на сервере (например, nomic-embed-text)
+   * @param limits - Ограничения размера батча и длины текста
+   */
+  constructor(
+    dimensions: number,
+    model: string,
+    limits: CompatibleProviderLimits = {}
+  ) {
+    if (!model) {
+      throw new ConfigurationError(
+        'Custom provider requires a model name',
+        'model',
+        'Model name as known to the embedding server',
+        model
+      );
+    }
+
+    super(
+      'custom',
+      dimensions,
+      limits.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE,
+      limits.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH
+    );
+
+    this.model = model;
+  }
+
+  /**
+   * Инициализация провайдера
+   *
+   * Локальные серверы не ограничивают частоту запросов, поэтому rate limiting
+   * по умолчанию выключен (включается через providerOptions.enableRateLimit).
+   */
+  public async initialize(config: EmbeddingConfig): Promise<void> {
+    await super.initialize({
+      ...config,
+      providerOptions: { enableRateLimit: false, ...config.providerOptions }
+    });
+  }
+
+  /**
+   * Определение размерности модели тестовым запросом к серверу
+   *
+   * @param config - Конфигурация коллекции без размерности
+   * @returns Размерность векторов, которые возвращает сервер
+   */
+  public static async detectDimensions(config: CompatibleEndpointConfig): Promise<number> {
+    const probe = new OpenAICompatibleProvider(0, config.model ?? '');
+    probe.compatibleConfig = resolveCompatibleConfig(
+      {
+        apiKey: config.apiKey ?? '',
+        baseUrl: config.providerOptions?.baseUrl,
+        headers: config.providerOptions?.headers
+      },
+      probe.model,
+      config.providerOptions ?? {}
+    );
+
+    const [vector] = await probe.requestVectors(['dimension probe']);
+    return vector.length;
+  }
+
+  /**
+   * Инициализация: проверка доступности сервера и размерности модели
+   */
+  protected async initializeProvider(config: ExternalProviderConfig): Promise<void> {
+    this.compatibleConfig = resolveCompatibleConfig(config, this.model, this.config?.providerOptions ?? {});
+
+    let vectors: number[][];
+    try {
+      vectors = await this.requestVectors(['test']);
+    } catch (error) {
+      if (error instanceof AuthenticationError || error instanceof ConfigurationError) {
+        throw error;
+      }
+      console.warn(`Custom provider test request failed: ${error}`);
+      return;
+    }
+
+    // Несовпадение размерности не исправится повтором - сообщаем сразу
+    if (vectors[0].length !== this.dimensions) {
+      throw new ConfigurationError(
+        `Model ${this.model} returns ${vectors[0].length}-dimensional embeddings, provider configured for ${this.dimensions}`,
+        'dimensions',
+        String(vectors[0].length),
+        this.dimensions,
+        { provider: this.name, model: this.model }
+      );
+    }
+  }
+
+  /**
+   * API ключ необязателен: локальные серверы обычно работают без авторизации
+   */
+  protected requiresApiKey(_config: EmbeddingConfig): boolean {
+    return false;
+  }
+
+  /**
+   * Выполнение запроса к серверу эмбеддингов
+   */
+  protected async executeEmbeddingRequest(texts: string[]): Promise<Float32Array[]> {
+    const vectors = await this.requestVectors(texts);
+
+    return vectors.map(embedding => {
+      if (embedding.length !== this.dimensions) {
+        throw new ProviderError(
+          `Embedding dimension mismatch: expected ${this.dimensions}, got ${embedding.length}`,
+          this.name,
+          'DIMENSION_MISMATCH'
+        );
+      }
+
+      return new Float32Array(embedding);
+    });
+  }
+
+  /**
+   * Проверка здоровья провайдера
+   */
+  protected async checkProviderHealth(): Promise<boolean> {
+    try {
+      await this.requestVectors(['health check']);
+      return true;
+    } catch (error) {
+      console.warn(`Custom provider health check failed: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Очистка ресурсов провайдера
+   */
+  protected async cleanupProvider(): Promise<void> {
+    // Очищаем конфигурацию (включая API ключ)
+    this.compatibleConfig = undefined;
+  }
+
+  /**
+   * Запрос векторов в формате выбранного API (без проверки размерности)
+   */
+  private async requestVectors(texts: string[]): Promise<number[][]> {
+    if (!this.compatibleConfig) {
+      throw new ProviderError(
+        'Provider not initialized',
+        this.name,
+        'PROVIDER_NOT_INITIALIZED'
+      );
+    }
+
+    const { api, baseUrl, apiKey, authHeader } = this.compatibleConfig;
+    const isOllama = api === 'ollama';
+    const url = isOllama ? `${baseUrl}/api/embed` : `${baseUrl}/embeddings`;
+
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      ...this.compatibleConfig.headers
+    };
+    if (apiKey) {
+      headers[authHeader] = authHeader.toLowerCase() === 'authorization' ? `Bearer ${apiKey}` : apiKey;
+    }
+
+    const requestBody = isOllama
+      ? { model: this.model, input: texts, truncate: true }
+      : { model: this.model, input: texts, encoding_format: 'float' };
+
+    const response = await this.postJson(url, requestBody, headers);
+
+    if (!response.ok) {
+      throw this.createErrorFromResponse(response.status, response.data, response.headers, url);
+    }
+
+    const vectors = isOllama
+      ? response.data?.embeddings
+      : Array.isArray(response.data?.data)
+        ? [...response.data.data]
+            .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+            .map((item: any) => item.embedding)
+        : undefined;
+
+    if (!Array.isArray(vectors) || vectors.length !== texts.length) {
+      throw new ProviderError(
+        `Invalid response format from ${url}: expected ${texts.length} embeddings`,
+        this.name,
+        'INVALID_RESPONSE_FORMAT'
+      );
+    }
+
+    vectors.forEach((embedding: unknown, index: number) => {
+      if (!Array.isArray(embedding) || embedding.length === 0 || typeof embedding[0] !== 'number') {
+        throw new ProviderError(
+          `Invalid embedding format at index ${index}`,
+          this.name,
+          'INVALID_EMBEDDING_FORMAT'
+        );
+      }
+    });
+
+    return vectors;
+  }
+
+  /**
+   * Создание специфичной ошибки на основе ответа сервера
+   *
+   * OpenAI-совместимые серверы возвращают { error: { message } },
+   * Ollama и некоторые прокси - { error: '...' }.
+   */
+  private createErrorFromResponse(status: number, errorData: any, headers: Headers, url: string): Error {
+    const rawError = typeof errorData === 'object' && errorData !== null ? errorData.error : errorData;
+    const errorMessage = (typeof rawError === 'object' && rawError !== null ? rawError.message : rawError) || 'Unknown server error';
+
+    switch (status) {
+      case 401:
+      case 403:
+        return new AuthenticationError(
+          `Embedding server rejected credentials: ${errorMessage}`,
+          status === 401 ? 'invalid_key' : 'insufficient_permissions',
+          { provider: this.name, status, url }
+        );
+
+      case 404:
+        // Ollama отвечает 404 на не загруженную модель, остальные - на неверный путь
+        return new ConfigurationError(
+          `Embedding model or endpoint not found: ${errorMessage}`,
+          'model',
+          'Model available on the server (e.g. `ollama pull <model>`) and a matching providerOptions.api',
+          this.model,
+          { provider: this.name, status, url }
+        );
+
+      case 429:
+        return new QuotaExceededError(
+          `Embedding server rate limit exceeded: ${errorMessage}`,
+          'api_calls',
+          0,
+          0,
+          this.parseRetryAfter(headers, 5000),
+          { provider: this.name, status }
+        );
+
+      case 400:
+      case 413:
+      case 422:
+        return new ValidationError(
+          `Embedding server validation error: ${errorMessage}`,
+          'input',
+          'Embedding server validation',
+          { provider: this.name, status }
+        );
+
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+        return new NetworkError(
+          `Embedding server error: ${errorMessage}`,
+          'server_error',
+          status,
+          url,
+          { provider: this.name }
+        );
+
+      default:
+        return new ProviderError(
+          `Embedding server error (${status}): ${errorMessage}`,
+          this.name,
+          'CUSTOM_API_ERROR',
+          undefined,
+          { status, url }
+        );
+    }
+  }
+
+  /**
+   * Валидация конфигурации провайдера
+   */
+  public validateConfig(config: EmbeddingConfig) {
+    const baseValidation = super.validateConfig(config);
+
+    const errors = [...baseValidation.errors];
+    const warnings = [...baseValidation.warnings];
+    const suggestions = [...baseValidation.suggestions];
+
+    const options = config.providerOptions ?? {};
+    const api = options.api ?? 'openai';
+
+    if (api !== 'openai' && api !== 'ollama') {
+      errors.push(`Unsupported API format: ${api}`);
+      suggestions.push("Set providerOptions.api to 'openai' or 'ollama'");
+    }
+
+    if (api === 'openai' && !options.baseUrl) {
+      errors.push('OpenAI-compatible endpoint requires providerOptions.baseUrl');
+      suggestions.push('Set providerOptions.baseUrl, e.g. http://localhost:1234/v1');
+    }
+
+    if (options.authHeader && !config.apiKey) {
+      warnings.push('providerOptions.authHeader is set but apiKey is empty');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      suggestions
+    };
+  }
+}
+
+/**
+ * Фабричная функция для создания OpenAI-совместимого провайдера
+ */
+export function createOpenAICompatibleProvider(
+  dimensions: number,
+  model: string,
+  limits: CompatibleProviderLimits = {}
+): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider(dimensions, model, limits);
+}
+
+/**
+ * Определение размерности модели на сервере до создания коллекции
+ */
+export function detectCompatibleDimensions(config: CompatibleEndpointConfig): Promise<number> {
+  return OpenAICompatibleProvider.detectDimensions(config);
+}
+
+/**
+ * Сборка конфигурации запроса из общей конфигурации и providerOptions
+ */
+function resolveCompatibleConfig(
+  config: ExternalProviderConfig,
+  model: string,
+  options: Record<string, any>
+): CompatibleConfig {
+  const api: CompatibleApiFormat = options.api ?? 'openai';
+  const baseUrl = config.baseUrl || (api === 'ollama' ? DEFAULT_OLLAMA_URL : undefined);
+
+  if (!baseUrl) {
+    throw new ConfigurationError(
+      'OpenAI-compatible endpoint requires providerOptions.baseUrl',
+      'baseUrl',
+      'Server URL including the API prefix, e.g. http://localhost:1234/v1',
+      undefined
+    );
+  }
+
+  return {
+    ...config,
+    model,
+    api,
+    authHeader: options.authHeader ?? 'Authorization',
+    baseUrl: baseUrl.replace(/\/+$/, '')
+  };
+}
@@ -82,6 +82,9 @@ export interface EmbeddingConfig {
 
   /** Настройки воркера для эмбеддингов */
   workerConfig?: EmbeddingWorkerConfig;
+
+  /** Параметры конкретного провайдера (baseUrl, headers, endpoint и т.д.) */
+  providerOptions?: Record<string, any>;
 }
 
 /**
@@ -22,7 +22,9 @@ export type {
   SQLParams,
   StatementResult,
   ExecOptions,
-  BindOptions
+  BindOptions,
+  SearchAnalyticsOptions,
+  DatabaseEventMap
 } from './types/database.js';
 
 // Import types for internal use
@@ -34,12 +36,40 @@ export type {
   SearchQuery,
   SearchResult,
   CollectionInfo,
+  RenameCollectionParams,
+  SetEmbeddingApiKeyParams,
   WorkerConfig,
   CreateCollectionParams,
   InsertDocumentWithEmbeddingParams,
+  InsertDocumentOptions,
+  InsertDocumentResult,
+  UpdateDocumentParams,
+  UpdateDocumentResult,
+  DeleteDocumentParams,
+  DeleteDocumentsParams,
+  DeleteDocumentsResult,
   SemanticSearchParams,
-  CollectionEmbeddingStatusResult
+  CollectionEmbeddingStatusResult,
+  SearchEventRecord,
+  SearchEventFilter,
+  ZeroResultQueriesParams,
+  ZeroResultQuery,
+  EmbeddingSchedulerConfig,
+  EmbeddingProgress,
+  StorageBackendType,
+  StorageBackendPreference,
+  DatabaseChange,
+  ExportImportProgress,
+  ExportCollectionParams,
+  ImportCollectionParams,
+  ImportCollectionResult,
+  BundleConflictPolicy,
+  CollectionBundleManifest,
+  CollectionBundleDocument,
+  DatabaseTransferOptions,
+  ExportStreamProgress
 } from './types/worker.js';
+export type { ChunkSource } from './utils/chunkedTransfer.js';
 
 // Utility exports
 export {
@@ -70,6 +100,13 @@ export {
   createOpenAIProvider,
   isValidModelDimensionCombo,
   getRecommendedConfig,
+  CohereProvider,
+  createCohereProvider,
+  HuggingFaceProvider,
+  createHuggingFaceProvider,
+  OpenAICompatibleProvider,
+  createOpenAICompatibleProvider,
+  detectCompatibleDimensions,
   TransformersProvider,
   createTransformersProvider,
 
@@ -109,6 +146,8 @@ export {
 
   // Utilities
   TextProcessor,
+  TextChunker,
+  chunkText,
   MemoryCache,
   EmbeddingUtils,
   CollectionUtils,
@@ -180,6 +219,9 @@ export type {
   SemanticSearchOptions,
   HybridSearchOptions,
   SearchResultWithEmbedding,
+  ChunkingStrategy,
+  ChunkingOptions,
+  TextChunk,
 
   // Provider Factory types
   ProviderSupportInfo,
@@ -4,6 +4,8 @@
  * Default configuration values and model mappings.
  */
 
+import type { LLMProvider } from './types.js';
+
 /**
  * Default LLM Configuration
  */
@@ -14,6 +16,18 @@ export const DEFAULT_LLM_CONFIG = {
   maxTokens: 500
 };
 
+/**
+ * Supported provider names
+ */
+export const LLM_PROVIDERS: readonly LLMProvider[] = ['openai', 'anthropic', 'openrouter', 'custom'];
+
+/**
+ * Check a provider name from untyped input (e.g. an RPC request)
+ */
+export function isLLMProvider(value: unknown): value is LLMProvider {
+  return typeof value === 'string' && (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
 /**
  * Available models per provider
  */
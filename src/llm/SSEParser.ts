@@ -0,0 +1,159 @@
+/**
+ * Server-Sent Events Parser
+ *
+ * Incremental parser for the text/event-stream format used by streaming
+ * LLM APIs. Network chunks may split lines, UTF-8 sequences and CRLF pairs
+ * anywhere, so the parser buffers until a blank line completes an event.
+ */
+
+/**
+ * A single dispatched SSE event
+ */
+export interface SSEEvent {
+  event?: string;   // From `event:` lines; undefined means the default "message"
+  data: string;     // `data:` lines joined with "\n"
+  id?: string;
+}
+
+/**
+ * Incremental SSE parser
+ */
+export class SSEParser {
+  private buffer = '';
+  private pendingCR = false;
+  private data: string[] = [];
+  private eventType?: string;
+  private lastEventId?: string;
+
+  /**
+   * Feed decoded text and return the events it completes
+   */
+  push(text: string): SSEEvent[] {
+    const events: SSEEvent[] = [];
+
+    // A CR at the end of the previous chunk may be the first half of CRLF
+    if (this.pendingCR && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    this.pendingCR = false;
+
+    this.buffer += text;
+
+    let match: RegExpExecArray | null;
+    const lineBreak = /\r\n|\r|\n/g;
+    let consumed = 0;
+
+    while ((match = lineBreak.exec(this.buffer)) !== null) {
+      // Wait for the next chunk to know whether a trailing CR is CRLF
+      if (match[0] === '\r' && match.index === this.buffer.length - 1) {
+        this.pendingCR = true;
+      }
+
+      const event = this.processLine(this.buffer.slice(consumed, match.index));
+      if (event) {
+        events.push(event);
+      }
+      consumed = match.index + match[0].length;
+    }
+
+    this.buffer = this.buffer.slice(consumed);
+    return events;
+  }
+
+  /**
+   * Dispatch an event left unterminated when the stream ends
+   */
+  flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+
+    if (this.buffer) {
+      this.processLine(this.buffer);
+      this.buffer = '';
+    }
+
+    const event = this.dispatch();
+    if (event) {
+      events.push(event);
+    }
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | undefined {
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    // Comment lines (e.g. OpenRouter keep-alives ": OPENROUTER PROCESSING")
+    if (line.startsWith(':')) {
+      return undefined;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        this.lastEventId = value;
+        break;
+      // `retry` and unknown fields are ignored
+    }
+
+    return undefined;
+  }
+
+  private dispatch(): SSEEvent | undefined {
+    const hasData = this.data.length > 0;
+    const event: SSEEvent = {
+      event: this.eventType,
+      data: this.data.join('\n'),
+      id: this.lastEventId
+    };
+
+    this.data = [];
+    this.eventType = undefined;
+
+    // Per the spec, an event without data lines is not dispatched
+    return hasData ? event : undefined;
+  }
+}
+
+/**
+ * Read SSE events from a fetch response body
+ *
+ * Stopping the iteration early cancels the underlying stream.
+ */
+export async function* parseSSEStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+
+    yield* parser.push(decoder.decode());
+    yield* parser.flush();
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
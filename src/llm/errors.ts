@@ -12,6 +12,7 @@ export type LLMErrorCode =
   | 'INVALID_API_KEY'
   | 'PROVIDER_ERROR'
   | 'TIMEOUT'
+  | 'ABORTED'
   | 'RATE_LIMIT'
   | 'NETWORK_ERROR'
   | 'PARSE_ERROR'
@@ -67,6 +68,17 @@ export class LLMTimeoutError extends LLMError {
   }
 }
 
+/**
+ * LLM Abort Error (request cancelled through an AbortSignal)
+ */
+export class LLMAbortError extends LLMError {
+  constructor(provider: string) {
+    super('LLM request aborted', 'ABORTED', undefined, provider);
+    this.name = 'LLMAbortError';
+    Object.setPrototypeOf(this, LLMAbortError.prototype);
+  }
+}
+
 /**
  * LLM Parse Error
  */
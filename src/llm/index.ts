@@ -12,6 +12,7 @@ export type {
   EnhancedQuery,
   ResultSummary,
   LLMResponse,
+  LLMDeltaHandler,
   LLMSearchResponse
 } from './types.js';
 
@@ -21,6 +22,7 @@ export {
   LLMConfigError,
   LLMProviderError,
   LLMTimeoutError,
+  LLMAbortError,
   LLMParseError
 } from './errors.js';
 
@@ -30,9 +32,15 @@ export type { LLMErrorCode } from './errors.js';
 export {
   DEFAULT_LLM_CONFIG,
   LLM_MODELS,
+  LLM_PROVIDERS,
+  isLLMProvider,
   validateProviderConfig
 } from './LLMConfig.js';
 
+// Streaming
+export { SSEParser, parseSSEStream } from './SSEParser.js';
+export type { SSEEvent } from './SSEParser.js';
+
 // Prompt Templates
 export {
   buildEnhanceQueryPrompt,
@@ -5,9 +5,10 @@
  * Supports Claude 3 Opus, Sonnet, and Haiku.
  */
 
-import { BaseLLMProvider } from './BaseLLMProvider.js';
+import { BaseLLMProvider, type LLMStreamState, type LLMStreamEventResult } from './BaseLLMProvider.js';
 import type { LLMRequestOptions, LLMResponse } from '../types.js';
-import { LLMParseError } from '../errors.js';
+import type { SSEEvent } from '../SSEParser.js';
+import { LLMParseError, LLMProviderError } from '../errors.js';
 
 export class AnthropicProvider extends BaseLLMProvider {
   /**
@@ -46,6 +47,62 @@ export class AnthropicProvider extends BaseLLMProvider {
     };
   }
 
+  /**
+   * Parse Anthropic stream event
+   * See: https://docs.anthropic.com/en/api/messages-streaming
+   */
+  protected parseStreamEvent(event: SSEEvent, state: LLMStreamState): LLMStreamEventResult {
+    let data: any;
+    try {
+      data = JSON.parse(event.data);
+    } catch (error: any) {
+      throw new LLMParseError(
+        `Failed to parse Anthropic stream event: ${error.message}`,
+        'anthropic',
+        { event: event.event, data: event.data }
+      );
+    }
+
+    switch (event.event ?? data.type) {
+      case 'message_start':
+        state.model = data.message?.model;
+        if (data.message?.usage) {
+          const promptTokens = data.message.usage.input_tokens || 0;
+          state.usage = { promptTokens, completionTokens: 0, totalTokens: promptTokens };
+        }
+        return {};
+
+      case 'content_block_delta':
+        return { delta: data.delta?.type === 'text_delta' ? data.delta.text : undefined };
+
+      case 'message_delta':
+        if (data.delta?.stop_reason) {
+          state.finishReason = data.delta.stop_reason === 'end_turn' ? 'stop' : 'length';
+        }
+        if (data.usage) {
+          const promptTokens = state.usage?.promptTokens || 0;
+          const completionTokens = data.usage.output_tokens || 0;
+          state.usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+        }
+        return {};
+
+      case 'message_stop':
+        return { done: true };
+
+      case 'error':
+        // Errors after the response started (e.g. overloaded_error) arrive as events
+        throw new LLMProviderError(
+          data.error?.message || 'Stream error',
+          500,
+          'anthropic',
+          data
+        );
+
+      default:
+        return {};  // ping, content_block_start, content_block_stop
+    }
+  }
+
   /**
    * Parse Anthropic API response
    */
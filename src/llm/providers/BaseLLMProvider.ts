@@ -6,9 +6,27 @@
  */
 
 import type { Logger } from '../../database/worker/utils/Logger.js';
-import type { LLMProviderConfig, LLMRequestOptions, LLMResponse } from '../types.js';
-import { LLMError, LLMConfigError, LLMProviderError, LLMTimeoutError, LLMParseError } from '../errors.js';
+import type { LLMProviderConfig, LLMRequestOptions, LLMResponse, LLMDeltaHandler } from '../types.js';
+import { LLMError, LLMConfigError, LLMProviderError, LLMTimeoutError, LLMAbortError, LLMParseError } from '../errors.js';
 import { buildEnhanceQueryPrompt, buildSummarizeResultsPrompt } from '../PromptTemplates.js';
+import { parseSSEStream, type SSEEvent } from '../SSEParser.js';
+
+/**
+ * Response metadata collected while a stream is read
+ */
+export interface LLMStreamState {
+  model?: string;
+  finishReason?: LLMResponse['finishReason'];
+  usage?: LLMResponse['usage'];
+}
+
+/**
+ * What a single SSE event contributed to the stream
+ */
+export interface LLMStreamEventResult {
+  delta?: string;
+  done?: boolean;   // Provider signalled the end of the stream
+}
 
 export abstract class BaseLLMProvider {
   protected config: LLMProviderConfig;
@@ -27,6 +45,17 @@ export abstract class BaseLLMProvider {
   protected abstract buildRequestHeaders(): Record<string, string>;
   protected abstract buildRequestBody(prompt: string, options?: LLMRequestOptions): any;
   protected abstract parseResponse(response: any): LLMResponse;
+  protected abstract parseStreamEvent(event: SSEEvent, state: LLMStreamState): LLMStreamEventResult;
+
+  /**
+   * Build request body for a streamed completion
+   */
+  protected buildStreamRequestBody(prompt: string, options?: LLMRequestOptions): any {
+    return {
+      ...this.buildRequestBody(prompt, options),
+      stream: true
+    };
+  }
 
   /**
    * Validate provider configuration
@@ -106,6 +135,9 @@ export abstract class BaseLLMProvider {
       clearTimeout(timeoutId);
 
       if (error.name === 'AbortError') {
+        if (options?.signal?.aborted) {
+          throw new LLMAbortError(this.config.provider);
+        }
         throw new LLMTimeoutError(this.config.provider, timeout);
       }
       if (error instanceof LLMError) {
@@ -121,24 +153,239 @@ export abstract class BaseLLMProvider {
     }
   }
 
+  /**
+   * Execute streaming HTTP request to LLM API
+   *
+   * The timeout applies to silence between events rather than to the whole
+   * completion, which can legitimately take much longer than a single request.
+   */
+  protected async executeStreamRequest(
+    prompt: string,
+    onDelta: LLMDeltaHandler,
+    options?: LLMRequestOptions
+  ): Promise<LLMResponse> {
+    const url = this.buildRequestURL();
+    const headers = this.buildRequestHeaders();
+    const body = this.buildStreamRequestBody(prompt, options);
+
+    const timeout = options?.timeout || this.config.timeout || 10000;
+    const controller = new AbortController();
+    const callerSignal = options?.signal;
+    let timedOut = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    if (callerSignal?.aborted) {
+      throw new LLMAbortError(this.config.provider);
+    }
+
+    const abortFromCaller = () => controller.abort();
+    callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    const resetTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout);
+    };
+
+    resetTimeout();
+
+    try {
+      this.logger.debug(`LLM stream request to ${this.config.provider}`, {
+        provider: this.config.provider,
+        model: this.config.model,
+        promptLength: prompt.length
+      });
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          ...headers
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => ({}));
+        throw new LLMProviderError(
+          errorBody.error?.message || response.statusText,
+          response.status,
+          this.config.provider,
+          errorBody
+        );
+      }
+
+      if (!response.body) {
+        throw new LLMParseError('Streaming response has no body', this.config.provider);
+      }
+
+      const state: LLMStreamState = {};
+      let text = '';
+
+      for await (const event of parseSSEStream(response.body)) {
+        resetTimeout();
+
+        const { delta, done } = this.parseStreamEvent(event, state);
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        if (done) {
+          break;
+        }
+      }
+
+      this.logger.debug(`LLM stream from ${this.config.provider} complete`, {
+        provider: this.config.provider,
+        model: this.config.model,
+        finishReason: state.finishReason,
+        textLength: text.length
+      });
+
+      return {
+        text,
+        finishReason: state.finishReason ?? 'stop',
+        usage: state.usage,
+        model: state.model || this.config.model,
+        provider: this.config.provider
+      };
+
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        if (timedOut) {
+          throw new LLMTimeoutError(this.config.provider, timeout);
+        }
+        throw new LLMAbortError(this.config.provider);
+      }
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      throw new LLMError(
+        `LLM stream failed: ${error.message}`,
+        'NETWORK_ERROR',
+        undefined,
+        this.config.provider,
+        error
+      );
+    } finally {
+      clearTimeout(timeoutId);
+      callerSignal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  /**
+   * Parse an OpenAI-style chat completion chunk (OpenAI, OpenRouter, compatible servers)
+   */
+  protected parseChatCompletionChunk(event: SSEEvent, state: LLMStreamState): LLMStreamEventResult {
+    if (event.data === '[DONE]') {
+      return { done: true };
+    }
+
+    let chunk: any;
+    try {
+      chunk = JSON.parse(event.data);
+    } catch (error: any) {
+      throw new LLMParseError(
+        `Failed to parse ${this.config.provider} stream event: ${error.message}`,
+        this.config.provider,
+        { data: event.data }
+      );
+    }
+
+    // Errors after the response started arrive as events, not HTTP statuses
+    if (chunk.error) {
+      throw new LLMProviderError(
+        chunk.error.message || 'Stream error',
+        500,
+        this.config.provider,
+        chunk
+      );
+    }
+
+    if (chunk.model) {
+      state.model = chunk.model;
+    }
+
+    if (chunk.usage) {
+      state.usage = {
+        promptTokens: chunk.usage.prompt_tokens || 0,
+        completionTokens: chunk.usage.completion_tokens || 0,
+        totalTokens: chunk.usage.total_tokens || 0
+      };
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      return {};  // Usage-only chunk
+    }
+
+    if (choice.finish_reason) {
+      state.finishReason = choice.finish_reason === 'stop' ? 'stop' : 'length';
+    }
+
+    return { delta: choice.delta?.content ?? choice.text ?? undefined };
+  }
+
   /**
    * Execute request with retry logic
    */
   protected async executeRequestWithRetry(
     prompt: string,
     options?: LLMRequestOptions
+  ): Promise<LLMResponse> {
+    return this.withRetry(() => this.executeRequest(prompt, options));
+  }
+
+  /**
+   * Execute streaming request with retry logic
+   *
+   * Only failures before the first delta are retried: once text has been
+   * forwarded, a retry would repeat it.
+   */
+  protected async executeStreamRequestWithRetry(
+    prompt: string,
+    onDelta: LLMDeltaHandler,
+    options?: LLMRequestOptions
+  ): Promise<LLMResponse> {
+    let streamed = false;
+    const forward = (delta: string) => {
+      streamed = true;
+      onDelta(delta);
+    };
+
+    return this.withRetry(
+      () => this.executeStreamRequest(prompt, forward, options),
+      () => !streamed
+    );
+  }
+
+  /**
+   * Run an operation with exponential backoff on retryable errors
+   */
+  private async withRetry(
+    operation: () => Promise<LLMResponse>,
+    canRetry: () => boolean = () => true
   ): Promise<LLMResponse> {
     const maxRetries = this.config.maxRetries || 2;
     let lastError: Error;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        return await this.executeRequest(prompt, options);
+        return await operation();
       } catch (error: any) {
         lastError = error;
 
-        // Don't retry on config errors or timeouts
-        if (error instanceof LLMConfigError || error instanceof LLMTimeoutError) {
+        // Don't retry on config errors, timeouts, cancellation or partially streamed responses
+        if (
+          error instanceof LLMConfigError ||
+          error instanceof LLMTimeoutError ||
+          error instanceof LLMAbortError ||
+          !canRetry()
+        ) {
           throw error;
         }
 
@@ -177,6 +424,18 @@ export abstract class BaseLLMProvider {
     return await this.executeRequestWithRetry(prompt, options);
   }
 
+  /**
+   * Public API: Generic LLM call with the completion streamed to `onDelta`
+   *
+   * @param prompt - The prompt to send to the LLM
+   * @param onDelta - Receives text deltas as they arrive
+   * @param options - Optional request configuration (`signal` cancels the stream)
+   * @returns Complete response assembled from the deltas
+   */
+  async callStream(prompt: string, onDelta: LLMDeltaHandler, options?: LLMRequestOptions): Promise<LLMResponse> {
+    return await this.executeStreamRequestWithRetry(prompt, onDelta, options);
+  }
+
   /**
    * Public API: Enhance query
    */
@@ -192,4 +451,12 @@ export abstract class BaseLLMProvider {
     const prompt = buildSummarizeResultsPrompt(results);
     return await this.executeRequestWithRetry(prompt, options);
   }
+
+  /**
+   * Public API: Summarize results, streaming the raw completion to `onDelta`
+   */
+  async summarizeResultsStream(results: any[], onDelta: LLMDeltaHandler, options?: LLMRequestOptions): Promise<LLMResponse> {
+    const prompt = buildSummarizeResultsPrompt(results);
+    return await this.executeStreamRequestWithRetry(prompt, onDelta, options);
+  }
 }
@@ -5,8 +5,9 @@
  * Works with OpenRouter, Ollama, and other custom API endpoints.
  */
 
-import { BaseLLMProvider } from './BaseLLMProvider.js';
+import { BaseLLMProvider, type LLMStreamState, type LLMStreamEventResult } from './BaseLLMProvider.js';
 import type { LLMRequestOptions, LLMResponse } from '../types.js';
+import type { SSEEvent } from '../SSEParser.js';
 import { LLMConfigError, LLMParseError } from '../errors.js';
 
 export class CustomProvider extends BaseLLMProvider {
@@ -62,6 +63,13 @@ export class CustomProvider extends BaseLLMProvider {
     };
   }
 
+  /**
+   * Parse custom stream event (OpenAI-compatible chunks, including legacy `text` choices)
+   */
+  protected parseStreamEvent(event: SSEEvent, state: LLMStreamState): LLMStreamEventResult {
+    return this.parseChatCompletionChunk(event, state);
+  }
+
   /**
    * Parse custom API response (try multiple formats)
    */
@@ -5,8 +5,9 @@
  * Supports GPT-4, GPT-4-turbo, and GPT-3.5-turbo.
  */
 
-import { BaseLLMProvider } from './BaseLLMProvider.js';
+import { BaseLLMProvider, type LLMStreamState, type LLMStreamEventResult } from './BaseLLMProvider.js';
 import type { LLMRequestOptions, LLMResponse } from '../types.js';
+import type { SSEEvent } from '../SSEParser.js';
 import { LLMParseError } from '../errors.js';
 
 export class OpenAIProvider extends BaseLLMProvider {
@@ -49,6 +50,24 @@ export class OpenAIProvider extends BaseLLMProvider {
     };
   }
 
+  /**
+   * Build OpenAI streaming request body
+   * Asks for a final usage chunk, which OpenAI omits from streams by default
+   */
+  protected buildStreamRequestBody(prompt: string, options?: LLMRequestOptions): any {
+    return {
+      ...super.buildStreamRequestBody(prompt, options),
+      stream_options: { include_usage: true }
+    };
+  }
+
+  /**
+   * Parse OpenAI stream event (chat.completion.chunk)
+   */
+  protected parseStreamEvent(event: SSEEvent, state: LLMStreamState): LLMStreamEventResult {
+    return this.parseChatCompletionChunk(event, state);
+  }
+
   /**
    * Parse OpenAI API response
    */
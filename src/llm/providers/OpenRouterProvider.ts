@@ -6,8 +6,9 @@
  * See: https://openrouter.ai/docs
  */
 
-import { BaseLLMProvider } from './BaseLLMProvider.js';
+import { BaseLLMProvider, type LLMStreamState, type LLMStreamEventResult } from './BaseLLMProvider.js';
 import type { LLMRequestOptions, LLMResponse } from '../types.js';
+import type { SSEEvent } from '../SSEParser.js';
 import { LLMParseError } from '../errors.js';
 
 export class OpenRouterProvider extends BaseLLMProvider {
@@ -66,6 +67,15 @@ export class OpenRouterProvider extends BaseLLMProvider {
     };
   }
 
+  /**
+   * Parse OpenRouter stream event
+   * OpenRouter streams OpenAI-compatible chunks; its ": OPENROUTER PROCESSING"
+   * keep-alive comments are dropped by the SSE parser
+   */
+  protected parseStreamEvent(event: SSEEvent, state: LLMStreamState): LLMStreamEventResult {
+    return this.parseChatCompletionChunk(event, state);
+  }
+
   /**
    * Parse OpenRouter API response
    * OpenRouter uses OpenAI-compatible response format
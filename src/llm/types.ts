@@ -30,7 +30,7 @@ export interface LLMProviderConfig {
 export interface LLMRequestOptions {
   temperature?: number;
   maxTokens?: number;
-  timeout?: number;
+  timeout?: number;         // For streaming: maximum silence between events
   signal?: AbortSignal;
   context?: Record<string, any>;
 }
@@ -77,6 +77,11 @@ export interface LLMResponse {
   provider: string;
 }
 
+/**
+ * Receives each text delta of a streamed completion, in order
+ */
+export type LLMDeltaHandler = (delta: string) => void;
+
 /**
  * Combined Search with LLM Result
  */
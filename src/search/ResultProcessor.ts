@@ -194,10 +194,10 @@ export class ResultProcessor {
         options
       );
 
-      // Фаза 2: Расширенная оптимизация через SearchOptimizer (если включена)
+      // Фаза 2: Расширенная оптимизация через SearchOptimizer (только вместе с re-ranking)
       let optimizedResults: OptimizedResult[] = baseProcessedResults.map(r => r as OptimizedResult);
 
-      if (this.config.enableAdvancedOptimization && this.searchOptimizer) {
+      if (this.config.enableAdvancedOptimization && this.searchOptimizer && options.reranking?.enabled) {
         optimizedResults = await this.performAdvancedOptimization(
           baseProcessedResults,
           query,
@@ -327,7 +327,8 @@ export class ResultProcessor {
         clickHistory: options.userContext?.previousInteractions || []
       }) : highlightedResults.map(r => ({ ...r, finalScore: r.score })) as RankedResult[];
 
-    return rerankedResults;
+    // Фаза 6: Кластеризация (если включена) - по одному лучшему результату на кластер
+    return options.clustering ? this.clusterResults(rerankedResults, query) : rerankedResults;
   }
 
   /**
@@ -625,7 +626,7 @@ export class ResultProcessor {
       highlights: result.highlights,
       collection: result.metadata?.collection,
       rank: index + 1,
-      explanation: this.generateScoreExplanation(result)
+      explanation: (result as OptimizedResult).detailedExplanation ?? this.generateScoreExplanation(result)
     }));
   }
 
@@ -290,7 +290,8 @@ export class StrategyEngine {
         fusion: {
           method: options.fusion?.method || FusionMethod.RRF,
           weights: this.calculateOptimalWeights(strategy, analysis, options),
-          normalization: options.fusion?.normalization || ScoreNormalization.MIN_MAX
+          normalization: options.fusion?.normalization || ScoreNormalization.MIN_MAX,
+          parameters: options.fusion?.parameters
         },
         filters: options.filters || {},
         pagination: {
@@ -5,7 +5,17 @@
  * while working with the LocalRetrieve Worker infrastructure.
  */
 
-import type { SQLValue, SQLParams, SearchRequest, SearchResponse } from './worker.js';
+import type {
+  SQLValue,
+  SQLParams,
+  SearchRequest,
+  SearchResponse,
+  EmbeddingProgress,
+  EmbeddingSchedulerConfig,
+  StorageBackendPreference,
+  DatabaseChange
+} from './worker.js';
+import type { SearchAnalyticsConfig } from '../analytics/SearchAnalytics.js';
 
 // sql.js compatible types
 export type { SQLValue, SQLParams };
@@ -31,6 +41,9 @@ export interface BindOptions {
 export interface DatabaseConfig {
   filename?: string;
   vfs?: 'opfs' | 'opfs-sahpool';
+  // Where the worker keeps the database; 'auto' (default) uses the OPFS VFS when available.
+  // When omitted, vfs: 'opfs-sahpool' requests the OPFS VFS backend.
+  storage?: StorageBackendPreference;
   pragmas?: Record<string, string>;
   workerUrl?: string;
   workerConfig?: {
@@ -39,6 +52,25 @@ export interface DatabaseConfig {
     enablePerformanceMonitoring?: boolean;
     logLevel?: 'debug' | 'info' | 'warn' | 'error';
   };
+  // Opt-in search analytics; `true` uses the defaults
+  analytics?: boolean | SearchAnalyticsOptions;
+  // Opt-in background embedding queue processing, started by initializeSchema; `true` uses the defaults
+  embeddingScheduler?: boolean | EmbeddingSchedulerConfig;
+  // Share an opfs:/ database between tabs through a leader tab (default true where supported)
+  multiTab?: boolean;
+}
+
+// Events a Database emits via on()/off()
+export interface DatabaseEventMap {
+  embeddingProgress: EmbeddingProgress;
+  embeddingCompleted: { collection: string; documentsProcessed: number; errors: number };
+  // Another tab changed the database
+  change: DatabaseChange;
+}
+
+// Search analytics options: SearchAnalytics settings plus the session events are recorded under
+export interface SearchAnalyticsOptions extends Partial<SearchAnalyticsConfig> {
+  sessionId?: string;
 }
 
 // sql.js compatible Database interface
@@ -122,7 +154,7 @@ export function isSQLValue(value: any): value is SQLValue {
 }
 
 // Configuration defaults
-export const DEFAULT_DATABASE_CONFIG: Required<Omit<DatabaseConfig, 'filename' | 'workerUrl'>> = {
+export const DEFAULT_DATABASE_CONFIG: Required<Omit<DatabaseConfig, 'filename' | 'workerUrl' | 'analytics' | 'embeddingScheduler' | 'storage' | 'multiTab'>> = {
   vfs: 'opfs',
   pragmas: {
     synchronous: 'NORMAL',
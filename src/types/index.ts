@@ -15,9 +15,16 @@ export type {
   SearchResult,
   SearchResponse,
   CollectionInfo,
+  RenameCollectionParams,
+  SetEmbeddingApiKeyParams,
   QueryResult,
   CreateCollectionParams,
   InsertDocumentWithEmbeddingParams,
+  UpdateDocumentParams,
+  UpdateDocumentResult,
+  DeleteDocumentParams,
+  DeleteDocumentsParams,
+  DeleteDocumentsResult,
   SemanticSearchParams,
   ExportParams,
   ImportParams,
@@ -123,6 +123,7 @@ export interface SearchExecutionPlan {
     method: FusionMethod;
     weights: SearchWeights;
     normalization: ScoreNormalization;
+    parameters?: Record<string, any>;  // Например, k для RRF
   };
   filters: SearchFilters;
   pagination: PaginationOptions;
@@ -154,6 +155,10 @@ export interface TextSearchOptions {
   highlight?: HighlightOptions;
   performance?: PerformanceConstraints;
   context?: Partial<SearchContext>;
+  processing?: ResultProcessingOptions;  // Пост-обработка объединённых результатов (ResultProcessor)
+  explain?: boolean;                     // Возвращать объяснение релевантности
+  sessionId?: string;                    // Сессия пользователя для персонализации при re-ranking
+  collapseChunks?: boolean;              // Один результат на разбитый на фрагменты документ (лучший фрагмент)
 }
 
 // Advanced search parameters
@@ -166,15 +171,22 @@ export interface AdvancedSearchParams {
   aggregations?: AggregationRequest[];
   facets?: FacetRequest[];
   explain?: boolean;          // Возвращать объяснение релевантности
+  processing?: ResultProcessingOptions;
+  sessionId?: string;
 }
 
 // Global search options (across all collections)
 export interface GlobalSearchOptions {
+  limit?: number;             // Общее число результатов после слияния
   maxCollections?: number;
   collectionFilter?: (collection: string) => boolean;
   mergeStrategy?: 'interleave' | 'group_by_collection' | 'unified_ranking';
   crossCollectionBoosts?: Record<string, number>;
-  diversification?: DiversificationOptions;
+  diversification?: DiversificationOptions;  // Поддерживается только round_robin с maxPerCollection
+  vector?: Float32Array | number[];  // Вектор запроса: гибридный поиск в коллекциях той же размерности
+  fusionMethod?: import('./worker.js').SearchRequest['fusionMethod'];
+  fusionWeights?: import('./worker.js').SearchRequest['fusionWeights'];
+  fusion?: import('./worker.js').SearchRequest['fusion'];
 }
 
 // Search filters
@@ -202,9 +214,9 @@ export interface SearchFilters {
 // Advanced filters with complex logic
 export interface AdvancedFilters extends SearchFilters {
   bool?: {
-    must?: SearchFilters[];
-    should?: SearchFilters[];
-    must_not?: SearchFilters[];
+    must?: AdvancedFilters[];
+    should?: AdvancedFilters[];
+    must_not?: AdvancedFilters[];
     minimum_should_match?: number;
   };
   script?: {
@@ -348,6 +360,7 @@ export interface GlobalSearchResponse extends SearchResponse {
     collection: string;
     results: SearchResult[];
     totalInCollection: number;
+    searchTime: number;
   }>;
   collectionsSearched: string[];
 }
@@ -361,6 +374,7 @@ export interface SearchDebugInfo {
     planning: number;
     execution: number;
     fusion: number;
+    processing?: number;      // Пост-обработка ResultProcessor
     total: number;
   };
   indexUsage: {
@@ -368,6 +382,7 @@ export interface SearchDebugInfo {
     vectorIndex?: boolean;
     filterIndex?: boolean;
   };
+  attemptedStrategies?: SearchStrategy[];  // Основная и fallback-стратегии в порядке выполнения
   warnings?: string[];
   recommendations?: string[];
 }
@@ -486,6 +501,34 @@ export class ResultProcessingError extends SearchError {
   }
 }
 
+export class FilterError extends SearchError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'FILTER_ERROR', details);
+    this.name = 'FilterError';
+  }
+}
+
+export class FusionError extends SearchError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'FUSION_ERROR', details);
+    this.name = 'FusionError';
+  }
+}
+
+export class PaginationError extends SearchError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'PAGINATION_ERROR', details);
+    this.name = 'PaginationError';
+  }
+}
+
+export class DiversificationError extends SearchError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'DIVERSIFICATION_ERROR', details);
+    this.name = 'DiversificationError';
+  }
+}
+
 // Type guards for runtime type checking
 export function isSearchMode(value: any): value is SearchMode {
   return Object.values(SearchMode).includes(value);
@@ -555,7 +598,7 @@ export function combineScores(
 }
 
 // Default configurations
-export const DEFAULT_TEXT_SEARCH_OPTIONS: Required<Omit<TextSearchOptions, 'collection'>> = {
+export const DEFAULT_TEXT_SEARCH_OPTIONS: Required<Omit<TextSearchOptions, 'collection' | 'processing' | 'explain' | 'sessionId' | 'collapseChunks'>> = {
   mode: SearchMode.AUTO,
   strategy: SearchStrategy.KEYWORD,
   limit: 20,
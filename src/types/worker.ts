@@ -36,9 +36,23 @@ export interface SearchRequest {
   query: SearchQuery;
   collection?: string;
   limit?: number;
+  offset?: number;  // Documents to skip; ignored when cursor is set
+  cursor?: string;  // nextCursor from the previous page of the same query
+  deep?: boolean;   // Retrieve larger candidate pools for more accurate deep pages
   fusionMethod?: 'rrf' | 'weighted_rrf';  // Added 'weighted_rrf' for 3-way fusion
   fusionWeights?: { fts: number; vec: number; like?: number };  // Added optional 'like' weight
   enableLikeSearch?: boolean;  // Opt-in flag for LIKE substring search (default: false)
+  ftsQuery?: string;  // Pre-built FTS5 MATCH expression; replaces the one derived from query.text
+  fusion?: {  // Overrides fusionMethod; weights still come from fusionWeights
+    method?: import('./search.js').FusionMethod;
+    normalization?: import('./search.js').ScoreNormalization;
+    parameters?: Record<string, any>;  // k, missingScore, prior, sigmoidScale, epsilon
+  };
+  explain?: boolean;  // Attach a per-result score breakdown (SearchResult.explanation)
+  snippets?: import('./search.js').SnippetOptions;     // Best-matching content fragment per result
+  highlight?: import('./search.js').HighlightOptions;  // Title/content with query terms marked
+  filters?: import('./search.js').AdvancedFilters;  // Metadata/date/numeric/bool filters applied before fusion
+  collapseChunks?: boolean;  // One result per chunked document, represented by its best chunk
 }
 
 export interface SearchResult {
@@ -47,16 +61,28 @@ export interface SearchResult {
   content?: string;
   metadata?: Record<string, any>;
   score: number;
+  normalizedScore?: number;  // Per-collection min-max score (global search)
+  collection?: string;
   ftsScore?: number;
   vecScore?: number;
   likeScore?: number;  // LIKE substring search score (for 3-way RRF)
   likeRank?: number;   // LIKE substring search rank (for 3-way RRF)
+  explanation?: import('./search.js').ScoreExplanation;
+  snippets?: string[];
+  highlights?: Record<string, string[]>;  // Keyed by field: 'title' | 'content'
+  parentId?: string;       // Set on chunks: the document they were split from
+  chunkIndex?: number;     // Set on chunks: position within the parent document
+  chunkId?: string;        // collapseChunks: id of the chunk that matched best (result id is the parent)
+  matchedChunks?: number;  // collapseChunks: matching chunks of this parent among the candidates
 }
 
 export interface SearchResponse {
   results: SearchResult[];
   totalResults: number;
   searchTime: number;
+  hasMore?: boolean;
+  nextCursor?: string;  // Pass as SearchRequest.cursor to fetch the next page
+  queryId?: string;  // Set when search analytics are enabled; pass to Database.trackInteraction
   debugInfo?: {
     ftsCount: number;
     vectorCount: number;
@@ -77,9 +103,19 @@ export interface SearchResponse {
 export interface CollectionInfo {
   name: string;
   createdAt: number;
+  updatedAt: number;              // Latest collection or document change (unix seconds)
   schemaVersion: number;
   vectorDimensions: number;
+  vectorTable: string;
   documentCount: number;
+  embeddedCount: number;          // Documents with a stored vector
+  pendingEmbeddingCount: number;  // Queue entries still pending or processing
+  storageBytes: number;           // Estimated text, metadata and vector bytes
+}
+
+export interface RenameCollectionParams {
+  from: string;
+  to: string;
 }
 
 // Collection creation with embedding support
@@ -92,6 +128,12 @@ export interface CreateCollectionParams {
   metadata?: Record<string, any>;
 }
 
+// API keys are kept in the worker's memory only and must be supplied again after a reload
+export interface SetEmbeddingApiKeyParams {
+  collection: string;
+  apiKey: string;
+}
+
 // Document insertion with automatic embedding generation
 export interface InsertDocumentWithEmbeddingParams {
   collection: string;
@@ -100,13 +142,99 @@ export interface InsertDocumentWithEmbeddingParams {
     title?: string;
     content: string;
     metadata?: Record<string, any>;
+    vector?: Float32Array | number[];  // Precomputed embedding, must match the collection's dimensions
+    parentId?: string;    // Set on chunks: id of the document they were split from
+    chunkIndex?: number;  // Set on chunks: position within the parent document
+  };
+  options?: InsertDocumentOptions;
+}
+
+/**
+ * Long document stored as chunk rows linked to a logical parent id
+ *
+ * Each chunk is a regular document with id `${parentId}#${index}`, the
+ * parent's title and metadata, and its own FTS row and embedding. The parent
+ * has no row of its own; re-inserting it replaces all of its chunks.
+ */
+export interface InsertChunkedDocumentParams {
+  collection: string;
+  document: {
+    id?: string;
+    title?: string;
+    content: string;
+    metadata?: Record<string, any>;
+  };
+  chunking?: import('../embedding/TextChunker.js').ChunkingOptions;
+  options?: InsertDocumentOptions;
+}
+
+export interface InsertChunkedDocumentResult {
+  parentId: string;
+  chunks: InsertDocumentResult[];  // In chunk order
+  replacedChunks: number;          // Chunks of a previous version that were removed
+}
+
+/**
+ * Embedding behaviour of a document insert
+ *
+ * Collections created with an `embeddingConfig` (and embedding_status 'enabled')
+ * embed new documents automatically unless `generateEmbedding` is false.
+ */
+export interface InsertDocumentOptions {
+  generateEmbedding?: boolean;
+  embeddingMode?: 'sync' | 'queue';  // Embed before returning, or leave it to the embedding queue (default 'sync')
+  embeddingOptions?: import('../embedding/types.js').EmbeddingRequestOptions;
+}
+
+export interface InsertDocumentResult {
+  id: string;
+  embeddingGenerated: boolean;
+  /**
+   * - generated: the vector was stored before the call returned
+   * - queued: an embedding_queue item was created
+   * - provided: the document came with a precomputed vector
+   * - skipped: no embedding provider configured, or generateEmbedding: false
+   */
+  embeddingStatus: 'generated' | 'queued' | 'provided' | 'skipped';
+  embeddingError?: string;  // Why synchronous generation failed; the document was queued instead
+}
+
+// Document mutation; FTS5, vector and embedding queue rows are kept in sync
+export interface UpdateDocumentParams {
+  collection: string;
+  id: string;
+  updates: {
+    title?: string;
+    content?: string;
+    metadata?: Record<string, any>;
+    vector?: Float32Array | number[];
   };
   options?: {
-    generateEmbedding?: boolean;
-    embeddingOptions?: import('../embedding/types.js').EmbeddingRequestOptions;
+    mergeMetadata?: boolean;  // Shallow-merge metadata instead of replacing it
   };
 }
 
+export interface UpdateDocumentResult {
+  id: string;
+  embeddingInvalidated: boolean;  // Title/content changed and the stored vector was dropped
+}
+
+export interface DeleteDocumentParams {
+  collection: string;
+  id: string;
+}
+
+export interface DeleteDocumentsParams {
+  collection: string;
+  ids?: string[];
+  filter?: import('./search.js').AdvancedFilters;
+}
+
+export interface DeleteDocumentsResult {
+  deleted: number;
+  ids: string[];
+}
+
 // Semantic search with optional embedding inclusion
 export interface SemanticSearchParams {
   collection: string;
@@ -169,6 +297,7 @@ export interface EmbeddingProgress {
   timeElapsed: number;
   estimatedTimeRemaining?: number;
   errorCount?: number;
+  collection?: string;  // Set by the background queue scheduler
 }
 
 // Embedding generation request
@@ -207,11 +336,34 @@ export interface WorkerResponse<T = any> {
   };
 }
 
+/**
+ * Intermediate data a handler reports for a call still in progress
+ */
+export interface WorkerProgressMessage<T = any> {
+  type: 'progress';
+  id: string;       // Call the progress belongs to
+  data: T;
+}
+
+/**
+ * Where the worker keeps the database
+ *
+ * - memory: in-memory SQLite, snapshotted to OPFS for opfs:/ paths
+ * - opfs-sahpool: SQLite pages read and written directly in OPFS
+ *   through sync access handles (dedicated workers only)
+ * - node-fs: in-memory SQLite, snapshotted to the local file system (Node)
+ */
+export type StorageBackendType = 'memory' | 'opfs-sahpool' | 'node-fs';
+
+// 'auto' picks the best backend the environment supports
+export type StorageBackendPreference = 'auto' | StorageBackendType;
+
 // Specific message types for each database operation
 export interface OpenDatabaseParams {
   filename: string;
   path?: string;
   vfs?: 'opfs' | 'opfs-sahpool';
+  storage?: StorageBackendPreference;
   pragmas?: Record<string, string>;
 }
 
@@ -237,8 +389,10 @@ export interface BulkInsertParams {
 export interface ExportImportProgress {
   phase: 'validating' | 'preparing' | 'exporting' | 'importing' | 'finalizing' | 'complete';
   bytesProcessed: number;
-  totalBytes: number;
+  totalBytes: number;           // 0 while still unknown (exports)
   timeElapsed: number;
+  documentsProcessed?: number;  // Collection bundles only
+  totalDocuments?: number;
 }
 
 export interface ExportParams {
@@ -254,6 +408,125 @@ export interface ImportParams {
   onProgress?: (progress: ExportImportProgress) => void;
 }
 
+/**
+ * Chunked database export: the image arrives in ExportStreamProgress
+ * messages before the call resolves
+ */
+export interface ExportStreamParams {
+  transferId: string;   // Lets cancelTransfer stop the export
+  chunkSize?: number;   // Bytes per chunk (default 1 MiB)
+}
+
+export interface ExportStreamProgress extends ExportImportProgress {
+  transferId: string;
+  chunk?: ArrayBuffer;  // Next slice of the database image, in order
+}
+
+export interface ExportStreamResult {
+  totalBytes: number;
+  chunks: number;
+}
+
+/**
+ * Chunked database import: importStream stays pending while importChunk
+ * calls deliver the image, and replaces the database after the last one
+ */
+export interface ImportStreamParams {
+  transferId: string;
+  totalBytes?: number;  // For progress, if known
+}
+
+export interface ImportChunkParams {
+  transferId: string;
+  chunk?: ArrayBuffer;
+  done?: boolean;       // No more chunks follow
+}
+
+export interface CancelTransferParams {
+  transferId: string;
+}
+
+/**
+ * Options of the chunked export/import methods on Database
+ */
+export interface DatabaseTransferOptions {
+  chunkSize?: number;   // Bytes per message (default 1 MiB)
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportImportProgress) => void;
+}
+
+/**
+ * Portable collection bundle (NDJSON)
+ *
+ * The first line is the manifest, every following line one document. Vectors
+ * are base64-encoded little-endian float32 arrays, so a bundle can be moved
+ * between apps and schema versions without the SQLite file.
+ */
+export interface CollectionBundleManifest {
+  type: 'manifest';
+  format: 'localretrieve-collection';
+  version: number;
+  collection: string;
+  config: Record<string, any>;  // collections.config without the local vector table
+  provider: string | null;      // From config.embeddingConfig
+  model: string | null;
+  dimensions: number;
+  schemaVersion: number;
+  documentCount: number;
+  vectorCount: number;
+  exportedAt: number;           // ms since epoch
+}
+
+export interface CollectionBundleDocument {
+  type: 'document';
+  id: string;
+  title: string;
+  content: string;
+  metadata: Record<string, any>;
+  parentId?: string;
+  chunkIndex?: number;
+  createdAt?: number;   // unix seconds
+  updatedAt?: number;
+  vector?: string;      // base64 float32
+}
+
+export interface ExportCollectionParams {
+  collection: string;
+  includeVectors?: boolean;  // Default true
+  onProgress?: (progress: ExportImportProgress) => void;
+}
+
+/**
+ * What to do with a bundled document whose id already exists in the target collection
+ *
+ * - skip: keep the existing document
+ * - replace: drop the existing document with its vector and queue entries
+ * - merge: take title and content from the bundle and shallow-merge metadata
+ */
+export type BundleConflictPolicy = 'skip' | 'replace' | 'merge';
+
+export interface ImportCollectionParams {
+  data: Uint8Array;
+  collection?: string;                 // Import under another name (default: the manifest's)
+  onConflict?: BundleConflictPolicy;   // Default 'skip'
+  reembed?: boolean;                   // Ignore bundled vectors and embed with the target collection's provider
+  embeddingMode?: 'sync' | 'queue';    // How documents without a vector are embedded (default 'sync')
+  onProgress?: (progress: ExportImportProgress) => void;
+}
+
+export interface ImportCollectionResult {
+  collection: string;
+  created: boolean;          // The collection was created from the manifest
+  inserted: number;
+  replaced: number;
+  merged: number;
+  skipped: number;
+  vectorsImported: number;
+  embeddingsGenerated: number;
+  embeddingsQueued: number;
+  warnings: string[];
+}
+
 // Queue management types
 export interface EnqueueEmbeddingParams {
   collection: string;
@@ -271,6 +544,7 @@ export interface ProcessEmbeddingQueueParams {
 export interface ProcessEmbeddingQueueResult {
   processed: number;
   failed: number;
+  retrying?: number;  // Failed this time, back in the queue for another attempt
   remainingInQueue: number;
   errors: Array<{
     documentId: string;
@@ -294,6 +568,74 @@ export interface ClearEmbeddingQueueParams {
   olderThan?: Date;
 }
 
+// Search analytics types
+export type SearchEventMethod =
+  | 'search'
+  | 'searchText'
+  | 'searchAdvanced'
+  | 'searchGlobal'
+  | 'searchSemantic'
+  | 'searchWithLLM';
+
+/**
+ * A persisted search analytics event (one row of search_events)
+ *
+ * 'search' events describe a search call, 'interaction' events what the user
+ * did with its results; both carry the queryId returned with the response.
+ */
+export interface SearchEventRecord {
+  id?: number;
+  type: 'search' | 'interaction';
+  queryId: string;
+  sessionId?: string;
+  timestamp: number;  // Epoch milliseconds
+  method?: SearchEventMethod;
+  query?: string;
+  collection?: string;
+  strategy?: string;
+  latencyMs?: number;
+  resultCount?: number;
+  zeroResults?: boolean;
+  error?: string;
+  action?: string;  // click, view, skip, ...
+  targetId?: string;
+  targetRank?: number;
+  dwellTime?: number;  // Milliseconds
+  metadata?: Record<string, any>;
+}
+
+export interface RecordSearchEventsParams {
+  events: SearchEventRecord[];
+}
+
+export interface SearchEventFilter {
+  type?: SearchEventRecord['type'];
+  queryId?: string;
+  sessionId?: string;
+  collection?: string;
+  zeroResults?: boolean;
+  since?: number;
+  until?: number;
+  limit?: number;  // Newest first, default 100
+}
+
+export interface ZeroResultQueriesParams {
+  collection?: string;
+  since?: number;
+  limit?: number;  // Default 20
+}
+
+export interface ZeroResultQuery {
+  query: string;
+  collection?: string;
+  count: number;
+  lastSeen: number;
+}
+
+export interface PruneSearchEventsParams {
+  before: number;  // Delete events older than this epoch-milliseconds timestamp
+}
+
 // =============================================================================
 // LLM Integration Types (SCRUM-17)
 // =============================================================================
@@ -304,7 +646,7 @@ export interface ClearEmbeddingQueueParams {
 export interface EnhanceQueryParams {
   query: string;
   options?: {
-    provider?: string;
+    provider?: import('../llm/types.js').LLMProvider;
     model?: string;
     apiKey?: string;
     maxSuggestions?: number;
@@ -334,7 +676,7 @@ export interface EnhancedQueryResult {
 export interface SummarizeResultsParams {
   results: SearchResult[];
   options?: {
-    provider?: string;
+    provider?: import('../llm/types.js').LLMProvider;
     model?: string;
     apiKey?: string;
     maxLength?: number;
@@ -362,14 +704,16 @@ export interface ResultSummaryResult {
  */
 export interface SearchWithLLMParams {
   query: string;
+  streamId?: string;  // Streams the summary as LLMStreamProgress and makes the call cancellable
   options?: {
     enhanceQuery?: boolean;
     summarizeResults?: boolean;
     searchOptions?: import('./search.js').TextSearchOptions;
     llmOptions?: {
-      provider?: string;
+      provider?: import('../llm/types.js').LLMProvider;
       model?: string;
       apiKey?: string;
+      endpoint?: string;
       temperature?: number;
     };
   };
@@ -385,6 +729,7 @@ export interface LLMSearchResponseResult {
   searchTime: number;
   llmTime: number;
   totalTime: number;
+  queryId?: string;
 }
 
 /**
@@ -393,9 +738,10 @@ export interface LLMSearchResponseResult {
 export interface CallLLMParams {
   prompt: string;
   options?: {
-    provider?: string;
+    provider?: import('../llm/types.js').LLMProvider;
     model?: string;
     apiKey?: string;
+    endpoint?: string;
     temperature?: number;
     maxTokens?: number;
     timeout?: number;
@@ -419,6 +765,35 @@ export interface CallLLMResult {
   processingTime: number;
 }
 
+/**
+ * Streamed LLM Call Parameters
+ */
+export interface CallLLMStreamParams extends CallLLMParams {
+  streamId: string;  // Caller-chosen id for cancelLLMStream
+}
+
+/**
+ * Cancel LLM Stream Parameters
+ */
+export interface CancelLLMStreamParams {
+  streamId: string;
+}
+
+/**
+ * Progress data of a streamed LLM call
+ */
+export interface LLMStreamProgress {
+  streamId: string;
+  delta: string;
+}
+
+/**
+ * Item yielded by Database.callLLMStream: text deltas, then the complete result
+ */
+export type CallLLMStreamChunk =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: CallLLMResult };
+
 // Database Worker API Interface
 export interface DBWorkerAPI {
   // Core database operations
@@ -434,13 +809,17 @@ export interface DBWorkerAPI {
   // Schema management
   initializeSchema(): Promise<void>;
   getCollectionInfo(name: string): Promise<CollectionInfo>;
+  listCollections(): Promise<CollectionInfo[]>;
+  dropCollection(name: string): Promise<void>;
+  renameCollection(params: RenameCollectionParams): Promise<void>;
 
   // Collection management with embedding support
   createCollection(params: CreateCollectionParams): Promise<void>;
+  setEmbeddingApiKey(params: SetEmbeddingApiKeyParams): Promise<void>;
   getCollectionEmbeddingStatus(collection: string): Promise<CollectionEmbeddingStatusResult>;
 
   // Document operations with embedding support
-  insertDocumentWithEmbedding(params: InsertDocumentWithEmbeddingParams): Promise<{ id: string; embeddingGenerated: boolean }>;
+  insertDocumentWithEmbedding(params: InsertDocumentWithEmbeddingParams): Promise<InsertDocumentResult>;
   batchInsertDocuments(params: {
     collection: string;
     documents: Array<{
@@ -449,11 +828,12 @@ export interface DBWorkerAPI {
       content: string;
       metadata?: Record<string, any>;
     }>;
-    options?: {
-      generateEmbedding?: boolean;
-      embeddingOptions?: any;
-    };
-  }): Promise<Array<{ id: string; embeddingGenerated: boolean }>>;
+    options?: InsertDocumentOptions;
+  }): Promise<InsertDocumentResult[]>;
+  insertChunkedDocument(params: InsertChunkedDocumentParams): Promise<InsertChunkedDocumentResult>;
+  updateDocument(params: UpdateDocumentParams): Promise<UpdateDocumentResult>;
+  deleteDocument(params: DeleteDocumentParams): Promise<boolean>;
+  deleteDocuments(params: DeleteDocumentsParams): Promise<DeleteDocumentsResult>;
 
   // Embedding generation operations
   generateEmbedding(params: GenerateEmbeddingRequest): Promise<GenerateEmbeddingResult>;
@@ -474,10 +854,24 @@ export interface DBWorkerAPI {
   summarizeResults(params: SummarizeResultsParams): Promise<ResultSummaryResult>;
   searchWithLLM(params: SearchWithLLMParams): Promise<LLMSearchResponseResult>;
   callLLM(params: CallLLMParams): Promise<CallLLMResult>;
+  callLLMStream(params: CallLLMStreamParams): Promise<CallLLMResult>;
+  cancelLLMStream(params: CancelLLMStreamParams): Promise<boolean>;
+
+  // Search analytics
+  recordSearchEvents(params: RecordSearchEventsParams): Promise<void>;
+  getSearchEvents(params?: SearchEventFilter): Promise<SearchEventRecord[]>;
+  getZeroResultQueries(params?: ZeroResultQueriesParams): Promise<ZeroResultQuery[]>;
+  pruneSearchEvents(params: PruneSearchEventsParams): Promise<number>;
 
   // Data export/import
   export(params?: ExportParams): Promise<Uint8Array>;
   import(params: ImportParams): Promise<void>;
+  exportStream(params: ExportStreamParams): Promise<ExportStreamResult>;
+  importStream(params: ImportStreamParams): Promise<void>;
+  importChunk(params: ImportChunkParams): Promise<void>;
+  cancelTransfer(params: CancelTransferParams): Promise<boolean>;
+  exportCollection(params: ExportCollectionParams): Promise<Uint8Array>;
+  importCollection(params: ImportCollectionParams): Promise<ImportCollectionResult>;
   clear(): Promise<void>;
 
   // Embedding queue management
@@ -485,6 +879,8 @@ export interface DBWorkerAPI {
   processEmbeddingQueue(params?: ProcessEmbeddingQueueParams): Promise<ProcessEmbeddingQueueResult>;
   getQueueStatus(collection?: string): Promise<QueueStatusResult>;
   clearEmbeddingQueue(params?: ClearEmbeddingQueueParams): Promise<number>;
+  startEmbeddingScheduler(params?: EmbeddingSchedulerConfig): Promise<void>;
+  stopEmbeddingScheduler(): Promise<void>;
 
   // Task 6.2: Internal Embedding Pipeline Operations
   generateQueryEmbedding(params: GenerateQueryEmbeddingParams): Promise<QueryEmbeddingResult>;
@@ -518,6 +914,16 @@ export interface EmbeddingCompletedEvent extends WorkerEvent<{ collection: strin
   type: 'embedding_completed';
 }
 
+// A write made through another tab sharing the database (see TabCoordinator)
+export interface DatabaseChange {
+  method: WorkerMethodName;
+  tabId: string;    // Tab the write came from
+}
+
+export interface DatabaseChangedEvent extends WorkerEvent<DatabaseChange> {
+  type: 'database_changed';
+}
+
 export interface DatabaseEvent extends WorkerEvent {
   type: 'database' | 'search' | 'error' | 'performance';
 }
@@ -607,6 +1013,23 @@ export interface ProcessEmbeddingQueueParams {
   collection?: string;
   batchSize?: number;
   maxRetries?: number;
+  concurrency?: number;  // Provider batches generated in parallel (default 1)
+}
+
+/**
+ * Background embedding queue scheduler settings
+ *
+ * The scheduler drains the queue inside the worker while no RPC call is
+ * running, and posts 'embedding_progress' / 'embedding_completed' events.
+ */
+export interface EmbeddingSchedulerConfig {
+  batchSize?: number;          // Queue items claimed per run (default 32)
+  concurrency?: number;        // Provider batches generated in parallel (default 2)
+  maxItemsPerMinute?: number;  // Rate budget across all collections (default 600)
+  pollInterval?: number;       // ms between checks when idle or empty (default 2000)
+  idleDelay?: number;          // ms without RPC traffic before a run starts (default 250)
+  maxRetries?: number;         // Attempts per item before it fails (default 3)
+  stuckTimeout?: number;       // Seconds before a 'processing' item counts as abandoned (default 300)
 }
 
 
@@ -626,11 +1049,19 @@ export interface AdvancedSearchParams {
   aggregations?: import("./search.js").AggregationRequest[];
   facets?: import("./search.js").FacetRequest[];
   explain?: boolean;
+  processing?: import("./search.js").ResultProcessingOptions;
+  sessionId?: string;  // Enables personalization when processing.reranking is enabled
 }
 
 export interface GlobalSearchParams {
   query: string;
-  options?: import("./search.js").GlobalSearchOptions;
+  /**
+   * Collections to search; defaults to all collections.
+   * Functions cannot cross the worker boundary, so Database resolves
+   * `options.collectionFilter` into this list before calling the worker.
+   */
+  collections?: string[];
+  options?: Omit<import("./search.js").GlobalSearchOptions, 'collectionFilter'>;
 }
 
 // Task 6.2: Internal Embedding Pipeline RPC Parameters
@@ -756,6 +1187,7 @@ export interface GlobalSearchResponse extends EnhancedSearchResponse {
     collection: string;
     results: SearchResult[];
     totalInCollection: number;
+    searchTime: number;
   }>;
   collectionsSearched: string[];
 }
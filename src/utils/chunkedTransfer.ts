@@ -0,0 +1,146 @@
+/**
+ * Chunked transfer helpers
+ *
+ * Database images move between the main thread and the worker as a series
+ * of ArrayBuffers instead of one structured clone, so no single message
+ * holds the whole database and every chunk can be transferred.
+ */
+
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;     // 1 MiB
+export const MAX_CHUNK_SIZE = 64 * 1024 * 1024;    // 64 MiB
+
+export type ChunkSource = Uint8Array | ArrayBuffer | Blob | ReadableStream<Uint8Array>;
+
+/**
+ * Clamp a requested chunk size to something sane
+ */
+export function resolveChunkSize(chunkSize?: number): number {
+  if (chunkSize === undefined || !Number.isFinite(chunkSize) || chunkSize < 1) {
+    return DEFAULT_CHUNK_SIZE;
+  }
+  return Math.min(Math.floor(chunkSize), MAX_CHUNK_SIZE);
+}
+
+/**
+ * Split bytes into standalone ArrayBuffers that can be transferred
+ */
+export function* splitIntoChunks(data: Uint8Array, chunkSize: number): Generator<ArrayBuffer> {
+  for (let start = 0; start < data.length; start += chunkSize) {
+    yield data.slice(start, start + chunkSize).buffer;
+  }
+}
+
+/**
+ * Read any supported source as standalone chunks of at most `chunkSize` bytes
+ *
+ * Chunks are always copies, so transferring them never detaches the caller's buffers.
+ */
+export async function* readChunks(source: ChunkSource, chunkSize: number): AsyncGenerator<ArrayBuffer> {
+  if (source instanceof Uint8Array) {
+    yield* splitIntoChunks(source, chunkSize);
+    return;
+  }
+
+  if (source instanceof ArrayBuffer) {
+    yield* splitIntoChunks(new Uint8Array(source), chunkSize);
+    return;
+  }
+
+  if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    for (let start = 0; start < source.size; start += chunkSize) {
+      yield await source.slice(start, start + chunkSize).arrayBuffer();
+    }
+    return;
+  }
+
+  const reader = (source as ReadableStream<Uint8Array>).getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield* splitIntoChunks(value, chunkSize);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Size of a source if it can be known up front
+ */
+export function sourceSize(source: ChunkSource): number | undefined {
+  if (source instanceof Uint8Array || source instanceof ArrayBuffer) {
+    return source.byteLength;
+  }
+  if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    return source.size;
+  }
+  return undefined;
+}
+
+/**
+ * Collects incoming chunks until the sender marks the end
+ *
+ * `done` resolves with the assembled bytes, or rejects when the transfer is
+ * aborted through the signal.
+ */
+export class ChunkCollector {
+  private chunks: Uint8Array[] = [];
+  private size = 0;
+  private finished = false;
+  private resolveDone!: (data: Uint8Array) => void;
+  private rejectDone!: (error: Error) => void;
+  readonly done: Promise<Uint8Array>;
+
+  constructor(signal?: AbortSignal) {
+    this.done = new Promise((resolve, reject) => {
+      this.resolveDone = resolve;
+      this.rejectDone = reject;
+    });
+
+    signal?.addEventListener('abort', () => this.fail(new Error('Transfer aborted')), { once: true });
+  }
+
+  get byteLength(): number {
+    return this.size;
+  }
+
+  push(chunk: ArrayBuffer | Uint8Array): void {
+    if (this.finished) {
+      throw new Error('Transfer already finished');
+    }
+    const bytes = chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk);
+    this.chunks.push(bytes);
+    this.size += bytes.length;
+  }
+
+  end(): void {
+    if (this.finished) {
+      throw new Error('Transfer already finished');
+    }
+    this.finished = true;
+    this.resolveDone(concatChunks(this.chunks, this.size));
+    this.chunks = [];
+  }
+
+  fail(error: Error): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    this.chunks = [];
+    this.rejectDone(error);
+  }
+}
+
+export function concatChunks(chunks: Uint8Array[], totalBytes = chunks.reduce((sum, chunk) => sum + chunk.length, 0)): Uint8Array {
+  const data = new Uint8Array(totalBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
@@ -0,0 +1,96 @@
+/**
+ * Push-based async iterator
+ *
+ * Bridges callback-style producers (RPC progress messages) to `for await`
+ * consumers. Values pushed before the consumer asks for them are buffered.
+ */
+
+export class PushIterator<T> implements AsyncIterableIterator<T> {
+  private queue: T[] = [];
+  private waiting: Array<{ resolve: (result: IteratorResult<T>) => void; reject: (error: Error) => void }> = [];
+  private error: Error | null = null;
+  private finished = false;
+
+  /**
+   * @param onReturn - Called once when the consumer stops iterating early
+   */
+  constructor(private onReturn?: () => void) {}
+
+  push(value: T): void {
+    if (this.finished) {
+      return;
+    }
+
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+    } else {
+      this.queue.push(value);
+    }
+  }
+
+  /**
+   * Complete the iteration after the buffered values are consumed
+   */
+  end(): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+
+  /**
+   * Fail the iteration; buffered values are dropped
+   */
+  fail(error: Error): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    this.queue = [];
+
+    const waiters = this.waiting.splice(0);
+    if (waiters.length === 0) {
+      this.error = error;  // Kept for the next read
+    }
+    for (const waiter of waiters) {
+      waiter.reject(error);
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.queue.length > 0) {
+      return Promise.resolve({ value: this.queue.shift()!, done: false });
+    }
+    if (this.error) {
+      const error = this.error;
+      this.error = null;  // Reported once, then the iterator is simply done
+      return Promise.reject(error);
+    }
+    if (this.finished) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ resolve, reject });
+    });
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    if (!this.finished) {
+      this.end();
+      this.onReturn?.();
+    }
+    this.queue = [];
+    this.error = null;
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
@@ -10,7 +10,12 @@ import type {
   WorkerResponse,
   WorkerMethodName,
   DBWorkerAPI,
-  WorkerConfig
+  WorkerConfig,
+  WorkerEvent,
+  WorkerProgressMessage,
+  LLMStreamProgress,
+  ExportImportProgress,
+  ExportStreamProgress
 } from '../types/worker.js';
 
 import {
@@ -25,19 +30,35 @@ const DEFAULT_CONFIG: Required<WorkerConfig> = {
   logLevel: 'info'
 };
 
+/**
+ * What WorkerRPC needs from a worker: a Worker, or anything that relays
+ * messages to one (e.g. TabCoordinator for a follower tab). Relays may
+ * ignore the transfer list and clone instead.
+ */
+export interface WorkerEndpoint {
+  postMessage(message: any, transfer?: Transferable[]): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  onmessageerror: ((event: MessageEvent) => void) | null;
+}
+
 /**
  * Client-side RPC wrapper for worker communication
  */
 export class WorkerRPC implements DBWorkerAPI {
-  private worker: Worker;
+  private worker: WorkerEndpoint;
   private config: Required<WorkerConfig>;
   private pendingCalls = new Map<string, {
     resolve: (value: any) => void;
     reject: (error: Error) => void;
     timeout: ReturnType<typeof setTimeout>;
     startTime: number;
+    method: WorkerMethodName;
+    onProgress?: (data: any) => void;
   }>();
   private callCounter = 0;
+  private eventListeners = new Set<(event: WorkerEvent) => void>();
   private performanceMetrics = {
     totalCalls: 0,
     totalTime: 0,
@@ -45,7 +66,7 @@ export class WorkerRPC implements DBWorkerAPI {
     timeouts: 0
   };
 
-  constructor(worker: Worker, config: Partial<WorkerConfig> = {}) {
+  constructor(worker: WorkerEndpoint, config: Partial<WorkerConfig> = {}) {
     this.worker = worker;
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.setupWorkerListeners();
@@ -63,6 +84,18 @@ export class WorkerRPC implements DBWorkerAPI {
         return;
       }
 
+      // Handle events pushed by the worker outside of any call
+      if (response.type === 'event') {
+        this.dispatchEvent(response.event);
+        return;
+      }
+
+      // Handle intermediate data of a running call
+      if (response.type === 'progress') {
+        this.handleProgress(response);
+        return;
+      }
+
       this.handleWorkerResponse(response);
     };
 
@@ -109,11 +142,59 @@ export class WorkerRPC implements DBWorkerAPI {
     }
   }
 
+  private handleProgress(message: WorkerProgressMessage): void {
+    const pending = this.pendingCalls.get(message.id);
+    if (!pending?.onProgress) {
+      return;
+    }
+
+    // A call that reports progress is alive: the timeout measures silence, not total duration
+    clearTimeout(pending.timeout);
+    pending.timeout = this.startCallTimeout(message.id, pending.method, pending.reject);
+
+    try {
+      pending.onProgress(message.data);
+    } catch (error) {
+      this.log('error', `Progress listener for ${pending.method} failed:`, error);
+    }
+  }
+
+  private dispatchEvent(event: WorkerEvent): void {
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.log('error', `Event listener for ${event.type} failed:`, error);
+      }
+    }
+  }
+
   private generateCallId(): string {
     return `rpc_${++this.callCounter}_${Date.now()}`;
   }
 
-  private call<T = any>(method: WorkerMethodName, params?: any): Promise<T> {
+  private startCallTimeout(
+    id: string,
+    method: WorkerMethodName,
+    reject: (error: Error) => void
+  ): ReturnType<typeof setTimeout> {
+    return setTimeout(() => {
+      this.log('error', `Operation timeout for ${method} after ${this.config.operationTimeout}ms`);
+      this.pendingCalls.delete(id);
+      this.performanceMetrics.timeouts++;
+      reject(new WorkerError(
+        `Operation timeout after ${this.config.operationTimeout}ms`,
+        'TIMEOUT'
+      ));
+    }, this.config.operationTimeout);
+  }
+
+  private call<T = any>(
+    method: WorkerMethodName,
+    params?: any,
+    onProgress?: (data: any) => void,
+    transfer: Transferable[] = []
+  ): Promise<T> {
     return new Promise((resolve, reject) => {
       // Check concurrent operations limit
       if (this.pendingCalls.size >= this.config.maxConcurrentOperations) {
@@ -129,22 +210,16 @@ export class WorkerRPC implements DBWorkerAPI {
       const startTime = Date.now();
 
       // Setup timeout
-      const timeout = setTimeout(() => {
-        this.log('error', `Operation timeout for ${method} after ${this.config.operationTimeout}ms`);
-        this.pendingCalls.delete(id);
-        this.performanceMetrics.timeouts++;
-        reject(new WorkerError(
-          `Operation timeout after ${this.config.operationTimeout}ms`,
-          'TIMEOUT'
-        ));
-      }, this.config.operationTimeout);
+      const timeout = this.startCallTimeout(id, method, reject);
 
       // Store pending call
       this.pendingCalls.set(id, {
         resolve,
         reject,
         timeout,
-        startTime
+        startTime,
+        method,
+        onProgress
       });
 
       // Send message to worker
@@ -155,7 +230,7 @@ export class WorkerRPC implements DBWorkerAPI {
       };
 
       try {
-        this.worker.postMessage(message);
+        this.worker.postMessage(message, transfer);
       } catch (error) {
         this.log('error', `Failed to send RPC message for ${method}:`, error);
         this.pendingCalls.delete(id);
@@ -222,16 +297,70 @@ export class WorkerRPC implements DBWorkerAPI {
     return this.call('getCollectionInfo', name);
   }
 
+  async listCollections(): ReturnType<DBWorkerAPI['listCollections']> {
+    return this.call('listCollections');
+  }
+
+  async dropCollection(name: string): Promise<void> {
+    return this.call('dropCollection', name);
+  }
+
+  async renameCollection(params: Parameters<DBWorkerAPI['renameCollection']>[0]): Promise<void> {
+    return this.call('renameCollection', params);
+  }
+
   async search(params: Parameters<DBWorkerAPI['search']>[0]) {
     return this.call('search', params);
   }
 
   async export(params?: Parameters<DBWorkerAPI['export']>[0]): Promise<Uint8Array> {
-    return this.call('export', params);
+    // Callbacks can't be cloned; progress comes back as progress messages
+    const { onProgress, ...exportParams } = params ?? {};
+    return this.call('export', exportParams, onProgress);
   }
 
   async import(params: Parameters<DBWorkerAPI['import']>[0]): Promise<void> {
-    return this.call('import', params);
+    const { onProgress, ...importParams } = params;
+    return this.call('import', importParams, onProgress);
+  }
+
+  async exportStream(
+    params: Parameters<DBWorkerAPI['exportStream']>[0],
+    onProgress?: (progress: ExportStreamProgress) => void
+  ): ReturnType<DBWorkerAPI['exportStream']> {
+    return this.call('exportStream', params, onProgress);
+  }
+
+  async importStream(
+    params: Parameters<DBWorkerAPI['importStream']>[0],
+    onProgress?: (progress: ExportImportProgress) => void
+  ): Promise<void> {
+    return this.call('importStream', params, onProgress);
+  }
+
+  /**
+   * Send one chunk of a streamed import; the chunk's buffer is transferred
+   */
+  async importChunk(params: Parameters<DBWorkerAPI['importChunk']>[0]): Promise<void> {
+    return this.call('importChunk', params, undefined, params.chunk ? [params.chunk] : []);
+  }
+
+  async cancelTransfer(params: Parameters<DBWorkerAPI['cancelTransfer']>[0]): Promise<boolean> {
+    return this.call('cancelTransfer', params);
+  }
+
+  async exportCollection(
+    params: Parameters<DBWorkerAPI['exportCollection']>[0],
+    onProgress?: (progress: ExportImportProgress) => void
+  ): ReturnType<DBWorkerAPI['exportCollection']> {
+    return this.call('exportCollection', params, onProgress);
+  }
+
+  async importCollection(
+    params: Parameters<DBWorkerAPI['importCollection']>[0],
+    onProgress?: (progress: ExportImportProgress) => void
+  ): ReturnType<DBWorkerAPI['importCollection']> {
+    return this.call('importCollection', params, onProgress);
   }
 
   async clear(): Promise<void> {
@@ -251,6 +380,10 @@ export class WorkerRPC implements DBWorkerAPI {
     return this.call('createCollection', params);
   }
 
+  async setEmbeddingApiKey(params: Parameters<DBWorkerAPI['setEmbeddingApiKey']>[0]): Promise<void> {
+    return this.call('setEmbeddingApiKey', params);
+  }
+
   async getCollectionEmbeddingStatus(collection: string) {
     return this.call('getCollectionEmbeddingStatus', collection);
   }
@@ -264,6 +397,22 @@ export class WorkerRPC implements DBWorkerAPI {
     return this.call('batchInsertDocuments', params);
   }
 
+  async insertChunkedDocument(params: Parameters<DBWorkerAPI['insertChunkedDocument']>[0]) {
+    return this.call('insertChunkedDocument', params);
+  }
+
+  async updateDocument(params: Parameters<DBWorkerAPI['updateDocument']>[0]) {
+    return this.call('updateDocument', params);
+  }
+
+  async deleteDocument(params: Parameters<DBWorkerAPI['deleteDocument']>[0]) {
+    return this.call('deleteDocument', params);
+  }
+
+  async deleteDocuments(params: Parameters<DBWorkerAPI['deleteDocuments']>[0]) {
+    return this.call('deleteDocuments', params);
+  }
+
   // Search operations
   async searchSemantic(params: Parameters<DBWorkerAPI['searchSemantic']>[0]) {
     return this.call('searchSemantic', params);
@@ -312,6 +461,14 @@ export class WorkerRPC implements DBWorkerAPI {
     return this.call('clearEmbeddingQueue', params);
   }
 
+  async startEmbeddingScheduler(params?: Parameters<DBWorkerAPI['startEmbeddingScheduler']>[0]): Promise<void> {
+    return this.call('startEmbeddingScheduler', params);
+  }
+
+  async stopEmbeddingScheduler(): Promise<void> {
+    return this.call('stopEmbeddingScheduler');
+  }
+
   // SCRUM-17: LLM Integration RPC methods
   async enhanceQuery(params: Parameters<DBWorkerAPI['enhanceQuery']>[0]) {
     return this.call('enhanceQuery', params);
@@ -321,14 +478,45 @@ export class WorkerRPC implements DBWorkerAPI {
     return this.call('summarizeResults', params);
   }
 
-  async searchWithLLM(params: Parameters<DBWorkerAPI['searchWithLLM']>[0]) {
-    return this.call('searchWithLLM', params);
+  async searchWithLLM(
+    params: Parameters<DBWorkerAPI['searchWithLLM']>[0],
+    onProgress?: (progress: LLMStreamProgress) => void
+  ): ReturnType<DBWorkerAPI['searchWithLLM']> {
+    return this.call('searchWithLLM', params, onProgress);
   }
 
   async callLLM(params: Parameters<DBWorkerAPI['callLLM']>[0]) {
     return this.call('callLLM', params);
   }
 
+  async callLLMStream(
+    params: Parameters<DBWorkerAPI['callLLMStream']>[0],
+    onProgress?: (progress: LLMStreamProgress) => void
+  ): ReturnType<DBWorkerAPI['callLLMStream']> {
+    return this.call('callLLMStream', params, onProgress);
+  }
+
+  async cancelLLMStream(params: Parameters<DBWorkerAPI['cancelLLMStream']>[0]): Promise<boolean> {
+    return this.call('cancelLLMStream', params);
+  }
+
+  // Search analytics RPC methods
+  async recordSearchEvents(params: Parameters<DBWorkerAPI['recordSearchEvents']>[0]): Promise<void> {
+    return this.call('recordSearchEvents', params);
+  }
+
+  async getSearchEvents(params?: Parameters<DBWorkerAPI['getSearchEvents']>[0]): ReturnType<DBWorkerAPI['getSearchEvents']> {
+    return this.call('getSearchEvents', params);
+  }
+
+  async getZeroResultQueries(params?: Parameters<DBWorkerAPI['getZeroResultQueries']>[0]): ReturnType<DBWorkerAPI['getZeroResultQueries']> {
+    return this.call('getZeroResultQueries', params);
+  }
+
+  async pruneSearchEvents(params: Parameters<DBWorkerAPI['pruneSearchEvents']>[0]): Promise<number> {
+    return this.call('pruneSearchEvents', params);
+  }
+
   // Task 6.2: Internal Embedding Pipeline RPC methods
   async generateQueryEmbedding(params: Parameters<DBWorkerAPI["generateQueryEmbedding"]>[0]) {
     return this.call("generateQueryEmbedding", params);
@@ -363,6 +551,17 @@ export class WorkerRPC implements DBWorkerAPI {
   }
 
   // Utility methods
+
+  /**
+   * Subscribe to events posted by the worker; returns an unsubscribe function
+   */
+  onEvent(listener: (event: WorkerEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
   getPerformanceMetrics() {
     const avgLatency = this.performanceMetrics.totalCalls > 0 
       ? this.performanceMetrics.totalTime / this.performanceMetrics.totalCalls 
@@ -380,16 +579,27 @@ export class WorkerRPC implements DBWorkerAPI {
 
   terminate(): void {
     this.rejectAllPending(new WorkerError('Worker terminated', 'TERMINATED'));
+    this.eventListeners.clear();
     this.worker.terminate();
   }
 }
 
+/**
+ * Per-call context passed to worker handlers
+ */
+export interface RPCCallContext {
+  /** Send intermediate data to the caller before the call resolves; `transfer` buffers are moved, not copied */
+  progress(data: unknown, transfer?: Transferable[]): void;
+}
+
 /**
  * Server-side RPC handler for the worker
  */
 export class WorkerRPCHandler {
-  private handlers = new Map<string, (params: any) => Promise<any>>();
+  private handlers = new Map<string, (params: any, context: RPCCallContext) => Promise<any>>();
   private config: Required<WorkerConfig>;
+  private activeCalls = 0;
+  private lastActivity = Date.now();
 
   constructor(config: Partial<WorkerConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -407,6 +617,7 @@ export class WorkerRPCHandler {
     const startTime = Date.now();
     let response: WorkerResponse;
 
+    this.activeCalls++;
     try {
 
       const handler = this.handlers.get(message.method);
@@ -414,7 +625,7 @@ export class WorkerRPCHandler {
         throw new WorkerError(`Unknown method: ${message.method}`, 'UNKNOWN_METHOD');
       }
 
-      const result = await handler(message.params);
+      const result = await handler(message.params, this.createCallContext(message.id));
 
       response = {
         id: message.id,
@@ -431,6 +642,9 @@ export class WorkerRPCHandler {
           stack: error instanceof Error ? error.stack : undefined
         }
       };
+    } finally {
+      this.activeCalls--;
+      this.lastActivity = Date.now();
     }
 
     try {
@@ -455,16 +669,56 @@ export class WorkerRPCHandler {
     }
   }
 
+  private createCallContext(id: string): RPCCallContext {
+    return {
+      progress: (data: unknown, transfer: Transferable[] = []) => {
+        const message: WorkerProgressMessage = { type: 'progress', id, data };
+        try {
+          self.postMessage(message, { transfer });
+        } catch (error) {
+          this.log('error', `Failed to post progress for call ${id}:`, error);
+        }
+      }
+    };
+  }
+
   register(method: string, handler: (params: any) => Promise<any>): void {
-    this.handlers.set(method, handler);
+    // Handlers may have optional parameters of their own, so the context is not passed on
+    this.handlers.set(method, params => handler(params));
     this.log('debug', `Registered handler for method: ${method}`);
   }
 
+  /**
+   * Register a handler that reports progress through its call context
+   */
+  registerWithProgress(method: string, handler: (params: any, context: RPCCallContext) => Promise<any>): void {
+    this.handlers.set(method, handler);
+    this.log('debug', `Registered progress handler for method: ${method}`);
+  }
+
   unregister(method: string): void {
     this.handlers.delete(method);
     this.log('debug', `Unregistered handler for method: ${method}`);
   }
 
+  /**
+   * Post an event to the main thread, outside of any call
+   */
+  emit(event: WorkerEvent): void {
+    try {
+      self.postMessage({ type: 'event', event });
+    } catch (error) {
+      this.log('error', `Failed to post ${event.type} event:`, error);
+    }
+  }
+
+  /**
+   * Whether no call is running and none has finished within the last `quietMs`
+   */
+  isIdle(quietMs: number = 0): boolean {
+    return this.activeCalls === 0 && Date.now() - this.lastActivity >= quietMs;
+  }
+
   private log(level: 'debug' | 'info' | 'warn' | 'error', message: string, ...args: any[]): void {
     const levels = { debug: 0, info: 1, warn: 2, error: 3 };
     const configLevel = levels[this.config.logLevel];
@@ -0,0 +1,450 @@
+/**
+ * Multi-tab coordination for a shared OPFS database
+ *
+ * Tabs that open the same opfs:/ database elect a leader with the Web Locks
+ * API. Only the leader runs a database worker; followers relay their RPC
+ * calls to it over a BroadcastChannel. The lock is released when the leader
+ * tab closes or crashes, and the next waiting tab takes over.
+ *
+ * TabCoordinator stands in for the Worker a WorkerRPC talks to, so the
+ * rest of the client does not know which tab runs the database.
+ */
+
+import type { WorkerEndpoint } from './rpc.js';
+import type {
+  WorkerMessage,
+  WorkerResponse,
+  WorkerMethodName,
+  WorkerEvent,
+  DatabaseChangedEvent
+} from '../types/worker.js';
+import { WorkerError } from '../types/worker.js';
+
+// Methods that change the database; other tabs get a database_changed event after each succeeds
+const WRITE_METHODS: ReadonlySet<string> = new Set<WorkerMethodName>([
+  'exec', 'bulkInsert', 'initializeSchema', 'createCollection', 'dropCollection', 'renameCollection',
+  'insertDocumentWithEmbedding', 'batchInsertDocuments', 'insertChunkedDocument', 'updateDocument',
+  'deleteDocument', 'deleteDocuments', 'regenerateCollectionEmbeddings', 'enqueueEmbedding',
+  'processEmbeddingQueue', 'clearEmbeddingQueue', 'recordSearchEvents', 'pruneSearchEvents',
+  'import', 'importStream', 'importCollection', 'clear'
+]);
+
+// Calls that set up a tab's session; replayed on the tab's own worker when it becomes leader
+const SESSION_METHODS: ReadonlySet<string> = new Set<WorkerMethodName>(['open', 'initializeSchema']);
+
+// Calls a follower answers itself: the leader's worker is already open and stays open
+const LOCAL_METHODS: ReadonlySet<string> = new Set<WorkerMethodName>(['open', 'close']);
+
+const OPEN_ATTEMPTS = 3;
+const OPEN_RETRY_DELAY = 200;   // The old leader's worker may still hold OPFS access handles
+
+type ChannelMessage =
+  | { type: 'who-leads'; from: string }
+  | { type: 'leader'; from: string }
+  | { type: 'resign'; from: string }
+  | { type: 'call'; from: string; to: string; message: WorkerMessage }
+  | { type: 'reply'; from: string; to: string; message: WorkerResponse | { type: 'progress'; id: string; data: unknown } }
+  | { type: 'event'; from: string; event: WorkerEvent };
+
+export type TabRole = 'electing' | 'leader' | 'follower' | 'closed';
+
+export interface TabCoordinatorOptions {
+  /** Database filename; tabs with the same name coordinate */
+  name: string;
+  /** Starts this tab's database worker once it becomes leader */
+  createWorker: () => WorkerEndpoint;
+  tabId?: string;
+}
+
+interface QueuedCall {
+  tabId: string;
+  message: WorkerMessage;
+}
+
+interface WorkerCall {
+  tabId: string;
+  id: string;
+  method: string;
+}
+
+export class TabCoordinator implements WorkerEndpoint {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  onmessageerror: ((event: MessageEvent) => void) | null = null;
+
+  readonly tabId: string;
+  private role: TabRole = 'electing';
+  private leaderId: string | null = null;
+  private channel: BroadcastChannel;
+  private lockName: string;
+  private lockRequest = new AbortController();
+  private releaseLock: (() => void) | null = null;
+  private worker: WorkerEndpoint | null = null;
+
+  private queue: QueuedCall[] = [];                        // Calls waiting for a leader
+  private sessionCalls = new Map<string, WorkerMessage>();
+  private proxiedCalls = new Set<string>();                // Own calls sent to another tab's worker
+  private workerCalls = new Map<string, WorkerCall>();     // Worker call id -> caller (leader only)
+  private replayCalls = new Map<string, (response: WorkerResponse) => void>();
+  private replayCounter = 0;
+
+  constructor(private options: TabCoordinatorOptions) {
+    this.tabId = options.tabId ?? createTabId();
+    this.lockName = `localretrieve:${options.name}`;
+    this.channel = new BroadcastChannel(`localretrieve:${options.name}`);
+    this.channel.onmessage = (event: MessageEvent<ChannelMessage>) => this.handleChannelMessage(event.data);
+
+    void this.elect();
+  }
+
+  /**
+   * Whether the browser has what coordination needs
+   */
+  static isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined' &&
+           typeof navigator !== 'undefined' &&
+           typeof (navigator as Navigator & { locks?: LockManager }).locks?.request === 'function';
+  }
+
+  getRole(): TabRole {
+    return this.role;
+  }
+
+  /**
+   * Called by WorkerRPC for every call
+   */
+  postMessage(message: WorkerMessage): void {
+    if (this.role === 'closed') {
+      this.deliver({ id: message.id, error: { message: 'Tab coordinator closed', code: 'TERMINATED' } });
+      return;
+    }
+
+    if (SESSION_METHODS.has(message.method)) {
+      this.sessionCalls.set(message.method, message);
+    }
+
+    this.dispatch({ tabId: this.tabId, message });
+  }
+
+  /**
+   * Stop coordinating; a leader closes its worker and lets the next tab take over
+   */
+  terminate(): void {
+    if (this.role === 'closed') {
+      return;
+    }
+
+    const wasLeader = this.role === 'leader';
+    this.role = 'closed';
+
+    this.worker?.terminate();
+    this.worker = null;
+    for (const [id, resolve] of this.replayCalls) {
+      resolve({ id, error: { message: 'Tab coordinator closed', code: 'TERMINATED' } });
+    }
+    this.replayCalls.clear();
+    if (wasLeader) {
+      this.post({ type: 'resign', from: this.tabId });
+    }
+
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this.lockRequest.abort();
+    this.channel.close();
+
+    this.queue = [];
+    this.proxiedCalls.clear();
+    this.workerCalls.clear();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Leader election
+  // ---------------------------------------------------------------------------
+
+  private async elect(): Promise<void> {
+    try {
+      if (await this.requestLock(true)) {
+        return;
+      }
+
+      this.role = 'follower';
+      this.post({ type: 'who-leads', from: this.tabId });
+      this.flushQueue();
+
+      // Resolves once the current leader is gone and this tab took over
+      await this.requestLock(false);
+    } catch (error) {
+      if (this.role !== 'closed') {
+        this.log('error', 'Leader election failed:', error);
+        this.failQueue(new WorkerError(`Leader election failed: ${error instanceof Error ? error.message : String(error)}`, 'ELECTION_FAILED'));
+      }
+    }
+  }
+
+  /**
+   * Request the leader lock; resolves true once this tab leads, false if
+   * `ifAvailable` and another tab holds it. The lock is held until terminate().
+   */
+  private requestLock(ifAvailable: boolean): Promise<boolean> {
+    const locks = (navigator as Navigator & { locks: LockManager }).locks;
+    const options: LockOptions = ifAvailable ? { ifAvailable: true } : { signal: this.lockRequest.signal };
+
+    return new Promise<boolean>((resolve, reject) => {
+      locks.request(this.lockName, options, async lock => {
+        if (!lock) {
+          resolve(false);
+          return;
+        }
+        if (this.role === 'closed') {
+          resolve(true);
+          return;   // Closed while waiting: let the next tab have it
+        }
+
+        const held = new Promise<void>(release => { this.releaseLock = release; });
+        await this.becomeLeader();
+        resolve(true);
+        await held;
+      }).catch(reject);
+    });
+  }
+
+  private async becomeLeader(): Promise<void> {
+    this.log('info', `Tab ${this.tabId} is now the leader for ${this.options.name}`);
+    this.role = 'electing';
+    this.leaderId = this.tabId;
+
+    // Calls sent to the previous leader will not be answered
+    this.failProxiedCalls();
+
+    const worker = this.options.createWorker();
+    worker.onmessage = event => this.handleWorkerMessage(event.data);
+    worker.onerror = event => this.onerror?.(event);
+    worker.onmessageerror = event => this.onmessageerror?.(event);
+    this.worker = worker;
+
+    // Session calls still queued run normally below; the rest were answered elsewhere
+    const queued = new Set(this.queue.filter(call => call.tabId === this.tabId).map(call => call.message.id));
+    for (const message of this.sessionCalls.values()) {
+      if (!queued.has(message.id)) {
+        await this.replay(message);
+      }
+    }
+
+    // terminate() may have run during the replay
+    if ((this.role as TabRole) === 'closed') {
+      return;
+    }
+
+    this.role = 'leader';
+    this.post({ type: 'leader', from: this.tabId });
+    this.flushQueue();
+  }
+
+  /**
+   * Re-run a session call on this tab's new worker
+   */
+  private async replay(message: WorkerMessage): Promise<void> {
+    const attempts = message.method === 'open' ? OPEN_ATTEMPTS : 1;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const id = `replay/${++this.replayCounter}`;
+      const response = await new Promise<WorkerResponse>(resolve => {
+        this.replayCalls.set(id, resolve);
+        this.worker!.postMessage({ ...message, id });
+      });
+
+      if (!response.error || (this.role as TabRole) === 'closed') {
+        return;
+      }
+
+      this.log('warn', `Replaying ${message.method} on the new leader failed (attempt ${attempt}/${attempts}): ${response.error.message}`);
+      if (attempt < attempts) {
+        await new Promise(resolve => setTimeout(resolve, OPEN_RETRY_DELAY * attempt));
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Call routing
+  // ---------------------------------------------------------------------------
+
+  private dispatch(call: QueuedCall): void {
+    const ownCall = call.tabId === this.tabId;
+
+    if (this.role === 'leader') {
+      this.sendToWorker(call);
+    } else if (this.role === 'follower' && ownCall && LOCAL_METHODS.has(call.message.method)) {
+      this.deliver({ id: call.message.id, result: undefined });
+    } else if (this.role === 'follower' && ownCall && this.leaderId) {
+      this.proxiedCalls.add(call.message.id);
+      this.post({ type: 'call', from: this.tabId, to: this.leaderId, message: call.message });
+    } else {
+      this.queue.push(call);
+    }
+  }
+
+  private flushQueue(): void {
+    const queued = this.queue;
+    this.queue = [];
+    for (const call of queued) {
+      this.dispatch(call);
+    }
+  }
+
+  private sendToWorker(call: QueuedCall): void {
+    // Call ids are only unique per tab
+    const workerId = call.tabId === this.tabId ? call.message.id : `${call.tabId}/${call.message.id}`;
+    this.workerCalls.set(workerId, { tabId: call.tabId, id: call.message.id, method: call.message.method });
+    this.worker!.postMessage({ ...call.message, id: workerId });
+  }
+
+  private handleWorkerMessage(data: any): void {
+    if (data?.type === 'log') {
+      this.onmessage?.({ data } as MessageEvent);
+      return;
+    }
+
+    if (data?.type === 'event') {
+      this.onmessage?.({ data } as MessageEvent);
+      this.post({ type: 'event', from: this.tabId, event: data.event });
+      return;
+    }
+
+    const replay = this.replayCalls.get(data.id);
+    if (replay) {
+      this.replayCalls.delete(data.id);
+      replay(data);
+      return;
+    }
+
+    const call = this.workerCalls.get(data.id);
+    if (!call) {
+      return;
+    }
+
+    const message = { ...data, id: call.id };
+    if (data.type !== 'progress') {
+      this.workerCalls.delete(data.id);
+      if (!data.error && WRITE_METHODS.has(call.method)) {
+        this.announceChange(call);
+      }
+    }
+
+    if (call.tabId === this.tabId) {
+      this.deliver(message);
+    } else {
+      this.post({ type: 'reply', from: this.tabId, to: call.tabId, message });
+    }
+  }
+
+  private announceChange(call: WorkerCall): void {
+    const event: DatabaseChangedEvent = {
+      type: 'database_changed',
+      data: { method: call.method as WorkerMethodName, tabId: call.tabId }
+    };
+
+    this.post({ type: 'event', from: this.tabId, event });
+    if (call.tabId !== this.tabId) {
+      this.deliver({ type: 'event', event });
+    }
+  }
+
+  private handleChannelMessage(message: ChannelMessage): void {
+    if (this.role === 'closed' || message.from === this.tabId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'who-leads':
+        if (this.role === 'leader') {
+          this.post({ type: 'leader', from: this.tabId });
+        }
+        break;
+
+      case 'leader':
+        if (this.leaderId !== message.from) {
+          this.failProxiedCalls();
+          this.leaderId = message.from;
+        }
+        this.flushQueue();
+        break;
+
+      case 'resign':
+        if (this.leaderId === message.from) {
+          this.failProxiedCalls();
+          this.leaderId = null;
+        }
+        break;
+
+      case 'call':
+        if (message.to === this.tabId) {
+          this.dispatch({ tabId: message.from, message: message.message });
+        }
+        break;
+
+      case 'reply':
+        if (message.to === this.tabId) {
+          if (!('type' in message.message)) {
+            this.proxiedCalls.delete(message.message.id);
+          }
+          this.deliver(message.message);
+        }
+        break;
+
+      case 'event': {
+        const event = message.event as WorkerEvent;
+        // A tab's own writes are not news to it
+        if (event.type === 'database_changed' && event.data?.tabId === this.tabId) {
+          break;
+        }
+        this.deliver({ type: 'event', event });
+        break;
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private failProxiedCalls(): void {
+    for (const id of this.proxiedCalls) {
+      this.deliver({ id, error: { message: 'Leader tab changed before the call completed', code: 'LEADER_CHANGED' } });
+    }
+    this.proxiedCalls.clear();
+  }
+
+  private failQueue(error: WorkerError): void {
+    for (const call of this.queue) {
+      if (call.tabId === this.tabId) {
+        this.deliver({ id: call.message.id, error: { message: error.message, code: error.code ?? 'UNKNOWN_ERROR' } });
+      }
+    }
+    this.queue = [];
+  }
+
+  /**
+   * Hand a message to this tab's WorkerRPC as if its worker had sent it
+   */
+  private deliver(data: unknown): void {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+
+  private post(message: ChannelMessage): void {
+    try {
+      this.channel.postMessage(message);
+    } catch (error) {
+      this.log('error', `Failed to post ${message.type} to other tabs:`, error);
+    }
+  }
+
+  private log(level: 'info' | 'warn' | 'error', message: string, ...args: any[]): void {
+    console[level](`[TabCoordinator] ${message}`, ...args);
+  }
+}
+
+function createTabId(): string {
+  return typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `tab_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+}
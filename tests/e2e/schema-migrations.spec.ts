@@ -0,0 +1,141 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * E2E Schema Migration Tests for LocalRetrieve SDK
+ *
+ * Upgrades a real v1 database in the browser's SQLite WASM build. The page
+ * replaces the current schema with the v1 fixture below, reopens the
+ * database and checks every migration (v2-v6) against the upgraded schema
+ * and the original documents.
+ */
+
+// Schema as shipped in v1: no collection column, no embedding queue, FTS5 without unicode61
+const V1_SCHEMA = `
+  CREATE TABLE docs_default (
+    rowid INTEGER PRIMARY KEY,
+    id TEXT UNIQUE,
+    title TEXT,
+    content TEXT NOT NULL,
+    metadata JSON,
+    created_at INTEGER,
+    updated_at INTEGER
+  );
+
+  CREATE VIRTUAL TABLE fts_default USING fts5(
+    title, content, metadata,
+    content=docs_default,
+    content_rowid=rowid
+  );
+
+  CREATE TABLE collections (
+    name TEXT PRIMARY KEY,
+    created_at INTEGER,
+    updated_at INTEGER,
+    schema_version INTEGER DEFAULT 1,
+    config JSON
+  );
+
+  INSERT INTO collections (name, schema_version, config)
+  VALUES ('default', 1, '{"vectorDim": 384, "metric": "cosine"}');
+`;
+
+const CURRENT_TABLES = ['fts_default', 'docs_default', 'collections', 'embedding_queue', 'search_events'];
+
+test.describe('Schema migrations - v1 upgrade', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/examples/web-client/index.html');
+    await page.waitForFunction(() => {
+      return typeof window.LocalRetrieve !== 'undefined';
+    }, { timeout: 30000 });
+  });
+
+  test('should upgrade a v1 database to the current schema without losing documents', async ({ page }) => {
+    const result = await page.evaluate(async ({ v1Schema, currentTables }) => {
+      try {
+        // @ts-ignore
+        const { initLocalRetrieve } = window.LocalRetrieve;
+        const dbPath = 'opfs:/test-v1-upgrade.db';
+        const db = await initLocalRetrieve(dbPath);
+
+        // Replace the freshly created schema with the v1 fixture
+        for (const table of currentTables) {
+          await db.execAsync(`DROP TABLE IF EXISTS ${table}`);
+        }
+        await db.execAsync(v1Schema);
+
+        const documents = [
+          ['v1-doc-1', 'Поиск по документам', 'Полнотекстовый поиск на русском языке', { collection: 'notes', tag: 'ru' }],
+          ['v1-doc-2', 'Vector search', 'Hybrid search with sqlite-vec', { tag: 'en' }]
+        ];
+        for (const [id, title, content, metadata] of documents) {
+          await db.runAsync(
+            'INSERT INTO docs_default (id, title, content, metadata) VALUES (?, ?, ?, ?)',
+            [id, title, content, JSON.stringify(metadata)]
+          );
+        }
+        await db.execAsync(`INSERT INTO fts_default(fts_default) VALUES('rebuild')`);
+
+        // Reopening runs the pending migrations
+        await db.closeAsync();
+        const db2 = await initLocalRetrieve(dbPath);
+
+        const columns = async (table: string) => {
+          const info = await db2.execAsync(`PRAGMA table_info(${table})`);
+          return info[0]?.values?.map((row: any[]) => row[1]) || [];
+        };
+        const docsColumns = await columns('docs_default');
+        const collectionColumns = await columns('collections');
+        const tables = await db2.execAsync(`SELECT name FROM sqlite_master WHERE type = 'table'`);
+        const versions = await db2.execAsync('SELECT DISTINCT schema_version FROM collections');
+        const migrated = await db2.execAsync('SELECT id, collection, metadata FROM docs_default ORDER BY id');
+        const russian = await db2.execAsync(
+          `SELECT d.id FROM fts_default f JOIN docs_default d ON d.rowid = f.rowid WHERE fts_default MATCH ?`,
+          ['русском']
+        );
+        const ftsSql = await db2.execAsync(`SELECT sql FROM sqlite_master WHERE name = 'fts_default'`);
+
+        await db2.closeAsync();
+
+        return {
+          success: true,
+          schemaVersions: versions[0]?.values?.map((row: any[]) => row[0]) || [],
+          tables: tables[0]?.values?.map((row: any[]) => row[0]) || [],
+          docsColumns,
+          collectionColumns,
+          migrated: (migrated[0]?.values || []).map((row: any[]) => ({
+            id: row[0],
+            collection: row[1],
+            metadata: JSON.parse(row[2])
+          })),
+          russianMatches: russian[0]?.values?.map((row: any[]) => row[0]) || [],
+          ftsSql: ftsSql[0]?.values?.[0]?.[0] || ''
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error.message
+        };
+      }
+    }, { v1Schema: V1_SCHEMA, currentTables: CURRENT_TABLES });
+
+    expect(result.success).toBe(true);
+    expect(result.schemaVersions).toEqual([6]);
+
+    // v2: embedding columns and queue; v5: search events
+    expect(result.collectionColumns).toEqual(expect.arrayContaining(['embedding_provider', 'embedding_status']));
+    expect(result.tables).toEqual(expect.arrayContaining(['embedding_queue', 'search_events']));
+
+    // v3: collection column taken from metadata, which is left untouched
+    expect(result.migrated).toEqual([
+      { id: 'v1-doc-1', collection: 'notes', metadata: { collection: 'notes', tag: 'ru' } },
+      { id: 'v1-doc-2', collection: 'default', metadata: { tag: 'en' } }
+    ]);
+
+    // v4: unicode61 FTS index rebuilt from the existing documents
+    expect(result.ftsSql).toContain('unicode61');
+    expect(result.russianMatches).toEqual(['v1-doc-1']);
+
+    // v6: chunk columns
+    expect(result.docsColumns).toEqual(expect.arrayContaining(['collection', 'parent_id', 'chunk_index']));
+  });
+});
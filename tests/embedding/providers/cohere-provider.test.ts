@@ -0,0 +1,138 @@
+/**
+ * Тесты для CohereProvider - провайдера эмбеддингов Cohere Embed API
+ *
+ * Провайдер работает с локальным HTTP сервером, который имитирует /v2/embed:
+ * проверяются тело запроса, input_type для запросов и документов,
+ * retry при rate limit и отображение ошибок API на классы ошибок.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { ServerResponse } from 'node:http';
+import { CohereProvider, isValidCohereModelDimensionCombo } from '../../../src/embedding/providers/CohereProvider.js';
+import type { EmbeddingConfig } from '../../../src/embedding/types.js';
+import { AuthenticationError, QuotaExceededError, ConfigurationError } from '../../../src/embedding/errors.js';
+import { startMockServer, type MockServer, type RecordedRequest, type Reply } from './mock-server.js';
+
+// Очередь ответов сервера; без заданного ответа сервер возвращает эмбеддинги
+let server: MockServer;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let replies: Reply[];
+
+const DIMENSIONS = 384;
+
+function embeddingsReply(request: RecordedRequest, res: ServerResponse) {
+  const float = request.body.texts.map((_: string, i: number) => Array.from({ length: DIMENSIONS }, () => i + 0.5));
+  res.writeHead(200, { 'content-type': 'application/json' });
+  res.end(JSON.stringify({ id: 'test', embeddings: { float }, texts: request.body.texts }));
+}
+
+function errorReply(status: number, message: string, headers: Record<string, string> = {}): Reply {
+  return (_request, res) => {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify({ message }));
+  };
+}
+
+function config(overrides: Partial<EmbeddingConfig> = {}): EmbeddingConfig {
+  return {
+    defaultProvider: 'cohere',
+    defaultDimensions: DIMENSIONS,
+    apiKey: 'test-key',
+    maxRetries: 2,
+    providerOptions: { baseUrl, enableRateLimit: false },
+    ...overrides
+  } as EmbeddingConfig;
+}
+
+async function createInitializedProvider(): Promise<CohereProvider> {
+  const provider = new CohereProvider(DIMENSIONS, 'embed-english-light-v3.0');
+  await provider.initialize(config());
+  requests.length = 0;  // Тестовый запрос и health check не интересны тестам
+  return provider;
+}
+
+beforeAll(async () => {
+  server = await startMockServer((request, res) => (replies.shift() ?? embeddingsReply)(request, res));
+  ({ baseUrl, requests } = server);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  replies = [];
+});
+
+describe('CohereProvider', () => {
+  it('sends search_query for single embeddings and search_document for batches', async () => {
+    const provider = await createInitializedProvider();
+
+    const query = await provider.generateEmbedding('what is sqlite');
+    const documents = await provider.generateBatch(['first doc', 'second doc']);
+
+    expect(query).toBeInstanceOf(Float32Array);
+    expect(query.length).toBe(DIMENSIONS);
+    expect(documents).toHaveLength(2);
+    expect(documents[1][0]).toBe(1.5);
+
+    expect(requests.map(request => request.url)).toEqual(['/v2/embed', '/v2/embed']);
+    expect(requests[0].headers.authorization).toBe('Bearer test-key');
+    expect(requests[0].body).toMatchObject({
+      model: 'embed-english-light-v3.0',
+      texts: ['what is sqlite'],
+      input_type: 'search_query',
+      embedding_types: ['float']
+    });
+    expect(requests[1].body).toMatchObject({ texts: ['first doc', 'second doc'], input_type: 'search_document' });
+
+    await provider.cleanup();
+  });
+
+  it('uses a fixed input_type from providerOptions', async () => {
+    const provider = new CohereProvider(DIMENSIONS, 'embed-english-light-v3.0');
+    await provider.initialize(config({ providerOptions: { baseUrl, enableRateLimit: false, inputType: 'clustering' } }));
+    requests.length = 0;
+
+    await provider.generateEmbedding('cluster me');
+
+    expect(requests[0].body.input_type).toBe('clustering');
+    await provider.cleanup();
+  });
+
+  it('retries after a rate limit using Retry-After', async () => {
+    const provider = await createInitializedProvider();
+    replies.push(errorReply(429, 'too many requests', { 'retry-after': '0' }));
+
+    const embedding = await provider.generateEmbedding('retry me');
+
+    expect(embedding.length).toBe(DIMENSIONS);
+    expect(requests).toHaveLength(2);
+    await provider.cleanup();
+  });
+
+  it('does not retry when the billing quota is exhausted', async () => {
+    const provider = await createInitializedProvider();
+    replies.push(errorReply(402, 'payment required'));
+
+    await expect(provider.generateEmbedding('no credits')).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(requests).toHaveLength(1);
+    await provider.cleanup();
+  });
+
+  it('fails initialization with an invalid API key', async () => {
+    replies.push(errorReply(401, 'invalid api token'));
+    const provider = new CohereProvider(DIMENSIONS, 'embed-english-light-v3.0');
+
+    await expect(provider.initialize(config())).rejects.toBeInstanceOf(AuthenticationError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('validates model and dimension combinations', () => {
+    expect(isValidCohereModelDimensionCombo('embed-v4.0', 512)).toBe(true);
+    expect(isValidCohereModelDimensionCombo('embed-english-v3.0', 512)).toBe(false);
+    expect(() => new CohereProvider(768, 'embed-english-v3.0')).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Тесты для HuggingFaceProvider - Inference API и Text Embeddings Inference
+ *
+ * Провайдер работает с локальным HTTP сервером, который имитирует оба вида
+ * endpoints: feature-extraction pipeline Inference API и /embed сервера TEI.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { ServerResponse } from 'node:http';
+import { HuggingFaceProvider } from '../../../src/embedding/providers/HuggingFaceProvider.js';
+import type { EmbeddingConfig } from '../../../src/embedding/types.js';
+import { AuthenticationError, ConfigurationError, NetworkError } from '../../../src/embedding/errors.js';
+import { startMockServer, type MockServer, type RecordedRequest, type Reply } from './mock-server.js';
+
+// Очередь ответов сервера; без заданного ответа сервер возвращает эмбеддинги
+let server: MockServer;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let replies: Reply[];
+
+const DIMENSIONS = 384;
+const MODEL = 'sentence-transformers/all-MiniLM-L6-v2';
+
+function embeddingsReply(request: RecordedRequest, res: ServerResponse) {
+  const vectors = request.body.inputs.map((_: string, i: number) => Array.from({ length: DIMENSIONS }, () => i + 0.25));
+  res.writeHead(200, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(vectors));
+}
+
+// Модель без pooling: по вектору на каждый токен
+function tokenEmbeddingsReply(request: RecordedRequest, res: ServerResponse) {
+  const tokens = request.body.inputs.map(() => [
+    Array.from({ length: DIMENSIONS }, () => 1),
+    Array.from({ length: DIMENSIONS }, () => 3)
+  ]);
+  res.writeHead(200, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(tokens));
+}
+
+function errorReply(status: number, error: string): Reply {
+  return (_request, res) => {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ error }));
+  };
+}
+
+function config(providerOptions: Record<string, any>, apiKey?: string): EmbeddingConfig {
+  return {
+    defaultProvider: 'huggingface',
+    defaultDimensions: DIMENSIONS,
+    apiKey,
+    maxRetries: 2,
+    providerOptions: { enableRateLimit: false, ...providerOptions }
+  } as EmbeddingConfig;
+}
+
+beforeAll(async () => {
+  server = await startMockServer((request, res) => (replies.shift() ?? embeddingsReply)(request, res));
+  ({ baseUrl, requests } = server);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  replies = [];
+});
+
+describe('HuggingFaceProvider', () => {
+  it('calls the feature-extraction pipeline of the Inference API', async () => {
+    const provider = new HuggingFaceProvider(DIMENSIONS, MODEL);
+    await provider.initialize(config({ baseUrl: `${baseUrl}/models` }, 'hf_test'));
+    requests.length = 0;
+
+    const embeddings = await provider.generateBatch(['alpha', 'beta']);
+
+    expect(embeddings).toHaveLength(2);
+    expect(embeddings[1][0]).toBe(1.25);
+    expect(requests[0].url).toBe(`/models/${MODEL}/pipeline/feature-extraction`);
+    expect(requests[0].headers.authorization).toBe('Bearer hf_test');
+    expect(requests[0].headers['x-wait-for-model']).toBe('true');
+    expect(requests[0].body).toEqual({ inputs: ['alpha', 'beta'] });
+
+    await provider.cleanup();
+  });
+
+  it('talks to a TEI server without an API key', async () => {
+    const provider = new HuggingFaceProvider(DIMENSIONS, MODEL);
+    await provider.initialize(config({ endpoint: 'tei', baseUrl }));
+    requests.length = 0;
+
+    await provider.generateEmbedding('gamma');
+
+    expect(requests[0].url).toBe('/embed');
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body).toEqual({ inputs: ['gamma'], normalize: true, truncate: true });
+
+    await provider.cleanup();
+  });
+
+  it('mean-pools token-level embeddings', async () => {
+    const provider = new HuggingFaceProvider(DIMENSIONS, MODEL);
+    await provider.initialize(config({ endpoint: 'tei', baseUrl }));
+    replies.push(tokenEmbeddingsReply);
+
+    const embedding = await provider.generateEmbedding('pooled');
+
+    expect(embedding.length).toBe(DIMENSIONS);
+    expect(embedding[0]).toBe(2);
+    await provider.cleanup();
+  });
+
+  it('maps authentication and missing model errors and does not retry them', async () => {
+    replies.push(errorReply(401, 'Invalid credentials in Authorization header'));
+    await expect(
+      new HuggingFaceProvider(DIMENSIONS, MODEL).initialize(config({ baseUrl }, 'hf_wrong'))
+    ).rejects.toBeInstanceOf(AuthenticationError);
+
+    replies.push(errorReply(404, 'Model not found'));
+    await expect(
+      new HuggingFaceProvider(DIMENSIONS, MODEL).initialize(config({ baseUrl }, 'hf_test'))
+    ).rejects.toBeInstanceOf(ConfigurationError);
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('gives up on server errors after the configured retries', async () => {
+    const provider = new HuggingFaceProvider(DIMENSIONS, MODEL);
+    await provider.initialize(config({ endpoint: 'tei', baseUrl }));
+    requests.length = 0;
+    replies.push(errorReply(503, 'Model is overloaded'), errorReply(503, 'Model is overloaded'));
+
+    await expect(provider.generateEmbedding('busy')).rejects.toBeInstanceOf(NetworkError);
+    expect(requests).toHaveLength(2);
+    await provider.cleanup();
+  }, 15000);
+
+  it('requires a server URL for TEI and a token for the Inference API', async () => {
+    expect(new HuggingFaceProvider(DIMENSIONS, MODEL).validateConfig(config({})).isValid).toBe(false);
+    await expect(
+      new HuggingFaceProvider(DIMENSIONS, MODEL).initialize(config({ endpoint: 'tei' }))
+    ).rejects.toBeInstanceOf(ConfigurationError);
+    expect(() => new HuggingFaceProvider(768, MODEL)).toThrow(ConfigurationError);
+  });
+});
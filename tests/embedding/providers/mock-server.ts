@@ -0,0 +1,43 @@
+/**
+ * Локальный HTTP сервер для тестов HTTP провайдеров эмбеддингов
+ *
+ * Записывает каждый запрос с разобранным JSON телом и передает его в reply.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+export type Reply = (request: RecordedRequest, res: ServerResponse) => void;
+
+export interface MockServer {
+  baseUrl: string;
+  /** Запросы в порядке поступления; тесты очищают массив через length = 0 */
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+export async function startMockServer(reply: Reply): Promise<MockServer> {
+  const requests: RecordedRequest[] = [];
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const request = { url: req.url ?? '', headers: req.headers, body: raw ? JSON.parse(raw) : null };
+      requests.push(request);
+      reply(request, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
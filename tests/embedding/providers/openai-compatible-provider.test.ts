@@ -0,0 +1,161 @@
+/**
+ * Тесты для OpenAICompatibleProvider - провайдера типа 'custom'
+ *
+ * Локальный HTTP сервер имитирует OpenAI-совместимый /v1/embeddings
+ * (llama.cpp, LM Studio) и нативный /api/embed Ollama.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { ServerResponse } from 'node:http';
+import { OpenAICompatibleProvider } from '../../../src/embedding/providers/OpenAICompatibleProvider.js';
+import { getAvailableProviders, validateProviderConfig } from '../../../src/embedding/ProviderFactory.js';
+import type { EmbeddingConfig } from '../../../src/embedding/types.js';
+import { ConfigurationError } from '../../../src/embedding/errors.js';
+import { startMockServer, type MockServer, type RecordedRequest } from './mock-server.js';
+
+let server: MockServer;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let serverDimensions: number;
+
+const vector = (value: number) => Array.from({ length: serverDimensions }, () => value);
+
+function reply(request: RecordedRequest, res: ServerResponse) {
+  res.setHeader('content-type', 'application/json');
+
+  if (request.body.model === 'missing-model') {
+    res.statusCode = 404;
+    res.end(JSON.stringify({ error: `model "missing-model" not found, try pulling it first` }));
+    return;
+  }
+
+  if (request.url === '/api/embed') {
+    res.end(JSON.stringify({ model: request.body.model, embeddings: request.body.input.map((_: string, i: number) => vector(i)) }));
+    return;
+  }
+
+  // Порядок data намеренно обратный: провайдер должен сортировать по index
+  const data = request.body.input.map((_: string, i: number) => ({ object: 'embedding', index: i, embedding: vector(i) }));
+  res.end(JSON.stringify({ object: 'list', data: data.reverse(), model: request.body.model }));
+}
+
+function config(providerOptions: Record<string, any>, apiKey?: string): EmbeddingConfig {
+  return {
+    defaultProvider: 'custom',
+    defaultDimensions: serverDimensions,
+    apiKey,
+    providerOptions
+  } as EmbeddingConfig;
+}
+
+beforeAll(async () => {
+  server = await startMockServer(reply);
+  ({ baseUrl, requests } = server);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  serverDimensions = 8;
+});
+
+describe('OpenAICompatibleProvider', () => {
+  it('calls an OpenAI-compatible /embeddings endpoint and orders results by index', async () => {
+    const provider = new OpenAICompatibleProvider(8, 'nomic-embed-text');
+    await provider.initialize(config({ baseUrl: `${baseUrl}/v1/` }));
+    requests.length = 0;
+
+    const embeddings = await provider.generateBatch(['zero', 'one', 'two']);
+
+    expect(embeddings.map(embedding => embedding[0])).toEqual([0, 1, 2]);
+    expect(requests[0].url).toBe('/v1/embeddings');
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body).toEqual({ model: 'nomic-embed-text', input: ['zero', 'one', 'two'], encoding_format: 'float' });
+
+    await provider.cleanup();
+  });
+
+  it('calls the native Ollama API on the default path', async () => {
+    const provider = new OpenAICompatibleProvider(8, 'nomic-embed-text');
+    await provider.initialize(config({ api: 'ollama', baseUrl }));
+    requests.length = 0;
+
+    const embedding = await provider.generateEmbedding('hello');
+
+    expect(embedding.length).toBe(8);
+    expect(requests[0].url).toBe('/api/embed');
+    expect(requests[0].body).toEqual({ model: 'nomic-embed-text', input: ['hello'], truncate: true });
+
+    await provider.cleanup();
+  });
+
+  it('sends the API key in a configurable header', async () => {
+    const bearer = new OpenAICompatibleProvider(8, 'm');
+    await bearer.initialize(config({ baseUrl }, 'secret'));
+    expect(requests.at(-1)!.headers.authorization).toBe('Bearer secret');
+
+    const custom = new OpenAICompatibleProvider(8, 'm');
+    await custom.initialize(config({ baseUrl, authHeader: 'X-Api-Key' }, 'secret'));
+    expect(requests.at(-1)!.headers['x-api-key']).toBe('secret');
+    expect(requests.at(-1)!.headers.authorization).toBeUndefined();
+  });
+
+  it('detects the model dimensions and rejects a mismatching configuration', async () => {
+    serverDimensions = 12;
+
+    await expect(
+      OpenAICompatibleProvider.detectDimensions({ model: 'mxbai-embed-large', providerOptions: { api: 'ollama', baseUrl } })
+    ).resolves.toBe(12);
+
+    const provider = new OpenAICompatibleProvider(8, 'mxbai-embed-large');
+    await expect(provider.initialize(config({ api: 'ollama', baseUrl }))).rejects.toThrow(/returns 12-dimensional/);
+  });
+
+  it('reports a model missing on the server as a configuration error', async () => {
+    const provider = new OpenAICompatibleProvider(8, 'missing-model');
+
+    await expect(provider.initialize(config({ api: 'ollama', baseUrl }))).rejects.toBeInstanceOf(ConfigurationError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('applies batch limits from the factory configuration', () => {
+    const provider = new OpenAICompatibleProvider(8, 'm', { maxBatchSize: 4 });
+
+    expect(provider.maxBatchSize).toBe(4);
+    expect(provider.validateConfig({ ...config({ baseUrl }), batchSize: 10 }).isValid).toBe(false);
+  });
+});
+
+describe('ProviderFactory with the custom provider', () => {
+  it('lists the custom provider', () => {
+    const custom = getAvailableProviders().find(provider => provider.type === 'custom');
+
+    expect(custom).toMatchObject({ requiresApiKey: false, isLocal: false });
+  });
+
+  it('validates custom provider configuration', () => {
+    expect(validateProviderConfig({
+      provider: 'custom',
+      model: 'nomic-embed-text',
+      dimensions: 768,
+      providerOptions: { api: 'ollama' }
+    }).isValid).toBe(true);
+
+    const missing = validateProviderConfig({ provider: 'custom', dimensions: 768 });
+    expect(missing.isValid).toBe(false);
+    expect(missing.errors).toEqual([
+      'Custom provider requires a model name',
+      'OpenAI-compatible endpoint requires providerOptions.baseUrl'
+    ]);
+
+    expect(validateProviderConfig({
+      provider: 'custom',
+      model: 'm',
+      dimensions: 768,
+      providerOptions: { baseUrl, maxBatchSize: 0 }
+    }).errors).toEqual(['providerOptions.maxBatchSize must be a positive integer']);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Unit Tests for collapsing chunk hits into their parent documents
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collapseByGroup } from '../../src/database/worker/search/ChunkCollapser.js';
+
+const parents: Record<string, string | null> = {
+  'guide#2': 'guide',
+  'faq': null,
+  'guide#0': 'guide',
+  'notes#1': 'notes',
+  'guide#5': 'guide'
+};
+
+const groupOf = (id: string) => parents[id] ?? id;
+
+describe('collapseByGroup', () => {
+  it('keeps the best-ranked chunk of each parent in rank order', () => {
+    const collapsed = collapseByGroup(Object.keys(parents), groupOf);
+
+    expect(collapsed).toEqual([
+      { candidate: 'guide#2', groupId: 'guide', matchedChunks: 3 },
+      { candidate: 'faq', groupId: 'faq', matchedChunks: 1 },
+      { candidate: 'notes#1', groupId: 'notes', matchedChunks: 1 }
+    ]);
+  });
+
+  it('passes unchunked documents through unchanged', () => {
+    expect(collapseByGroup(['a', 'b'], id => id).map(group => group.candidate)).toEqual(['a', 'b']);
+    expect(collapseByGroup([], groupOf)).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for chunked database transfers
+ *
+ * The chunking helpers are tested directly. The RPC tests wire WorkerRPC
+ * and WorkerRPCHandler back to back through a fake worker that records the
+ * transfer list of every message.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  ChunkCollector,
+  concatChunks,
+  readChunks,
+  resolveChunkSize,
+  sourceSize,
+  splitIntoChunks,
+  DEFAULT_CHUNK_SIZE,
+  MAX_CHUNK_SIZE
+} from '../../src/utils/chunkedTransfer.js';
+import { WorkerRPC, WorkerRPCHandler } from '../../src/utils/rpc.js';
+import type { ExportStreamProgress } from '../../src/types/worker.js';
+
+class FakeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  transfers: unknown[][] = [];
+  workerScope = {
+    onmessage: null as ((event: MessageEvent) => void) | null,
+    postMessage: (data: unknown) => this.onmessage?.({ data } as MessageEvent)
+  };
+
+  postMessage(data: unknown, transfer: unknown[] = []) {
+    this.transfers.push(transfer);
+    this.workerScope.onmessage?.({ data } as MessageEvent);
+  }
+
+  terminate() {}
+}
+
+function createPair() {
+  const worker = new FakeWorker();
+  vi.stubGlobal('self', worker.workerScope);
+  const handler = new WorkerRPCHandler({ logLevel: 'error' });
+  const rpc = new WorkerRPC(worker as unknown as Worker, { operationTimeout: 1000, logLevel: 'error' });
+  return { worker, handler, rpc };
+}
+
+async function collect(source: Parameters<typeof readChunks>[0], chunkSize: number): Promise<number[][]> {
+  const chunks: number[][] = [];
+  for await (const chunk of readChunks(source, chunkSize)) {
+    chunks.push(Array.from(new Uint8Array(chunk)));
+  }
+  return chunks;
+}
+
+const bytes = new Uint8Array([1, 2, 3, 4, 5, 6, 7]);
+
+describe('chunking helpers', () => {
+  it('clamps the chunk size', () => {
+    expect(resolveChunkSize()).toBe(DEFAULT_CHUNK_SIZE);
+    expect(resolveChunkSize(0)).toBe(DEFAULT_CHUNK_SIZE);
+    expect(resolveChunkSize(Number.NaN)).toBe(DEFAULT_CHUNK_SIZE);
+    expect(resolveChunkSize(10.7)).toBe(10);
+    expect(resolveChunkSize(MAX_CHUNK_SIZE * 2)).toBe(MAX_CHUNK_SIZE);
+  });
+
+  it('splits into standalone buffers without touching the source', () => {
+    const chunks = [...splitIntoChunks(bytes, 3)];
+
+    expect(chunks.map(chunk => chunk.byteLength)).toEqual([3, 3, 1]);
+    expect(chunks[0]).not.toBe(bytes.buffer);
+    structuredClone(chunks[0], { transfer: [chunks[0]] });
+    expect(bytes.length).toBe(7);
+  });
+
+  it('reads buffers, blobs and streams the same way', async () => {
+    const expected = [[1, 2, 3], [4, 5, 6], [7]];
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.subarray(0, 5));
+        controller.enqueue(bytes.subarray(5));
+        controller.close();
+      }
+    });
+
+    await expect(collect(bytes, 3)).resolves.toEqual(expected);
+    await expect(collect(bytes.buffer, 3)).resolves.toEqual(expected);
+    await expect(collect(new Blob([bytes]), 3)).resolves.toEqual(expected);
+    // Stream chunks are split but never merged across reads
+    await expect(collect(stream, 3)).resolves.toEqual([[1, 2, 3], [4, 5], [6, 7]]);
+  });
+
+  it('knows the size of everything but streams', () => {
+    expect(sourceSize(bytes)).toBe(7);
+    expect(sourceSize(new Blob([bytes]))).toBe(7);
+    expect(sourceSize(new ReadableStream())).toBeUndefined();
+  });
+
+  it('concatenates chunks', () => {
+    expect(Array.from(concatChunks([bytes.subarray(0, 2), bytes.subarray(2)]))).toEqual(Array.from(bytes));
+  });
+});
+
+describe('ChunkCollector', () => {
+  it('assembles pushed chunks when ended', async () => {
+    const collector = new ChunkCollector();
+    collector.push(new Uint8Array([1, 2]).buffer);
+    collector.push(new Uint8Array([3]));
+    expect(collector.byteLength).toBe(3);
+
+    collector.end();
+
+    await expect(collector.done).resolves.toEqual(new Uint8Array([1, 2, 3]));
+    expect(() => collector.push(new Uint8Array([4]))).toThrow(/already finished/);
+  });
+
+  it('rejects when the signal aborts', async () => {
+    const controller = new AbortController();
+    const collector = new ChunkCollector(controller.signal);
+    collector.push(new Uint8Array([1]));
+
+    controller.abort();
+
+    await expect(collector.done).rejects.toThrow('Transfer aborted');
+    expect(() => collector.end()).toThrow(/already finished/);
+  });
+});
+
+describe('WorkerRPC chunk transfers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('transfers the buffer of each imported chunk', async () => {
+    const { worker, handler, rpc } = createPair();
+    const received: number[] = [];
+    handler.register('importChunk', async (params: { chunk?: ArrayBuffer }) => {
+      if (params.chunk) {
+        received.push(params.chunk.byteLength);
+      }
+    });
+    const chunk = new Uint8Array([1, 2, 3]).buffer;
+
+    await rpc.importChunk({ transferId: 't1', chunk });
+    await rpc.importChunk({ transferId: 't1', done: true });
+
+    expect(received).toEqual([3]);
+    expect(worker.transfers).toEqual([[chunk], []]);
+  });
+
+  it('delivers exported chunks through progress messages', async () => {
+    const { handler, rpc } = createPair();
+    handler.registerWithProgress('exportStream', async (params, context) => {
+      for (const chunk of splitIntoChunks(bytes, 4)) {
+        context.progress({ transferId: params.transferId, phase: 'exporting', bytesProcessed: 0, totalBytes: 7, timeElapsed: 0, chunk }, [chunk]);
+      }
+      return { totalBytes: 7, chunks: 2 };
+    });
+    const progress: ExportStreamProgress[] = [];
+
+    const result = await rpc.exportStream({ transferId: 't1', chunkSize: 4 }, data => progress.push(data));
+
+    expect(result).toEqual({ totalBytes: 7, chunks: 2 });
+    expect(Array.from(concatChunks(progress.map(data => new Uint8Array(data.chunk!))))).toEqual(Array.from(bytes));
+  });
+});
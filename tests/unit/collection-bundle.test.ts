@@ -0,0 +1,226 @@
+/**
+ * Unit Tests for collection bundles
+ *
+ * BundleFormat is tested directly. BundleHandler runs against a small
+ * in-memory stand-in for SQLiteManager that answers the handful of queries
+ * an export makes, and a recording stand-in for DocumentHandler on import.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  encodeVector,
+  decodeVector,
+  readBundleLines,
+  parseManifest,
+  parseDocument,
+  BundleWriter
+} from '../../src/database/worker/core/BundleFormat.js';
+import { BundleHandler, type BundleEmbedder } from '../../src/database/worker/handlers/BundleHandler.js';
+import type { ExportImportProgress } from '../../src/types/worker.js';
+
+interface StoredDocument {
+  rowid: number;
+  id: string;
+  title: string;
+  content: string;
+  metadata: string;
+  vector?: Float32Array;
+}
+
+function createSqlite(documents: StoredDocument[], config: Record<string, any>) {
+  return {
+    exec: vi.fn(async () => undefined),
+    select: vi.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('FROM collections')) {
+        return { rows: [{ config: JSON.stringify(config) }] };
+      }
+      if (sql.includes('rowid IN (SELECT rowid')) {
+        return { rows: [{ count: documents.filter(document => document.vector).length }] };
+      }
+      if (sql.includes('COUNT(*)')) {
+        return { rows: [{ count: documents.length }] };
+      }
+      if (sql.includes('SELECT embedding')) {
+        const vector = documents.find(document => document.rowid === params[0])?.vector;
+        return { rows: vector ? [{ embedding: new Uint8Array(vector.buffer.slice(0)) }] : [] };
+      }
+      const [, lastRowid, limit] = params;
+      const rows = documents
+        .filter(document => document.rowid > lastRowid)
+        .slice(0, limit)
+        .map(({ vector, ...row }) => ({ ...row, parent_id: null, chunk_index: null, created_at: 1700000000, updated_at: 1700000000 }));
+      return { rows };
+    })
+  };
+}
+
+function createHandler(options: {
+  documents?: StoredDocument[];
+  config?: Record<string, any>;
+  collectionExists?: boolean;
+  dimensions?: number;
+  existing?: string[];
+  embed?: BundleEmbedder;
+}) {
+  const sqlite = createSqlite(options.documents ?? [], options.config ?? { metric: 'cosine', vectorTable: 'vec_docs_3d', vectorDim: 3 });
+  const schemaManager = {
+    getVectorTable: vi.fn(async () => ({ table: 'vec_docs_3d', dimensions: options.dimensions ?? 3 })),
+    collectionExists: vi.fn(async () => options.collectionExists ?? true),
+    createCollection: vi.fn(async () => undefined)
+  };
+  const existing = new Set(options.existing ?? []);
+  const documentHandler = {
+    importDocument: vi.fn(async (_collection: string, document: any, policy: string) => {
+      if (!existing.has(document.id)) {
+        return { status: 'inserted', hasVector: !!document.vector };
+      }
+      if (policy === 'skip') {
+        return { status: 'skipped', hasVector: true };
+      }
+      return { status: policy === 'merge' ? 'merged' : 'replaced', hasVector: !!document.vector };
+    })
+  };
+  const embed = options.embed ?? vi.fn(async (_collection, documents) =>
+    documents.map(() => ({ embeddingGenerated: false, embeddingStatus: 'skipped' as const }))
+  );
+
+  const handler = new BundleHandler(
+    { sqliteManager: sqlite as any, schemaManager: schemaManager as any, opfsManager: {} as any, logger: { log: () => undefined } },
+    documentHandler as any,
+    embed
+  );
+  return { handler, sqlite, schemaManager, documentHandler, embed };
+}
+
+function bundleOf(records: unknown[]): Uint8Array {
+  return new TextEncoder().encode(records.map(record => JSON.stringify(record)).join('\n') + '\n');
+}
+
+const manifest = {
+  type: 'manifest',
+  format: 'localretrieve-collection',
+  version: 1,
+  collection: 'docs',
+  config: { metric: 'cosine', embeddingConfig: { provider: 'openai', model: 'text-embedding-3-small', dimensions: 3 } },
+  provider: 'openai',
+  model: 'text-embedding-3-small',
+  dimensions: 3,
+  schemaVersion: 6,
+  documentCount: 2,
+  vectorCount: 2,
+  exportedAt: 0
+};
+
+describe('BundleFormat', () => {
+  it('round-trips float32 vectors through base64', () => {
+    const vector = new Float32Array([0.5, -1.25, 3e-7, 1024]);
+    expect(Array.from(decodeVector(encodeVector(vector)))).toEqual(Array.from(vector));
+    expect(() => decodeVector(btoa('abc'))).toThrow(/whole number of float32/);
+  });
+
+  it('reads records line by line and reports the byte offset', () => {
+    const writer = new BundleWriter();
+    writer.write(manifest as any);
+    writer.write({ type: 'document', id: 'ä', title: '', content: 'ünïcode', metadata: {} });
+    const data = writer.finish();
+
+    const lines = [...readBundleLines(data)];
+    expect(lines.map(line => line.line)).toEqual([1, 2]);
+    expect(lines[1].bytesRead).toBe(data.length);
+    expect((lines[1].record as any).content).toBe('ünïcode');
+  });
+
+  it('rejects malformed bundles with the line number', () => {
+    const data = new TextEncoder().encode('{"type":"manifest"}\n\n{not json}\n');
+    expect(() => [...readBundleLines(data)]).toThrow(/line 3/);
+    expect(() => parseManifest({ type: 'document' })).toThrow(/manifest/);
+    expect(() => parseManifest({ ...manifest, version: 99 })).toThrow(/version 99/);
+    expect(() => parseDocument({ type: 'document', content: 'x' }, 4)).toThrow(/line 4: document has no id/);
+  });
+});
+
+describe('BundleHandler', () => {
+  it('exports the manifest and documents with base64 vectors', async () => {
+    const documents: StoredDocument[] = [
+      { rowid: 1, id: 'a', title: 'A', content: 'alpha', metadata: '{"tag":"x"}', vector: new Float32Array([1, 2, 3]) },
+      { rowid: 2, id: 'b', title: 'B', content: 'beta', metadata: '{}' }
+    ];
+    const { handler } = createHandler({
+      documents,
+      config: { metric: 'cosine', vectorTable: 'vec_docs_3d', vectorDim: 3, embeddingConfig: { provider: 'openai', model: 'm1', dimensions: 3 } }
+    });
+    const progress: ExportImportProgress[] = [];
+
+    const bundle = await handler.exportCollection({ collection: 'docs' }, event => progress.push(event));
+    const [head, first, second] = [...readBundleLines(bundle)].map(line => line.record as any);
+
+    expect(head).toMatchObject({ type: 'manifest', collection: 'docs', model: 'm1', provider: 'openai', dimensions: 3, documentCount: 2, vectorCount: 1 });
+    expect(head.config).toEqual({ metric: 'cosine', embeddingConfig: { provider: 'openai', model: 'm1', dimensions: 3 } });
+    expect(first).toMatchObject({ type: 'document', id: 'a', metadata: { tag: 'x' }, createdAt: 1700000000 });
+    expect(Array.from(decodeVector(first.vector))).toEqual([1, 2, 3]);
+    expect(second.vector).toBeUndefined();
+    expect(progress.map(event => event.phase)).toEqual(['preparing', 'exporting', 'complete']);
+    expect(progress[2]).toMatchObject({ documentsProcessed: 2, totalDocuments: 2, totalBytes: bundle.length });
+  });
+
+  it('creates the collection from the manifest and applies the conflict policy', async () => {
+    const { handler, schemaManager, documentHandler } = createHandler({ collectionExists: false, existing: ['b'] });
+    const data = bundleOf([
+      manifest,
+      { type: 'document', id: 'a', title: 'A', content: 'alpha', metadata: {}, vector: encodeVector(new Float32Array([1, 0, 0])) },
+      { type: 'document', id: 'b', title: 'B', content: 'beta', metadata: {}, vector: encodeVector(new Float32Array([0, 1, 0])) }
+    ]);
+    const progress: ExportImportProgress[] = [];
+
+    const result = await handler.importCollection({ data, collection: 'copy', onConflict: 'merge' }, event => progress.push(event));
+
+    expect(schemaManager.createCollection).toHaveBeenCalledWith('copy', 3, manifest.config);
+    expect(documentHandler.importDocument).toHaveBeenCalledTimes(2);
+    expect(documentHandler.importDocument.mock.calls[0][2]).toBe('merge');
+    expect(result).toMatchObject({ collection: 'copy', created: true, inserted: 1, merged: 1, vectorsImported: 2, warnings: [] });
+    expect(progress[progress.length - 1]).toMatchObject({ phase: 'complete', bytesProcessed: data.length, documentsProcessed: 2 });
+  });
+
+  it('skips existing documents by default', async () => {
+    const { handler } = createHandler({ existing: ['a'] });
+    const data = bundleOf([manifest, { type: 'document', id: 'a', title: '', content: 'alpha', metadata: {} }]);
+
+    const result = await handler.importCollection({ data });
+    expect(result).toMatchObject({ skipped: 1, inserted: 0 });
+  });
+
+  it('drops bundled vectors and embeds the documents when reembedding', async () => {
+    const embed: BundleEmbedder = vi.fn(async (_collection, documents) =>
+      documents.map(() => ({ embeddingGenerated: false, embeddingStatus: 'queued' as const }))
+    );
+    const { handler, documentHandler } = createHandler({ dimensions: 768, embed });
+    const data = bundleOf([
+      manifest,
+      { type: 'document', id: 'a', title: '', content: 'alpha', metadata: {}, vector: encodeVector(new Float32Array([1, 0, 0])) }
+    ]);
+
+    const result = await handler.importCollection({ data, reembed: true, embeddingMode: 'queue' });
+
+    expect(documentHandler.importDocument.mock.calls[0][1].vector).toBeUndefined();
+    expect(embed).toHaveBeenCalledWith('docs', [{ id: 'a', content: 'alpha' }], { embeddingMode: 'queue' });
+    expect(result).toMatchObject({ vectorsImported: 0, embeddingsQueued: 1 });
+  });
+
+  it('refuses vectors that do not fit the target collection', async () => {
+    const { handler, documentHandler } = createHandler({ dimensions: 768 });
+    const data = bundleOf([manifest, { type: 'document', id: 'a', title: '', content: 'alpha', metadata: {} }]);
+
+    await expect(handler.importCollection({ data })).rejects.toThrow(/3 dimensions.*expects 768/);
+    expect(documentHandler.importDocument).not.toHaveBeenCalled();
+  });
+
+  it('warns when the bundle was embedded with a different model', async () => {
+    const { handler } = createHandler({
+      config: { vectorTable: 'vec_docs_3d', vectorDim: 3, embeddingConfig: { provider: 'openai', model: 'other-model', dimensions: 3 } }
+    });
+    const data = bundleOf([manifest, { type: 'document', id: 'a', title: '', content: 'alpha', metadata: {} }]);
+
+    const result = await handler.importCollection({ data });
+    expect(result.warnings[0]).toMatch(/text-embedding-3-small.*other-model/);
+  });
+});
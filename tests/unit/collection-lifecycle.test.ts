@@ -0,0 +1,173 @@
+/**
+ * Unit Tests for collection listing, drop, rename and statistics in SchemaManager
+ *
+ * SQLite is replaced by a stand-in that knows a fixed set of collections and
+ * records every statement, so the tests check which tables are touched.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SchemaManager, DEFAULT_VECTOR_TABLE } from '../../src/database/worker/schema/SchemaManager.js';
+import type { SQLiteManager } from '../../src/database/worker/core/SQLiteManager.js';
+
+class FakeSQLite {
+  collections = new Map<string, Record<string, any>>([
+    ['default', { name: 'default', config: '{"vectorDim": 384}', created_at: 100, updated_at: 100, schema_version: 4 }],
+    ['legacy', { name: 'legacy', config: '{"vectorDim": 384}', created_at: 200, updated_at: 200, schema_version: 4 }],
+    ['openai', {
+      name: 'openai',
+      config: '{"vectorDim": 1536, "vectorTable": "vec_openai_1536d"}',
+      created_at: 300,
+      updated_at: 300,
+      schema_version: 4
+    }]
+  ]);
+  tables = new Set<string>([DEFAULT_VECTOR_TABLE, 'vec_openai_1536d']);
+  statements: Array<{ sql: string; params?: any[] }> = [];
+  failOn?: string;
+
+  isConnected() {
+    return true;
+  }
+
+  async select(sql: string, params: any[] = []) {
+    if (sql.includes('FROM sqlite_master')) {
+      return { rows: this.tables.has(params[0]) ? [{ name: params[0] }] : [] };
+    }
+    if (sql.startsWith('SELECT config FROM collections')) {
+      const row = this.collections.get(params[0]);
+      return { rows: row ? [{ config: row.config }] : [] };
+    }
+    if (sql.startsWith('SELECT name FROM collections')) {
+      return { rows: this.collections.has(params[0]) ? [{ name: params[0] }] : [] };
+    }
+    if (sql === 'SELECT * FROM collections ORDER BY name') {
+      return { rows: [...this.collections.values()].sort((a, b) => a.name.localeCompare(b.name)) };
+    }
+    if (sql.startsWith('SELECT * FROM collections')) {
+      const row = this.collections.get(params[0]);
+      return { rows: row ? [row] : [] };
+    }
+    if (sql.includes('FROM embedding_queue')) {
+      return { rows: [{ count: 2 }] };
+    }
+    if (sql.includes('rowid IN (SELECT rowid FROM')) {
+      return { rows: [{ count: 3 }] };
+    }
+    if (sql.includes('FROM docs_default')) {
+      return { rows: [{ count: 5, bytes: 1000, last_updated: 500 }] };
+    }
+    return { rows: [] };
+  }
+
+  async exec(sql: string, params?: any[]) {
+    const normalized = sql.replace(/\s+/g, ' ').trim();
+    if (this.failOn && normalized.includes(this.failOn)) {
+      throw new Error(`failed: ${this.failOn}`);
+    }
+    this.statements.push({ sql: normalized, params });
+  }
+}
+
+describe('SchemaManager collection lifecycle', () => {
+  let sqlite: FakeSQLite;
+  let schema: SchemaManager;
+
+  beforeEach(() => {
+    sqlite = new FakeSQLite();
+    schema = new SchemaManager(sqlite as unknown as SQLiteManager, { log: () => {} });
+  });
+
+  describe('getCollectionInfo', () => {
+    it('reports document, embedding and storage statistics', async () => {
+      const info = await schema.getCollectionInfo('openai');
+
+      expect(info).toEqual({
+        name: 'openai',
+        createdAt: 300,
+        updatedAt: 500,
+        schemaVersion: 4,
+        vectorDimensions: 1536,
+        vectorTable: 'vec_openai_1536d',
+        documentCount: 5,
+        embeddedCount: 3,
+        pendingEmbeddingCount: 2,
+        storageBytes: 1000 + 3 * 1536 * 4
+      });
+    });
+
+    it('throws for unknown collections', async () => {
+      await expect(schema.getCollectionInfo('missing')).rejects.toThrow("Collection 'missing' not found");
+    });
+
+    it('lists every collection ordered by name', async () => {
+      const infos = await schema.listCollections();
+      expect(infos.map(info => info.name)).toEqual(['default', 'legacy', 'openai']);
+      expect(infos[1].vectorTable).toBe(DEFAULT_VECTOR_TABLE);
+    });
+  });
+
+  describe('dropCollection', () => {
+    it('drops an owned vector table and removes all rows in one transaction', async () => {
+      await schema.dropCollection('openai');
+
+      expect(sqlite.statements.map(s => s.sql)).toEqual([
+        'BEGIN IMMEDIATE TRANSACTION',
+        "INSERT INTO fts_default(fts_default, rowid, title, content, metadata) SELECT 'delete', rowid, COALESCE(title, ''), content, COALESCE(metadata, '{}') FROM docs_default WHERE collection = ?",
+        'DROP TABLE IF EXISTS vec_openai_1536d',
+        'DELETE FROM embedding_queue WHERE collection_name = ?',
+        'DELETE FROM docs_default WHERE collection = ?',
+        'DELETE FROM collections WHERE name = ?',
+        'COMMIT'
+      ]);
+    });
+
+    it('deletes only its own rows from the shared vector table', async () => {
+      await schema.dropCollection('legacy');
+
+      const sqls = sqlite.statements.map(s => s.sql);
+      expect(sqls).toContain(
+        `DELETE FROM ${DEFAULT_VECTOR_TABLE} WHERE rowid IN (SELECT rowid FROM docs_default WHERE collection = ?)`
+      );
+      expect(sqls.some(sql => sql.startsWith('DROP TABLE'))).toBe(false);
+    });
+
+    it('refuses the default collection and unknown names', async () => {
+      await expect(schema.dropCollection('default')).rejects.toThrow(/Cannot drop the 'default' collection/);
+      await expect(schema.dropCollection('missing')).rejects.toThrow("Collection 'missing' not found");
+      expect(sqlite.statements).toHaveLength(0);
+    });
+
+    it('rolls back when a step fails', async () => {
+      sqlite.failOn = 'DELETE FROM docs_default';
+
+      await expect(schema.dropCollection('openai')).rejects.toThrow('failed');
+      expect(sqlite.statements.map(s => s.sql)).toContain('ROLLBACK');
+      expect(sqlite.statements.map(s => s.sql)).not.toContain('COMMIT');
+    });
+  });
+
+  describe('renameCollection', () => {
+    it('moves the collection row, documents and queue entries together', async () => {
+      await schema.renameCollection('openai', 'articles');
+
+      const sqls = sqlite.statements.map(s => s.sql);
+      expect(sqls[0]).toBe('BEGIN IMMEDIATE TRANSACTION');
+      expect(sqls[1]).toBe('PRAGMA defer_foreign_keys = ON');
+      expect(sqlite.statements.slice(2, 5).map(s => s.params)).toEqual([
+        ['articles', 'openai'],
+        ['articles', 'openai'],
+        ['articles', 'openai']
+      ]);
+      expect(sqls[2]).toContain('UPDATE collections SET name = ?');
+      expect(sqls[3]).toBe('UPDATE docs_default SET collection = ? WHERE collection = ?');
+      expect(sqls[4]).toBe('UPDATE embedding_queue SET collection_name = ? WHERE collection_name = ?');
+      expect(sqls[5]).toBe('COMMIT');
+    });
+
+    it('rejects renaming onto an existing collection', async () => {
+      await expect(schema.renameCollection('openai', 'legacy')).rejects.toThrow("Collection 'legacy' already exists");
+      await expect(schema.renameCollection('default', 'x')).rejects.toThrow(/Cannot rename the 'default' collection/);
+      expect(sqlite.statements).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Unit Tests for DocumentHandler mutations
+ *
+ * SQLite is replaced by a stand-in that serves a fixed document row and
+ * records every statement, so the tests check which index rows are touched.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DocumentHandler } from '../../src/database/worker/handlers/DocumentHandler.js';
+import { DocumentNotFoundError } from '../../src/database/worker/utils/Errors.js';
+import type { HandlerDependencies } from '../../src/database/worker/handlers/BaseHandler.js';
+
+const storedRow = {
+  rowid: 7,
+  id: 'doc1',
+  title: 'Old title',
+  content: 'old content',
+  metadata: '{"lang":"en"}'
+};
+
+function setup(options: { hasVector?: boolean; failOn?: string; chunks?: Array<typeof storedRow> } = {}) {
+  const statements: Array<{ sql: string; params?: any[] }> = [];
+
+  const sqliteManager = {
+    isConnected: () => true,
+    select: vi.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('parent_id = ?')) {
+        return { rows: options.chunks ?? [] };
+      }
+      if (sql.includes('FROM docs_default')) {
+        return { rows: params.includes('doc1') || sql.includes('json_extract') ? [storedRow] : [] };
+      }
+      if (sql.includes('FROM vec_docs_768d')) {
+        return { rows: options.hasVector ? [{ rowid: storedRow.rowid }] : [] };
+      }
+      return { rows: [] };
+    }),
+    exec: vi.fn(async (sql: string, params?: any[]) => {
+      if (options.failOn && sql.includes(options.failOn)) {
+        throw new Error(`failed: ${options.failOn}`);
+      }
+      statements.push({ sql: sql.replace(/\s+/g, ' ').trim(), params });
+    })
+  };
+
+  const schemaManager = {
+    getVectorTable: vi.fn(async () => ({ table: 'vec_docs_768d', dimensions: 768 }))
+  };
+
+  const handler = new DocumentHandler({
+    sqliteManager,
+    schemaManager,
+    opfsManager: {},
+    logger: { log: () => {} }
+  } as unknown as HandlerDependencies);
+
+  return { handler, statements, sqliteManager };
+}
+
+describe('DocumentHandler', () => {
+  describe('deleteDocument', () => {
+    it('removes FTS, vector, queue and document rows in one transaction', async () => {
+      const { handler, statements } = setup();
+
+      expect(await handler.deleteDocument({ collection: 'docs', id: 'doc1' })).toBe(true);
+
+      expect(statements.map(s => s.sql)).toEqual([
+        'BEGIN IMMEDIATE TRANSACTION',
+        "INSERT INTO fts_default(fts_default, rowid, title, content, metadata) VALUES('delete', ?, ?, ?, ?)",
+        'DELETE FROM vec_docs_768d WHERE rowid = ?',
+        'DELETE FROM embedding_queue WHERE collection_name = ? AND document_id = ?',
+        'DELETE FROM docs_default WHERE rowid = ?',
+        'COMMIT'
+      ]);
+      // FTS5 'delete' must receive exactly the indexed values
+      expect(statements[1].params).toEqual([7, 'Old title', 'old content', '{"lang":"en"}']);
+    });
+
+    it('returns false for missing documents without writing', async () => {
+      const { handler, statements } = setup();
+      expect(await handler.deleteDocument({ collection: 'docs', id: 'missing' })).toBe(false);
+      expect(statements).toHaveLength(0);
+    });
+
+    it('removes the chunks of a chunked document', async () => {
+      const chunks = [0, 1].map(index => ({ ...storedRow, rowid: 20 + index, id: `report#${index}` }));
+      const { handler, statements } = setup({ chunks });
+
+      expect(await handler.deleteDocument({ collection: 'docs', id: 'report' })).toBe(true);
+
+      expect(statements.filter(s => s.sql.startsWith('DELETE FROM docs_default')).map(s => s.params)).toEqual([[20], [21]]);
+      expect(statements.filter(s => s.sql === 'COMMIT')).toHaveLength(1);
+    });
+
+    it('rolls back when any step fails', async () => {
+      const { handler, statements } = setup({ failOn: 'DELETE FROM docs_default' });
+
+      await expect(handler.deleteDocument({ collection: 'docs', id: 'doc1' })).rejects.toThrow('failed');
+      expect(statements.map(s => s.sql)).toContain('ROLLBACK');
+      expect(statements.map(s => s.sql)).not.toContain('COMMIT');
+    });
+  });
+
+  describe('removeChunkedDocument', () => {
+    it('removes old chunks and the unchunked row without its own transaction', async () => {
+      const chunks = [0, 1].map(index => ({ ...storedRow, rowid: 20 + index, id: `doc1#${index}` }));
+      const { handler, statements } = setup({ chunks });
+
+      expect(await handler.removeChunkedDocument('docs', 'doc1')).toBe(2);
+
+      expect(statements.filter(s => s.sql.startsWith('DELETE FROM docs_default')).map(s => s.params)).toEqual([[20], [21], [7]]);
+      expect(statements.map(s => s.sql)).not.toContain('BEGIN IMMEDIATE TRANSACTION');
+    });
+
+    it('does nothing for a new document', async () => {
+      const { handler, statements } = setup();
+      expect(await handler.removeChunkedDocument('docs', 'new')).toBe(0);
+      expect(statements).toHaveLength(0);
+    });
+  });
+
+  describe('deleteDocuments', () => {
+    it('requires ids or a filter', async () => {
+      const { handler } = setup();
+      await expect(handler.deleteDocuments({ collection: 'docs' })).rejects.toThrow(/requires ids or a non-empty filter/);
+      await expect(handler.deleteDocuments({ collection: 'docs', filter: {} })).rejects.toThrow(/requires ids/);
+    });
+
+    it('selects matching documents through the filter compiler', async () => {
+      const { handler, sqliteManager } = setup();
+
+      const result = await handler.deleteDocuments({ collection: 'docs', filter: { metadata: { lang: 'en' } } });
+
+      expect(result).toEqual({ deleted: 1, ids: ['doc1'] });
+      const [sql, params] = sqliteManager.select.mock.calls[0];
+      expect(sql).toContain('WHERE d.collection = ? AND json_extract(d.metadata, ?) = ?');
+      expect(params).toEqual(['docs', '$.lang', 'en']);
+    });
+  });
+
+  describe('updateDocument', () => {
+    it('reindexes FTS and drops a stale vector when content changes', async () => {
+      const { handler, statements } = setup({ hasVector: true });
+
+      const result = await handler.updateDocument({
+        collection: 'docs',
+        id: 'doc1',
+        updates: { content: 'new content' }
+      });
+
+      expect(result).toEqual({ id: 'doc1', embeddingInvalidated: true });
+      const sqls = statements.map(s => s.sql);
+      expect(sqls[0]).toBe('BEGIN IMMEDIATE TRANSACTION');
+      expect(sqls[1]).toContain("VALUES('delete', ?, ?, ?, ?)");
+      expect(sqls[2]).toContain('UPDATE docs_default SET title = ?, content = ?, metadata = ?');
+      expect(statements[3]).toEqual({
+        sql: 'INSERT INTO fts_default(rowid, title, content, metadata) VALUES (?, ?, ?, ?)',
+        params: [7, 'Old title', 'new content', '{"lang":"en"}']
+      });
+      expect(sqls[4]).toBe('DELETE FROM vec_docs_768d WHERE rowid = ?');
+      expect(sqls[5]).toContain('UPDATE embedding_queue SET text_content = ?');
+      expect(sqls[6]).toBe('COMMIT');
+    });
+
+    it('keeps the vector on metadata-only updates and can merge metadata', async () => {
+      const { handler, statements } = setup({ hasVector: true });
+
+      const result = await handler.updateDocument({
+        collection: 'docs',
+        id: 'doc1',
+        updates: { metadata: { status: 'done' } },
+        options: { mergeMetadata: true }
+      });
+
+      expect(result.embeddingInvalidated).toBe(false);
+      expect(statements.some(s => s.sql.includes('vec_docs_768d'))).toBe(false);
+      expect(statements[2].params?.[2]).toBe('{"lang":"en","status":"done"}');
+    });
+
+    it('validates replacement vector dimensions', async () => {
+      const { handler } = setup();
+      await expect(handler.updateDocument({
+        collection: 'docs',
+        id: 'doc1',
+        updates: { vector: new Float32Array(384) }
+      })).rejects.toThrow(/has 384 dimensions, collection 'docs' expects 768/);
+    });
+
+    it('throws DocumentNotFoundError for missing documents', async () => {
+      const { handler } = setup();
+      await expect(handler.updateDocument({
+        collection: 'docs',
+        id: 'missing',
+        updates: { title: 'x' }
+      })).rejects.toBeInstanceOf(DocumentNotFoundError);
+    });
+  });
+});
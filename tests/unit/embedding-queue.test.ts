@@ -0,0 +1,162 @@
+/**
+ * Unit Tests for batched embedding queue processing
+ *
+ * SQLite is replaced by a stand-in that serves a fixed queue and document
+ * set and records every statement, so the tests check how many provider
+ * calls and transactions a run takes.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { EmbeddingQueue, type QueueEmbeddingGenerator } from '../../src/database/worker/embedding/EmbeddingQueue.js';
+import type { SQLiteManager } from '../../src/database/worker/core/SQLiteManager.js';
+import type { SchemaManager } from '../../src/database/worker/schema/SchemaManager.js';
+
+const DIMENSIONS = 3;
+
+function queueItem(id: number, collection: string, retryCount = 0) {
+  return {
+    id,
+    collection_name: collection,
+    document_id: `doc${id}`,
+    content: `text ${id}`,
+    status: 'pending',
+    priority: 0,
+    retry_count: retryCount,
+    created_at: id
+  };
+}
+
+class FakeSQLite {
+  statements: Array<{ sql: string; params?: any[] }> = [];
+
+  constructor(
+    private pending: ReturnType<typeof queueItem>[],
+    private documents: Set<string>
+  ) {}
+
+  async select(sql: string, params: any[] = []) {
+    if (sql.includes("WHERE status = 'pending'") && sql.includes('ORDER BY priority')) {
+      return { rows: this.pending };
+    }
+    if (sql.startsWith('SELECT id, rowid FROM docs_default')) {
+      const [, ...ids] = params;
+      return { rows: ids.filter(id => this.documents.has(id)).map(id => ({ id, rowid: Number(id.slice(3)) })) };
+    }
+    if (sql.includes('COUNT(*)')) {
+      return { rows: [{ count: 0 }] };
+    }
+    return { rows: [] };
+  }
+
+  async exec(sql: string, params?: any[]) {
+    this.statements.push({ sql: sql.replace(/\s+/g, ' ').trim(), params });
+  }
+
+  sqlStarting(prefix: string) {
+    return this.statements.filter(statement => statement.sql.startsWith(prefix));
+  }
+}
+
+function createQueue(pending: ReturnType<typeof queueItem>[], documents = pending.map(item => item.document_id)) {
+  const sqlite = new FakeSQLite(pending, new Set(documents));
+  const schema = {
+    getVectorTable: vi.fn(async (collection: string) => ({ table: `vec_${collection}`, dimensions: DIMENSIONS }))
+  };
+  const queue = new EmbeddingQueue(
+    sqlite as unknown as SQLiteManager,
+    schema as unknown as SchemaManager,
+    { log: () => {} }
+  );
+  return { sqlite, queue };
+}
+
+function createGenerator(maxBatchSize: number, embed?: (texts: string[]) => Float32Array[]): QueueEmbeddingGenerator & {
+  generateBatch: ReturnType<typeof vi.fn>;
+} {
+  return {
+    maxBatchSize: async () => maxBatchSize,
+    generateBatch: vi.fn(async (_collection: string, texts: string[]) =>
+      embed ? embed(texts) : texts.map(() => new Float32Array(DIMENSIONS).fill(0.5))
+    )
+  };
+}
+
+describe('EmbeddingQueue.processQueue', () => {
+  it('embeds each collection in provider-sized batches, one transaction per batch', async () => {
+    const { sqlite, queue } = createQueue([
+      queueItem(1, 'docs'), queueItem(2, 'notes'), queueItem(3, 'docs'), queueItem(4, 'docs'), queueItem(5, 'docs')
+    ]);
+    const generator = createGenerator(3);
+
+    const result = await queue.processQueue({ batchSize: 5 }, generator);
+
+    expect(result).toEqual({ processed: 5, failed: 0, retrying: 0, remainingInQueue: 0, errors: [] });
+    expect(generator.generateBatch.mock.calls).toEqual([
+      ['docs', ['text 1', 'text 3', 'text 4']],
+      ['docs', ['text 5']],
+      ['notes', ['text 2']]
+    ]);
+
+    // One UPDATE marks the whole run as processing
+    expect(sqlite.sqlStarting("UPDATE embedding_queue SET status = 'processing'")).toEqual([
+      expect.objectContaining({ params: [1, 2, 3, 4, 5] })
+    ]);
+    expect(sqlite.sqlStarting('BEGIN')).toHaveLength(3);
+    expect(sqlite.sqlStarting('COMMIT')).toHaveLength(3);
+    expect(sqlite.sqlStarting('INSERT OR REPLACE INTO vec_docs').map(statement => statement.params?.[0])).toEqual([1, 3, 4, 5]);
+    expect(sqlite.sqlStarting("UPDATE embedding_queue SET status = 'completed'").map(statement => statement.params)).toEqual([
+      [1, 3, 4], [5], [2]
+    ]);
+  });
+
+  it('fails only the items whose document or vector is unusable', async () => {
+    const { sqlite, queue } = createQueue([queueItem(1, 'docs'), queueItem(2, 'docs'), queueItem(3, 'docs')], ['doc1', 'doc3']);
+    const generator = createGenerator(10, texts =>
+      texts.map(text => new Float32Array(text === 'text 3' ? DIMENSIONS + 1 : DIMENSIONS))
+    );
+
+    const result = await queue.processQueue({}, generator);
+
+    expect(result.failed).toBe(0);
+    expect(sqlite.sqlStarting("UPDATE embedding_queue SET status = 'completed'").map(statement => statement.params)).toEqual([[1]]);
+    expect(sqlite.sqlStarting("UPDATE embedding_queue SET status = 'pending'").map(statement => statement.params)).toEqual([
+      [1, "Document 'doc2' not found in collection 'docs'", 2],
+      [1, "Embedding for document 'doc3' has 4 dimensions, collection 'docs' expects 3", 3]
+    ]);
+    expect(sqlite.sqlStarting('COMMIT')).toHaveLength(1);
+  });
+
+  it('retries the whole batch when the provider fails, then gives up', async () => {
+    const { sqlite, queue } = createQueue([queueItem(1, 'docs', 0), queueItem(2, 'docs', 3)]);
+    const generator = createGenerator(10, () => {
+      throw new Error('rate limited');
+    });
+
+    const result = await queue.processQueue({ maxRetries: 3 }, generator);
+
+    expect(result.processed).toBe(2);
+    expect(result.failed).toBe(1);
+    expect(result.errors).toEqual([{ documentId: 'doc2', error: 'rate limited' }]);
+    expect(sqlite.sqlStarting('BEGIN')).toHaveLength(0);
+    expect(sqlite.sqlStarting("UPDATE embedding_queue SET status = 'pending'")[0].params).toEqual([1, 'rate limited', 1]);
+    expect(sqlite.sqlStarting("UPDATE embedding_queue SET status = 'failed'")[0].params).toEqual(['rate limited', 2]);
+  });
+
+  it('rolls back a batch whose write fails and re-queues its items', async () => {
+    const { sqlite, queue } = createQueue([queueItem(1, 'docs'), queueItem(2, 'docs')]);
+    const exec = sqlite.exec.bind(sqlite);
+    sqlite.exec = async (sql: string, params?: any[]) => {
+      await exec(sql, params);
+      if (sql.startsWith('INSERT OR REPLACE INTO vec_docs') && params?.[0] === 2) {
+        throw new Error('disk I/O error');
+      }
+    };
+
+    const result = await queue.processQueue({}, createGenerator(10));
+
+    expect(result.failed).toBe(0);
+    expect(sqlite.sqlStarting('ROLLBACK')).toHaveLength(1);
+    expect(sqlite.sqlStarting('COMMIT')).toHaveLength(0);
+    expect(sqlite.sqlStarting("UPDATE embedding_queue SET status = 'pending'").map(statement => statement.params?.[2])).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit Tests for FilterCompiler
+ *
+ * Verifies that SearchFilters compile into parameterized SQL predicates
+ * over the documents table and that invalid filters raise FilterError.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FilterCompiler, andFilter, escapeLikePattern } from '../../src/database/worker/search/FilterCompiler.js';
+import { FilterError, SearchError } from '../../src/types/search.js';
+
+describe('FilterCompiler', () => {
+  const compiler = new FilterCompiler('d');
+
+  it('returns an empty filter when nothing is given', () => {
+    expect(compiler.compile(undefined)).toEqual({ clause: '', params: [] });
+    expect(compiler.compile({})).toEqual({ clause: '', params: [] });
+    expect(andFilter(compiler.compile({}))).toBe('');
+  });
+
+  describe('metadata', () => {
+    it('compiles scalar equality through json_extract', () => {
+      const result = compiler.compile({ metadata: { author: 'alice' } });
+      expect(result.clause).toBe('json_extract(d.metadata, ?) = ?');
+      expect(result.params).toEqual(['$.author', 'alice']);
+    });
+
+    it('binds booleans as 1/0 and supports nested paths', () => {
+      const result = compiler.compile({ metadata: { 'metadata.flags.published': true } });
+      expect(result.params).toEqual(['$.flags.published', 1]);
+    });
+
+    it('compiles arrays into IN lists and null into IS NULL', () => {
+      const result = compiler.compile({ metadata: { category: ['a', 'b'], archived: null } });
+      expect(result.clause).toBe(
+        '(json_extract(d.metadata, ?) IN (?, ?) AND json_extract(d.metadata, ?) IS NULL)'
+      );
+      expect(result.params).toEqual(['$.category', 'a', 'b', '$.archived']);
+    });
+
+    it('never matches on an empty IN list', () => {
+      const result = compiler.compile({ metadata: { category: [] } });
+      expect(result).toEqual({ clause: '0', params: [] });
+    });
+
+    it('quotes hyphenated keys in JSON paths', () => {
+      expect(compiler.resolveField('x-source.id')).toEqual({ kind: 'metadata', path: '$."x-source".id' });
+    });
+
+    it('rejects object values and unsafe field paths', () => {
+      expect(() => compiler.compile({ metadata: { author: { name: 'x' } } })).toThrow(FilterError);
+      expect(() => compiler.compile({ metadata: { "a') OR 1=1 --": 'x' } })).toThrow(FilterError);
+    });
+  });
+
+  describe('ranges', () => {
+    it('compares timestamp columns in unix seconds', () => {
+      const result = compiler.compile({
+        dateRange: { field: 'created_at', start: '2024-01-01T00:00:00.000Z' }
+      });
+      expect(result.clause).toBe('d.created_at >= ?');
+      expect(result.params).toEqual([1704067200]);
+    });
+
+    it('handles both ISO and epoch metadata dates', () => {
+      const result = compiler.compile({
+        dateRange: { field: 'published', end: new Date('2024-01-01T00:00:00.000Z') }
+      });
+      expect(result.clause).toContain("CASE WHEN json_type(d.metadata, ?) IN ('integer', 'real')");
+      expect(result.params).toEqual([
+        '$.published', '$.published', 1704067200000, '$.published', '2024-01-01T00:00:00.000Z'
+      ]);
+    });
+
+    it('guards numeric ranges against non-numeric values', () => {
+      const result = compiler.compile({ numericRange: { field: 'price', min: 10, max: 20 } });
+      expect(result.clause).toBe(
+        "(json_type(d.metadata, ?) IN ('integer', 'real') AND json_extract(d.metadata, ?) >= ? AND json_extract(d.metadata, ?) <= ?)"
+      );
+      expect(result.params).toEqual(['$.price', '$.price', 10, '$.price', 20]);
+    });
+
+    it('requires at least one bound', () => {
+      expect(() => compiler.compile({ numericRange: { field: 'price' } })).toThrow(FilterError);
+      expect(() => compiler.compile({ dateRange: { field: 'created_at' } })).toThrow(FilterError);
+    });
+  });
+
+  describe('textFilter', () => {
+    it('escapes LIKE wildcards', () => {
+      const result = compiler.compile({
+        textFilter: { field: 'title', operator: 'contains', value: '50%_off' }
+      });
+      expect(result.clause).toBe("d.title LIKE ? ESCAPE '\\'");
+      expect(result.params).toEqual(['%50\\%\\_off%']);
+      expect(escapeLikePattern('a\\b')).toBe('a\\\\b');
+    });
+
+    it('rejects regex', () => {
+      expect(() => compiler.compile({
+        textFilter: { field: 'title', operator: 'regex', value: '^a' }
+      })).toThrow(FilterError);
+    });
+  });
+
+  it('compiles exists/missing checks and combines everything with AND', () => {
+    const result = compiler.compile({
+      metadata: { lang: 'en' },
+      exists: ['author'],
+      missing: ['title']
+    });
+    expect(result.clause).toBe(
+      '(json_extract(d.metadata, ?) = ? AND json_type(d.metadata, ?) IS NOT NULL AND d.title IS NULL)'
+    );
+    expect(result.params).toEqual(['$.lang', 'en', '$.author']);
+    expect(andFilter(result)).toBe(` AND ${result.clause}`);
+  });
+
+  describe('bool', () => {
+    it('compiles must and must_not with NULL-safe negation', () => {
+      const result = compiler.compile({
+        bool: {
+          must: [{ metadata: { lang: 'en' } }],
+          must_not: [{ metadata: { status: 'draft' } }]
+        }
+      });
+      expect(result.clause).toBe(
+        '(json_extract(d.metadata, ?) = ? AND NOT COALESCE(json_extract(d.metadata, ?) = ?, 0))'
+      );
+      expect(result.params).toEqual(['$.lang', 'en', '$.status', 'draft']);
+    });
+
+    it('requires one should clause by default', () => {
+      const result = compiler.compile({
+        bool: { should: [{ metadata: { a: 1 } }, { metadata: { b: 2 } }] }
+      });
+      expect(result.clause).toBe(
+        '(COALESCE(json_extract(d.metadata, ?) = ?, 0) OR COALESCE(json_extract(d.metadata, ?) = ?, 0))'
+      );
+      expect(result.params).toEqual(['$.a', 1, '$.b', 2]);
+    });
+
+    it('counts should matches for minimum_should_match', () => {
+      const result = compiler.compile({
+        bool: {
+          should: [{ metadata: { a: 1 } }, { metadata: { b: 2 } }, { exists: ['c'] }],
+          minimum_should_match: -1
+        }
+      });
+      expect(result.clause).toBe(
+        '((COALESCE(json_extract(d.metadata, ?) = ?, 0) <> 0) + (COALESCE(json_extract(d.metadata, ?) = ?, 0) <> 0)' +
+        ' + (COALESCE(json_type(d.metadata, ?) IS NOT NULL, 0) <> 0)) >= ?'
+      );
+      expect(result.params).toEqual(['$.a', 1, '$.b', 2, '$.c', 2]);
+    });
+
+    it('nests bool trees and ANDs them with plain filters', () => {
+      const result = compiler.compile({
+        metadata: { lang: 'en' },
+        bool: {
+          must: [{ bool: { should: [{ metadata: { tag: 'x' } }] } }]
+        }
+      });
+      expect(result.clause).toBe(
+        '(json_extract(d.metadata, ?) = ? AND (COALESCE(json_extract(d.metadata, ?) = ?, 0)))'
+      );
+      expect(result.params).toEqual(['$.lang', 'en', '$.tag', 'x']);
+    });
+
+    it('treats empty sub-filters as match-all', () => {
+      expect(compiler.compile({ bool: { must_not: [{}] } })).toEqual({ clause: 'NOT COALESCE(1, 0)', params: [] });
+    });
+
+    it('rejects unsupported constructs with a typed SearchError', () => {
+      const attempt = () => compiler.compile({ script: { source: 'doc.score > 1' } });
+      expect(attempt).toThrow(FilterError);
+      expect(attempt).toThrow(SearchError);
+      try {
+        attempt();
+      } catch (error) {
+        expect((error as SearchError).code).toBe('FILTER_ERROR');
+        expect((error as SearchError).details).toEqual({ construct: 'script' });
+      }
+
+      expect(() => compiler.compile({ bool: { filter: [] } as any })).toThrow(FilterError);
+      expect(() => compiler.compile({ metdata: { a: 1 } } as any)).toThrow("Unsupported filter 'metdata'");
+      expect(() => compiler.compile({
+        bool: { must: [{ category: 'news' } as any] }
+      })).toThrow(FilterError);
+      expect(() => compiler.compile({
+        bool: { must: [{ script: { source: 'x' } }] }
+      })).toThrow(FilterError);
+      expect(() => compiler.compile({
+        bool: { should: [{ metadata: { a: 1 } }], minimum_should_match: 2 }
+      })).toThrow(FilterError);
+    });
+
+    it('limits nesting depth', () => {
+      let tree: any = { metadata: { a: 1 } };
+      for (let i = 0; i < 20; i++) {
+        tree = { bool: { must: [tree] } };
+      }
+      expect(() => compiler.compile(tree)).toThrow(/nested too deeply/);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for FtsQueryBuilder
+ *
+ * Verifies that each search strategy produces a safe FTS5 MATCH expression.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildFtsQuery, extractTerms, quoteFtsTerm } from '../../src/database/worker/search/FtsQueryBuilder.js';
+import { SearchStrategy } from '../../src/types/search.js';
+
+describe('FtsQueryBuilder', () => {
+  it('quotes terms so FTS5 syntax in user input is inert', () => {
+    expect(quoteFtsTerm('say "hi"')).toBe('"say ""hi"""');
+    expect(buildFtsQuery('title:secret NEAR(x)', SearchStrategy.KEYWORD)).toBe(
+      '"title" OR "secret" OR "NEAR" OR "x"'
+    );
+  });
+
+  it('tokenizes like unicode61, including Cyrillic', () => {
+    expect(extractTerms('поиск по-русски, v2.0')).toEqual(['поиск', 'по', 'русски', 'v2', '0']);
+  });
+
+  it('returns null when there is nothing to match', () => {
+    expect(buildFtsQuery('?!', SearchStrategy.KEYWORD)).toBeNull();
+    expect(buildFtsQuery('NOT', SearchStrategy.BOOLEAN)).toBeNull();
+  });
+
+  describe('phrases', () => {
+    it('keeps quoted phrases and requires the remaining terms', () => {
+      expect(buildFtsQuery('"vector search" sqlite', SearchStrategy.EXACT_MATCH)).toBe(
+        '"vector search" AND "sqlite"'
+      );
+    });
+
+    it('turns unquoted text into a single phrase', () => {
+      expect(buildFtsQuery('local first database', SearchStrategy.PHRASE)).toBe('"local first database"');
+    });
+  });
+
+  describe('boolean', () => {
+    it('maps operators and parentheses to FTS5 syntax', () => {
+      expect(buildFtsQuery('(cats OR dogs) AND food', SearchStrategy.BOOLEAN)).toBe(
+        '("cats" OR "dogs") AND "food"'
+      );
+      expect(buildFtsQuery('cats AND dogs OR birds', SearchStrategy.BOOLEAN)).toBe(
+        '("cats" AND "dogs") OR "birds"'
+      );
+    });
+
+    it('expresses exclusion with binary NOT', () => {
+      expect(buildFtsQuery('cats AND NOT dogs', SearchStrategy.BOOLEAN)).toBe('"cats" NOT "dogs"');
+      expect(buildFtsQuery('NOT dogs cats', SearchStrategy.BOOLEAN)).toBe('"cats" NOT "dogs"');
+      expect(buildFtsQuery('NOT dogs cats AND birds', SearchStrategy.BOOLEAN)).toBe(
+        '("cats" AND "birds") NOT "dogs"'
+      );
+      expect(buildFtsQuery('cats OR NOT dogs', SearchStrategy.BOOLEAN)).toBe('"cats"');
+    });
+
+    it('treats only uppercase AND/OR/NOT as operators', () => {
+      expect(buildFtsQuery('rock and roll or not', SearchStrategy.BOOLEAN)).toBe(
+        '((("rock" AND "and") AND "roll") AND "or") AND "not"'
+      );
+      expect(buildFtsQuery('кошки и не собаки', SearchStrategy.BOOLEAN)).toBe(
+        '(("кошки" AND "и") AND "не") AND "собаки"'
+      );
+    });
+
+    it('recovers from dangling operators and unbalanced parentheses', () => {
+      expect(buildFtsQuery('cats AND (dogs OR', SearchStrategy.BOOLEAN)).toBe('"cats" AND "dogs"');
+      expect(buildFtsQuery('cats) OR dogs', SearchStrategy.BOOLEAN)).toBe('"cats" OR "dogs"');
+      expect(buildFtsQuery('(cats OR birds)) dogs', SearchStrategy.BOOLEAN)).toBe('("cats" OR "birds") AND "dogs"');
+    });
+  });
+
+  it('builds prefix queries for fuzzy search', () => {
+    expect(buildFtsQuery('data* te?t', SearchStrategy.FUZZY)).toBe('"data"* OR "te"*');
+  });
+
+  it('builds NEAR queries for proximity search', () => {
+    expect(buildFtsQuery('sqlite wasm', SearchStrategy.PROXIMITY)).toBe('NEAR("sqlite" "wasm", 10)');
+    expect(buildFtsQuery('sqlite', SearchStrategy.PROXIMITY)).toBe('"sqlite"');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for FusionEngine
+ *
+ * Candidate lists are built by hand so each fusion method and normalization
+ * can be checked against its formula.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  fuseCandidateLists,
+  normalizeScores,
+  rankSingleList,
+  resolveRequestFusion,
+  explainFusion,
+  validateFusionOptions,
+  type CandidateList,
+  type Candidate
+} from '../../src/database/worker/search/FusionEngine.js';
+import { FusionMethod, ScoreNormalization, FusionError, SearchError } from '../../src/types/search.js';
+
+function candidates(...entries: Array<[string, number]>): Candidate[] {
+  return entries.map(([id, score], index) => ({ id, rank: index + 1, score, raw: score }));
+}
+
+const fts: CandidateList = { source: 'fts', candidates: candidates(['a', 9], ['b', 5], ['c', 1]) };
+const vec: CandidateList = { source: 'vec', candidates: candidates(['b', 0.9], ['d', 0.5]) };
+
+function scoresById(lists: CandidateList[], options: Parameters<typeof fuseCandidateLists>[1]) {
+  return Object.fromEntries(fuseCandidateLists(lists, options).map(entry => [entry.id, entry.score]));
+}
+
+describe('normalizeScores', () => {
+  const list = candidates(['a', 4], ['b', 2], ['c', 0]);
+
+  it('implements every declared normalization', () => {
+    expect(normalizeScores(list, ScoreNormalization.NONE)).toEqual([4, 2, 0]);
+    expect(normalizeScores(list, ScoreNormalization.MIN_MAX)).toEqual([1, 0.5, 0]);
+    expect(normalizeScores(list, ScoreNormalization.RANK_BASED)).toEqual([1, 0.5, 1 / 3]);
+
+    const z = normalizeScores(list, ScoreNormalization.Z_SCORE);
+    expect(z[1]).toBe(0);
+    expect(z[0]).toBeCloseTo(1.2247, 4);
+
+    const sigmoid = normalizeScores(list, ScoreNormalization.SIGMOID);
+    expect(sigmoid[2]).toBe(0.5);
+    expect(sigmoid[0]).toBeCloseTo(1 / (1 + Math.exp(-4)));
+  });
+
+  it('handles constant lists', () => {
+    const flat = candidates(['a', 3], ['b', 3]);
+    expect(normalizeScores(flat, ScoreNormalization.MIN_MAX)).toEqual([1, 1]);
+    expect(normalizeScores(flat, ScoreNormalization.Z_SCORE)).toEqual([0, 0]);
+  });
+});
+
+describe('fuseCandidateLists', () => {
+  it('uses a configurable k and per-source weights for RRF', () => {
+    const scores = scoresById([fts, vec], {
+      method: FusionMethod.RRF,
+      normalization: ScoreNormalization.NONE,
+      weights: { fts: 1, vec: 2 },
+      parameters: { k: 10 }
+    });
+
+    expect(scores.b).toBeCloseTo(1 / 12 + 2 / 11);
+    expect(scores.a).toBeCloseTo(1 / 11);
+    expect(scores.d).toBeCloseTo(2 / 12);
+  });
+
+  it('combines normalized scores for weighted and linear fusion', () => {
+    const options = { normalization: ScoreNormalization.MIN_MAX, weights: { fts: 0.6, vec: 0.4 } };
+
+    const weighted = scoresById([fts, vec], { ...options, method: FusionMethod.WEIGHTED });
+    expect(weighted.a).toBeCloseTo(0.6);
+    expect(weighted.b).toBeCloseTo(0.6 * 0.5 + 0.4);
+
+    const linear = scoresById([fts, vec], {
+      ...options,
+      method: FusionMethod.LINEAR,
+      weights: { fts: 3, vec: 1 }
+    });
+    expect(linear.b).toBeCloseTo((3 * 0.5 + 1) / 4);
+  });
+
+  it('computes weighted harmonic and geometric means', () => {
+    const lists: CandidateList[] = [
+      { source: 'fts', candidates: candidates(['x', 0.8]) },
+      { source: 'vec', candidates: candidates(['x', 0.2]) }
+    ];
+    const options = { normalization: ScoreNormalization.NONE, weights: { fts: 1, vec: 1 } };
+
+    expect(scoresById(lists, { ...options, method: FusionMethod.HARMONIC }).x).toBeCloseTo(2 / (1 / 0.8 + 1 / 0.2));
+    expect(scoresById(lists, { ...options, method: FusionMethod.GEOMETRIC }).x).toBeCloseTo(0.4);
+  });
+
+  it('penalizes documents missing from a list via missingScore', () => {
+    const options = { method: FusionMethod.GEOMETRIC, normalization: ScoreNormalization.MIN_MAX };
+
+    expect(scoresById([fts, vec], options).a).toBeLessThan(0.01);
+    expect(scoresById([fts, vec], { ...options, parameters: { missingScore: 1 } }).a).toBeCloseTo(1);
+  });
+
+  it('updates the prior with each list as independent evidence for Bayesian fusion', () => {
+    // sigmoid(ln 4) = 0.8, sigmoid(0) = 0.5
+    const lists: CandidateList[] = [
+      { source: 'fts', candidates: candidates(['x', Math.log(4)], ['y', 0]) },
+      { source: 'vec', candidates: candidates(['x', Math.log(4)]) }
+    ];
+    const scores = scoresById(lists, {
+      method: FusionMethod.BAYESIAN,
+      normalization: ScoreNormalization.SIGMOID,
+      parameters: { prior: 0.5 }
+    });
+
+    // Two independent 0.8 signals: odds 4 * 4 = 16
+    expect(scores.x).toBeCloseTo(16 / 17);
+    // No evidence beyond the prior
+    expect(scores.y).toBeCloseTo(0.5);
+  });
+
+  it('orders by score, then best rank', () => {
+    const fused = fuseCandidateLists([fts, vec], { method: FusionMethod.RRF, normalization: ScoreNormalization.NONE });
+    expect(fused.map(entry => entry.id)).toEqual(['b', 'a', 'd', 'c']);
+  });
+});
+
+describe('resolveRequestFusion', () => {
+  // like_rank is 0-based in the LIKE source, so rank r scores 1 / r
+  const like: CandidateList = { source: 'like', candidates: [{ id: 'a', rank: 1, score: 1, raw: 0 }] };
+
+  it('keeps the legacy 3-way weighted_rrf score', () => {
+    const fusion = resolveRequestFusion({ fusionMethod: 'weighted_rrf', fusionWeights: { fts: 0.5, vec: 0.3 } }, true);
+
+    // Original SQL: fts * -bm25 + vec * 1/(1 + distance) + (like || 0.2) * 1/(1 + like_rank)
+    expect(fusion.weights?.like).toBe(0.2);
+    expect(scoresById([fts, vec, like], fusion).a).toBeCloseTo(0.5 * 9 + 0.2 * 1);
+    expect(scoresById([fts, vec, like], fusion).b).toBeCloseTo(0.5 * 5 + 0.3 * 0.9);
+  });
+
+  it('weights LIKE at 0.3 without a vector list unless the request sets it', () => {
+    expect(resolveRequestFusion({ fusionMethod: 'weighted_rrf' }, false).weights?.like).toBe(0.3);
+    expect(resolveRequestFusion({ fusionMethod: 'weighted_rrf', fusionWeights: { fts: 0.5, vec: 0.2, like: 0.3 } }, true).weights?.like).toBe(0.3);
+    expect(resolveRequestFusion({}, true)).toEqual({ method: FusionMethod.RRF, normalization: ScoreNormalization.NONE });
+  });
+});
+
+describe('validateFusionOptions', () => {
+  it('rejects unknown methods and invalid parameters with FusionError', () => {
+    const attempt = () => validateFusionOptions({
+      method: 'borda' as FusionMethod,
+      normalization: ScoreNormalization.NONE
+    });
+    expect(attempt).toThrow(FusionError);
+    expect(attempt).toThrow(SearchError);
+
+    expect(() => validateFusionOptions({
+      method: FusionMethod.RRF,
+      normalization: ScoreNormalization.NONE,
+      parameters: { k: 0 }
+    })).toThrow(/RRF k must be a positive number/);
+    expect(() => validateFusionOptions({
+      method: FusionMethod.BAYESIAN,
+      normalization: ScoreNormalization.NONE,
+      parameters: { prior: 1 }
+    })).toThrow(/prior/);
+  });
+});
+
+describe('explainFusion', () => {
+  it('reports each source with its rank, weight and contribution', () => {
+    const options = { method: FusionMethod.RRF, normalization: ScoreNormalization.NONE, weights: { fts: 1, vec: 2 } };
+    const [top] = fuseCandidateLists([fts, vec], options);
+
+    const explanation = explainFusion(top, options);
+    expect(explanation.totalScore).toBe(top.score);
+    expect(explanation.formula).toBe('rrf(k=60)');
+    expect(explanation.components).toEqual([
+      { name: 'fts', score: 1 / 62, weight: 1, details: 'rank 2, raw 5, none 5' },
+      { name: 'vec', score: 1 / 61, weight: 2, details: 'rank 1, raw 0.9, none 0.9' }
+    ]);
+  });
+
+  it('describes single-source scores as native', () => {
+    const [top] = rankSingleList(fts);
+    expect(top.score).toBe(9);
+    expect(explainFusion(top).formula).toBe('fts score');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for GlobalSearchMerger
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  mergeCollectionResults,
+  normalizeCollectionScores,
+  resolveMaxPerCollection,
+  type CollectionResultSet
+} from '../../src/database/worker/search/GlobalSearchMerger.js';
+
+function hits(...scores: number[]) {
+  return scores.map((score, i) => ({ id: `doc${i + 1}`, score }));
+}
+
+// RRF-sized scores in one collection, BM25-sized scores in the other
+const sets: CollectionResultSet[] = [
+  { collection: 'articles', results: hits(0.032, 0.016, 0.008) },
+  { collection: 'notes', results: hits(12, 6) }
+];
+
+function ids(results: Array<{ id: string; collection?: string }>) {
+  return results.map(result => `${result.collection}:${result.id}`);
+}
+
+describe('normalizeCollectionScores', () => {
+  it('scales scores into [0, 1] within a collection', () => {
+    const normalized = normalizeCollectionScores(hits(10, 6, 2));
+    expect(normalized.map(result => result.normalizedScore)).toEqual([1, 0.5, 0]);
+  });
+
+  it('maps uniform scores to 1', () => {
+    expect(normalizeCollectionScores(hits(0.5)).map(result => result.normalizedScore)).toEqual([1]);
+    expect(normalizeCollectionScores([])).toEqual([]);
+  });
+});
+
+describe('mergeCollectionResults', () => {
+  it('ranks normalized scores together for unified_ranking', () => {
+    const merged = mergeCollectionResults(sets, 'unified_ranking');
+
+    expect(ids(merged)).toEqual(['articles:doc1', 'notes:doc1', 'articles:doc2', 'articles:doc3', 'notes:doc2']);
+    expect(merged[2].score).toBeCloseTo(1 / 3);
+  });
+
+  it('applies cross-collection boosts after normalization', () => {
+    const merged = mergeCollectionResults(sets, 'unified_ranking', { notes: 2 });
+
+    expect(ids(merged).slice(0, 2)).toEqual(['notes:doc1', 'articles:doc1']);
+    expect(merged[0].score).toBe(2);
+    expect(merged[0].normalizedScore).toBe(1);
+  });
+
+  it('interleaves collections round-robin', () => {
+    const merged = mergeCollectionResults(sets, 'interleave', { notes: 1.5 });
+    expect(ids(merged)).toEqual(['notes:doc1', 'articles:doc1', 'notes:doc2', 'articles:doc2', 'articles:doc3']);
+  });
+
+  it('groups whole collections by their best hit', () => {
+    const merged = mergeCollectionResults(sets, 'group_by_collection', { articles: 0.5 });
+    expect(ids(merged)).toEqual(['notes:doc1', 'notes:doc2', 'articles:doc1', 'articles:doc2', 'articles:doc3']);
+  });
+
+  it('applies the limit after merging and skips empty collections', () => {
+    const merged = mergeCollectionResults(
+      [...sets, { collection: 'empty', results: [] }],
+      'interleave',
+      {},
+      3
+    );
+    expect(ids(merged)).toEqual(['articles:doc1', 'notes:doc1', 'articles:doc2']);
+  });
+});
+
+describe('diversification', () => {
+  it('caps each collection at maxPerCollection before merging', () => {
+    const merged = mergeCollectionResults(sets, 'unified_ranking', {}, undefined, 1);
+    expect(ids(merged)).toEqual(['articles:doc1', 'notes:doc1']);
+  });
+
+  it('resolves the cap only when enabled', () => {
+    expect(resolveMaxPerCollection()).toBeUndefined();
+    expect(resolveMaxPerCollection({ enabled: false, algorithm: 'mmd' })).toBeUndefined();
+    expect(resolveMaxPerCollection({ enabled: true, maxPerCollection: 2 })).toBe(2);
+  });
+
+  it('rejects settings it cannot honour', () => {
+    expect(() => resolveMaxPerCollection({ enabled: true, maxPerCollection: 2, algorithm: 'mmd' })).toThrow(/'mmd' is not supported/);
+    expect(() => resolveMaxPerCollection({ enabled: true, maxPerCollection: 2, diversityField: 'author' })).toThrow(/diversityField/);
+    expect(() => resolveMaxPerCollection({ enabled: true })).toThrow(/maxPerCollection/);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit Tests for embedding inserted documents
+ *
+ * InsertEmbedder runs against stand-ins for SQLite (serving one collection
+ * row), the provider manager, the embedding queue and the vector writer, so
+ * the tests check which documents are embedded, stored or queued.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { InsertEmbedder } from '../../src/database/worker/embedding/InsertEmbedder.js';
+import { ProviderManager } from '../../src/database/worker/embedding/ProviderManager.js';
+
+const documents = [
+  { id: 'a', content: 'alpha' },
+  { id: 'b', content: 'beta' },
+  { id: 'c', content: 'gamma' }
+];
+
+function createProvider(maxBatchSize = 10) {
+  return {
+    maxBatchSize,
+    generateBatch: vi.fn(async (texts: string[]) => texts.map(() => new Float32Array([0.1, 0.2, 0.3])))
+  };
+}
+
+function createEmbedder(options: {
+  provider?: ReturnType<typeof createProvider> | null;
+  embeddingStatus?: string;
+  embeddingConfig?: Record<string, any> | null;
+} = {}) {
+  const sqlite = {
+    select: vi.fn(async () => ({
+      rows: [{
+        embedding_status: options.embeddingStatus ?? 'enabled',
+        config: JSON.stringify(options.embeddingConfig === null ? {} : {
+          embeddingConfig: options.embeddingConfig ?? { provider: 'openai', model: 'text-embedding-3-small', dimensions: 3 }
+        })
+      }]
+    }))
+  };
+  const provider = options.provider === undefined ? createProvider() : options.provider;
+  const providers = { getProvider: vi.fn(async () => provider) };
+  const queue = { enqueue: vi.fn(async () => 1) };
+  const storeVector = vi.fn(async () => undefined);
+
+  const embedder = new InsertEmbedder(sqlite as any, providers as any, queue as any, storeVector, { log: () => undefined });
+  return { embedder, provider, providers, queue, storeVector };
+}
+
+describe('InsertEmbedder', () => {
+  it('generates and stores vectors in provider-sized batches in sync mode', async () => {
+    const { embedder, provider, storeVector, queue } = createEmbedder({ provider: createProvider(2) });
+
+    const outcomes = await embedder.embed('docs', documents);
+
+    expect(provider!.generateBatch.mock.calls.map(([texts]) => texts)).toEqual([['alpha', 'beta'], ['gamma']]);
+    expect(storeVector.mock.calls.map(([collection, id]) => [collection, id])).toEqual([['docs', 'a'], ['docs', 'b'], ['docs', 'c']]);
+    expect(outcomes.every(outcome => outcome.embeddingStatus === 'generated' && outcome.embeddingGenerated)).toBe(true);
+    expect(queue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('queues every document in queue mode without touching the provider', async () => {
+    const { embedder, providers, queue } = createEmbedder();
+
+    const outcomes = await embedder.embed('docs', documents, { embeddingMode: 'queue' });
+
+    expect(providers.getProvider).not.toHaveBeenCalled();
+    expect(queue.enqueue).toHaveBeenCalledWith({ collection: 'docs', documentId: 'a', textContent: 'alpha' });
+    expect(outcomes).toEqual(documents.map(() => ({ embeddingGenerated: false, embeddingStatus: 'queued' })));
+  });
+
+  it('falls back to the queue and reports the error when the provider fails', async () => {
+    const provider = createProvider();
+    provider.generateBatch.mockRejectedValueOnce(new Error('HTTP 503'));
+    const { embedder, queue, storeVector } = createEmbedder({ provider });
+
+    const outcomes = await embedder.embed('docs', documents.slice(0, 2));
+
+    expect(storeVector).not.toHaveBeenCalled();
+    expect(queue.enqueue).toHaveBeenCalledTimes(2);
+    expect(outcomes).toEqual([
+      { embeddingGenerated: false, embeddingStatus: 'queued', embeddingError: 'HTTP 503' },
+      { embeddingGenerated: false, embeddingStatus: 'queued', embeddingError: 'HTTP 503' }
+    ]);
+  });
+
+  it('queues with an error when no provider can be created', async () => {
+    const { embedder, queue } = createEmbedder({ provider: null });
+
+    const [outcome] = await embedder.embed('docs', documents.slice(0, 1));
+
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    expect(outcome).toMatchObject({ embeddingStatus: 'queued', embeddingError: expect.stringMatching(/No embedding provider/) });
+  });
+
+  it('queues only the document whose vector could not be stored', async () => {
+    const { embedder, storeVector, queue } = createEmbedder();
+    storeVector.mockRejectedValueOnce(new Error('dimension mismatch'));
+
+    const outcomes = await embedder.embed('docs', documents.slice(0, 2));
+
+    expect(outcomes.map(outcome => outcome.embeddingStatus)).toEqual(['queued', 'generated']);
+    expect(queue.enqueue).toHaveBeenCalledWith({ collection: 'docs', documentId: 'a', textContent: 'alpha' });
+  });
+
+  it('skips embedding when the call opts out', async () => {
+    const { embedder, providers, queue } = createEmbedder();
+
+    const outcomes = await embedder.embed('docs', documents, { generateEmbedding: false });
+
+    expect(providers.getProvider).not.toHaveBeenCalled();
+    expect(queue.enqueue).not.toHaveBeenCalled();
+    expect(outcomes).toEqual(documents.map(() => ({ embeddingGenerated: false, embeddingStatus: 'skipped' })));
+  });
+
+  it('skips embedding for collections without automatic embedding', async () => {
+    const unconfigured = createEmbedder({ embeddingConfig: null });
+    const disabled = createEmbedder({ embeddingStatus: 'disabled' });
+
+    expect((await unconfigured.embedder.embed('docs', documents))[0].embeddingStatus).toBe('skipped');
+    expect((await disabled.embedder.embed('docs', documents))[0].embeddingStatus).toBe('skipped');
+    expect(unconfigured.queue.enqueue).not.toHaveBeenCalled();
+    expect(disabled.queue.enqueue).not.toHaveBeenCalled();
+  });
+});
+
+describe('ProviderManager API keys', () => {
+  function createManager() {
+    const manager = new ProviderManager({ select: vi.fn() } as any, { log: () => undefined });
+    // No cleanup timer in tests
+    (manager as any).stopCleanupTimer();
+    return manager;
+  }
+
+  it('drops the cached provider when the key changes', async () => {
+    const manager = createManager();
+    const dispose = vi.fn();
+    (manager as any).providers.set('docs', { provider: { dispose }, config: {}, lastUsed: 0 });
+
+    await manager.setApiKey('docs', 'sk-new');
+
+    expect(dispose).toHaveBeenCalled();
+    expect(manager.getCachedProviders()).toEqual([]);
+    expect((manager as any).apiKeys.get('docs')).toBe('sk-new');
+  });
+
+  it('moves the key to the new name on rename', async () => {
+    const manager = createManager();
+    await manager.setApiKey('drafts', 'sk-1');
+
+    await manager.renameCollection('drafts', 'articles');
+
+    expect((manager as any).apiKeys.has('drafts')).toBe(false);
+    expect((manager as any).apiKeys.get('articles')).toBe('sk-1');
+  });
+});
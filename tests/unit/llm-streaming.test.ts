@@ -0,0 +1,268 @@
+/**
+ * Unit Tests for streamed LLM responses
+ *
+ * A local HTTP server stands in for the provider APIs and answers with
+ * text/event-stream bodies, so the SSE parsing, abort and idle timeout
+ * paths run against real fetch streams.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SSEParser, parseSSEStream, type SSEEvent } from '../../src/llm/SSEParser.js';
+import { OpenAIProvider } from '../../src/llm/providers/OpenAIProvider.js';
+import { AnthropicProvider } from '../../src/llm/providers/AnthropicProvider.js';
+import { OpenRouterProvider } from '../../src/llm/providers/OpenRouterProvider.js';
+import { CustomProvider } from '../../src/llm/providers/CustomProvider.js';
+import { LLMAbortError, LLMConfigError, LLMProviderError, LLMTimeoutError } from '../../src/llm/errors.js';
+import type { LLMProviderConfig } from '../../src/llm/types.js';
+import { Logger } from '../../src/database/worker/utils/Logger.js';
+
+interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+type Reply = (request: RecordedRequest, res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let replies: Reply[];
+
+const logger = new Logger({ level: 'error', component: 'LLMStreamingTest' });
+
+/** Reply with the given events, optionally leaving the stream open afterwards */
+function sseReply(events: Array<string | { event?: string; data: unknown }>, keepOpen = false): Reply {
+  return (_request, res) => {
+    res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+    for (const event of events) {
+      if (typeof event === 'string') {
+        res.write(event);
+        continue;
+      }
+      const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+      res.write(`${event.event ? `event: ${event.event}\n` : ''}data: ${data}\n\n`);
+    }
+    if (!keepOpen) {
+      res.end();
+    }
+  };
+}
+
+function errorReply(status: number, message: string): Reply {
+  return (_request, res) => {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ error: { message } }));
+  };
+}
+
+function chatChunk(content: string, extra: Record<string, unknown> = {}) {
+  return { data: { model: 'gpt-4o-mini', choices: [{ index: 0, delta: { content }, finish_reason: null }], ...extra } };
+}
+
+function config(provider: LLMProviderConfig['provider'], overrides: Partial<LLMProviderConfig> = {}): LLMProviderConfig {
+  return { provider, model: 'test-model', apiKey: 'test-key', endpoint: `${baseUrl}/v1/chat`, maxRetries: 1, ...overrides };
+}
+
+function byteStream(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    }
+  });
+}
+
+async function collect(stream: AsyncIterable<SSEEvent>): Promise<SSEEvent[]> {
+  const events: SSEEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const request = { url: req.url ?? '', headers: req.headers, body: raw ? JSON.parse(raw) : null };
+      requests.push(request);
+      const reply = replies.shift();
+      if (reply) {
+        reply(request, res);
+      } else {
+        errorReply(500, 'No reply queued')(request, res);
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  replies = [];
+});
+
+describe('SSEParser', () => {
+  it('assembles events split across chunks at any position', () => {
+    const parser = new SSEParser();
+    const input = 'event: message_start\r\ndata: {"a":\r\ndata: 1}\r\n\r\n: keep-alive\n\ndata: second\n\n';
+    const events: SSEEvent[] = [];
+
+    for (const char of input) {
+      events.push(...parser.push(char));
+    }
+
+    expect(events).toEqual([
+      { event: 'message_start', data: '{"a":\n1}', id: undefined },
+      { event: undefined, data: 'second', id: undefined }
+    ]);
+  });
+
+  it('dispatches a final event without a trailing blank line on flush', () => {
+    const parser = new SSEParser();
+
+    expect(parser.push('id: 7\ndata: last')).toEqual([]);
+    expect(parser.flush()).toEqual([{ event: undefined, data: 'last', id: '7' }]);
+  });
+
+  it('decodes multi-byte characters split between network chunks', async () => {
+    const bytes = new TextEncoder().encode('data: привет\n\n');
+    const events = await collect(parseSSEStream(byteStream([bytes.slice(0, 8), bytes.slice(8)])));
+
+    expect(events.map(event => event.data)).toEqual(['привет']);
+  });
+});
+
+describe('Streaming LLM providers', () => {
+  it('streams OpenAI chat completion deltas with usage', async () => {
+    replies.push(sseReply([
+      chatChunk('Hello'),
+      chatChunk(', world'),
+      { data: { model: 'gpt-4o-mini', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] } },
+      { data: { model: 'gpt-4o-mini', choices: [], usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 } } },
+      { data: '[DONE]' }
+    ]));
+    const provider = new OpenAIProvider(config('openai'), logger);
+    const deltas: string[] = [];
+
+    const response = await provider.callStream('Say hello', delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['Hello', ', world']);
+    expect(response).toMatchObject({
+      text: 'Hello, world',
+      finishReason: 'stop',
+      model: 'gpt-4o-mini',
+      usage: { promptTokens: 5, completionTokens: 3, totalTokens: 8 }
+    });
+    expect(requests[0].headers.accept).toBe('text/event-stream');
+    expect(requests[0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+
+  it('streams Anthropic text deltas from typed events', async () => {
+    replies.push(sseReply([
+      { event: 'message_start', data: { type: 'message_start', message: { model: 'claude-3-5-haiku', usage: { input_tokens: 12 } } } },
+      { event: 'content_block_start', data: { type: 'content_block_start', index: 0 } },
+      { event: 'ping', data: { type: 'ping' } },
+      { event: 'content_block_delta', data: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Bonjour' } } },
+      { event: 'content_block_delta', data: { type: 'content_block_delta', delta: { type: 'text_delta', text: ' !' } } },
+      { event: 'message_delta', data: { type: 'message_delta', delta: { stop_reason: 'max_tokens' }, usage: { output_tokens: 2 } } },
+      { event: 'message_stop', data: { type: 'message_stop' } }
+    ]));
+    const provider = new AnthropicProvider(config('anthropic'), logger);
+    const deltas: string[] = [];
+
+    const response = await provider.callStream('Say hello in French', delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['Bonjour', ' !']);
+    expect(response).toMatchObject({
+      text: 'Bonjour !',
+      finishReason: 'length',
+      model: 'claude-3-5-haiku',
+      usage: { promptTokens: 12, completionTokens: 2, totalTokens: 14 }
+    });
+    expect(requests[0].headers['x-api-key']).toBe('test-key');
+    expect(requests[0].body.stream).toBe(true);
+  });
+
+  it('ignores OpenRouter keep-alive comments', async () => {
+    replies.push(sseReply([
+      ': OPENROUTER PROCESSING\n\n',
+      chatChunk('routed'),
+      ': OPENROUTER PROCESSING\n\n',
+      { data: '[DONE]' }
+    ]));
+    const provider = new OpenRouterProvider(config('openrouter'), logger);
+
+    const response = await provider.callStream('Route me', () => undefined);
+
+    expect(response.text).toBe('routed');
+  });
+
+  it('streams from a custom OpenAI-compatible endpoint and requires the endpoint', async () => {
+    replies.push(sseReply([chatChunk('local'), chatChunk(' model'), { data: '[DONE]' }]));
+    const provider = new CustomProvider(config('custom', { apiKey: undefined }), logger);
+    const deltas: string[] = [];
+
+    await provider.callStream('Hi', delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['local', ' model']);
+    expect(requests[0].url).toBe('/v1/chat');
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(() => new CustomProvider(config('custom', { endpoint: undefined }), logger)).toThrow(LLMConfigError);
+  });
+
+  it('retries a failed request before the first delta', async () => {
+    replies.push(errorReply(503, 'Overloaded'), sseReply([chatChunk('second try'), { data: '[DONE]' }]));
+    const provider = new OpenAIProvider(config('openai'), logger);
+
+    const response = await provider.callStream('Retry', () => undefined);
+
+    expect(response.text).toBe('second try');
+    expect(requests).toHaveLength(2);
+  }, 10000);
+
+  it('does not retry once deltas have been delivered', async () => {
+    replies.push(sseReply([chatChunk('partial'), { data: { error: { message: 'Upstream failed' } } }]));
+    const provider = new OpenRouterProvider(config('openrouter'), logger);
+    const deltas: string[] = [];
+
+    await expect(provider.callStream('Fail midway', delta => deltas.push(delta))).rejects.toThrow(LLMProviderError);
+    expect(deltas).toEqual(['partial']);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('aborts a running stream through the signal', async () => {
+    replies.push(sseReply([chatChunk('first')], true));
+    const provider = new OpenAIProvider(config('openai'), logger);
+    const controller = new AbortController();
+
+    const call = provider.callStream('Long answer', () => controller.abort(), { signal: controller.signal });
+
+    await expect(call).rejects.toBeInstanceOf(LLMAbortError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('times out when the stream goes silent between events', async () => {
+    replies.push(sseReply([
+      { event: 'content_block_delta', data: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'stalled' } } }
+    ], true));
+    const provider = new AnthropicProvider(config('anthropic'), logger);
+    const deltas: string[] = [];
+
+    await expect(
+      provider.callStream('Stall', delta => deltas.push(delta), { timeout: 200 })
+    ).rejects.toBeInstanceOf(LLMTimeoutError);
+    expect(deltas).toEqual(['stalled']);
+    expect(requests).toHaveLength(1);
+  });
+});
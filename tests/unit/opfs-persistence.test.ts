@@ -0,0 +1,218 @@
+/**
+ * Unit Tests for crash-safe OPFS persistence
+ *
+ * OPFS is replaced by an in-memory directory tree and SQLiteManager by a
+ * stand-in whose content and change marker the tests set directly.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OPFSManager } from '../../src/database/worker/core/OPFSManager.js';
+import { encodeSnapshot, decodeSnapshot, SNAPSHOT_HEADER_SIZE } from '../../src/database/worker/core/SnapshotFormat.js';
+
+const notFound = () => new DOMException('A requested file or directory could not be found', 'NotFoundError');
+
+class FakeFileHandle {
+  constructor(private directory: FakeDirectory, public name: string, private movable: boolean) {}
+
+  get move() {
+    return this.movable
+      ? async (newName: string) => {
+          const data = this.directory.files.get(this.name)!;
+          this.directory.files.delete(this.name);
+          this.directory.files.set(newName, data);
+          this.name = newName;
+        }
+      : undefined;
+  }
+
+  async getFile() {
+    const data = this.directory.files.get(this.name);
+    if (!data) {
+      throw notFound();
+    }
+    return { arrayBuffer: async () => data.slice().buffer };
+  }
+
+  async createWritable() {
+    let pending = new Uint8Array(0);
+    return {
+      write: async (buffer: ArrayBuffer) => { pending = new Uint8Array(buffer.slice(0)); },
+      close: async () => { this.directory.files.set(this.name, pending); }  // Committed on close, like OPFS
+    };
+  }
+}
+
+class FakeDirectory {
+  files = new Map<string, Uint8Array>();
+  directories = new Map<string, FakeDirectory>();
+  constructor(public movable = true) {}
+
+  async getDirectoryHandle(name: string, options?: { create?: boolean }) {
+    if (!this.directories.has(name)) {
+      if (!options?.create) {
+        throw notFound();
+      }
+      this.directories.set(name, new FakeDirectory(this.movable));
+    }
+    return this.directories.get(name)!;
+  }
+
+  async getFileHandle(name: string, options?: { create?: boolean }) {
+    if (!this.files.has(name)) {
+      if (!options?.create) {
+        throw notFound();
+      }
+      this.files.set(name, new Uint8Array(0));
+    }
+    return new FakeFileHandle(this, name, this.movable);
+  }
+
+  async removeEntry(name: string) {
+    if (!this.files.delete(name)) {
+      throw notFound();
+    }
+  }
+}
+
+class FakeSQLite {
+  content = new Uint8Array([1, 2, 3]);
+  marker = 'm1';
+  serialize = vi.fn(async () => this.content);
+  isConnected() { return true; }
+  async getChangeMarker() { return this.marker; }
+}
+
+const sqliteBytes = (...payload: number[]) =>
+  new Uint8Array([...new TextEncoder().encode('SQLite format 3\0'), ...payload]);
+
+let root: FakeDirectory;
+let sqlite: FakeSQLite;
+let manager: OPFSManager;
+
+async function openManager(): Promise<void> {
+  manager = new OPFSManager(sqlite as any, { log: () => undefined });
+  await manager.initializeDatabase('opfs:/data/app.db');
+}
+
+function dataDir(): FakeDirectory {
+  return root.directories.get('data')!;
+}
+
+beforeEach(() => {
+  root = new FakeDirectory();
+  sqlite = new FakeSQLite();
+  vi.stubGlobal('navigator', {
+    storage: {
+      getDirectory: async () => root,
+      estimate: async () => ({ quota: 1_000_000, usage: 0 })
+    }
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('SnapshotFormat', () => {
+  it('round-trips data and rejects truncated or corrupted snapshots', () => {
+    const snapshot = encodeSnapshot(new Uint8Array([9, 8, 7]), 1234);
+
+    expect(decodeSnapshot(snapshot)).toEqual({ data: new Uint8Array([9, 8, 7]), savedAt: 1234, legacy: false });
+    expect(() => decodeSnapshot(snapshot.slice(0, snapshot.length - 1))).toThrow(/truncated/);
+
+    const corrupted = snapshot.slice();
+    corrupted[SNAPSHOT_HEADER_SIZE] ^= 0xff;
+    expect(() => decodeSnapshot(corrupted)).toThrow(/checksum/);
+  });
+
+  it('accepts plain SQLite files written before snapshots had a header', () => {
+    expect(decodeSnapshot(sqliteBytes(5))).toMatchObject({ savedAt: 0, legacy: true });
+    expect(() => decodeSnapshot(new Uint8Array([1, 2, 3]))).toThrow(/invalid snapshot header/);
+  });
+});
+
+describe('OPFSManager persistence', () => {
+  it('skips syncs while the database is unchanged', async () => {
+    await openManager();
+
+    await manager.saveDatabaseToOPFS();
+    await manager.saveDatabaseToOPFS();
+    expect(sqlite.serialize).toHaveBeenCalledTimes(1);
+
+    sqlite.marker = 'm2';
+    await manager.saveDatabaseToOPFS();
+    expect(sqlite.serialize).toHaveBeenCalledTimes(2);
+
+    manager.markDirty();
+    await manager.saveDatabaseToOPFS();
+    expect(sqlite.serialize).toHaveBeenCalledTimes(3);
+  });
+
+  it('swaps the snapshot in through a temp file and keeps the previous one', async () => {
+    await openManager();
+    await manager.saveDatabaseToOPFS();
+
+    sqlite.content = new Uint8Array([4, 5]);
+    sqlite.marker = 'm2';
+    await manager.saveDatabaseToOPFS();
+
+    const files = dataDir().files;
+    expect([...files.keys()].sort()).toEqual(['app.db', 'app.db.prev']);
+    expect(decodeSnapshot(files.get('app.db')!).data).toEqual(new Uint8Array([4, 5]));
+    expect(decodeSnapshot(files.get('app.db.prev')!).data).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('falls back to copying where FileSystemHandle.move() is missing', async () => {
+    root = new FakeDirectory(false);
+    await openManager();
+
+    await manager.saveDatabaseToOPFS();
+    sqlite.marker = 'm2';
+    await manager.saveDatabaseToOPFS();
+
+    expect([...dataDir().files.keys()].sort()).toEqual(['app.db', 'app.db.prev']);
+  });
+
+  it('restores the previous snapshot when the database file is corrupt', async () => {
+    const directory = await root.getDirectoryHandle('data', { create: true });
+    const corrupted = encodeSnapshot(new Uint8Array([1, 1]), 200);
+    corrupted[SNAPSHOT_HEADER_SIZE] = 7;
+    directory.files.set('app.db', corrupted);
+    directory.files.set('app.db.prev', encodeSnapshot(new Uint8Array([2, 2]), 100));
+
+    await openManager();
+
+    expect(manager.getPendingDatabaseData()).toEqual(new Uint8Array([2, 2]));
+  });
+
+  it('prefers a complete temp snapshot newer than the database file', async () => {
+    const directory = await root.getDirectoryHandle('data', { create: true });
+    directory.files.set('app.db', sqliteBytes(1));
+    directory.files.set('app.db.tmp', encodeSnapshot(new Uint8Array([3, 3]), 300));
+
+    await openManager();
+
+    expect(manager.getPendingDatabaseData()).toEqual(new Uint8Array([3, 3]));
+  });
+
+  it('ignores an interrupted temp snapshot', async () => {
+    const directory = await root.getDirectoryHandle('data', { create: true });
+    directory.files.set('app.db', encodeSnapshot(new Uint8Array([1, 1]), 100));
+    directory.files.set('app.db.tmp', encodeSnapshot(new Uint8Array([3, 3, 3, 3]), 300).slice(0, 34));
+
+    await openManager();
+
+    expect(manager.getPendingDatabaseData()).toEqual(new Uint8Array([1, 1]));
+  });
+
+  it('clears the database file and its snapshots', async () => {
+    await openManager();
+    await manager.saveDatabaseToOPFS();
+    sqlite.marker = 'm2';
+    await manager.saveDatabaseToOPFS();
+
+    await manager.clearDatabase();
+
+    expect(dataDir().files.size).toBe(0);
+  });
+});
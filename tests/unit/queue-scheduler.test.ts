@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for background embedding queue scheduling
+ *
+ * The queue is an in-memory stand-in holding per-collection pending counts;
+ * timers are faked so each scheduler tick runs on demand.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QueueScheduler } from '../../src/database/worker/embedding/QueueScheduler.js';
+import type { ProcessEmbeddingQueueParams, ProcessEmbeddingQueueResult, WorkerEvent } from '../../src/types/worker.js';
+
+class FakeQueue {
+  runs: ProcessEmbeddingQueueParams[] = [];
+  recoverStuckItems = vi.fn(async () => 0);
+  failNext = 0;
+
+  constructor(public pending: Record<string, number>) {}
+
+  async getPendingCollections() {
+    return Object.keys(this.pending).filter(collection => this.pending[collection] > 0);
+  }
+
+  async processQueue(params: ProcessEmbeddingQueueParams): Promise<ProcessEmbeddingQueueResult> {
+    this.runs.push(params);
+    const collection = params.collection!;
+    const processed = Math.min(params.batchSize!, this.pending[collection]);
+
+    if (this.failNext > 0) {
+      this.failNext--;
+      return { processed, failed: 0, retrying: processed, remainingInQueue: this.pending[collection], errors: [] };
+    }
+
+    this.pending[collection] -= processed;
+    return { processed, failed: 0, retrying: 0, remainingInQueue: this.pending[collection], errors: [] };
+  }
+}
+
+function createScheduler(queue: FakeQueue, idle = () => true) {
+  const events: WorkerEvent[] = [];
+  const scheduler = new QueueScheduler({
+    queue: queue as any,
+    embeddingGenerator: { generateBatch: async () => [], maxBatchSize: async () => 10 },
+    isIdle: idle,
+    emit: event => events.push(event)
+  });
+  return { scheduler, events };
+}
+
+describe('QueueScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('drains collections in turn and reports progress until each is done', async () => {
+    const queue = new FakeQueue({ docs: 3, notes: 2 });
+    const { scheduler, events } = createScheduler(queue);
+
+    scheduler.start({ batchSize: 2, maxItemsPerMinute: 6000 });
+    await vi.advanceTimersByTimeAsync(100);
+    await scheduler.stop();
+
+    expect(queue.runs.map(run => [run.collection, run.batchSize])).toEqual([
+      ['docs', 2], ['notes', 2], ['docs', 2]
+    ]);
+    expect(queue.recoverStuckItems).toHaveBeenCalledWith(300, 3);
+    expect(events.filter(event => event.type === 'embedding_progress').map(event => event.data)).toEqual([
+      expect.objectContaining({ collection: 'docs', phase: 'generating', processedCount: 2, totalCount: 3 }),
+      expect.objectContaining({ collection: 'notes', phase: 'complete', processedCount: 2, totalCount: 2 }),
+      expect.objectContaining({ collection: 'docs', phase: 'complete', processedCount: 3, totalCount: 3 })
+    ]);
+    expect(events.filter(event => event.type === 'embedding_completed').map(event => event.data)).toEqual([
+      { collection: 'notes', documentsProcessed: 2, errors: 0 },
+      { collection: 'docs', documentsProcessed: 3, errors: 0 }
+    ]);
+  });
+
+  it('waits while the worker is busy', async () => {
+    const queue = new FakeQueue({ docs: 1 });
+    let idle = false;
+    const { scheduler } = createScheduler(queue, () => idle);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(queue.runs).toHaveLength(0);
+
+    idle = true;
+    await vi.advanceTimersByTimeAsync(250);
+    await scheduler.stop();
+    expect(queue.runs).toHaveLength(1);
+  });
+
+  it('keeps within the items-per-minute budget', async () => {
+    const queue = new FakeQueue({ docs: 100 });
+    const { scheduler } = createScheduler(queue);
+
+    scheduler.start({ batchSize: 10, maxItemsPerMinute: 60 });
+    await vi.advanceTimersByTimeAsync(60000);
+    await scheduler.stop();
+
+    const embedded = queue.runs.reduce((sum, run) => sum + run.batchSize!, 0);
+    // A full first batch, then one item per second
+    expect(embedded).toBeGreaterThanOrEqual(60);
+    expect(embedded).toBeLessThanOrEqual(70);
+  });
+
+  it('backs off while every item fails, then resumes', async () => {
+    const queue = new FakeQueue({ docs: 1 });
+    queue.failNext = 3;
+    const { scheduler, events } = createScheduler(queue);
+
+    scheduler.start({ pollInterval: 1000 });
+    // Failed runs at 0, 1s and 3s; the next attempt waits until 7s
+    await vi.advanceTimersByTimeAsync(6000);
+    expect(queue.runs).toHaveLength(3);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await scheduler.stop();
+    expect(queue.runs).toHaveLength(4);
+    expect(events.at(-1)).toEqual({ type: 'embedding_completed', data: { collection: 'docs', documentsProcessed: 1, errors: 0 } });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for ResultProcessor as a post-processing stage over fused results
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ResultProcessor } from '../../src/search/ResultProcessor.js';
+import { ScoreNormalization, type RawSearchResult } from '../../src/types/search.js';
+
+// RRF-sized fused scores
+const fused: RawSearchResult[] = [
+  { id: 'a', title: 'Vector search in SQLite', content: 'sqlite-vec stores embeddings next to the documents.', rawScore: 0.032, source: 'hybrid', rank: 1 },
+  { id: 'b', title: 'Vector search in SQLite', content: 'sqlite-vec stores embeddings next to the documents.', rawScore: 0.030, source: 'fts', rank: 2 },
+  { id: 'c', title: 'Full-text ranking', content: 'BM25 ranks keyword matches in FTS5 indexes.', rawScore: 0.016, source: 'fts', rank: 3 },
+  { id: 'd', title: 'Empty', content: '', rawScore: 0.010, source: 'vector', rank: 4 }
+];
+
+// Same quality settings as the worker's post-processing stage
+function createProcessor(minRelevanceScore = 0) {
+  return new ResultProcessor({
+    enableAnalyticsIntegration: false,
+    enableAdaptiveProcessing: false,
+    qualitySettings: { minRelevanceScore, maxResultsForOptimization: 100, diversityThreshold: 0.3 }
+  });
+}
+
+describe('ResultProcessor post-processing', () => {
+  it('applies the quality threshold to raw scores before normalization', async () => {
+    const options = { normalization: ScoreNormalization.MIN_MAX };
+
+    const all = await createProcessor().processResults(fused, 'vector search', options);
+    expect(all.results.map(result => result.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(all.results[0].score).toBe(1);
+
+    // RRF scores are all below 0.1
+    const strict = await createProcessor(0.1).processResults(fused, 'vector search', options);
+    expect(strict.results).toEqual([]);
+  });
+
+  it('deduplicates and clusters on request', async () => {
+    const processor = createProcessor();
+
+    const deduplicated = await processor.processResults(fused, 'vector search', {
+      normalization: ScoreNormalization.MIN_MAX,
+      deduplication: true
+    });
+    expect(deduplicated.results.map(result => result.id)).toEqual(['a', 'c', 'd']);
+
+    const clustered = await processor.processResults(
+      fused.map(result => (result.id === 'b' ? { ...result, content: 'A different body.' } : result)),
+      'vector search',
+      { normalization: ScoreNormalization.MIN_MAX, clustering: true }
+    );
+    // a and b share a title, so only the better one represents the cluster
+    expect(clustered.results.map(result => result.id)).toEqual(['a', 'c', 'd']);
+  });
+
+  it('only runs SearchOptimizer when re-ranking is enabled', async () => {
+    const processor = createProcessor();
+    const options = { normalization: ScoreNormalization.MIN_MAX };
+
+    const plain = await processor.processResults(fused, 'vector search', options);
+    expect(plain.results[0].explanation?.components.map(component => component.name)).toEqual(['Base Score']);
+
+    const reranked = await processor.processResults(fused, 'vector search', {
+      ...options,
+      reranking: { enabled: true }
+    });
+    expect(reranked.results[0].explanation?.components.map(component => component.name)).not.toEqual(['Base Score']);
+    expect(processor.getPerformanceStats().optimizerStats?.totalQueries).toBe(1);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for RPC progress messages and the push iterator
+ *
+ * WorkerRPC and WorkerRPCHandler are wired back to back through a fake
+ * worker, so progress messages travel the same path as in the browser.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkerRPC, WorkerRPCHandler } from '../../src/utils/rpc.js';
+import { PushIterator } from '../../src/utils/pushIterator.js';
+import type { LLMStreamProgress } from '../../src/types/worker.js';
+
+class FakeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  workerScope = {
+    onmessage: null as ((event: MessageEvent) => void) | null,
+    postMessage: (data: unknown) => this.onmessage?.({ data } as MessageEvent)
+  };
+
+  postMessage(data: unknown) {
+    this.workerScope.onmessage?.({ data } as MessageEvent);
+  }
+
+  terminate() {}
+}
+
+function createPair(operationTimeout = 1000) {
+  const worker = new FakeWorker();
+  vi.stubGlobal('self', worker.workerScope);
+  const handler = new WorkerRPCHandler({ logLevel: 'error' });
+  const rpc = new WorkerRPC(worker as unknown as Worker, { operationTimeout, logLevel: 'error' });
+  return { handler, rpc };
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of iterator) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe('WorkerRPC progress messages', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('routes progress to the callback of the matching call', async () => {
+    const { handler, rpc } = createPair();
+    handler.registerWithProgress('callLLMStream', async (params, context) => {
+      for (const delta of ['a', 'b', 'c']) {
+        context.progress({ streamId: params.streamId, delta });
+      }
+      return { text: 'abc' };
+    });
+    const progress: LLMStreamProgress[] = [];
+
+    const result = await rpc.callLLMStream({ prompt: 'p', streamId: 's1' }, data => progress.push(data));
+
+    expect(result).toEqual({ text: 'abc' });
+    expect(progress.map(data => data.delta)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('does not pass the call context to regular handlers', async () => {
+    const { handler, rpc } = createPair();
+    const received = vi.fn(async (..._args: unknown[]) => true);
+    handler.register('cancelLLMStream', received);
+
+    await rpc.cancelLLMStream({ streamId: 's1' });
+
+    expect(received.mock.calls[0]).toEqual([{ streamId: 's1' }]);
+  });
+
+  it('re-arms the operation timeout on each progress message', async () => {
+    vi.useFakeTimers();
+    const { handler, rpc } = createPair(100);
+    let report: (delta: string) => void = () => undefined;
+    let finish: () => void = () => undefined;
+    handler.registerWithProgress('callLLMStream', (params, context) => new Promise(resolve => {
+      report = delta => context.progress({ streamId: params.streamId, delta });
+      finish = () => resolve({ text: 'done' });
+    }));
+
+    const call = rpc.callLLMStream({ prompt: 'p', streamId: 's1' }, () => undefined);
+    for (let i = 0; i < 5; i++) {
+      await vi.advanceTimersByTimeAsync(80);
+      report(String(i));
+    }
+    finish();
+
+    await expect(call).resolves.toEqual({ text: 'done' });
+  });
+
+  it('still times out a call that stops reporting progress', async () => {
+    vi.useFakeTimers();
+    const { handler, rpc } = createPair(100);
+    handler.registerWithProgress('callLLMStream', (params, context) => {
+      context.progress({ streamId: params.streamId, delta: 'only' });
+      return new Promise(() => undefined);
+    });
+
+    const call = rpc.callLLMStream({ prompt: 'p', streamId: 's1' }, () => undefined);
+    const assertion = expect(call).rejects.toThrow(/timeout/i);
+    await vi.advanceTimersByTimeAsync(150);
+
+    await assertion;
+  });
+});
+
+describe('PushIterator', () => {
+  let iterator: PushIterator<number>;
+  let onReturn: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    onReturn = vi.fn();
+    iterator = new PushIterator<number>(onReturn);
+  });
+
+  it('delivers buffered and later values in order', async () => {
+    iterator.push(1);
+    const values = collect(iterator);
+    iterator.push(2);
+    iterator.end();
+    iterator.push(3);
+
+    await expect(values).resolves.toEqual([1, 2]);
+    expect(onReturn).not.toHaveBeenCalled();
+  });
+
+  it('rejects the pending read when failed', async () => {
+    const values = collect(iterator);
+    iterator.fail(new Error('aborted'));
+
+    await expect(values).rejects.toThrow('aborted');
+    await expect(iterator.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it('notifies the producer when the consumer stops early', async () => {
+    iterator.push(1);
+    iterator.push(2);
+
+    for await (const value of iterator) {
+      expect(value).toBe(1);
+      break;
+    }
+
+    expect(onReturn).toHaveBeenCalledTimes(1);
+    await expect(iterator.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for the schema migration pipeline
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SchemaManager, CURRENT_SCHEMA_VERSION } from '../../src/database/worker/schema/SchemaManager.js';
+import { MIGRATIONS, planMigrations, type Migration } from '../../src/database/worker/schema/migrations.js';
+import type { SQLiteManager } from '../../src/database/worker/core/SQLiteManager.js';
+import type { OPFSManager } from '../../src/database/worker/core/OPFSManager.js';
+
+function createFakeSQLite() {
+  const statements: string[] = [];
+  return {
+    statements,
+    isConnected: () => true,
+    select: vi.fn(async () => ({ rows: [] })),
+    exec: vi.fn(async (sql: string) => {
+      statements.push(sql.trim());
+    })
+  };
+}
+
+function migration(version: number, up: Migration['up'] = async () => {}): Migration {
+  return { version, description: `to v${version}`, up };
+}
+
+describe('planMigrations', () => {
+  it('registers a contiguous chain up to the current schema version', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual([2, 3, 4, 5, 6]);
+    expect(planMigrations(1, CURRENT_SCHEMA_VERSION).map(m => m.version)).toEqual([2, 3, 4, 5, 6]);
+    expect(planMigrations(3, CURRENT_SCHEMA_VERSION).map(m => m.version)).toEqual([4, 5, 6]);
+  });
+
+  it('orders migrations by version', () => {
+    const plan = planMigrations(1, 3, [migration(3), migration(2)]);
+    expect(plan.map(m => m.version)).toEqual([2, 3]);
+  });
+
+  it('rejects gaps in the chain', () => {
+    expect(() => planMigrations(1, 4, [migration(2), migration(4)])).toThrow('No migration registered from schema v2 to v3');
+  });
+});
+
+describe('SchemaManager.migrateSchema', () => {
+  it('backs up before migrating and runs every step in one transaction', async () => {
+    const sqlite = createFakeSQLite();
+    const order: string[] = [];
+    const opfs = {
+      backupDatabase: vi.fn(async (label: string) => {
+        order.push(`backup:${label}`);
+        return `db.${label}.bak`;
+      })
+    };
+    sqlite.exec.mockImplementation(async (sql: string) => {
+      order.push(sql.trim().split(/\s+/).slice(0, 2).join(' '));
+    });
+
+    const migrations = [2, 3, 4, 5, 6].map(version =>
+      migration(version, async () => {
+        order.push(`up:${version}`);
+      })
+    );
+
+    const schema = new SchemaManager(
+      sqlite as unknown as SQLiteManager,
+      { log: () => {} },
+      opfs as unknown as OPFSManager,
+      migrations
+    );
+    await schema.migrateSchema(1);
+
+    expect(opfs.backupDatabase).toHaveBeenCalledWith('v1');
+    expect(order).toEqual([
+      'backup:v1',
+      'BEGIN IMMEDIATE',
+      'up:2', 'UPDATE collections',
+      'up:3', 'UPDATE collections',
+      'up:4', 'UPDATE collections',
+      'up:5', 'UPDATE collections',
+      'up:6', 'UPDATE collections',
+      'COMMIT'
+    ]);
+  });
+
+  it('rolls back and reports the backup when a step fails', async () => {
+    const sqlite = createFakeSQLite();
+    const opfs = { backupDatabase: vi.fn(async () => 'db.v2.bak') };
+    const migrations = [
+      migration(3),
+      migration(4, async () => {
+        throw new Error('fts rebuild failed');
+      }),
+      migration(5),
+      migration(6)
+    ];
+
+    const schema = new SchemaManager(
+      sqlite as unknown as SQLiteManager,
+      { log: () => {} },
+      opfs as unknown as OPFSManager,
+      migrations
+    );
+
+    await expect(schema.migrateSchema(2)).rejects.toThrow(
+      'Schema migration to v4 failed: fts rebuild failed (backup saved at db.v2.bak)'
+    );
+    expect(sqlite.statements).toContain('ROLLBACK');
+    expect(sqlite.statements).not.toContain('COMMIT');
+  });
+
+  it('does not start a transaction when the backup fails', async () => {
+    const sqlite = createFakeSQLite();
+    const opfs = { backupDatabase: vi.fn(async () => { throw new Error('quota exceeded'); }) };
+
+    const schema = new SchemaManager(
+      sqlite as unknown as SQLiteManager,
+      { log: () => {} },
+      opfs as unknown as OPFSManager
+    );
+
+    await expect(schema.migrateSchema(3)).rejects.toThrow('quota exceeded');
+    expect(sqlite.exec).not.toHaveBeenCalled();
+  });
+});
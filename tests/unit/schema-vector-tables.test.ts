@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for per-collection vector tables in SchemaManager
+ *
+ * Uses an in-memory stand-in for SQLiteManager that records executed SQL.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SchemaManager, DEFAULT_VECTOR_TABLE } from '../../src/database/worker/schema/SchemaManager.js';
+import type { SQLiteManager } from '../../src/database/worker/core/SQLiteManager.js';
+
+class FakeSQLite {
+  collections = new Map<string, string | null>();
+  tables = new Set<string>([DEFAULT_VECTOR_TABLE]);
+  executed: Array<{ sql: string; params?: any[] }> = [];
+
+  isConnected() {
+    return true;
+  }
+
+  async select(sql: string, params: any[] = []) {
+    if (sql.includes('FROM sqlite_master')) {
+      return { rows: this.tables.has(params[0]) ? [{ name: params[0] }] : [] };
+    }
+    if (sql.startsWith('SELECT config FROM collections')) {
+      return { rows: this.collections.has(params[0]) ? [{ config: this.collections.get(params[0]) }] : [] };
+    }
+    if (sql.startsWith('SELECT name FROM collections')) {
+      return { rows: this.collections.has(params[0]) ? [{ name: params[0] }] : [] };
+    }
+    return { rows: [] };
+  }
+
+  async exec(sql: string, params?: any[]) {
+    this.executed.push({ sql, params });
+    const created = sql.match(/CREATE VIRTUAL TABLE (\w+) USING vec0/);
+    if (created) {
+      this.tables.add(created[1]);
+    }
+    if (sql.trim().startsWith('INSERT INTO collections') && params) {
+      this.collections.set(params[0], params[1]);
+    }
+    if (sql.trim().startsWith('UPDATE collections SET config = json_set') && params) {
+      const config = JSON.parse(this.collections.get(params[1]) || '{}');
+      this.collections.set(params[1], JSON.stringify({ ...config, vectorTable: params[0] }));
+    }
+  }
+}
+
+describe('SchemaManager vector tables', () => {
+  let sqlite: FakeSQLite;
+  let schema: SchemaManager;
+
+  beforeEach(() => {
+    sqlite = new FakeSQLite();
+    schema = new SchemaManager(sqlite as unknown as SQLiteManager, { log: () => {} });
+  });
+
+  it('creates a vec0 table sized to the collection dimensions', async () => {
+    await schema.createCollection('openai-docs', 1536);
+
+    const create = sqlite.executed.find(entry => entry.sql.includes('USING vec0'));
+    expect(create?.sql).toContain('CREATE VIRTUAL TABLE vec_openai_docs_1536d USING vec0');
+    expect(create?.sql).toContain('embedding float[1536]');
+
+    const config = JSON.parse(sqlite.collections.get('openai-docs')!);
+    expect(config).toMatchObject({ vectorDim: 1536, vectorTable: 'vec_openai_docs_1536d' });
+
+    expect(await schema.getVectorTable('openai-docs')).toEqual({ table: 'vec_openai_docs_1536d', dimensions: 1536 });
+  });
+
+  it('avoids table name collisions between sanitized collection names', async () => {
+    await schema.createCollection('a-b', 768);
+    await schema.createCollection('a_b', 768);
+
+    expect((await schema.getVectorTable('a-b')).table).toBe('vec_a_b_768d');
+    expect((await schema.getVectorTable('a_b')).table).toBe('vec_a_b_768d_2');
+  });
+
+  it('binds collection values instead of interpolating them', async () => {
+    await schema.createCollection("it's", 384);
+
+    const insert = sqlite.executed.find(entry => entry.sql.trim().startsWith('INSERT INTO collections'));
+    expect(insert?.sql).not.toContain("it's");
+    expect(insert?.params?.[0]).toBe("it's");
+  });
+
+  it('records the provider and auto-embedding switch of an embedding configuration', async () => {
+    await schema.createCollection('plain', 384);
+    await schema.createCollection('openai', 1536, { embeddingConfig: { provider: 'openai', dimensions: 1536 } });
+    await schema.createCollection('manual', 384, { embeddingConfig: { provider: 'transformers', dimensions: 384, autoGenerate: false } });
+
+    const inserts = sqlite.executed.filter(entry => entry.sql.trim().startsWith('INSERT INTO collections'));
+    expect(inserts.map(entry => entry.params?.slice(-2))).toEqual([
+      ['local', 'enabled'],
+      ['openai', 'enabled'],
+      ['transformers', 'disabled']
+    ]);
+  });
+
+  it('creates the vector table and the collection row in one transaction', async () => {
+    await schema.createCollection('docs', 384);
+
+    expect(sqlite.executed.map(entry => entry.sql.trim().split(/\s+/)[0])).toEqual(['BEGIN', 'CREATE', 'INSERT', 'COMMIT']);
+  });
+
+  it('rolls back the vector table when the collection row cannot be written', async () => {
+    const exec = sqlite.exec.bind(sqlite);
+    sqlite.exec = async (sql: string, params?: any[]) => {
+      if (sql.trim().startsWith('INSERT INTO collections')) {
+        throw new Error('disk I/O error');
+      }
+      return exec(sql, params);
+    };
+
+    await expect(schema.createCollection('docs', 384)).rejects.toThrow(/disk I\/O error/);
+
+    expect(sqlite.executed.map(entry => entry.sql.trim().split(/\s+/)[0])).toEqual(['BEGIN', 'CREATE', 'ROLLBACK']);
+    await expect(schema.getVectorTable('docs')).rejects.toThrow(/does not exist/);
+  });
+
+  it('rejects invalid dimensions', async () => {
+    await expect(schema.createCollection('bad', 0)).rejects.toThrow(/Invalid vector dimensions/);
+    await expect(schema.createCollection('bad', 100000)).rejects.toThrow(/Invalid vector dimensions/);
+    expect(sqlite.executed).toHaveLength(0);
+  });
+
+  it('keeps legacy 384-d collections on the shared table', async () => {
+    sqlite.collections.set('legacy', JSON.stringify({ vectorDim: 384, metric: 'cosine' }));
+    expect(await schema.getVectorTable('legacy')).toEqual({ table: DEFAULT_VECTOR_TABLE, dimensions: 384 });
+    expect(sqlite.executed).toHaveLength(0);
+  });
+
+  it('gives legacy collections with other dimensions their own table on first use', async () => {
+    sqlite.collections.set('legacy-large', JSON.stringify({ vectorDim: 3072 }));
+
+    expect(await schema.getVectorTable('legacy-large')).toEqual({ table: 'vec_legacy_large_3072d', dimensions: 3072 });
+    expect(JSON.parse(sqlite.collections.get('legacy-large')!).vectorTable).toBe('vec_legacy_large_3072d');
+  });
+
+  it('fails for unknown collections', async () => {
+    await expect(schema.getVectorTable('missing')).rejects.toThrow(/does not exist/);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit Tests for SearchCursor
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  candidatePoolSize,
+  decodeCursor,
+  encodeCursor,
+  fingerprintSearch,
+  resumeIndex,
+  PAGE_POOL_BLOCK
+} from '../../src/database/worker/search/SearchCursor.js';
+import type { FusedCandidate } from '../../src/database/worker/search/FusionEngine.js';
+import { PaginationError } from '../../src/types/search.js';
+
+function ranked(...entries: Array<[string, number]>): FusedCandidate[] {
+  return entries.map(([id, score]) => ({ id, score, components: {} }));
+}
+
+describe('fingerprintSearch', () => {
+  const request = { query: { text: 'sqlite', vector: new Float32Array([0.1, 0.2]) }, collection: 'docs' };
+
+  it('ignores page selection', () => {
+    expect(fingerprintSearch({ ...request, limit: 5, offset: 20, cursor: 'x' })).toBe(fingerprintSearch(request));
+  });
+
+  it('changes with anything that affects ranking', () => {
+    const base = fingerprintSearch(request);
+    expect(fingerprintSearch({ ...request, query: { ...request.query, text: 'wasm' } })).not.toBe(base);
+    expect(fingerprintSearch({ ...request, query: { ...request.query, vector: new Float32Array([0.1, 0.3]) } })).not.toBe(base);
+    expect(fingerprintSearch({ ...request, fusionWeights: { fts: 0.5, vec: 0.5 } })).not.toBe(base);
+    expect(fingerprintSearch({ ...request, deep: true })).not.toBe(base);
+  });
+});
+
+describe('cursor encoding', () => {
+  const state = { fingerprint: 'abcd1234', lastScore: 0.0325, lastId: '42', position: 20 };
+
+  it('round-trips through a URL-safe string', () => {
+    const cursor = encodeCursor(state);
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, 'abcd1234')).toEqual(state);
+  });
+
+  it('rejects cursors from another query', () => {
+    expect(() => decodeCursor(encodeCursor(state), 'ffffffff')).toThrow(/different query/);
+  });
+
+  it('rejects malformed cursors with PaginationError', () => {
+    expect(() => decodeCursor('not a cursor!', 'abcd1234')).toThrow(PaginationError);
+    expect(() => decodeCursor(btoa('[1,"abcd1234",0.1,"42",-1]'), 'abcd1234')).toThrow(/Malformed/);
+  });
+});
+
+describe('candidatePoolSize', () => {
+  it('keeps early pages on the same candidate pool', () => {
+    expect(candidatePoolSize(0, 10, false, 1000)).toBe(PAGE_POOL_BLOCK);
+    expect(candidatePoolSize(30, 10, false, 1000)).toBe(PAGE_POOL_BLOCK);
+  });
+
+  it('grows with depth, more so for deep pagination, up to the cap', () => {
+    expect(candidatePoolSize(100, 10, false, 1000)).toBe(150);
+    expect(candidatePoolSize(100, 10, true, 1000)).toBe(450);
+    expect(candidatePoolSize(900, 50, true, 1000)).toBe(1000);
+  });
+});
+
+describe('resumeIndex', () => {
+  const list = ranked(['a', 0.9], ['b', 0.7], ['c', 0.7], ['d', 0.4]);
+
+  it('continues right after the last served document', () => {
+    expect(resumeIndex(list, { fingerprint: '', lastScore: 0.7, lastId: 'b', position: 2 })).toBe(2);
+  });
+
+  it('continues below the last score when that document is gone', () => {
+    expect(resumeIndex(list, { fingerprint: '', lastScore: 0.7, lastId: 'z', position: 3 })).toBe(3);
+    expect(resumeIndex(list, { fingerprint: '', lastScore: 0.1, lastId: 'z', position: 4 })).toBe(4);
+  });
+});
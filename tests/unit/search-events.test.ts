@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for persisted search analytics
+ *
+ * SearchEventStore runs against a stand-in for SQLite that records every
+ * statement; SearchEventRecorder writes to an in-memory sink.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SearchEventStore } from '../../src/database/worker/analytics/SearchEventStore.js';
+import { SearchEventRecorder } from '../../src/analytics/SearchEventRecorder.js';
+import { SearchAnalytics } from '../../src/analytics/SearchAnalytics.js';
+import type { SQLiteManager } from '../../src/database/worker/core/SQLiteManager.js';
+import type { SearchEventRecord } from '../../src/types/worker.js';
+
+class FakeSQLite {
+  statements: Array<{ sql: string; params?: any[] }> = [];
+  rows: Record<string, any>[] = [];
+
+  async select(sql: string, params: any[] = []) {
+    this.statements.push({ sql, params });
+    return { rows: this.rows };
+  }
+
+  async exec(sql: string, params?: any[]) {
+    this.statements.push({ sql, params });
+  }
+}
+
+function createStore() {
+  const sqlite = new FakeSQLite();
+  return { sqlite, store: new SearchEventStore(sqlite as unknown as SQLiteManager) };
+}
+
+describe('SearchEventStore', () => {
+  it('writes one row per event', async () => {
+    const { sqlite, store } = createStore();
+
+    await store.record([
+      { type: 'search', queryId: 'q1', timestamp: 1000, method: 'searchText', query: 'sqlite', resultCount: 0, zeroResults: true },
+      { type: 'interaction', queryId: 'q1', timestamp: 2000, action: 'click', targetRank: 1, metadata: { source: 'list' } }
+    ]);
+
+    expect(sqlite.statements).toHaveLength(2);
+    expect(sqlite.statements[0].sql).toMatch(/^INSERT INTO search_events \(type, query_id, /);
+    expect(sqlite.statements[0].params).toEqual([
+      'search', 'q1', null, 1000, 'searchText', 'sqlite', null, null, null, 0, 1, null, null, null, null, null, null
+    ]);
+    expect(sqlite.statements[1].params?.at(-1)).toBe('{"source":"list"}');
+  });
+
+  it('filters events and maps rows back to records', async () => {
+    const { sqlite, store } = createStore();
+    sqlite.rows = [{
+      id: 7, type: 'search', query_id: 'q1', session_id: 's1', timestamp: 1000, method: 'search', query: 'wasm',
+      collection: null, strategy: 'hybrid', latency_ms: 12.5, result_count: 0, zero_results: 1, error: null,
+      action: null, target_id: null, target_rank: null, dwell_time: null, metadata: null
+    }];
+
+    const events = await store.query({ type: 'search', zeroResults: true, since: 500 });
+
+    expect(sqlite.statements[0].sql).toContain('WHERE type = ? AND zero_results = ? AND timestamp >= ?');
+    expect(sqlite.statements[0].params).toEqual(['search', 1, 500, 100]);
+    expect(events).toEqual<SearchEventRecord[]>([{
+      id: 7, type: 'search', queryId: 'q1', sessionId: 's1', timestamp: 1000, method: 'search', query: 'wasm',
+      strategy: 'hybrid', latencyMs: 12.5, resultCount: 0, zeroResults: true
+    }]);
+  });
+
+  it('aggregates zero-result queries, skipping failed searches', async () => {
+    const { sqlite, store } = createStore();
+    sqlite.rows = [{ query: 'pricing', collection: 'docs', count: 3, last_seen: 9000 }];
+
+    const queries = await store.zeroResultQueries({ collection: 'docs', limit: 5 });
+
+    expect(sqlite.statements[0].sql).toContain('zero_results = 1 AND error IS NULL');
+    expect(sqlite.statements[0].params).toEqual(['docs', 5]);
+    expect(queries).toEqual([{ query: 'pricing', collection: 'docs', count: 3, lastSeen: 9000 }]);
+  });
+
+  it('prunes only when there is something to delete', async () => {
+    const { sqlite, store } = createStore();
+    sqlite.rows = [{ count: 0 }];
+    expect(await store.prune(5000)).toBe(0);
+    expect(sqlite.statements.some(statement => statement.sql.startsWith('DELETE'))).toBe(false);
+
+    sqlite.rows = [{ count: 4 }];
+    expect(await store.prune(5000)).toBe(4);
+    expect(sqlite.statements.at(-1)).toEqual({ sql: 'DELETE FROM search_events WHERE timestamp < ?', params: [5000] });
+  });
+});
+
+describe('SearchEventRecorder', () => {
+  let analytics: SearchAnalytics;
+
+  function createRecorder(sink = vi.fn(async (_events: SearchEventRecord[]) => {})) {
+    analytics = new SearchAnalytics({ privacy: { hashQueries: false, anonymizeSessions: false, excludePersonalData: true } });
+    return { sink, recorder: new SearchEventRecorder(analytics, sink, 'session-1') };
+  }
+
+  afterEach(() => {
+    analytics.dispose();
+  });
+
+  it('records results and returns a queryId', async () => {
+    const { sink, recorder } = createRecorder();
+    const resultEvents: any[] = [];
+    analytics.addEventListener('result', event => resultEvents.push(event));
+
+    const response = await recorder.track({ method: 'searchText', query: 'sqlite', collection: 'docs' }, async () => ({
+      results: [{ score: 0.9 }, { score: 0.4 }],
+      totalResults: 2,
+      searchTime: 5,
+      strategy: 'keyword'
+    }));
+    await recorder.flush();
+
+    expect(response.queryId).toMatch(/^query_/);
+    expect(resultEvents[0]).toMatchObject({ queryId: response.queryId, strategy: 'keyword', returnedResults: 2 });
+    expect(sink.mock.calls[0][0][0]).toMatchObject({
+      type: 'search',
+      queryId: response.queryId,
+      sessionId: 'session-1',
+      method: 'searchText',
+      query: 'sqlite',
+      collection: 'docs',
+      strategy: 'keyword',
+      resultCount: 2,
+      zeroResults: false
+    });
+  });
+
+  it('hashes queries and anonymizes sessions per the privacy settings', async () => {
+    analytics = new SearchAnalytics({ privacy: { hashQueries: true, anonymizeSessions: true, excludePersonalData: true } });
+    const sink = vi.fn(async (_events: SearchEventRecord[]) => {});
+    const recorder = new SearchEventRecorder(analytics, sink, 'session-1');
+
+    const response = await recorder.track({ method: 'searchText', query: 'Private Query' }, async () => ({ results: [] }));
+    await recorder.trackInteraction(response.queryId!, 'click');
+    await recorder.flush();
+
+    const [search] = sink.mock.calls[0][0];
+    const [interaction] = sink.mock.calls[1][0];
+    expect(search.query).toBe(analytics.storableQuery('private query'));
+    expect(search.query).not.toContain('Private');
+    expect(search.sessionId).not.toBe('session-1');
+    expect(interaction.sessionId).toBe(search.sessionId);
+  });
+
+  it('flags zero results and falls back to the method strategy', async () => {
+    const { sink, recorder } = createRecorder();
+
+    await recorder.track({ method: 'searchSemantic', query: 'nothing here' }, async () => ({ results: [], totalResults: 0 }));
+    await recorder.flush();
+
+    expect(sink.mock.calls[0][0][0]).toMatchObject({ strategy: 'semantic', resultCount: 0, zeroResults: true });
+  });
+
+  it('records failures and rethrows them unchanged', async () => {
+    const { sink, recorder } = createRecorder();
+    const failure = new Error('fts5: syntax error');
+
+    await expect(recorder.track({ method: 'search', query: 'a"' }, async () => { throw failure; })).rejects.toBe(failure);
+    await recorder.flush();
+
+    expect(sink.mock.calls[0][0][0]).toMatchObject({ method: 'search', error: 'fts5: syntax error' });
+    expect(sink.mock.calls[0][0][0].zeroResults).toBeUndefined();
+  });
+
+  it('never fails a search because an event could not be saved', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { recorder } = createRecorder(vi.fn(async () => { throw new Error('worker closed'); }));
+
+    const response = await recorder.track({ method: 'search' }, async () => ({ results: [] }));
+    await recorder.flush();
+
+    expect(response.results).toEqual([]);
+    expect(warn).toHaveBeenCalledWith('Failed to persist search event:', expect.any(Error));
+    warn.mockRestore();
+  });
+
+  it('persists interactions with dwell time', async () => {
+    const { sink, recorder } = createRecorder();
+
+    await recorder.trackInteraction('query-1', 'click', { targetId: 'doc-3', targetRank: 2, dwellTime: 15000 });
+
+    expect(sink.mock.calls[0][0][0]).toMatchObject({
+      type: 'interaction',
+      queryId: 'query-1',
+      sessionId: 'session-1',
+      action: 'click',
+      targetId: 'doc-3',
+      targetRank: 2,
+      dwellTime: 15000
+    });
+  });
+});
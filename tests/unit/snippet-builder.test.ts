@@ -0,0 +1,54 @@
+/**
+ * Unit Tests for SnippetBuilder
+ *
+ * Covers the TypeScript markup used for vector and LIKE hits, which must
+ * match the same words FTS5 unicode61 would.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSnippet, foldTerm, highlightText, queryTerms } from '../../src/database/worker/search/SnippetBuilder.js';
+
+describe('foldTerm', () => {
+  it('folds case and Latin diacritics like unicode61', () => {
+    expect(foldTerm('Café')).toBe('cafe');
+    expect(foldTerm('ПОИСК')).toBe('поиск');
+  });
+
+  it('keeps Cyrillic letters with diacritics distinct', () => {
+    expect(foldTerm('Мой')).toBe('мой');
+    expect(foldTerm('Ёлка')).toBe('ёлка');
+  });
+});
+
+describe('highlightText', () => {
+  it('marks whole-token matches only', () => {
+    expect(highlightText('SQLite and sqlite-vec, not sqlites', queryTerms('sqlite'))).toBe(
+      '<mark>SQLite</mark> and <mark>sqlite</mark>-vec, not sqlites'
+    );
+  });
+
+  it('handles Cyrillic text and custom tags', () => {
+    expect(highlightText('Векторный Поиск в браузере', queryTerms('поиск браузере'), { pre: '[', post: ']' })).toBe(
+      'Векторный [Поиск] в [браузере]'
+    );
+  });
+});
+
+describe('buildSnippet', () => {
+  const text = 'one two three four five six seven eight nine ten eleven twelve';
+
+  it('picks the window with the most distinct query terms', () => {
+    expect(buildSnippet(text, queryTerms('two nine ten'), { contextWindow: 1 })).toBe(
+      '...eight <mark>nine</mark> <mark>ten</mark>...'
+    );
+  });
+
+  it('falls back to the start of the text without matches', () => {
+    expect(buildSnippet(text, queryTerms('zero'), { contextWindow: 1 })).toBe('one two three...');
+    expect(buildSnippet('', queryTerms('zero'))).toBe('');
+  });
+
+  it('returns short texts whole', () => {
+    expect(buildSnippet('Локальный поиск', queryTerms('поиск'))).toBe('Локальный <mark>поиск</mark>');
+  });
+});
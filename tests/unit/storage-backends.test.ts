@@ -0,0 +1,422 @@
+/**
+ * Unit Tests for the pluggable storage backends
+ *
+ * OPFS sync access handles are replaced by in-memory files, and the WASM
+ * module by a small heap with a function table, so the VFS callbacks can be
+ * called the way SQLite would call them.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SyncAccessHandlePool, HEADER_SIZE } from '../../src/database/worker/storage/SyncAccessHandlePool.js';
+import { OPFSSAHPoolVfs } from '../../src/database/worker/storage/OPFSSAHPoolVfs.js';
+import { OPFSSAHPoolBackend } from '../../src/database/worker/storage/OPFSSAHPoolBackend.js';
+import { encodeSnapshot } from '../../src/database/worker/core/SnapshotFormat.js';
+import { selectStorageBackend, createStorageBackend, type StorageEnvironment } from '../../src/database/worker/storage/StorageBackendFactory.js';
+import { OPFSManager } from '../../src/database/worker/core/OPFSManager.js';
+import {
+  SQLITE_OK,
+  SQLITE_CANTOPEN,
+  SQLITE_IOERR_SHORT_READ,
+  SQLITE_OPEN_CREATE,
+  SQLITE_OPEN_READWRITE,
+  SQLITE_OPEN_DELETEONCLOSE
+} from '../../src/database/worker/core/SQLite3Module.js';
+
+class FakeSyncHandle {
+  closed = false;
+  constructor(private file: { data: Uint8Array }) {}
+
+  read(buffer: Uint8Array, options?: { at?: number }) {
+    const at = options?.at ?? 0;
+    const chunk = this.file.data.subarray(at, at + buffer.length);
+    buffer.set(chunk);
+    return chunk.length;
+  }
+
+  write(buffer: Uint8Array, options?: { at?: number }) {
+    const at = options?.at ?? 0;
+    if (at + buffer.length > this.file.data.length) {
+      this.truncate(at + buffer.length);
+    }
+    this.file.data.set(buffer, at);
+    return buffer.length;
+  }
+
+  truncate(size: number) {
+    const data = new Uint8Array(size);
+    data.set(this.file.data.subarray(0, size));
+    this.file.data = data;
+  }
+
+  getSize() { return this.file.data.length; }
+  flush() {}
+  close() { this.closed = true; }
+}
+
+class FakeSyncDirectory {
+  files = new Map<string, { data: Uint8Array }>();
+  directories = new Map<string, FakeSyncDirectory>();
+  handles: FakeSyncHandle[] = [];
+
+  async getDirectoryHandle(name: string) {
+    if (!this.directories.has(name)) {
+      this.directories.set(name, new FakeSyncDirectory());
+    }
+    return this.directories.get(name)!;
+  }
+
+  async getFileHandle(name: string) {
+    if (!this.files.has(name)) {
+      this.files.set(name, { data: new Uint8Array(0) });
+    }
+    const file = this.files.get(name)!;
+    return {
+      createSyncAccessHandle: async () => {
+        const handle = new FakeSyncHandle(file);
+        this.handles.push(handle);
+        return handle;
+      }
+    };
+  }
+}
+
+/**
+ * Just enough of the Emscripten module for the VFS: a heap, a bump allocator and a function table
+ */
+class FakeModule {
+  HEAPU8 = new Uint8Array(1 << 16);
+  table: Array<(...args: any[]) => number> = [() => 0];
+  registered: number[] = [];
+  private next = 8;
+  private view = new DataView(this.HEAPU8.buffer);
+  private defaultVfs: number;
+
+  constructor() {
+    this.defaultVfs = this._malloc(76);
+    this.setValue(this.defaultVfs, 2, 'i32');
+    this.setValue(this.defaultVfs + 56, this.addFunction(() => SQLITE_OK), 'i32');  // xRandomness
+  }
+
+  _malloc(size: number) {
+    const ptr = this.next;
+    this.next += (size + 7) & ~7;
+    return ptr;
+  }
+  _free() {}
+  setValue(ptr: number, value: number, _type: string) { this.view.setInt32(ptr, value, true); }
+  getValue(ptr: number, _type: string) { return this.view.getInt32(ptr, true); }
+  UTF8ToString(ptr: number) {
+    const end = this.HEAPU8.indexOf(0, ptr);
+    return new TextDecoder().decode(this.HEAPU8.subarray(ptr, end));
+  }
+  stringToUTF8(value: string, ptr: number, max: number) {
+    const bytes = new TextEncoder().encode(value).subarray(0, max - 1);
+    this.HEAPU8.set(bytes, ptr);
+    this.HEAPU8[ptr + bytes.length] = 0;
+  }
+  addFunction(fn: (...args: any[]) => number) {
+    this.table.push(fn);
+    return this.table.length - 1;
+  }
+  _sqlite3_open_v2() { return SQLITE_OK; }
+  _sqlite3_vfs_find() { return this.defaultVfs; }
+  _sqlite3_vfs_register(vfs: number) {
+    this.registered.push(vfs);
+    return SQLITE_OK;
+  }
+
+  /** Call a function pointer stored at `ptr + offset` */
+  call(ptr: number, offset: number, ...args: any[]) {
+    return this.table[this.getValue(ptr + offset, 'i32')](...args);
+  }
+
+  string(value: string) {
+    const ptr = this._malloc(value.length + 1);
+    this.stringToUTF8(value, ptr, value.length + 1);
+    return ptr;
+  }
+}
+
+let root: FakeSyncDirectory;
+
+beforeEach(() => {
+  root = new FakeSyncDirectory();
+  vi.stubGlobal('navigator', { storage: { getDirectory: async () => root } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('SyncAccessHandlePool', () => {
+  it('keeps path assignments and content across reopening', async () => {
+    const pool = new SyncAccessHandlePool('data/app.db.sahpool', 3);
+    await pool.open();
+
+    pool.allocate('/app.db', 0x100);
+    pool.write('/app.db', new Uint8Array([1, 2, 3]), 2);
+    expect(pool.getSize('/app.db')).toBe(5);
+    pool.close();
+
+    const reopened = new SyncAccessHandlePool('data/app.db.sahpool', 3);
+    await reopened.open();
+
+    expect(reopened.has('/app.db')).toBe(true);
+    expect(reopened.getFlags('/app.db')).toBe(0x100);
+    expect(reopened.readFile('/app.db')).toEqual(new Uint8Array([0, 0, 1, 2, 3]));
+    expect(root.directories.get('data')!.directories.get('app.db.sahpool')!.files.get('slot-0')!.data.length)
+      .toBe(HEADER_SIZE + 5);
+  });
+
+  it('reuses released slots and reports a full pool', async () => {
+    const pool = new SyncAccessHandlePool('pool', 2);
+    await pool.open();
+
+    pool.allocate('/a', 0);
+    pool.allocate('/b', 0);
+    expect(() => pool.allocate('/c', 0)).toThrow(/pool is full/);
+
+    expect(pool.release('/a')).toBe(true);
+    expect(pool.release('/a')).toBe(false);
+    pool.writeFile('/c', new Uint8Array([7]));
+    expect(pool.readFile('/c')).toEqual(new Uint8Array([7]));
+  });
+
+  it('closes every handle', async () => {
+    const pool = new SyncAccessHandlePool('pool', 2);
+    await pool.open();
+    pool.close();
+
+    expect(root.directories.get('pool')!.handles.every(handle => handle.closed)).toBe(true);
+    expect(pool.has('/a')).toBe(false);
+  });
+});
+
+describe('OPFSSAHPoolVfs', () => {
+  // Offsets into sqlite3_vfs and sqlite3_io_methods
+  const XOPEN = 24, XDELETE = 28, XACCESS = 32, XFULLPATHNAME = 36, XRANDOMNESS = 56;
+  const XCLOSE = 4, XREAD = 8, XWRITE = 12, XTRUNCATE = 16, XFILESIZE = 24;
+
+  let sqlite3: FakeModule;
+  let pool: SyncAccessHandlePool;
+  let vfs: number;
+
+  beforeEach(async () => {
+    sqlite3 = new FakeModule();
+    pool = new SyncAccessHandlePool('pool', 3);
+    await pool.open();
+    new OPFSSAHPoolVfs(sqlite3 as any).attach(pool);
+    vfs = sqlite3.registered[0];
+  });
+
+  const open = (name: string | null, flags: number) => {
+    const pFile = sqlite3._malloc(8);
+    const pOutFlags = sqlite3._malloc(4);
+    const rc = sqlite3.call(vfs, XOPEN, vfs, name === null ? 0 : sqlite3.string(name), pFile, flags, pOutFlags);
+    return { rc, pFile, methods: sqlite3.getValue(pFile, 'i32') };
+  };
+
+  it('registers a version 2 VFS inheriting helpers from the default VFS', () => {
+    expect(sqlite3.registered).toHaveLength(1);
+    expect(sqlite3.getValue(vfs, 'i32')).toBe(2);
+    expect(sqlite3.UTF8ToString(sqlite3.getValue(vfs + 16, 'i32'))).toBe('opfs-sahpool');
+    expect(sqlite3.getValue(vfs + XRANDOMNESS, 'i32')).not.toBe(0);
+    expect(sqlite3.getValue(vfs + XRANDOMNESS, 'i32')).toBe(sqlite3.getValue(sqlite3._sqlite3_vfs_find() + XRANDOMNESS, 'i32'));
+  });
+
+  it('opens, writes, reads and truncates files in the pool', () => {
+    expect(open('/app.db', SQLITE_OPEN_READWRITE).rc).toBe(SQLITE_CANTOPEN);
+
+    const { rc, pFile, methods } = open('/app.db', SQLITE_OPEN_READWRITE | SQLITE_OPEN_CREATE);
+    expect(rc).toBe(SQLITE_OK);
+
+    const buffer = sqlite3._malloc(8);
+    sqlite3.HEAPU8.set([1, 2, 3, 4], buffer);
+    expect(sqlite3.call(methods, XWRITE, pFile, buffer, 4, 10n)).toBe(SQLITE_OK);
+    expect(pool.readFile('/app.db').subarray(10)).toEqual(new Uint8Array([1, 2, 3, 4]));
+
+    const pSize = sqlite3._malloc(8);
+    sqlite3.call(methods, XFILESIZE, pFile, pSize);
+    expect(sqlite3.getValue(pSize, 'i32')).toBe(14);
+    expect(sqlite3.getValue(pSize + 4, 'i32')).toBe(0);
+
+    // Reading past the end zero-fills the rest
+    sqlite3.HEAPU8.fill(9, buffer, buffer + 8);
+    expect(sqlite3.call(methods, XREAD, pFile, buffer, 8, 10n)).toBe(SQLITE_IOERR_SHORT_READ);
+    expect(sqlite3.HEAPU8.subarray(buffer, buffer + 8)).toEqual(new Uint8Array([1, 2, 3, 4, 0, 0, 0, 0]));
+
+    expect(sqlite3.call(methods, XTRUNCATE, pFile, 2n)).toBe(SQLITE_OK);
+    expect(pool.getSize('/app.db')).toBe(2);
+
+    expect(sqlite3.call(methods, XCLOSE, pFile)).toBe(SQLITE_OK);
+    expect(pool.has('/app.db')).toBe(true);
+  });
+
+  it('answers access checks and deletes files', () => {
+    const pResOut = sqlite3._malloc(4);
+    open('/app.db-journal', SQLITE_OPEN_CREATE);
+
+    sqlite3.call(vfs, XACCESS, vfs, sqlite3.string('/app.db-journal'), 0, pResOut);
+    expect(sqlite3.getValue(pResOut, 'i32')).toBe(1);
+
+    expect(sqlite3.call(vfs, XDELETE, vfs, sqlite3.string('/app.db-journal'), 0)).toBe(SQLITE_OK);
+    sqlite3.call(vfs, XACCESS, vfs, sqlite3.string('/app.db-journal'), 0, pResOut);
+    expect(sqlite3.getValue(pResOut, 'i32')).toBe(0);
+  });
+
+  it('releases delete-on-close and unnamed temp files when closed', () => {
+    const temp = open(null, SQLITE_OPEN_CREATE | SQLITE_OPEN_DELETEONCLOSE);
+    expect(temp.rc).toBe(SQLITE_OK);
+
+    sqlite3.call(temp.methods, XCLOSE, temp.pFile);
+
+    // All three slots are free again
+    expect(() => ['/a', '/b', '/c'].forEach(name => pool.allocate(name, 0))).not.toThrow();
+  });
+
+  it('makes paths absolute', () => {
+    const out = sqlite3._malloc(64);
+    expect(sqlite3.call(vfs, XFULLPATHNAME, vfs, sqlite3.string('app.db'), 64, out)).toBe(SQLITE_OK);
+    expect(sqlite3.UTF8ToString(out)).toBe('/app.db');
+  });
+
+  it('turns pool errors into SQLite error codes', () => {
+    const { pFile, methods } = open('/app.db', SQLITE_OPEN_CREATE);
+    pool.close();
+
+    const buffer = sqlite3._malloc(4);
+    expect(sqlite3.call(methods, XREAD, pFile, buffer, 4, 0n)).not.toBe(SQLITE_OK);
+  });
+});
+
+describe('OPFSSAHPoolBackend snapshot import', () => {
+  const sqliteBytes = (...payload: number[]) =>
+    new Uint8Array([...new TextEncoder().encode('SQLite format 3\0'), ...payload]);
+
+  async function openWithSnapshots(snapshots: Record<string, Uint8Array>) {
+    const backend = new OPFSSAHPoolBackend({ getSQLite3Module: () => new FakeModule() } as any, { log: () => undefined }, 3);
+    // Snapshot files written by the memory backend, next to the pool directory
+    (backend as any).files = { read: async (path: string) => snapshots[path] ?? null };
+    await backend.open('opfs:/data/app.db');
+    return (backend as any).pool as SyncAccessHandlePool;
+  }
+
+  it('imports the newest valid snapshot, including the temp and previous files', async () => {
+    const pool = await openWithSnapshots({
+      'data/app.db': encodeSnapshot(sqliteBytes(1), 1000),
+      'data/app.db.tmp': encodeSnapshot(sqliteBytes(2), 2000),
+      'data/app.db.prev': encodeSnapshot(sqliteBytes(0), 500)
+    });
+
+    expect(pool.readFile('/app.db')).toEqual(sqliteBytes(2));
+  });
+
+  it('falls back to the previous snapshot when the main file is damaged', async () => {
+    const pool = await openWithSnapshots({
+      'data/app.db': new Uint8Array([1, 2, 3]),
+      'data/app.db.prev': encodeSnapshot(sqliteBytes(9), 500)
+    });
+
+    expect(pool.readFile('/app.db')).toEqual(sqliteBytes(9));
+  });
+
+  it('fails the open instead of starting empty when no snapshot is valid', async () => {
+    await expect(openWithSnapshots({ 'data/app.db': new Uint8Array([1, 2, 3]) })).rejects.toThrow(/no valid snapshot/);
+
+    // Nothing was imported, so the next open tries again
+    const pool = new SyncAccessHandlePool('data/app.db.sahpool', 3);
+    await pool.open();
+    expect(pool.has('/app.db')).toBe(false);
+  });
+
+  it('starts an empty database when there is no snapshot', async () => {
+    const pool = await openWithSnapshots({});
+    expect(pool.has('/app.db')).toBe(false);
+  });
+});
+
+describe('selectStorageBackend', () => {
+  const browser: StorageEnvironment = { syncAccessHandles: true, customVfs: true, node: false };
+
+  it('uses the OPFS VFS for opfs:/ paths when the environment supports it', () => {
+    expect(selectStorageBackend('auto', 'opfs:/app.db', browser)).toBe('opfs-sahpool');
+    expect(selectStorageBackend('auto', 'opfs:/app.db', { ...browser, syncAccessHandles: false })).toBe('memory');
+    expect(selectStorageBackend('auto', 'opfs:/app.db', { ...browser, customVfs: false })).toBe('memory');
+  });
+
+  it('keeps in-memory databases in memory', () => {
+    expect(selectStorageBackend('opfs-sahpool', ':memory:', browser)).toBe('memory');
+    expect(selectStorageBackend('auto', 'app.db', { ...browser, node: true })).toBe('memory');
+  });
+
+  it('falls back to memory when an explicit backend is unavailable', () => {
+    const logger = { log: vi.fn() };
+
+    expect(selectStorageBackend('node-fs', 'app.db', browser, logger)).toBe('memory');
+    expect(logger.log).toHaveBeenCalledWith('warn', expect.stringContaining('node-fs is not available'));
+    expect(selectStorageBackend('node-fs', 'app.db', { ...browser, node: true })).toBe('node-fs');
+    expect(selectStorageBackend('memory', 'opfs:/app.db', browser)).toBe('memory');
+  });
+});
+
+describe('node-fs storage backend', () => {
+  let dir: string;
+  let content: Uint8Array;
+  let marker: string;
+  const sqlite = {
+    isConnected: () => true,
+    getChangeMarker: async () => marker,
+    serialize: async () => content
+  };
+
+  beforeEach(async () => {
+    vi.unstubAllGlobals();
+    dir = await mkdtemp(join(tmpdir(), 'localretrieve-storage-'));
+    content = new Uint8Array([1, 2, 3]);
+    marker = 'm1';
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const createBackend = () => createStorageBackend('node-fs', {
+    sqliteManager: sqlite as any,
+    opfsManager: new OPFSManager(sqlite as any, { log: () => undefined }),
+    logger: { log: () => undefined }
+  });
+
+  it('writes snapshots to disk and restores them on the next open', async () => {
+    const backend = createBackend();
+    const target = await backend.open(join(dir, 'app.db'));
+    expect(target).toEqual({ filename: ':memory:' });
+    expect(backend.takeRestoreData()).toBeNull();
+
+    await backend.flush();
+    content = new Uint8Array([4, 5]);
+    marker = 'm2';
+    await backend.flush();
+    await backend.close();
+    expect((await readdir(dir)).sort()).toEqual(['app.db', 'app.db.prev']);
+
+    const reopened = createBackend();
+    await reopened.open(join(dir, 'app.db'));
+    expect(reopened.takeRestoreData()).toEqual(new Uint8Array([4, 5]));
+    expect(reopened.takeRestoreData()).toBeNull();
+    await reopened.close();
+  });
+
+  it('clears the stored database', async () => {
+    const backend = createBackend();
+    await backend.open(join(dir, 'app.db'));
+    await backend.flush();
+
+    await backend.clear();
+
+    expect(await readdir(dir)).toEqual([]);
+    await backend.close();
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Unit Tests for multi-tab coordination
+ *
+ * Each "tab" is a TabCoordinator with a WorkerRPC on top. BroadcastChannel,
+ * the Web Locks API and the database worker are in-memory stand-ins, so
+ * several tabs can run in one test.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabCoordinator } from '../../src/utils/tabCoordinator.js';
+import { WorkerRPC } from '../../src/utils/rpc.js';
+
+class FakeBroadcastChannel {
+  static channels = new Set<FakeBroadcastChannel>();
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: unknown) {
+    const copy = structuredClone(data);
+    for (const channel of FakeBroadcastChannel.channels) {
+      if (channel !== this && channel.name === this.name) {
+        setTimeout(() => channel.onmessage?.({ data: copy }), 0);
+      }
+    }
+  }
+
+  close() {
+    FakeBroadcastChannel.channels.delete(this);
+  }
+}
+
+/**
+ * Exclusive locks with ifAvailable and abortable waiting; crash() drops a
+ * lock the way the browser does when the holding tab dies
+ */
+class FakeLockManager {
+  private holders = new Map<string, { release: () => void }>();
+  private waiting: Array<{ name: string; grant: () => void }> = [];
+
+  async request(name: string, options: { ifAvailable?: boolean; signal?: AbortSignal }, callback: (lock: unknown) => Promise<unknown>) {
+    if (this.holders.has(name)) {
+      if (options.ifAvailable) {
+        return callback(null);
+      }
+      await new Promise<void>((grant, reject) => {
+        const entry = { name, grant };
+        this.waiting.push(entry);
+        options.signal?.addEventListener('abort', () => {
+          this.waiting = this.waiting.filter(candidate => candidate !== entry);
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      });
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.holders.delete(name);
+      const next = this.waiting.find(candidate => candidate.name === name);
+      if (next) {
+        this.waiting = this.waiting.filter(candidate => candidate !== next);
+        next.grant();
+      }
+    };
+    this.holders.set(name, { release });
+    try {
+      return await callback({ name });
+    } finally {
+      release();
+    }
+  }
+
+  crash(name: string) {
+    this.holders.get(name)?.release();
+  }
+}
+
+/**
+ * Database worker stand-in; every instance shares the same "database"
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  static rows: string[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror = null;
+  onmessageerror = null;
+  received: Array<{ id: string; method: string; params?: any }> = [];
+  terminated = false;
+  hold = new Set<string>();   // Methods left unanswered
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: { id: string; method: string; params?: any }) {
+    this.received.push(message);
+    if (this.hold.has(message.method)) {
+      return;
+    }
+
+    setTimeout(() => {
+      if (this.terminated) {
+        return;
+      }
+      switch (message.method) {
+        case 'exec':
+          FakeWorker.rows.push(message.params.sql);
+          this.reply({ id: message.id, result: undefined });
+          break;
+        case 'select':
+          this.reply({ id: message.id, result: { rows: [...FakeWorker.rows] } });
+          break;
+        default:
+          this.reply({ id: message.id, result: undefined });
+      }
+    }, 0);
+  }
+
+  emit(event: { type: string; data: unknown }) {
+    this.reply({ type: 'event', event });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  private reply(data: unknown) {
+    this.onmessage?.({ data });
+  }
+}
+
+let locks: FakeLockManager;
+
+function openTab(tabId: string) {
+  const coordinator = new TabCoordinator({
+    name: 'opfs:/app.db',
+    tabId,
+    createWorker: () => new FakeWorker() as any
+  });
+  const rpc = new WorkerRPC(coordinator, { logLevel: 'error' });
+  return { coordinator, rpc };
+}
+
+const settle = async (rounds = 5) => {
+  for (let i = 0; i < rounds; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+};
+
+beforeEach(() => {
+  locks = new FakeLockManager();
+  FakeWorker.instances = [];
+  FakeWorker.rows = [];
+  FakeBroadcastChannel.channels.clear();
+  vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+  vi.stubGlobal('navigator', { locks });
+  vi.spyOn(console, 'info').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('TabCoordinator', () => {
+  it('reports support only where Web Locks and BroadcastChannel exist', () => {
+    expect(TabCoordinator.isSupported()).toBe(true);
+    vi.stubGlobal('navigator', {});
+    expect(TabCoordinator.isSupported()).toBe(false);
+  });
+
+  it('makes the first tab the leader and runs the worker there', async () => {
+    const a = openTab('a');
+    await a.rpc.open({ filename: 'opfs:/app.db' });
+    await a.rpc.exec({ sql: 'INSERT 1' });
+
+    expect(a.coordinator.getRole()).toBe('leader');
+    expect(FakeWorker.instances).toHaveLength(1);
+    expect(FakeWorker.instances[0].received.map(message => message.method)).toEqual(['open', 'exec']);
+  });
+
+  it('proxies follower calls to the leader worker without reopening the database', async () => {
+    const a = openTab('a');
+    await a.rpc.open({ filename: 'opfs:/app.db' });
+
+    const b = openTab('b');
+    await b.rpc.open({ filename: 'opfs:/app.db' });
+    await b.rpc.exec({ sql: 'INSERT from b' });
+    const result = await b.rpc.select({ sql: 'SELECT' });
+
+    expect(b.coordinator.getRole()).toBe('follower');
+    expect(FakeWorker.instances).toHaveLength(1);
+    expect(result).toEqual({ rows: ['INSERT from b'] });
+    expect(FakeWorker.instances[0].received.map(message => message.method)).toEqual(['open', 'exec', 'select']);
+    expect(FakeWorker.instances[0].received[1].id).toMatch(/^b\//);
+  });
+
+  it('raises change events in the other tabs after a write', async () => {
+    const a = openTab('a');
+    await a.rpc.open({ filename: 'opfs:/app.db' });
+    const b = openTab('b');
+    await b.rpc.open({ filename: 'opfs:/app.db' });
+    const c = openTab('c');
+    await c.rpc.open({ filename: 'opfs:/app.db' });
+
+    const events = { a: vi.fn(), b: vi.fn(), c: vi.fn() };
+    a.rpc.onEvent(events.a);
+    b.rpc.onEvent(events.b);
+    c.rpc.onEvent(events.c);
+
+    await b.rpc.exec({ sql: 'INSERT from b' });
+    await b.rpc.select({ sql: 'SELECT' });
+    await settle();
+
+    const change = { type: 'database_changed', data: { method: 'exec', tabId: 'b' } };
+    expect(events.a).toHaveBeenCalledWith(change);
+    expect(events.c).toHaveBeenCalledWith(change);
+    expect(events.b).not.toHaveBeenCalled();
+    expect(events.a).toHaveBeenCalledTimes(1);
+  });
+
+  it('relays worker events to follower tabs', async () => {
+    const a = openTab('a');
+    await a.rpc.open({ filename: 'opfs:/app.db' });
+    const b = openTab('b');
+    await b.rpc.open({ filename: 'opfs:/app.db' });
+    const listener = vi.fn();
+    b.rpc.onEvent(listener);
+
+    FakeWorker.instances[0].emit({ type: 'embedding_completed', data: { collection: 'default' } });
+    await settle();
+
+    expect(listener).toHaveBeenCalledWith({ type: 'embedding_completed', data: { collection: 'default' } });
+  });
+
+  it('hands over to a follower when the leader closes', async () => {
+    const a = openTab('a');
+    await a.rpc.open({ filename: 'opfs:/app.db' });
+    const b = openTab('b');
+    await b.rpc.open({ filename: 'opfs:/app.db', storage: 'opfs-sahpool' });
+    await b.rpc.initializeSchema();
+    await b.rpc.exec({ sql: 'INSERT from b' });
+
+    await a.rpc.close();
+    a.coordinator.terminate();
+    await settle();
+
+    expect(b.coordinator.getRole()).toBe('leader');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    const worker = FakeWorker.instances[1];
+    expect(worker.received.map(message => message.method)).toEqual(['open', 'initializeSchema']);
+    expect(worker.received[0].params).toEqual({ filename: 'opfs:/app.db', storage: 'opfs-sahpool' });
+
+    await expect(b.rpc.select({ sql: 'SELECT' })).resolves.toEqual({ rows: ['INSERT from b'] });
+  });
+
+  it('fails calls that were in flight at a crashed leader and recovers', async () => {
+    const a = openTab('a');
+    await a.rpc.open({ filename: 'opfs:/app.db' });
+    const b = openTab('b');
+    await b.rpc.open({ filename: 'opfs:/app.db' });
+
+    FakeWorker.instances[0].hold.add('exec');
+    const pending = b.rpc.exec({ sql: 'INSERT lost' });
+    await settle();
+
+    // The tab dies: no resign message, the browser drops its lock
+    (a.coordinator as any).channel.close();
+    FakeWorker.instances[0].terminate();
+    locks.crash('localretrieve:opfs:/app.db');
+
+    await expect(pending).rejects.toMatchObject({ code: 'LEADER_CHANGED' });
+    await settle();
+    expect(b.coordinator.getRole()).toBe('leader');
+    await expect(b.rpc.exec({ sql: 'INSERT again' })).resolves.toBeUndefined();
+  });
+
+  it('lets waiting followers go when they close', async () => {
+    const a = openTab('a');
+    await a.rpc.open({ filename: 'opfs:/app.db' });
+    const b = openTab('b');
+    await b.rpc.open({ filename: 'opfs:/app.db' });
+
+    b.coordinator.terminate();
+    a.coordinator.terminate();
+    await settle();
+
+    expect(b.coordinator.getRole()).toBe('closed');
+    expect(FakeWorker.instances).toHaveLength(1);
+  });
+});
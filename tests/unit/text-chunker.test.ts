@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for TextChunker strategies
+ *
+ * Token counts are the library's 4-characters-per-token estimate, so sizes
+ * below are chosen in multiples of 4 characters.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TextChunker, chunkText } from '../../src/embedding/TextChunker.js';
+import { ValidationError } from '../../src/embedding/errors.js';
+
+const word = (index: number) => `w${String(index).padStart(2, '0')}`;  // 3 chars + space = 1 token
+
+describe('TextChunker', () => {
+  it('returns short text as a single chunk and nothing for blank text', () => {
+    expect(chunkText('  Short note.  ')).toEqual([
+      { index: 0, content: 'Short note.', startOffset: 2, endOffset: 13, estimatedTokens: 3 }
+    ]);
+    expect(chunkText(' \n\n ')).toEqual([]);
+  });
+
+  it('keeps every chunk a slice of the original text', () => {
+    const text = 'First paragraph here.\n\nSecond one, a little longer.\n\n\nThird.';
+    for (const strategy of ['fixed', 'sentence', 'paragraph', 'markdown'] as const) {
+      for (const chunk of chunkText(text, { strategy, maxTokens: 6, overlapTokens: 2 })) {
+        expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+      }
+    }
+  });
+
+  it('splits fixed windows on word boundaries with overlap', () => {
+    const text = Array.from({ length: 20 }, (_, i) => word(i)).join(' ');
+
+    const chunks = chunkText(text, { strategy: 'fixed', maxTokens: 8, overlapTokens: 2 });
+
+    expect(chunks.map(chunk => chunk.content.split(' ').length)).toEqual([8, 8, 8]);
+    expect(chunks[0].content.split(' ').at(-1)).toBe('w07');
+    expect(chunks[1].content.split(' ')[0]).toBe('w06');
+    expect(chunks.at(-1)!.content.endsWith('w19')).toBe(true);
+    expect(chunks.every(chunk => chunk.estimatedTokens <= 8)).toBe(true);
+  });
+
+  it('groups whole sentences and carries the last ones over as overlap', () => {
+    const text = 'One two three. Four five six. Seven eight nine. Ten eleven twelve.';
+
+    const chunks = chunkText(text, { strategy: 'sentence', maxTokens: 9, overlapTokens: 5 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      'One two three. Four five six.',
+      'Four five six. Seven eight nine.',
+      'Seven eight nine. Ten eleven twelve.'
+    ]);
+  });
+
+  it('groups paragraphs and splits an oversized one into windows', () => {
+    const long = Array.from({ length: 12 }, (_, i) => word(i)).join(' ');
+    const text = `Intro.\n\nSecond.\n\n${long}\n\nOutro.`;
+
+    const chunks = chunkText(text, { strategy: 'paragraph', maxTokens: 6, overlapTokens: 0 });
+
+    expect(chunks[0].content).toBe('Intro.\n\nSecond.');
+    expect(chunks.slice(1, -1).map(chunk => chunk.content).join(' ')).toBe(long);
+    expect(chunks.at(-1)!.content).toBe('Outro.');
+  });
+
+  it('never crosses markdown sections and records the heading path', () => {
+    const text = [
+      '# Guide',
+      'Welcome.',
+      '## Install',
+      'Run the installer.',
+      '```',
+      '# not a heading',
+      '```',
+      '## Usage',
+      'Open the app.'
+    ].join('\n');
+
+    const chunks = chunkText(text, { strategy: 'markdown', maxTokens: 100, overlapTokens: 0 });
+
+    expect(chunks.map(chunk => [chunk.heading, chunk.content.split('\n')[0]])).toEqual([
+      ['Guide', '# Guide'],
+      ['Guide > Install', '## Install'],
+      ['Guide > Usage', '## Usage']
+    ]);
+    expect(chunks[1].content).toContain('# not a heading');
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => new TextChunker({ maxTokens: 0 })).toThrow(ValidationError);
+    expect(() => new TextChunker({ maxTokens: 10, overlapTokens: 10 })).toThrow(/overlapTokens/);
+    expect(() => new TextChunker({ strategy: 'words' as any })).toThrow(/Unknown chunking strategy/);
+  });
+});